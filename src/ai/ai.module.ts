@@ -1,7 +1,20 @@
 // src/ai/ai.module.ts
 import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
 import { AIModelFactory } from './services/ai-model.factory';
 import { SessionManager } from './services/session.manager';
+import { AIUsageService } from './services/ai-usage.service';
+import { StructuredOutputService } from './services/structured-output.service';
+import { PromptRegistryService } from './services/prompt-registry.service';
+import {
+  AIUsageRecord,
+  AIUsageRecordSchema,
+} from './schemas/ai-usage-record.schema';
+import {
+  PromptVersion,
+  PromptVersionSchema,
+} from './schemas/prompt-version.schema';
+import { PromptRun, PromptRunSchema } from './schemas/prompt-run.schema';
 
 /**
  * AI 模块
@@ -9,11 +22,34 @@ import { SessionManager } from './services/session.manager';
  * 这个模块集中管理所有的 AI 相关服务：
  * - AIModelFactory：AI 模型工厂（初始化模型）
  * - SessionManager：会话管理（管理对话历史）
+ * - AIUsageService：Token 用量和成本统计
+ * - StructuredOutputService：结构化输出校验和自动修复
+ * - PromptRegistryService：Prompt 版本管理和 A/B 实验
  *
  * 任何需要用到 AI 的模块，都应该导入这个 AIModule。
  */
 @Module({
-  providers: [AIModelFactory, SessionManager],
-  exports: [AIModelFactory, SessionManager], // 导出，这样其他模块可以使用
+  imports: [
+    MongooseModule.forFeature([
+      { name: AIUsageRecord.name, schema: AIUsageRecordSchema },
+      { name: PromptVersion.name, schema: PromptVersionSchema },
+      { name: PromptRun.name, schema: PromptRunSchema },
+    ]),
+  ],
+  providers: [
+    AIModelFactory,
+    SessionManager,
+    AIUsageService,
+    StructuredOutputService,
+    PromptRegistryService,
+  ],
+  // 导出，这样其他模块可以使用
+  exports: [
+    AIModelFactory,
+    SessionManager,
+    AIUsageService,
+    StructuredOutputService,
+    PromptRegistryService,
+  ],
 })
 export class AIModule {}
@@ -0,0 +1,109 @@
+import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
+import type { AIMessage } from '@langchain/core/messages';
+import type { ChatGeneration, LLMResult } from '@langchain/core/outputs';
+import { AIFeature } from '../schemas/ai-usage-record.schema';
+import type {
+  AIUsageScope,
+  AIUsageService,
+} from '../services/ai-usage.service';
+
+interface TokenUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+}
+
+/**
+ * Token 用量回调
+ *
+ * 挂在 AIModelFactory 创建的每个模型上，模型调用结束（包括流式调用）时读取真实的 Token 用量并记录。
+ * 输出解析器（如 JsonOutputParser）会丢掉用量信息，所以必须在模型层记录。
+ */
+export class TokenUsageCallbackHandler extends BaseCallbackHandler {
+  name = 'token_usage';
+
+  private startTimes = new Map<string, number>();
+
+  constructor(
+    private readonly usageService: AIUsageService,
+    private readonly feature: AIFeature,
+    private readonly model: string,
+    private readonly scope: AIUsageScope = {},
+    private readonly traceId?: string,
+  ) {
+    // 等待回调执行完成，保证调用返回时用量已经记录
+    super({ _awaitHandler: true });
+  }
+
+  handleChatModelStart(_llm: unknown, _messages: unknown, runId: string) {
+    this.startTimes.set(runId, Date.now());
+  }
+
+  handleLLMStart(_llm: unknown, _prompts: string[], runId: string) {
+    this.startTimes.set(runId, Date.now());
+  }
+
+  async handleLLMEnd(output: LLMResult, runId: string): Promise<void> {
+    const usage = this.extractTokenUsage(output);
+    const promptTokens = usage.promptTokens || 0;
+    const completionTokens = usage.completionTokens || 0;
+
+    await this.usageService.record({
+      scope: this.scope,
+      feature: this.feature,
+      model: this.model,
+      promptTokens,
+      completionTokens,
+      totalTokens: usage.totalTokens || promptTokens + completionTokens,
+      responseTime: this.elapsed(runId),
+      status: 'success',
+      traceId: this.traceId,
+    });
+  }
+
+  async handleLLMError(error: Error, runId: string): Promise<void> {
+    await this.usageService.record({
+      scope: this.scope,
+      feature: this.feature,
+      model: this.model,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      responseTime: this.elapsed(runId),
+      status: 'failed',
+      errorMessage: error?.message,
+      traceId: this.traceId,
+    });
+  }
+
+  /**
+   * 读取用量：优先使用消息上的 usage_metadata（流式调用也有），
+   * 否则使用 llmOutput.tokenUsage
+   */
+  private extractTokenUsage(output: LLMResult): TokenUsage {
+    const generation = output.generations?.[0]?.[0] as
+      | ChatGeneration
+      | undefined;
+    const usageMetadata = (generation?.message as AIMessage | undefined)
+      ?.usage_metadata;
+
+    if (usageMetadata) {
+      return {
+        promptTokens: usageMetadata.input_tokens,
+        completionTokens: usageMetadata.output_tokens,
+        totalTokens: usageMetadata.total_tokens,
+      };
+    }
+
+    const llmOutput = output.llmOutput as
+      | { tokenUsage?: TokenUsage; estimatedTokenUsage?: TokenUsage }
+      | undefined;
+    return llmOutput?.tokenUsage || llmOutput?.estimatedTokenUsage || {};
+  }
+
+  private elapsed(runId: string): number | undefined {
+    const startTime = this.startTimes.get(runId);
+    this.startTimes.delete(runId);
+    return startTime ? Date.now() - startTime : undefined;
+  }
+}
@@ -0,0 +1,86 @@
+import { ApiProperty, PartialType, PickType } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { PromptKey } from '../schemas/prompt-version.schema';
+
+/**
+ * 新增 Prompt 版本请求 DTO（管理后台）
+ */
+export class CreatePromptVersionDto {
+  @ApiProperty({
+    description: 'Prompt 标识',
+    enum: PromptKey,
+    example: PromptKey.RESUME_QUIZ_QUESTIONS,
+  })
+  @IsEnum(PromptKey, { message: 'Prompt 标识无效' })
+  key: PromptKey;
+
+  @ApiProperty({
+    description: '版本号（字母、数字、点、下划线和中划线）',
+    example: 'v3-concise',
+    maxLength: 50,
+  })
+  @IsString()
+  @IsNotEmpty({ message: '版本号不能为空' })
+  @MaxLength(50, { message: '版本号不能超过50个字符' })
+  @Matches(/^[\w.-]+$/, {
+    message: '版本号只能包含字母、数字、点、下划线和中划线',
+  })
+  version: string;
+
+  @ApiProperty({
+    description:
+      'Prompt 模板（LangChain PromptTemplate 格式，可使用的变量与对应功能的内置模板相同）',
+    example: '你是一位资深面试官……\n\n简历内容：{resumeContent}',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Prompt 模板不能为空' })
+  @MaxLength(20000, { message: 'Prompt 模板不能超过20000个字符' })
+  template: string;
+
+  @ApiProperty({
+    description: 'A/B 实验权重（0 表示不参与分配，只能显式指定）',
+    example: 50,
+    required: false,
+  })
+  @IsNumber()
+  @Min(0, { message: '权重不能小于0' })
+  @IsOptional()
+  weight?: number;
+
+  @ApiProperty({ description: '是否启用', example: true, required: false })
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+
+  @ApiProperty({
+    description: '版本说明',
+    example: '精简题目描述，减少输出 Token',
+    required: false,
+    maxLength: 200,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(200, { message: '版本说明不能超过200个字符' })
+  description?: string;
+}
+
+/**
+ * 修改 Prompt 版本请求 DTO（管理后台，模板内容不可修改）
+ */
+export class UpdatePromptVersionDto extends PartialType(
+  PickType(CreatePromptVersionDto, [
+    'weight',
+    'isActive',
+    'description',
+  ] as const),
+) {}
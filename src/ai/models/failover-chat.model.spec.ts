@@ -0,0 +1,83 @@
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { FailoverChatModel, isFailoverError } from './failover-chat.model';
+
+describe('FailoverChatModel', () => {
+  const failing = (error: unknown) => {
+    const model = new FakeListChatModel({ responses: ['不会用到'] });
+    jest.spyOn(model, 'invoke').mockRejectedValue(error);
+    jest.spyOn(model, 'stream').mockRejectedValue(error);
+    return model;
+  };
+  const serverError = Object.assign(new Error('服务不可用'), { status: 503 });
+
+  describe('isFailoverError', () => {
+    it('超时、连接失败、429 和 5xx 切换提供方', () => {
+      expect(isFailoverError({ status: 429 })).toBe(true);
+      expect(isFailoverError({ status: 502 })).toBe(true);
+      expect(isFailoverError({ name: 'TimeoutError' })).toBe(true);
+      expect(isFailoverError({ code: 'ECONNRESET' })).toBe(true);
+    });
+
+    it('参数错误和鉴权失败不切换提供方', () => {
+      expect(isFailoverError({ status: 400 })).toBe(false);
+      expect(isFailoverError({ status: 401 })).toBe(false);
+      expect(isFailoverError(new Error('未知错误'))).toBe(false);
+      expect(isFailoverError(undefined)).toBe(false);
+    });
+  });
+
+  it('当前提供方不可用时切换到下一个', async () => {
+    const model = new FailoverChatModel([
+      { provider: 'deepseek', model: failing(serverError) },
+      {
+        provider: 'openai',
+        model: new FakeListChatModel({ responses: ['备用回答'] }),
+      },
+    ]);
+
+    const message = await model.invoke('你好');
+
+    expect(message.text).toBe('备用回答');
+  });
+
+  it('不可重试的错误直接抛出', async () => {
+    const badRequest = Object.assign(new Error('参数错误'), { status: 400 });
+    const fallback = new FakeListChatModel({ responses: ['备用回答'] });
+    const invoke = jest.spyOn(fallback, 'invoke');
+    const model = new FailoverChatModel([
+      { provider: 'deepseek', model: failing(badRequest) },
+      { provider: 'openai', model: fallback },
+    ]);
+
+    await expect(model.invoke('你好')).rejects.toThrow('参数错误');
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it('所有提供方都失败时抛出最后一个错误', async () => {
+    const model = new FailoverChatModel([
+      { provider: 'deepseek', model: failing(serverError) },
+      { provider: 'openai', model: failing({ status: 500, message: '最后' }) },
+    ]);
+
+    await expect(model.invoke('你好')).rejects.toMatchObject({
+      message: '最后',
+    });
+  });
+
+  it('流式调用在开始输出前切换提供方', async () => {
+    const model = new FailoverChatModel([
+      { provider: 'deepseek', model: failing(serverError) },
+      {
+        provider: 'openai',
+        model: new FakeListChatModel({ responses: ['备用'] }),
+      },
+    ]);
+
+    let text = '';
+    for await (const chunk of await model.stream('你好')) {
+      text += chunk.text;
+    }
+
+    expect(text).toBe('备用');
+  });
+});
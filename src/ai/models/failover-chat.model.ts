@@ -0,0 +1,154 @@
+import { Logger } from '@nestjs/common';
+import type { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import type { AIMessageChunk, BaseMessage } from '@langchain/core/messages';
+import { ChatGenerationChunk, type ChatResult } from '@langchain/core/outputs';
+
+/**
+ * 参与故障转移的模型
+ */
+export interface FailoverCandidate {
+  provider: string; // 提供方名称（deepseek / openai / local）
+  model: BaseChatModel; // 已配置好的模型实例
+}
+
+// 可以切换到下一个提供方的连接类错误
+const CONNECTION_ERROR_NAMES = [
+  'TimeoutError',
+  'APIConnectionError',
+  'APIConnectionTimeoutError',
+];
+const CONNECTION_ERROR_CODES = [
+  'ETIMEDOUT',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ENOTFOUND',
+];
+
+/**
+ * 判断错误是否应该切换到下一个提供方：超时、连接失败、429 限流和 5xx 服务端错误
+ * 其他错误（如 400 参数错误、401 鉴权失败）换提供方也无法解决，直接抛出
+ */
+export function isFailoverError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+
+  const { status, code, name } = error as {
+    status?: number;
+    code?: string;
+    name?: string;
+  };
+
+  if (typeof status === 'number') {
+    return status === 429 || status >= 500;
+  }
+
+  return (
+    CONNECTION_ERROR_NAMES.includes(name || '') ||
+    CONNECTION_ERROR_NAMES.includes(error.constructor?.name) ||
+    CONNECTION_ERROR_CODES.includes(code || '')
+  );
+}
+
+/**
+ * 多提供方故障转移模型
+ *
+ * 按路由顺序依次调用各个提供方的模型，遇到可重试的错误时切换到下一个。
+ * 流式调用只在收到第一个片段之前切换，已经开始输出后出错直接抛出，避免重复输出。
+ * 每个候选模型自己挂着 Token 用量回调，所以用量记录里的模型就是实际使用的模型。
+ */
+export class FailoverChatModel extends BaseChatModel {
+  private readonly logger = new Logger(FailoverChatModel.name);
+
+  constructor(private readonly candidates: FailoverCandidate[]) {
+    super({});
+  }
+
+  _llmType(): string {
+    return 'failover';
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions'],
+  ): Promise<ChatResult> {
+    let lastError: unknown;
+
+    for (const [index, candidate] of this.candidates.entries()) {
+      try {
+        const message = await candidate.model.invoke(messages, {
+          signal: options.signal,
+          stop: options.stop,
+        });
+
+        return {
+          generations: [{ text: message.text, message }],
+        };
+      } catch (error) {
+        lastError = error;
+        if (!this.shouldFailover(error, index)) {
+          throw error;
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<ChatGenerationChunk> {
+    let lastError: unknown;
+
+    for (const [index, candidate] of this.candidates.entries()) {
+      let iterator: AsyncIterator<AIMessageChunk>;
+      let first: IteratorResult<AIMessageChunk>;
+
+      try {
+        const stream = await candidate.model.stream(messages, {
+          signal: options.signal,
+          stop: options.stop,
+        });
+        iterator = stream[Symbol.asyncIterator]();
+        first = await iterator.next();
+      } catch (error) {
+        lastError = error;
+        if (!this.shouldFailover(error, index)) {
+          throw error;
+        }
+        continue;
+      }
+
+      // 已经收到第一个片段，之后的错误不再切换提供方
+      for (let result = first; !result.done; result = await iterator.next()) {
+        const chunk = result.value;
+        await runManager?.handleLLMNewToken(chunk.text);
+        yield new ChatGenerationChunk({ text: chunk.text, message: chunk });
+      }
+      return;
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * 判断是否切换到下一个提供方，并输出日志
+   */
+  private shouldFailover(error: unknown, index: number): boolean {
+    const current = this.candidates[index];
+    const next = this.candidates[index + 1];
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (!next || !isFailoverError(error)) {
+      return false;
+    }
+
+    this.logger.warn(
+      `⚠️ AI 提供方 ${current.provider} 调用失败，切换到 ${next.provider}: ${message}`,
+    );
+    return true;
+  }
+}
@@ -0,0 +1,167 @@
+import { AIFeature } from '../schemas/ai-usage-record.schema';
+
+/**
+ * 假模型的默认返回内容
+ *
+ * 每个功能可以配置多条内容，按调用顺序依次返回（循环使用）。
+ * 可通过环境变量 AI_FAKE_FIXTURES 指定 JSON 文件覆盖，格式与此相同。
+ */
+export type FakeFixtures = Partial<Record<AIFeature, string[]>>;
+
+// 押题的「问题」和「匹配度分析」两次调用属于同一功能，返回合并后的 JSON，两个解析器都能使用
+const RESUME_QUIZ_RESPONSE = JSON.stringify({
+  questions: [
+    {
+      question:
+        '请介绍一下你在项目中负责的核心模块，以及你做过的最有挑战的优化。',
+      answer:
+        '可以按照背景、目标、方案、结果的顺序回答，重点说明自己负责的部分和可量化的结果。',
+      category: 'project',
+      difficulty: 'easy',
+      tips: '回答要点：1. 项目背景 2. 个人职责 3. 优化前后的数据对比',
+      keywords: ['项目经验', '性能优化'],
+      reasoning: '考察候选人对自己项目的理解深度',
+    },
+    {
+      question: '如何处理缓存穿透、击穿和雪崩？',
+      answer:
+        '穿透用布隆过滤器或缓存空值，击穿用互斥锁或逻辑过期，雪崩用随机过期时间和多级缓存。',
+      category: 'technical',
+      difficulty: 'medium',
+      tips: '回答要点：1. 三种问题的区别 2. 对应方案 3. 项目中的实践',
+      keywords: ['Redis', '缓存'],
+      reasoning: 'JD 要求熟悉缓存设计',
+    },
+    {
+      question: '和同事在技术方案上产生分歧时，你会怎么处理？',
+      answer:
+        '先对齐目标和约束，用数据和原型验证方案，必要时请更有经验的同事评审。',
+      category: 'soft-skill',
+      difficulty: 'easy',
+      tips: '回答要点：1. 对齐目标 2. 用事实说话 3. 结果和反思',
+      keywords: ['沟通', '协作'],
+      reasoning: '考察团队协作能力',
+    },
+  ],
+  summary:
+    '候选人项目经验较完整，技术基础扎实，建议重点准备缓存和性能优化相关问题。',
+  matchScore: 80,
+  matchLevel: '良好',
+  matchedSkills: [
+    { skill: 'TypeScript', matched: true, proficiency: '熟练使用' },
+    { skill: 'Redis', matched: true, proficiency: '有项目经验' },
+  ],
+  missingSkills: ['Kubernetes'],
+  knowledgeGaps: ['缺少容器化部署经验'],
+  learningPriorities: [
+    { topic: 'Kubernetes', priority: 'medium', reason: 'JD 中提到容器化部署' },
+  ],
+  radarData: [
+    { dimension: '技术能力', score: 82, description: '基础扎实' },
+    { dimension: '项目经验', score: 80, description: '有完整项目经历' },
+    { dimension: '问题解决', score: 78, description: '能独立定位问题' },
+    { dimension: '软技能', score: 76, description: '沟通顺畅' },
+  ],
+  strengths: ['项目经验完整', '技术基础扎实'],
+  weaknesses: ['缺少容器化经验'],
+  interviewTips: ['准备 2-3 个项目案例', '复习缓存相关问题'],
+});
+
+export const DEFAULT_FAKE_FIXTURES: Record<AIFeature, string[]> = {
+  [AIFeature.RESUME_QUIZ]: [RESUME_QUIZ_RESPONSE],
+  [AIFeature.RESUME_ANALYSIS]: [
+    JSON.stringify({
+      years_of_experience: 3,
+      skills: ['TypeScript', 'NestJS', 'Redis'],
+      recent_position: '后端开发工程师',
+      education: '本科',
+      match_score: 80,
+      strengths: ['后端项目经验丰富'],
+      gaps: ['缺少容器化经验'],
+      summary: '候选人与岗位匹配度较高。',
+    }),
+  ],
+  [AIFeature.CONVERSATION]: ['这是一个离线假模型的回答，用于本地开发和测试。'],
+  [AIFeature.INTERVIEW_PLAN]: [
+    JSON.stringify({
+      items: [
+        {
+          topic: '简历中最有代表性的项目',
+          category: 'project',
+          difficulty: 'easy',
+          timeBudgetMinutes: 5,
+        },
+        {
+          topic: '缓存设计与一致性',
+          category: 'technical',
+          difficulty: 'medium',
+          timeBudgetMinutes: 6,
+        },
+        {
+          topic: '线上故障排查',
+          category: 'problem-solving',
+          difficulty: 'medium',
+          timeBudgetMinutes: 6,
+        },
+        {
+          topic: '团队协作与冲突处理',
+          category: 'soft-skill',
+          difficulty: 'easy',
+          timeBudgetMinutes: 4,
+        },
+      ],
+    }),
+  ],
+  // 前两次返回题目和标准答案，第三次结束面试
+  [AIFeature.INTERVIEW_QUESTION]: [
+    '好的，谢谢你的介绍。请你讲讲简历中最有代表性的一个项目，你在其中负责什么？\n\n' +
+      '[STANDARD_ANSWER]\n按照背景、职责、方案、结果的顺序介绍，给出可量化的成果。',
+    '明白了。那在这个项目里，你是如何保证缓存和数据库的数据一致性的？\n\n' +
+      '[STANDARD_ANSWER]\n先更新数据库再删除缓存，配合延迟双删或订阅 binlog 异步删除缓存。',
+    '好的，今天的问题就到这里，感谢你的回答。\n\n[END_INTERVIEW]',
+  ],
+  [AIFeature.ANSWER_EVALUATION]: [
+    JSON.stringify({
+      score: 72,
+      starAnalysis: {
+        situation: 70,
+        task: 75,
+        action: 72,
+        result: 65,
+        overallScore: 70,
+        feedback: '行动描述较具体，但缺少可量化的结果',
+      },
+      aiComment: '回答覆盖了主要思路，可以补充更多细节和数据。',
+      highlights: ['思路清晰'],
+      improvements: ['补充可量化的结果'],
+    }),
+  ],
+  [AIFeature.ASSESSMENT_REPORT]: [
+    JSON.stringify({
+      overallScore: 76,
+      overallLevel: '良好',
+      overallComment:
+        '候选人基础扎实，表达清晰，项目细节和量化结果还可以加强。',
+      radarData: [
+        { dimension: '技术能力', score: 78, description: '基础扎实' },
+        { dimension: '项目经验', score: 75, description: '有实战经验' },
+        { dimension: '问题解决', score: 74, description: '思路清晰' },
+        { dimension: '学习能力', score: 80, description: '学习意愿强' },
+        { dimension: '沟通表达', score: 77, description: '表达流畅' },
+      ],
+      strengths: ['表达清晰', '技术基础扎实'],
+      weaknesses: ['缺少量化结果'],
+      improvements: [
+        {
+          category: '项目表达',
+          suggestion: '准备项目时补充优化前后的数据对比',
+          priority: 'high',
+        },
+      ],
+      fluencyScore: 78,
+      logicScore: 76,
+      professionalScore: 75,
+    }),
+  ],
+  [AIFeature.OTHER]: ['这是一个离线假模型的回答。'],
+};
@@ -0,0 +1,89 @@
+import type { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+import {
+  BaseChatModel,
+  type BaseChatModelParams,
+} from '@langchain/core/language_models/chat_models';
+import {
+  AIMessage,
+  AIMessageChunk,
+  type BaseMessage,
+  type UsageMetadata,
+} from '@langchain/core/messages';
+import { ChatGenerationChunk, type ChatResult } from '@langchain/core/outputs';
+
+export const FAKE_MODEL_NAME = 'fake-llm';
+
+export interface FakeChatModelFields extends BaseChatModelParams {
+  response: string; // 固定返回的内容
+  chunkSize?: number; // 流式输出时每个片段的字符数
+}
+
+/**
+ * 脚本化的假模型（离线测试和本地开发使用）
+ *
+ * 不请求任何外部服务，按固定内容返回，流式调用时按字符切片输出。
+ * 会在结果上附带按字符数估算的 Token 用量，让用量统计流程也能被覆盖到。
+ */
+export class FakeChatModel extends BaseChatModel {
+  private readonly response: string;
+  private readonly chunkSize: number;
+
+  constructor(fields: FakeChatModelFields) {
+    super(fields);
+    this.response = fields.response;
+    this.chunkSize = fields.chunkSize || 8;
+  }
+
+  _llmType(): string {
+    return 'fake';
+  }
+
+  _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const message = new AIMessage({
+      content: this.response,
+      usage_metadata: this.estimateUsage(messages),
+    });
+
+    return Promise.resolve({
+      generations: [{ text: this.response, message }],
+    });
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    _options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<ChatGenerationChunk> {
+    for (let i = 0; i < this.response.length; i += this.chunkSize) {
+      const text = this.response.slice(i, i + this.chunkSize);
+      await runManager?.handleLLMNewToken(text);
+      yield new ChatGenerationChunk({
+        text,
+        message: new AIMessageChunk({ content: text }),
+      });
+    }
+
+    // 最后一个片段携带用量（与 OpenAI 兼容接口的流式用量返回方式一致）
+    yield new ChatGenerationChunk({
+      text: '',
+      message: new AIMessageChunk({
+        content: '',
+        usage_metadata: this.estimateUsage(messages),
+      }),
+    });
+  }
+
+  private estimateUsage(messages: BaseMessage[]): UsageMetadata {
+    const inputTokens = messages.reduce(
+      (total, message) => total + message.text.length,
+      0,
+    );
+    const outputTokens = this.response.length;
+
+    return {
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      total_tokens: inputTokens + outputTokens,
+    };
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * 结构化输出修复 Prompt
+ * AI 返回的 JSON 无法解析或不符合 Schema 时，带着校验错误请 AI 修正
+ */
+export const STRUCTURED_OUTPUT_REPAIR_PROMPT = `你上一次返回的内容不符合要求的 JSON 格式，请根据校验错误修正后重新输出。
+
+## 上一次的输出
+
+{output}
+
+## 校验错误
+
+{errors}
+
+## 要求的 JSON Schema
+
+{schema}
+
+## 修正要求
+
+1. 只修正校验错误指出的问题，保留其他内容不变
+2. 枚举字段只能使用 Schema 中列出的值
+3. 分数字段必须是 0-100 之间的数字
+4. 只输出修正后的 JSON，不要包含任何其他文字或代码块标记`;
@@ -0,0 +1,66 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type AIUsageRecordDocument = AIUsageRecord & Document;
+
+/**
+ * AI 调用所属功能
+ */
+export enum AIFeature {
+  RESUME_QUIZ = 'resume_quiz', // 简历押题
+  RESUME_ANALYSIS = 'resume_analysis', // 简历分析
+  CONVERSATION = 'conversation', // 多轮对话
+  INTERVIEW_PLAN = 'interview_plan', // 模拟面试 - 面试计划
+  INTERVIEW_QUESTION = 'interview_question', // 模拟面试 - 出题
+  ANSWER_EVALUATION = 'answer_evaluation', // 模拟面试 - 单题评估
+  ASSESSMENT_REPORT = 'assessment_report', // 模拟面试 - 评估报告
+  OTHER = 'other', // 其他
+}
+
+/**
+ * AI 调用用量记录 Schema
+ * 每次通过 AIModelFactory 创建的模型调用完成后记录一条（由 TokenUsageCallbackHandler 写入）
+ */
+@Schema({ timestamps: true })
+export class AIUsageRecord {
+  @Prop({ index: true })
+  userId?: string; // 用户ID（系统调用时为空）
+
+  @Prop({ required: true, enum: AIFeature, index: true })
+  feature: AIFeature; // 所属功能
+
+  @Prop({ index: true })
+  resultId?: string; // 关联的结果ID（押题结果 / 面试结果）
+
+  @Prop({ required: true })
+  model: string; // 模型名称（如 deepseek-chat）
+
+  @Prop({ default: 0 })
+  promptTokens: number; // 输入Token数
+
+  @Prop({ default: 0 })
+  completionTokens: number; // 输出Token数
+
+  @Prop({ default: 0 })
+  totalTokens: number; // 总Token数
+
+  @Prop({ default: 0 })
+  estimatedCost: number; // 预估成本（元）
+
+  @Prop()
+  responseTime?: number; // 响应时间（毫秒）
+
+  @Prop({ enum: ['success', 'failed'], default: 'success' })
+  status: 'success' | 'failed'; // 调用状态
+
+  @Prop()
+  errorMessage?: string; // 错误信息
+
+  @Prop()
+  traceId?: string; // 请求追踪ID
+}
+
+export const AIUsageRecordSchema = SchemaFactory.createForClass(AIUsageRecord);
+
+AIUsageRecordSchema.index({ userId: 1, createdAt: -1 });
+AIUsageRecordSchema.index({ feature: 1, createdAt: -1 });
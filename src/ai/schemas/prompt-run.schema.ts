@@ -0,0 +1,46 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { PromptKey } from './prompt-version.schema';
+
+export type PromptRunDocument = PromptRun & Document;
+
+/**
+ * Prompt 执行记录 Schema
+ * 每次使用某个 Prompt 版本生成内容记录一条，用于比较各版本的失败率、修复率和成本
+ */
+@Schema({ timestamps: true })
+export class PromptRun {
+  @Prop({ type: String, required: true, enum: PromptKey })
+  key: PromptKey; // Prompt 标识
+
+  @Prop({ required: true })
+  version: string; // Prompt 版本
+
+  @Prop({ index: true })
+  userId?: string; // 用户ID
+
+  @Prop({ index: true })
+  resultId?: string; // 关联的结果ID
+
+  @Prop({ enum: ['success', 'failed'], required: true })
+  status: 'success' | 'failed'; // 执行结果
+
+  @Prop({ default: 0 })
+  repairs: number; // 输出校验失败后的修复次数
+
+  @Prop({ default: 0 })
+  calls: number; // 模型调用次数（含修复和故障转移）
+
+  @Prop({ default: 0 })
+  totalTokens: number; // 总Token数
+
+  @Prop({ default: 0 })
+  estimatedCost: number; // 预估成本（元）
+
+  @Prop()
+  errorMessage?: string; // 错误信息
+}
+
+export const PromptRunSchema = SchemaFactory.createForClass(PromptRun);
+
+PromptRunSchema.index({ key: 1, version: 1, createdAt: -1 });
@@ -0,0 +1,48 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type PromptVersionDocument = PromptVersion & Document;
+
+/**
+ * 受版本管理的 Prompt
+ */
+export enum PromptKey {
+  RESUME_QUIZ_QUESTIONS = 'resume_quiz_questions', // 简历押题 - 问题部分
+  RESUME_QUIZ_ANALYSIS = 'resume_quiz_analysis', // 简历押题 - 匹配度分析
+  MOCK_INTERVIEW_QUESTION = 'mock_interview_question', // 模拟面试 - 出题
+  ASSESSMENT_REPORT = 'assessment_report', // 模拟面试 - 评估报告
+}
+
+/**
+ * Prompt 版本 Schema
+ *
+ * 每个 Prompt 可以有多个版本，weight > 0 的版本参与 A/B 实验，按权重分配给用户。
+ * 内置版本的 template 为空，表示使用代码中的 Prompt。
+ */
+@Schema({ timestamps: true })
+export class PromptVersion {
+  @Prop({ required: true, enum: PromptKey })
+  key: PromptKey; // Prompt 标识
+
+  @Prop({ required: true })
+  version: string; // 版本号（如 v2、v3-concise）
+
+  @Prop()
+  template?: string; // Prompt 模板（LangChain PromptTemplate 格式，为空表示使用代码内置模板）
+
+  @Prop({ default: false })
+  builtIn: boolean; // 是否为代码内置版本
+
+  @Prop({ default: 0, min: 0 })
+  weight: number; // A/B 实验权重（0 表示不参与分配，只能显式指定）
+
+  @Prop({ default: true })
+  isActive: boolean; // 是否启用
+
+  @Prop()
+  description?: string; // 版本说明（改了什么、实验目的）
+}
+
+export const PromptVersionSchema = SchemaFactory.createForClass(PromptVersion);
+
+PromptVersionSchema.index({ key: 1, version: 1 }, { unique: true });
@@ -1,6 +1,19 @@
-import { Injectable, Logger } from "@nestjs/common";
-import { ConfigService } from "@nestjs/config";
-import { ChatDeepSeek } from "@langchain/deepseek"
+import { readFileSync } from 'fs';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ChatDeepSeek } from '@langchain/deepseek';
+import { ChatOpenAI } from '@langchain/openai';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { TokenUsageCallbackHandler } from '../callbacks/token-usage.callback';
+import { AIFeature } from '../schemas/ai-usage-record.schema';
+import { AIUsageService, aiUsageStorage } from './ai-usage.service';
+import { traceIdStorage } from '../../common/middleware/trace-id.middleware';
+import { FailoverChatModel } from '../models/failover-chat.model';
+import { FAKE_MODEL_NAME, FakeChatModel } from '../models/fake-chat.model';
+import {
+  DEFAULT_FAKE_FIXTURES,
+  FakeFixtures,
+} from '../models/fake-chat.fixtures';
 
 /**
  * AI 模型工厂服务
@@ -10,69 +23,108 @@ import { ChatDeepSeek } from "@langchain/deepseek"
  *
  * 好处：
  * - 集中管理：所有模型配置都在一个地方
- * - 易于切换：以后要换模型（比如从 DeepSeek 换成 OpenAI），只需要改这个文件
+ * - 易于切换：支持 DeepSeek、OpenAI 兼容接口和本地 OpenAI 兼容服务，按功能配置路由顺序
+ * - 自动容灾：当前提供方超时、限流（429）或服务端错误（5xx）时自动切换到下一个
+ * - 离线运行：设置 AI_FAKE_LLM=true 后所有功能都使用假模型，CI 和本地开发不需要 API 密钥
  * - 易于复用：任何服务都可以使用这个工厂来获取模型
  * - 易于测试：可以单独测试模型初始化逻辑
  *
  * 如何在其他服务中使用？
  *
- * @Injectable()
- * export class QuizService {
- *   constructor(
- *     private aiModelFactory: AIModelFactory
- *   ) {}
- *
- *   async generateQuiz() {
- *     const model = this.aiModelFactory.createDefaultModel();
- *     // 使用 model
- *   }
- * }
+ * /**
+ * 模型提供方
+ */
+export type AIProviderName = 'deepseek' | 'openai' | 'local';
+
+/**
+ * 提供方连接配置（来自环境变量）
  */
+interface AIProviderSettings {
+  name: AIProviderName;
+  apiKey: string;
+  model: string;
+  baseURL?: string;
+}
+
+/**
+ * 模型参数
+ */
+interface ModelOptions {
+  temperature: number;
+  maxTokens: number;
+}
+
+// 默认路由顺序：按功能依次尝试，未配置的提供方自动跳过
+// 可通过环境变量 AI_MODEL_ROUTING（JSON）覆盖，例如：{"interview_question":["local","deepseek"]}
+const DEFAULT_ROUTING: Record<string, AIProviderName[]> = {
+  default: ['deepseek', 'openai', 'local'],
+  // 押题和简历分析：优先 DeepSeek，失败后使用 OpenAI 兼容接口，最后使用本地模型兜底
+  [AIFeature.RESUME_QUIZ]: ['deepseek', 'openai', 'local'],
+  [AIFeature.RESUME_ANALYSIS]: ['deepseek', 'openai', 'local'],
+  // 模拟面试出题是流式输出，对延迟敏感，本地模型优先于远程兜底
+  [AIFeature.INTERVIEW_QUESTION]: ['deepseek', 'local', 'openai'],
+  // 评估报告对质量要求高，不使用本地模型
+  [AIFeature.ASSESSMENT_REPORT]: ['deepseek', 'openai'],
+};
 
 @Injectable()
 export class AIModelFactory {
-  private readonly logger = new Logger(AIModelFactory.name)
+  private readonly logger = new Logger(AIModelFactory.name);
+  private readonly providers: Map<AIProviderName, AIProviderSettings>;
+  private readonly routing: Record<string, AIProviderName[]>;
+  private readonly fakeFixtures?: FakeFixtures;
+  private readonly fakeTurns = new Map<AIFeature, number>(); // 假模型每个功能已调用的次数
 
-  constructor(private readonly configService: ConfigService) { }
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly aiUsageService: AIUsageService,
+  ) {
+    this.providers = this.loadProviders();
+    this.routing = { ...DEFAULT_ROUTING, ...this.loadRouting() };
 
-    /**
+    if (this.configService.get<string>('AI_FAKE_LLM') === 'true') {
+      this.fakeFixtures = {
+        ...DEFAULT_FAKE_FIXTURES,
+        ...this.loadFakeFixtures(),
+      };
+      this.logger.warn(
+        '⚠️ 已启用假模型（AI_FAKE_LLM=true），所有 AI 调用都返回固定内容',
+      );
+    }
+  }
+
+  /**
    * 创建默认的 AI 模型
    *
    * 这是最常用的模型初始化方法。
-   * 返回一个配置好的 ChatDeepSeek 实例。
+   * 按功能的路由顺序组合已配置的提供方，返回一个带自动容灾的模型。
    *
    * 参数都来自环境变量，这样可以根据部署环境灵活配置：
-   * - DEEPSEEK_API_KEY：API 密钥
-   * - DEEPSEEK_MODEL：模型名称（deepseek-chat 或 deepseek-reasoner）
+   * - DEEPSEEK_API_KEY / DEEPSEEK_MODEL：DeepSeek
+   * - OPENAI_API_KEY / OPENAI_MODEL / OPENAI_BASE_URL：OpenAI 或任意 OpenAI 兼容接口
+   * - LOCAL_LLM_BASE_URL / LOCAL_LLM_MODEL / LOCAL_LLM_API_KEY：本地 OpenAI 兼容服务（如 Ollama、vLLM）
    * - DEEPSEEK_TEMPERATURE：温度参数（控制随机性）
    * - DEEPSEEK_MAX_TOKENS：最大 Token 数
+   * - AI_REQUEST_TIMEOUT：单个提供方的请求超时（毫秒），超时后切换到下一个
+   *
+   * @param feature - 调用所属功能，决定路由顺序，并用于 Token 用量和成本统计
    */
-  createDefaultModel() {
-    const apiKey = this.configService.get<string>('DEEPSEEK_API_KEY')
-    if(!apiKey) {
-      throw new Error('DEEPSEEK_API_KEY 不存在')
-    }
-
-    // deepseek-reasoner是深度搜索
-    // deepseek-chat是快速聊天
-    return new ChatDeepSeek({
-      apiKey: apiKey || '',
-      model: this.configService.get<string>('DEEPSEEK_MODEL') || 'deepseek-chat',
-      temperature: Number(this.configService.get<string>('DEEPSEEK_TEMPERATURE')) || 0.7,
-      maxTokens:Number(this.configService.get<string>('DEEPSEEK_MAX_TOKENS')) || 4000
-    })
+  createDefaultModel(feature: AIFeature = AIFeature.OTHER): BaseChatModel {
+    return this.createRoutedModel(feature, {
+      temperature:
+        Number(this.configService.get<string>('DEEPSEEK_TEMPERATURE')) || 0.7,
+      maxTokens:
+        Number(this.configService.get<string>('DEEPSEEK_MAX_TOKENS')) || 4000,
+    });
   }
 
   // 创建用于稳定输出的环境（评估场景）
 
-  createStableModel(): ChatDeepSeek {
-    const baseModel = this.createDefaultModel()
-    return new ChatDeepSeek({
-      apiKey: this.configService.get<string>('DEEPSEEK_API_KEY') || '',
-      model: baseModel.model,
+  createStableModel(feature: AIFeature = AIFeature.OTHER): BaseChatModel {
+    return this.createRoutedModel(feature, {
       temperature: 0.3,
-      maxTokens: 4000
-    })
+      maxTokens: 4000,
+    });
   }
 
   /**
@@ -81,13 +133,187 @@ export class AIModelFactory {
    * 有些场景需要 AI 的输出更多样化、更有创意（比如生成题目、生成文案）。
    * 这个方法创建一个 temperature 较高的模型。
    */
-  createCreativeModel(): ChatDeepSeek {
-    const baseModel = this.createDefaultModel()
-    return new ChatDeepSeek({
-      apiKey: this.configService.get<string>('DEEPSEEK_API_KEY') || '',
-      model: baseModel.model,
+  createCreativeModel(feature: AIFeature = AIFeature.OTHER): BaseChatModel {
+    return this.createRoutedModel(feature, {
       temperature: 0.9,
-      maxTokens: 4000
-    })
+      maxTokens: 4000,
+    });
+  }
+
+  /**
+   * 按功能的路由顺序创建模型
+   * 只有一个可用提供方时直接返回该模型，否则包装成故障转移模型
+   */
+  private createRoutedModel(
+    feature: AIFeature,
+    options: ModelOptions,
+  ): BaseChatModel {
+    if (this.fakeFixtures) {
+      return this.createFakeModel(feature);
+    }
+
+    const route = (this.routing[feature] || this.routing.default)
+      .map((name) => this.providers.get(name))
+      .filter((provider): provider is AIProviderSettings => !!provider);
+
+    if (route.length === 0) {
+      throw new Error(`没有可用的 AI 模型提供方: feature=${feature}`);
+    }
+
+    const candidates = route.map((provider) => ({
+      provider: provider.name,
+      model: this.createProviderModel(provider, feature, options),
+    }));
+
+    return candidates.length === 1
+      ? candidates[0].model
+      : new FailoverChatModel(candidates);
+  }
+
+  /**
+   * 创建单个提供方的模型
+   * 重试次数较少，让失败尽快交给下一个提供方处理
+   */
+  private createProviderModel(
+    provider: AIProviderSettings,
+    feature: AIFeature,
+    options: ModelOptions,
+  ): BaseChatModel {
+    const fields = {
+      apiKey: provider.apiKey,
+      model: provider.model,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      timeout:
+        Number(this.configService.get<string>('AI_REQUEST_TIMEOUT')) || 60000,
+      maxRetries: 1,
+      callbacks: [this.createUsageHandler(feature, provider.model)],
+    };
+
+    if (provider.name === 'deepseek') {
+      return new ChatDeepSeek(fields);
+    }
+
+    return new ChatOpenAI({
+      ...fields,
+      configuration: { baseURL: provider.baseURL },
+    });
+  }
+
+  /**
+   * 创建假模型
+   * 同一功能的多条返回内容按调用顺序依次使用，保证测试结果可复现
+   */
+  private createFakeModel(feature: AIFeature): BaseChatModel {
+    const responses =
+      this.fakeFixtures?.[feature] || DEFAULT_FAKE_FIXTURES[AIFeature.OTHER];
+    const turn = this.fakeTurns.get(feature) || 0;
+    this.fakeTurns.set(feature, turn + 1);
+
+    return new FakeChatModel({
+      response: responses[turn % responses.length],
+      callbacks: [this.createUsageHandler(feature, FAKE_MODEL_NAME)],
+    });
+  }
+
+  /**
+   * 读取已配置的提供方（缺少必要配置的提供方不参与路由）
+   */
+  private loadProviders(): Map<AIProviderName, AIProviderSettings> {
+    const providers = new Map<AIProviderName, AIProviderSettings>();
+
+    const deepseekKey = this.configService.get<string>('DEEPSEEK_API_KEY');
+    if (deepseekKey) {
+      // deepseek-reasoner是深度搜索
+      // deepseek-chat是快速聊天
+      providers.set('deepseek', {
+        name: 'deepseek',
+        apiKey: deepseekKey,
+        model:
+          this.configService.get<string>('DEEPSEEK_MODEL') || 'deepseek-chat',
+      });
+    }
+
+    const openaiKey = this.configService.get<string>('OPENAI_API_KEY');
+    if (openaiKey) {
+      providers.set('openai', {
+        name: 'openai',
+        apiKey: openaiKey,
+        model: this.configService.get<string>('OPENAI_MODEL') || 'gpt-4o-mini',
+        baseURL: this.configService.get<string>('OPENAI_BASE_URL'),
+      });
+    }
+
+    const localBaseURL = this.configService.get<string>('LOCAL_LLM_BASE_URL');
+    const localModel = this.configService.get<string>('LOCAL_LLM_MODEL');
+    if (localBaseURL && localModel) {
+      providers.set('local', {
+        name: 'local',
+        // 本地服务一般不校验密钥，但 OpenAI SDK 要求传入
+        apiKey: this.configService.get<string>('LOCAL_LLM_API_KEY') || 'local',
+        model: localModel,
+        baseURL: localBaseURL,
+      });
+    }
+
+    this.logger.log(
+      `🔌 已配置的 AI 提供方: ${[...providers.keys()].join(', ') || '无'}`,
+    );
+    return providers;
+  }
+
+  private loadRouting(): Record<string, AIProviderName[]> {
+    const raw = this.configService.get<string>('AI_MODEL_ROUTING');
+    if (!raw) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(raw) as Record<string, AIProviderName[]>;
+    } catch (error) {
+      this.logger.warn(
+        `⚠️ AI_MODEL_ROUTING 不是合法的 JSON，使用默认路由: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return {};
+    }
+  }
+
+  private loadFakeFixtures(): FakeFixtures {
+    const path = this.configService.get<string>('AI_FAKE_FIXTURES');
+    if (!path) {
+      return {};
+    }
+
+    try {
+      const fixtures = JSON.parse(readFileSync(path, 'utf-8')) as Record<
+        string,
+        string | string[]
+      >;
+      return Object.fromEntries(
+        Object.entries(fixtures).map(([feature, value]) => [
+          feature,
+          Array.isArray(value) ? value : [value],
+        ]),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `⚠️ 读取假模型返回内容失败，使用默认内容: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return {};
+    }
+  }
+
+  /**
+   * 创建 Token 用量回调
+   * 在创建模型时捕获当前的用量归属（用户、结果ID）和 traceId
+   */
+  private createUsageHandler(feature: AIFeature, model: string) {
+    return new TokenUsageCallbackHandler(
+      this.aiUsageService,
+      feature,
+      model,
+      aiUsageStorage.getStore(),
+      traceIdStorage.getStore(),
+    );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,207 @@
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { AIMessage } from '@langchain/core/messages';
+import type { ChatGeneration } from '@langchain/core/outputs';
+import { TokenUsageCallbackHandler } from '../callbacks/token-usage.callback';
+import { AIFeature, AIUsageRecord } from '../schemas/ai-usage-record.schema';
+import {
+  AIUsageService,
+  aiUsageStorage,
+  bindAIUsage,
+  collectAIUsage,
+  createUsageTotals,
+  runWithAIUsage,
+} from './ai-usage.service';
+
+describe('AIUsageService', () => {
+  let service: AIUsageService;
+  const usageRecordModel = {
+    create: jest.fn(),
+  };
+  const configService = {
+    get: jest.fn(),
+  };
+
+  const createService = async () => {
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        AIUsageService,
+        { provide: ConfigService, useValue: configService },
+        {
+          provide: getModelToken(AIUsageRecord.name),
+          useValue: usageRecordModel,
+        },
+      ],
+    }).compile();
+    return moduleRef.get(AIUsageService);
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    service = await createService();
+  });
+
+  describe('calculateCost', () => {
+    it('按每百万 Token 单价计算成本', () => {
+      expect(service.calculateCost('deepseek-chat', 1000, 500)).toBe(0.006);
+    });
+
+    it('未配置单价的模型按 0 计算', () => {
+      expect(service.calculateCost('unknown-model', 1000, 500)).toBe(0);
+    });
+
+    it('AI_MODEL_PRICING 可以补充价格表', async () => {
+      configService.get.mockReturnValue(
+        JSON.stringify({ 'qwen-plus': { input: 1, output: 2 } }),
+      );
+      service = await createService();
+
+      expect(service.calculateCost('qwen-plus', 1_000_000, 1_000_000)).toBe(3);
+      expect(service.calculateCost('deepseek-chat', 1000, 500)).toBe(0.006);
+    });
+  });
+
+  it('保存用量记录失败不影响业务流程', async () => {
+    usageRecordModel.create.mockRejectedValue(new Error('连接断开'));
+
+    await expect(
+      service.record({
+        scope: { userId: 'u1' },
+        feature: AIFeature.OTHER,
+        model: 'deepseek-chat',
+        promptTokens: 10,
+        completionTokens: 5,
+        totalTokens: 15,
+        status: 'success',
+      }),
+    ).resolves.toBeUndefined();
+  });
+
+  describe('用量归属', () => {
+    it('嵌套调用继承外层归属，bindAIUsage 补充当前归属', () => {
+      const scope = runWithAIUsage({ userId: 'u1' }, () =>
+        runWithAIUsage({ resultId: 'r1' }, () => {
+          bindAIUsage({ resultId: 'r2' });
+          return aiUsageStorage.getStore();
+        }),
+      );
+
+      expect(scope).toEqual({ userId: 'u1', resultId: 'r2' });
+    });
+
+    it('嵌套的用量累加器都会累加本次调用的用量', async () => {
+      usageRecordModel.create.mockResolvedValue({});
+      const outer = createUsageTotals();
+      const inner = createUsageTotals();
+
+      await collectAIUsage(outer, () =>
+        collectAIUsage(inner, () =>
+          service.record({
+            scope: aiUsageStorage.getStore()!,
+            feature: AIFeature.OTHER,
+            model: 'deepseek-chat',
+            promptTokens: 1000,
+            completionTokens: 500,
+            totalTokens: 1500,
+            responseTime: 200,
+            status: 'success',
+          }),
+        ),
+      );
+
+      for (const totals of [outer, inner]) {
+        expect(totals).toEqual({
+          calls: 1,
+          promptTokens: 1000,
+          completionTokens: 500,
+          totalTokens: 1500,
+          estimatedCost: 0.006,
+          responseTime: 200,
+        });
+      }
+    });
+
+    it('不在归属范围内时 bindAIUsage 不做任何事', () => {
+      bindAIUsage({ userId: 'u1' });
+
+      expect(aiUsageStorage.getStore()).toBeUndefined();
+    });
+  });
+
+  describe('TokenUsageCallbackHandler', () => {
+    const createHandler = () =>
+      new TokenUsageCallbackHandler(
+        service,
+        AIFeature.ANSWER_EVALUATION,
+        'deepseek-chat',
+        { userId: 'u1', resultId: 'r1' },
+        'trace-1',
+      );
+
+    it('记录消息上的真实 Token 用量和成本', async () => {
+      usageRecordModel.create.mockResolvedValue({});
+      const handler = createHandler();
+      const message = new AIMessage({
+        content: '{}',
+        usage_metadata: {
+          input_tokens: 1000,
+          output_tokens: 500,
+          total_tokens: 1500,
+        },
+      });
+      const generation: ChatGeneration = { text: '{}', message };
+
+      handler.handleChatModelStart(null, null, 'run-1');
+      await handler.handleLLMEnd({ generations: [[generation]] }, 'run-1');
+
+      expect(usageRecordModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'u1',
+          resultId: 'r1',
+          feature: AIFeature.ANSWER_EVALUATION,
+          promptTokens: 1000,
+          completionTokens: 500,
+          totalTokens: 1500,
+          estimatedCost: 0.006,
+          status: 'success',
+          traceId: 'trace-1',
+        }),
+      );
+    });
+
+    it('没有 usage_metadata 时读取 llmOutput.tokenUsage', async () => {
+      usageRecordModel.create.mockResolvedValue({});
+
+      await createHandler().handleLLMEnd(
+        {
+          generations: [[{ text: '{}' }]],
+          llmOutput: { tokenUsage: { promptTokens: 30, completionTokens: 20 } },
+        },
+        'run-1',
+      );
+
+      expect(usageRecordModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          promptTokens: 30,
+          completionTokens: 20,
+          totalTokens: 50,
+        }),
+      );
+    });
+
+    it('调用失败时记录失败状态', async () => {
+      usageRecordModel.create.mockResolvedValue({});
+
+      await createHandler().handleLLMError(new Error('超时'), 'run-1');
+
+      expect(usageRecordModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          totalTokens: 0,
+          status: 'failed',
+          errorMessage: '超时',
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  AIFeature,
+  AIUsageRecord,
+  AIUsageRecordDocument,
+} from '../schemas/ai-usage-record.schema';
+
+/**
+ * 用量汇总
+ */
+export interface AIUsageTotals {
+  calls: number; // 调用次数
+  promptTokens: number; // 输入Token数
+  completionTokens: number; // 输出Token数
+  totalTokens: number; // 总Token数
+  estimatedCost: number; // 预估成本（元）
+  responseTime: number; // 累计响应时间（毫秒）
+}
+
+/**
+ * 用量归属（通过 AsyncLocalStorage 在一次业务调用内传递）
+ */
+export interface AIUsageScope {
+  userId?: string; // 用户ID
+  resultId?: string; // 结果ID
+  collectors?: AIUsageTotals[]; // 当前调用范围内的用量累加器（LogAICall、Prompt 版本统计使用，可嵌套）
+}
+
+/**
+ * 单次模型调用的用量
+ */
+export interface AIUsageEntry {
+  scope: AIUsageScope;
+  feature: AIFeature;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  responseTime?: number;
+  status: 'success' | 'failed';
+  errorMessage?: string;
+  traceId?: string;
+}
+
+/**
+ * 模型单价（元 / 百万Token）
+ */
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// 默认价格表，可通过环境变量 AI_MODEL_PRICING（JSON）覆盖或补充
+// 例如：{"deepseek-chat":{"input":2,"output":8}}
+const DEFAULT_MODEL_PRICING: Record<string, ModelPrice> = {
+  'deepseek-chat': { input: 2, output: 8 },
+  'deepseek-reasoner': { input: 4, output: 16 },
+  'fake-llm': { input: 0, output: 0 }, // 离线假模型（AI_FAKE_LLM=true）
+};
+
+export const aiUsageStorage = new AsyncLocalStorage<AIUsageScope>();
+
+/**
+ * 在指定的用量归属下执行（会继承外层的归属信息）
+ */
+export function runWithAIUsage<T>(scope: AIUsageScope, fn: () => T): T {
+  return aiUsageStorage.run({ ...aiUsageStorage.getStore(), ...scope }, fn);
+}
+
+/**
+ * 补充当前用量归属的信息（例如 resultId 在业务流程中途才生成）
+ */
+export function bindAIUsage(fields: AIUsageScope): void {
+  const scope = aiUsageStorage.getStore();
+  if (scope) {
+    Object.assign(scope, fields);
+  }
+}
+
+/**
+ * 在执行期间把模型调用的用量累加到 totals（外层的累加器同样会累加）
+ * 注意：用量回调在创建模型时绑定归属，模型必须在 fn 内创建
+ */
+export function collectAIUsage<T>(totals: AIUsageTotals, fn: () => T): T {
+  const parent = aiUsageStorage.getStore();
+  return aiUsageStorage.run(
+    { ...parent, collectors: [...(parent?.collectors || []), totals] },
+    fn,
+  );
+}
+
+export function createUsageTotals(): AIUsageTotals {
+  return {
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    estimatedCost: 0,
+    responseTime: 0,
+  };
+}
+
+/**
+ * AI 用量服务
+ *
+ * 负责按价格表计算成本、保存每次调用的用量，以及按用户 / 结果汇总用量。
+ */
+@Injectable()
+export class AIUsageService {
+  private readonly logger = new Logger(AIUsageService.name);
+  private readonly pricing: Record<string, ModelPrice>;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectModel(AIUsageRecord.name)
+    private usageRecordModel: Model<AIUsageRecordDocument>,
+  ) {
+    this.pricing = { ...DEFAULT_MODEL_PRICING, ...this.loadPricing() };
+  }
+
+  /**
+   * 计算单次调用成本（元）
+   * 价格表中没有的模型按 0 计算，并输出警告
+   */
+  calculateCost(
+    model: string,
+    promptTokens: number,
+    completionTokens: number,
+  ): number {
+    const price = this.pricing[model];
+    if (!price) {
+      this.logger.warn(`⚠️ 未配置模型单价，成本按 0 计算: model=${model}`);
+      return 0;
+    }
+
+    const cost =
+      (promptTokens * price.input + completionTokens * price.output) /
+      1_000_000;
+    return Math.round(cost * 1_000_000) / 1_000_000;
+  }
+
+  /**
+   * 记录一次调用的用量
+   * 记录失败只输出日志，不影响业务流程
+   */
+  async record(entry: AIUsageEntry): Promise<void> {
+    const estimatedCost = this.calculateCost(
+      entry.model,
+      entry.promptTokens,
+      entry.completionTokens,
+    );
+
+    for (const collector of entry.scope.collectors || []) {
+      collector.calls++;
+      collector.promptTokens += entry.promptTokens;
+      collector.completionTokens += entry.completionTokens;
+      collector.totalTokens += entry.totalTokens;
+      collector.estimatedCost += estimatedCost;
+      collector.responseTime += entry.responseTime || 0;
+    }
+
+    try {
+      await this.usageRecordModel.create({
+        userId: entry.scope.userId,
+        resultId: entry.scope.resultId,
+        feature: entry.feature,
+        model: entry.model,
+        promptTokens: entry.promptTokens,
+        completionTokens: entry.completionTokens,
+        totalTokens: entry.totalTokens,
+        estimatedCost,
+        responseTime: entry.responseTime,
+        status: entry.status,
+        errorMessage: entry.errorMessage,
+        traceId: entry.traceId,
+      });
+    } catch (error) {
+      this.logger.error(
+        `❌ 保存 AI 用量记录失败: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * 汇总用量（按结果ID或用户ID）
+   * model 为调用成功的模型，发生过故障转移时用逗号分隔
+   */
+  async summarize(filter: {
+    resultId?: string;
+    userId?: string;
+  }): Promise<AIUsageTotals & { model?: string }> {
+    const [summary] = await this.usageRecordModel.aggregate<
+      AIUsageTotals & { model?: string }
+    >([
+      { $match: filter },
+      {
+        $group: {
+          _id: null,
+          calls: { $sum: 1 },
+          promptTokens: { $sum: '$promptTokens' },
+          completionTokens: { $sum: '$completionTokens' },
+          totalTokens: { $sum: '$totalTokens' },
+          estimatedCost: { $sum: '$estimatedCost' },
+          responseTime: { $sum: '$responseTime' },
+        },
+      },
+      { $project: { _id: 0 } },
+    ]);
+    const models = await this.usageRecordModel.distinct('model', {
+      ...filter,
+      status: 'success',
+    });
+
+    return {
+      ...(summary || createUsageTotals()),
+      model: models.join(',') || undefined,
+    };
+  }
+
+  private loadPricing(): Record<string, ModelPrice> {
+    const raw = this.configService.get<string>('AI_MODEL_PRICING');
+    if (!raw) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(raw) as Record<string, ModelPrice>;
+    } catch (error) {
+      this.logger.warn(
+        `⚠️ AI_MODEL_PRICING 不是合法的 JSON，使用默认价格表: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return {};
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { mockQuery } from '../../../test/mock-query';
+import { PromptRun } from '../schemas/prompt-run.schema';
+import { PromptKey, PromptVersion } from '../schemas/prompt-version.schema';
+import { runWithAIUsage } from './ai-usage.service';
+import { PromptRegistryService } from './prompt-registry.service';
+
+describe('PromptRegistryService', () => {
+  let registry: PromptRegistryService;
+  const promptVersionModel = {
+    find: jest.fn(),
+  };
+  const promptRunModel = {
+    create: jest.fn(),
+  };
+
+  const key = PromptKey.MOCK_INTERVIEW_QUESTION;
+  const version = (name: string, weight: number) => ({
+    key,
+    version: name,
+    template: `模板 ${name}`,
+    weight,
+    isActive: true,
+    builtIn: false,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        PromptRegistryService,
+        {
+          provide: getModelToken(PromptVersion.name),
+          useValue: promptVersionModel,
+        },
+        { provide: getModelToken(PromptRun.name), useValue: promptRunModel },
+      ],
+    }).compile();
+    registry = moduleRef.get(PromptRegistryService);
+  });
+
+  describe('resolve', () => {
+    it('指定了可用的版本时直接使用', async () => {
+      promptVersionModel.find.mockReturnValue(
+        mockQuery([version('v1', 100), version('v2', 0)]),
+      );
+
+      expect(await registry.resolve(key, 'u1', 'v2')).toEqual({
+        key,
+        version: 'v2',
+        template: '模板 v2',
+      });
+    });
+
+    it('按权重分配，同一用户总是得到同一版本', async () => {
+      promptVersionModel.find.mockReturnValue(
+        mockQuery([version('v1', 50), version('v2', 50)]),
+      );
+
+      const assigned = new Map<string, string>();
+      for (let i = 0; i < 200; i++) {
+        const { version: name } = await registry.resolve(key, `user-${i}`);
+        assigned.set(`user-${i}`, name);
+        expect((await registry.resolve(key, `user-${i}`)).version).toBe(name);
+      }
+
+      const v1 = [...assigned.values()].filter((name) => name === 'v1');
+      expect(v1.length).toBeGreaterThan(60);
+      expect(v1.length).toBeLessThan(140);
+      // 启用版本有缓存，只读取一次数据库
+      expect(promptVersionModel.find).toHaveBeenCalledTimes(1);
+    });
+
+    it('没有权重大于 0 的版本或读取失败时使用内置版本', async () => {
+      promptVersionModel.find.mockReturnValueOnce(
+        mockQuery([version('v3', 0)]),
+      );
+      expect(await registry.resolve(key, 'u1')).toEqual(registry.builtIn(key));
+
+      promptVersionModel.find.mockImplementationOnce(() => {
+        throw new Error('连接断开');
+      });
+      expect(await registry.resolve(PromptKey.ASSESSMENT_REPORT, 'u1')).toEqual(
+        registry.builtIn(PromptKey.ASSESSMENT_REPORT),
+      );
+    });
+  });
+
+  describe('track', () => {
+    const prompt = { key, version: 'v2' };
+
+    it('记录成功的执行和修复次数，归属取自当前用量范围', async () => {
+      promptRunModel.create.mockResolvedValue({});
+
+      const result = await runWithAIUsage(
+        { userId: 'u1', resultId: 'r1' },
+        () =>
+          registry.track(prompt, (run) => {
+            run.repairs++;
+            return Promise.resolve('题目');
+          }),
+      );
+
+      expect(result).toBe('题目');
+      expect(promptRunModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          key,
+          version: 'v2',
+          userId: 'u1',
+          resultId: 'r1',
+          status: 'success',
+          repairs: 1,
+        }),
+      );
+    });
+
+    it('执行失败时记录失败并继续抛出错误', async () => {
+      promptRunModel.create.mockResolvedValue({});
+
+      await expect(
+        registry.track(prompt, () => Promise.reject(new Error('模型超时'))),
+      ).rejects.toThrow('模型超时');
+      expect(promptRunModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 'failed',
+          errorMessage: '模型超时',
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,356 @@
+import { createHash } from 'crypto';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { PromptTemplate } from '@langchain/core/prompts';
+import { Model } from 'mongoose';
+import {
+  PromptKey,
+  PromptVersion,
+  PromptVersionDocument,
+} from '../schemas/prompt-version.schema';
+import { PromptRun, PromptRunDocument } from '../schemas/prompt-run.schema';
+import {
+  AIUsageTotals,
+  aiUsageStorage,
+  collectAIUsage,
+  createUsageTotals,
+} from './ai-usage.service';
+import {
+  CreatePromptVersionDto,
+  UpdatePromptVersionDto,
+} from '../dto/prompt-version.dto';
+
+/**
+ * 解析后的 Prompt 版本
+ */
+export interface ResolvedPrompt {
+  key: PromptKey;
+  version: string;
+  template?: string; // 为空表示使用代码内置模板
+}
+
+/**
+ * 单次 Prompt 执行的上下文（记录修复次数）
+ */
+export interface PromptRunContext {
+  repairs: number;
+}
+
+// 代码内置模板对应的版本号
+// 押题沿用历史结果中记录的 v2，面试出题和评估报告之前没有记录版本，从 v1 开始
+const BUILT_IN_VERSIONS: Record<PromptKey, string> = {
+  [PromptKey.RESUME_QUIZ_QUESTIONS]: 'v2',
+  [PromptKey.RESUME_QUIZ_ANALYSIS]: 'v2',
+  [PromptKey.MOCK_INTERVIEW_QUESTION]: 'v1',
+  [PromptKey.ASSESSMENT_REPORT]: 'v1',
+};
+
+// 启用版本的缓存时间（毫秒）
+const CACHE_TTL = 60 * 1000;
+
+/**
+ * Prompt 版本注册表
+ *
+ * - 保存各 Prompt 的版本，代码内置模板作为默认版本写入数据库
+ * - 按权重把用户稳定地分配到某个版本（同一用户多次请求得到同一版本），支持显式指定版本
+ * - 记录每次执行的结果、修复次数和成本，用于比较各版本的效果
+ */
+@Injectable()
+export class PromptRegistryService implements OnModuleInit {
+  private readonly logger = new Logger(PromptRegistryService.name);
+  private readonly cache = new Map<
+    PromptKey,
+    { versions: PromptVersion[]; loadedAt: number }
+  >();
+
+  constructor(
+    @InjectModel(PromptVersion.name)
+    private promptVersionModel: Model<PromptVersionDocument>,
+    @InjectModel(PromptRun.name)
+    private promptRunModel: Model<PromptRunDocument>,
+  ) {}
+
+  /**
+   * 写入内置版本（已存在的不覆盖，保留管理员调整的权重）
+   */
+  async onModuleInit(): Promise<void> {
+    try {
+      await this.promptVersionModel.bulkWrite(
+        Object.values(PromptKey).map((key) => ({
+          updateOne: {
+            filter: { key, version: BUILT_IN_VERSIONS[key] },
+            update: {
+              $setOnInsert: {
+                builtIn: true,
+                weight: 100,
+                isActive: true,
+                description: '代码内置版本',
+              },
+            },
+            upsert: true,
+          },
+        })),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `⚠️ 内置 Prompt 版本初始化失败: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * 代码内置版本
+   */
+  builtIn(key: PromptKey): ResolvedPrompt {
+    return { key, version: BUILT_IN_VERSIONS[key] };
+  }
+
+  /**
+   * 解析本次使用的 Prompt 版本
+   * 指定了可用的版本时直接使用；否则按权重分配，没有参与实验的版本时使用内置版本
+   */
+  async resolve(
+    key: PromptKey,
+    userId?: string,
+    requestedVersion?: string,
+  ): Promise<ResolvedPrompt> {
+    let versions: PromptVersion[];
+    try {
+      versions = await this.loadActiveVersions(key);
+    } catch (error) {
+      this.logger.warn(
+        `⚠️ 读取 Prompt 版本失败，使用内置版本: key=${key}, ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return this.builtIn(key);
+    }
+
+    if (requestedVersion) {
+      const requested = versions.find((v) => v.version === requestedVersion);
+      if (requested) {
+        return this.toResolved(requested);
+      }
+      this.logger.warn(
+        `⚠️ 指定的 Prompt 版本不存在或已停用，按权重分配: key=${key}, version=${requestedVersion}`,
+      );
+    }
+
+    const candidates = versions.filter((v) => v.weight > 0);
+    const totalWeight = candidates.reduce((sum, v) => sum + v.weight, 0);
+    if (totalWeight === 0) {
+      return this.builtIn(key);
+    }
+
+    // 按用户哈希分桶，保证同一用户稳定地落在同一版本
+    const hash = createHash('md5')
+      .update(`${key}:${userId || 'anonymous'}`)
+      .digest()
+      .readUInt32BE(0);
+    let bucket = (hash / 0x100000000) * totalWeight;
+    for (const candidate of candidates) {
+      bucket -= candidate.weight;
+      if (bucket < 0) {
+        return this.toResolved(candidate);
+      }
+    }
+    return this.toResolved(candidates[candidates.length - 1]);
+  }
+
+  /**
+   * 执行并记录一次 Prompt 运行
+   * 用量回调在创建模型时绑定归属，模型必须在 fn 内创建才能统计到本次运行的成本
+   */
+  async track<T>(
+    prompt: ResolvedPrompt,
+    fn: (run: PromptRunContext) => Promise<T>,
+  ): Promise<T> {
+    const usage = createUsageTotals();
+    const run: PromptRunContext = { repairs: 0 };
+
+    try {
+      const result = await collectAIUsage(usage, () => fn(run));
+      await this.recordRun(prompt, usage, { status: 'success', ...run });
+      return result;
+    } catch (error) {
+      await this.recordRun(prompt, usage, {
+        status: 'failed',
+        ...run,
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 保存 Prompt 执行记录（用户和结果ID取自当前的用量归属）
+   * 记录失败只输出日志，不影响业务流程
+   */
+  async recordRun(
+    prompt: ResolvedPrompt,
+    usage: AIUsageTotals,
+    outcome: {
+      status: 'success' | 'failed';
+      repairs: number;
+      errorMessage?: string;
+    },
+  ): Promise<void> {
+    const scope = aiUsageStorage.getStore();
+
+    try {
+      await this.promptRunModel.create({
+        key: prompt.key,
+        version: prompt.version,
+        userId: scope?.userId,
+        resultId: scope?.resultId,
+        status: outcome.status,
+        repairs: outcome.repairs,
+        calls: usage.calls,
+        totalTokens: usage.totalTokens,
+        estimatedCost: usage.estimatedCost,
+        errorMessage: outcome.errorMessage,
+      });
+    } catch (error) {
+      this.logger.error(
+        `❌ 保存 Prompt 执行记录失败: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * 按版本汇总执行记录：执行次数、失败率、修复率、平均 Token 和成本
+   */
+  async summarizeRuns(key?: PromptKey) {
+    return this.promptRunModel.aggregate<{
+      key: PromptKey;
+      version: string;
+      runs: number;
+      failureRate: number;
+      repairRate: number;
+      avgRepairs: number;
+      avgTokens: number;
+      avgCost: number;
+      totalCost: number;
+    }>([
+      { $match: key ? { key } : {} },
+      {
+        $group: {
+          _id: { key: '$key', version: '$version' },
+          runs: { $sum: 1 },
+          failed: { $sum: { $cond: [{ $eq: ['$status', 'failed'] }, 1, 0] } },
+          repaired: { $sum: { $cond: [{ $gt: ['$repairs', 0] }, 1, 0] } },
+          avgRepairs: { $avg: '$repairs' },
+          avgTokens: { $avg: '$totalTokens' },
+          avgCost: { $avg: '$estimatedCost' },
+          totalCost: { $sum: '$estimatedCost' },
+        },
+      },
+      {
+        $project: {
+          _id: 0,
+          key: '$_id.key',
+          version: '$_id.version',
+          runs: 1,
+          failureRate: { $divide: ['$failed', '$runs'] },
+          repairRate: { $divide: ['$repaired', '$runs'] },
+          avgRepairs: 1,
+          avgTokens: 1,
+          avgCost: 1,
+          totalCost: 1,
+        },
+      },
+      { $sort: { key: 1, version: 1 } },
+    ]);
+  }
+
+  /**
+   * 获取 Prompt 版本列表（管理后台）
+   */
+  async listVersions(key?: PromptKey) {
+    return this.promptVersionModel
+      .find(key ? { key } : {})
+      .sort({ key: 1, createdAt: 1 })
+      .lean();
+  }
+
+  /**
+   * 新增 Prompt 版本（管理后台）
+   */
+  async createVersion(dto: CreatePromptVersionDto) {
+    const exists = await this.promptVersionModel.exists({
+      key: dto.key,
+      version: dto.version,
+    });
+    if (exists) {
+      throw new ConflictException('该 Prompt 版本已存在');
+    }
+
+    try {
+      PromptTemplate.fromTemplate(dto.template);
+    } catch (error) {
+      throw new BadRequestException(
+        `Prompt 模板格式错误: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    const version = await this.promptVersionModel.create({
+      ...dto,
+      builtIn: false,
+    });
+    this.cache.delete(dto.key);
+
+    this.logger.log(
+      `✅ 新增 Prompt 版本: key=${dto.key}, version=${dto.version}`,
+    );
+    return version.toObject();
+  }
+
+  /**
+   * 修改 Prompt 版本（管理后台）
+   * 模板内容不允许修改，否则同一版本号下的数据无法比较，需要修改时请新建版本
+   */
+  async updateVersion(
+    key: PromptKey,
+    version: string,
+    dto: UpdatePromptVersionDto,
+  ) {
+    const updated = await this.promptVersionModel
+      .findOneAndUpdate({ key, version }, { $set: dto }, { new: true })
+      .lean();
+
+    if (!updated) {
+      throw new NotFoundException('Prompt 版本不存在');
+    }
+    this.cache.delete(key);
+
+    this.logger.log(`✅ 修改 Prompt 版本: key=${key}, version=${version}`);
+    return updated;
+  }
+
+  private async loadActiveVersions(key: PromptKey): Promise<PromptVersion[]> {
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL) {
+      return cached.versions;
+    }
+
+    const versions = await this.promptVersionModel
+      .find({ key, isActive: true })
+      .sort({ createdAt: 1 })
+      .lean();
+    this.cache.set(key, { versions, loadedAt: Date.now() });
+    return versions;
+  }
+
+  private toResolved(version: PromptVersion): ResolvedPrompt {
+    return {
+      key: version.key,
+      version: version.version,
+      template: version.builtIn ? undefined : version.template,
+    };
+  }
+}
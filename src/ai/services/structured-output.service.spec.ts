@@ -0,0 +1,80 @@
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { PromptTemplate } from '@langchain/core/prompts';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { z } from 'zod';
+import {
+  StructuredOutputError,
+  StructuredOutputService,
+} from './structured-output.service';
+
+describe('StructuredOutputService', () => {
+  let service: StructuredOutputService;
+  const configService = {
+    get: jest.fn(),
+  };
+
+  const schema = z.object({
+    score: z.number().min(0).max(100),
+    comment: z.string(),
+  });
+  const prompt = PromptTemplate.fromTemplate('评估回答：{answer}');
+
+  const invoke = (responses: string[], onRepair?: () => void) => {
+    const model = new FakeListChatModel({ responses });
+    return service.invoke({
+      label: '单题评估',
+      prompt,
+      variables: { answer: '回答' },
+      model,
+      schema,
+      onRepair,
+    });
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        StructuredOutputService,
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+    service = moduleRef.get(StructuredOutputService);
+  });
+
+  it('输出符合 Schema 时直接返回，兼容 ```json 代码块', async () => {
+    const result = await invoke([
+      '```json\n{"score": 80, "comment": "不错"}\n```',
+    ]);
+
+    expect(result).toEqual({ score: 80, comment: '不错' });
+  });
+
+  it('输出不符合 Schema 时要求模型修正', async () => {
+    const onRepair = jest.fn();
+
+    const result = await invoke(
+      ['{"score": 120}', '{"score": 95, "comment": "修正后"}'],
+      onRepair,
+    );
+
+    expect(result).toEqual({ score: 95, comment: '修正后' });
+    expect(onRepair).toHaveBeenCalledTimes(1);
+  });
+
+  it('修复次数用完后抛出 StructuredOutputError', async () => {
+    const onRepair = jest.fn();
+
+    const error = await invoke(
+      ['不是 JSON', '{"score": "高"}', '{"comment": "还是不对"}'],
+      onRepair,
+    ).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect((error as StructuredOutputError).errors).toEqual([
+      expect.stringContaining('score'),
+    ]);
+    expect(onRepair).toHaveBeenCalledTimes(2);
+  });
+});
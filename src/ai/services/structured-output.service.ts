@@ -0,0 +1,133 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import {
+  parseJsonMarkdown,
+  StringOutputParser,
+} from '@langchain/core/output_parsers';
+import { PromptTemplate } from '@langchain/core/prompts';
+import { z } from 'zod';
+import { STRUCTURED_OUTPUT_REPAIR_PROMPT } from '../prompts/structured-output.prompts';
+
+/**
+ * 结构化输出校验失败（修复次数用完后抛出）
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    public readonly label: string,
+    public readonly errors: string[],
+  ) {
+    super(`${label} 输出不符合格式要求: ${errors.join('; ')}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: string[] };
+
+/**
+ * 结构化输出服务
+ *
+ * 调用模型后用 zod Schema 校验输出；不符合时把校验错误发给模型要求修正，
+ * 最多修复 AI_OUTPUT_MAX_REPAIRS 次（默认 2 次），仍然失败则抛出 StructuredOutputError。
+ */
+@Injectable()
+export class StructuredOutputService {
+  private readonly logger = new Logger(StructuredOutputService.name);
+  private readonly maxRepairs: number;
+
+  constructor(private readonly configService: ConfigService) {
+    const maxRepairs = Number(
+      this.configService.get<string>('AI_OUTPUT_MAX_REPAIRS'),
+    );
+    this.maxRepairs = Number.isInteger(maxRepairs) ? maxRepairs : 2;
+  }
+
+  /**
+   * 调用模型并返回通过校验的结构化结果
+   *
+   * @param options.label - 日志和错误信息中使用的名称
+   * @param options.prompt - Prompt 模板
+   * @param options.variables - Prompt 变量
+   * @param options.model - 使用的模型（修复时也使用同一个模型）
+   * @param options.schema - 输出的 zod Schema
+   * @param options.onRepair - 每次发起修复前回调（用于统计修复次数）
+   */
+  async invoke<S extends z.ZodType>(options: {
+    label: string;
+    prompt: PromptTemplate;
+    variables: Record<string, unknown>;
+    model: BaseChatModel;
+    schema: S;
+    onRepair?: () => void;
+  }): Promise<z.infer<S>> {
+    const { label, prompt, variables, model, schema, onRepair } = options;
+    const parser = new StringOutputParser();
+
+    let output = await prompt.pipe(model).pipe(parser).invoke(variables);
+
+    for (let attempt = 0; ; attempt++) {
+      const result = this.validate(output, schema);
+      if (result.success) {
+        return result.data;
+      }
+
+      if (attempt >= this.maxRepairs) {
+        this.logger.error(
+          `❌ ${label} 输出校验失败，修复次数已用完: ${result.errors.join('; ')}`,
+        );
+        throw new StructuredOutputError(label, result.errors);
+      }
+
+      this.logger.warn(
+        `⚠️ ${label} 输出校验失败，第 ${attempt + 1} 次修复: ${result.errors.join('; ')}`,
+      );
+      onRepair?.();
+
+      output = await PromptTemplate.fromTemplate(
+        STRUCTURED_OUTPUT_REPAIR_PROMPT,
+      )
+        .pipe(model)
+        .pipe(parser)
+        .invoke({
+          output,
+          errors: result.errors.map((error) => `- ${error}`).join('\n'),
+          schema: JSON.stringify(z.toJSONSchema(schema), null, 2),
+        });
+    }
+  }
+
+  /**
+   * 解析 JSON（兼容 ```json 代码块）并按 Schema 校验
+   */
+  private validate<S extends z.ZodType>(
+    output: string,
+    schema: S,
+  ): ValidationResult<z.infer<S>> {
+    let json: unknown;
+    try {
+      // 使用严格的 JSON.parse，不接受被截断的 JSON
+      json = parseJsonMarkdown(output, JSON.parse);
+    } catch (error) {
+      return {
+        success: false,
+        errors: [
+          `不是合法的 JSON: ${error instanceof Error ? error.message : String(error)}`,
+        ],
+      };
+    }
+
+    const result = schema.safeParse(json);
+    if (result.success) {
+      return { success: true, data: result.data };
+    }
+
+    return {
+      success: false,
+      errors: result.error.issues.map(
+        (issue) => `${issue.path.join('.') || '(根节点)'}: ${issue.message}`,
+      ),
+    };
+  }
+}
@@ -1,7 +1,10 @@
 import { Controller, Get } from '@nestjs/common';
 import { AppService } from './app.service';
 import { InterviewService } from './interview/services/interview.service';
-import { ApiTags, ApiOperation } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { Public } from './auth/public.decorator';
+import { RequirePermissions } from './auth/roles.decorator';
+import { Permission } from './auth/permissions';
 
 @ApiTags('系统')
 @Controller()
@@ -12,13 +15,16 @@ export class AppController {
   ) {}
 
   @Get()
+  @Public()
   @ApiOperation({ summary: '健康检查' })
   getHello(): string {
     return this.appService.getHello();
   }
 
   @Get('admin/mock-interview-count')
-  @ApiOperation({ summary: '获取实时模拟面试人数' })
+  @RequirePermissions(Permission.INTERVIEW_STATS)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '获取实时模拟面试人数（管理员）' })
   async getMockInterviewCount() {
     const count = await this.interviewService.getActiveMockInterviewCount();
     return { count };
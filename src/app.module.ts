@@ -14,9 +14,10 @@ import { PaymentModule } from './payment/payment.module';
 import { StsModule } from './sts/sts.module';
 import { InterviewModule } from './interview/interview.module';
 import { ResumeModule } from './resume/resume.module';
+import { LedgerModule } from './ledger/ledger.module';
 import { ResponseInterceptor } from './common/interceptors/response.interceptor';
 import { AllExceptionsFilter } from './common/filters/all-exceptions.filter';
-import { JwtStrategy } from './auth/jwt.strategy';
+import { AuthModule } from './auth/auth.module';
 import { getTokenExpirationSeconds } from './common/utils/jwt.util';
 import { TraceIdMiddleware } from './common/middleware/trace-id.middleware';
 
@@ -44,7 +45,7 @@ import { TraceIdMiddleware } from './common/middleware/trace-id.middleware';
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: async (configService: ConfigService) => {
-        const expirationSeconds = getTokenExpirationSeconds();
+        const expirationSeconds = getTokenExpirationSeconds(configService);
         return {
           secret: configService.get<string>('JWT_SECRET') || 'mmx-secret',
           signOptions: {
@@ -55,17 +56,18 @@ import { TraceIdMiddleware } from './common/middleware/trace-id.middleware';
       inject: [ConfigService],
       global: true,
     }),
+    AuthModule,
     UserModule,
     WechatModule,
     PaymentModule,
     StsModule,
     InterviewModule,
     ResumeModule,
+    LedgerModule,
   ],
   controllers: [AppController],
   providers: [
     AppService,
-    JwtStrategy,
     {
       provide: APP_INTERCEPTOR,
       useClass: ResponseInterceptor,
@@ -0,0 +1,63 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type AuthSessionDocument = AuthSession & Document;
+
+/**
+ * 登录会话吊销原因
+ */
+export enum AuthSessionRevokeReason {
+  LOGOUT = 'logout', // 用户退出登录
+  LOGOUT_ALL = 'logout_all', // 用户退出全部设备
+  PASSWORD_CHANGED = 'password_changed', // 修改密码
+  PASSWORD_RESET = 'password_reset', // 通过邮件重置密码
+  ACCOUNT_MERGED = 'account_merged', // 账号被合并到其他账号
+  REUSE_DETECTED = 'reuse_detected', // 已轮换的刷新令牌被再次使用（疑似被盗）
+}
+
+/**
+ * 登录会话 Schema
+ *
+ * - 每次登录创建一个会话，访问令牌通过 sid 关联会话，会话吊销后访问令牌立即失效
+ * - 只保存当前刷新令牌的 SHA-256 哈希，刷新时轮换；已轮换的刷新令牌再次出现时吊销整个会话
+ * - 过期的会话由 TTL 索引自动清理
+ */
+@Schema({ timestamps: true })
+export class AuthSession {
+  @Prop({ required: true, unique: true })
+  sessionId: string; // 会话ID（访问令牌中的 sid）
+
+  @Prop({ required: true, index: true })
+  userId: string; // 用户ID
+
+  @Prop({ required: true })
+  refreshTokenHash: string; // 当前刷新令牌的哈希
+
+  @Prop({ required: true, default: 0 })
+  tokenVersion: number; // 创建会话时用户的令牌版本
+
+  @Prop({ required: true })
+  expiresAt: Date; // 刷新令牌过期时间
+
+  @Prop()
+  lastRefreshedAt?: Date; // 最近一次刷新时间
+
+  @Prop()
+  revokedAt?: Date; // 吊销时间
+
+  @Prop({ enum: AuthSessionRevokeReason })
+  revokedReason?: AuthSessionRevokeReason; // 吊销原因
+
+  @Prop()
+  userAgent?: string; // 登录设备
+
+  @Prop()
+  ip?: string; // 登录 IP
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const AuthSessionSchema = SchemaFactory.createForClass(AuthSession);
+
+AuthSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { MongooseModule } from '@nestjs/mongoose';
+import { JwtStrategy } from './jwt.strategy';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { RolesGuard } from './roles.guard';
+import { TokenService } from './token.service';
+import { AuthSession, AuthSessionSchema } from './auth-session.schema';
+import { User, UserSchema } from '../user/schemas/user.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: AuthSession.name, schema: AuthSessionSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+  ],
+  providers: [
+    JwtStrategy,
+    TokenService,
+    // 全局守卫：默认所有接口都需要登录（@Public() 除外），再校验 @Roles() / @RequirePermissions()
+    { provide: APP_GUARD, useClass: JwtAuthGuard },
+    { provide: APP_GUARD, useClass: RolesGuard },
+  ],
+  exports: [TokenService],
+})
+export class AuthModule {}
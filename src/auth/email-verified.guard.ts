@@ -0,0 +1,48 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { User, UserDocument } from '../user/schemas/user.schema';
+
+/**
+ * 邮箱验证守卫
+ * 开启 EMAIL_VERIFICATION_REQUIRED 时，邮箱未验证的用户不能使用受保护的功能（需要放在 JwtAuthGuard 之后）
+ * 手机号已验证或已绑定微信的用户视为已验证身份
+ */
+@Injectable()
+export class EmailVerifiedGuard implements CanActivate {
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectModel(User.name)
+    private readonly userModel: Model<UserDocument>,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const required =
+      String(this.configService.get('EMAIL_VERIFICATION_REQUIRED')) === 'true';
+    if (!required) {
+      return true;
+    }
+
+    const { user } = context
+      .switchToHttp()
+      .getRequest<{ user?: { userId?: string } }>();
+    const current = await this.userModel
+      .findById(user?.userId)
+      .select('isActive phoneVerifiedAt isWechatBound')
+      .lean();
+
+    const verified =
+      !!current &&
+      (current.isActive || !!current.phoneVerifiedAt || current.isWechatBound);
+    if (!verified) {
+      throw new ForbiddenException('请先完成邮箱验证');
+    }
+    return true;
+  }
+}
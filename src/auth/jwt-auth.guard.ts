@@ -31,23 +31,29 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
   }
 
   handleRequest(err, user, info: any) {
+    // 令牌已被吊销等由 JwtStrategy 主动拒绝的情况，直接返回原因
+    if (err instanceof UnauthorizedException) {
+      throw err;
+    }
+
     if (err || !user) {
       // 记录详细的错误信息用于调试
       const errorMessage = info?.message || '无效的 Token';
       const errorName = info?.name || 'UnknownError';
-      
+
       // 根据不同的错误类型提供更友好的错误信息
       let friendlyMessage = errorMessage;
       if (errorName === 'JsonWebTokenError') {
         if (errorMessage.includes('invalid signature')) {
-          friendlyMessage = 'Token 签名无效，可能是 JWT_SECRET 配置不一致或 Token 被篡改';
+          friendlyMessage =
+            'Token 签名无效，可能是 JWT_SECRET 配置不一致或 Token 被篡改';
         } else if (errorMessage.includes('jwt malformed')) {
           friendlyMessage = 'Token 格式错误，请检查 Authorization 头部格式';
         } else if (errorMessage.includes('jwt expired')) {
           friendlyMessage = 'Token 已过期，请重新登录';
         }
       }
-      
+
       throw new UnauthorizedException(friendlyMessage);
     }
     return user;
@@ -1,19 +1,35 @@
 // 导入所需的模块和服务
-import { Injectable, Logger } from '@nestjs/common'; // 引入NestJS的依赖注入装饰器
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common'; // 引入NestJS的依赖注入装饰器
 import { PassportStrategy } from '@nestjs/passport'; // 引入PassportStrategy基类，用于扩展策略
 import { Strategy, ExtractJwt } from 'passport-jwt'; // 引入JWT策略和提取JWT的方法
 import { ConfigService } from '@nestjs/config'; // 引入NestJS的配置服务，用于获取配置项
+import { TokenService, type AccessTokenPayload } from './token.service'; // 引入令牌服务，用于校验令牌是否已被吊销
+import { resolvePermissions } from './permissions'; // 引入权限计算，用于把角色展开为权限
+
+/**
+ * 请求中的当前用户（req.user）
+ */
+export interface AuthenticatedUser {
+  userId: string; // 用户ID
+  username: string; // 用户名
+  email?: string; // 用户邮箱
+  roles: string[]; // 用户角色
+  permissions: string[]; // 用户权限（角色权限加上单独授予的权限）
+  sessionId: string; // 会话ID
+}
 
 // 使用@Injectable装饰器使JwtStrategy可以被NestJS的依赖注入系统管理
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   private readonly logger = new Logger(JwtStrategy.name);
 
-  // 构造函数接收ConfigService实例，用于获取配置
-  constructor(private readonly configService: ConfigService) {
+  // 构造函数接收ConfigService实例，用于获取配置；TokenService用于校验会话是否已吊销
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly tokenService: TokenService,
+  ) {
     // 获取 JWT Secret（用于签名验证）
-    const jwtSecret =
-      configService.get<string>('JWT_SECRET') || 'mmx-secret';
+    const jwtSecret = configService.get<string>('JWT_SECRET') || 'mmx-secret';
 
     // 调用父类构造函数，传递JWT的配置选项
     super({
@@ -40,12 +56,21 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
 
   // validate方法是JWT验证通过后执行的逻辑
   // payload是解密后的JWT数据
-  async validate(payload: any) {
+  async validate(payload: AccessTokenPayload): Promise<AuthenticatedUser> {
+    // 会话已退出、已吊销或修改过密码的令牌直接拒绝
+    const access = await this.tokenService.resolveAccessToken(payload);
+    if (!access) {
+      throw new UnauthorizedException('登录已失效，请重新登录');
+    }
+
     // 返回有效的用户信息（可以将其存储在请求的user对象中，后续中间件可以访问）
     return {
       userId: payload.userId, // 用户ID
       username: payload.username, // 用户名
       email: payload.email, // 用户邮箱
+      roles: access.roles, // 用户角色（从数据库读取，角色变更立即生效）
+      permissions: resolvePermissions(access.roles, access.permissions), // 用户权限（RolesGuard 使用）
+      sessionId: payload.sid, // 会话ID（退出登录时吊销）
     };
   }
 }
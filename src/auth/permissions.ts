@@ -0,0 +1,58 @@
+/**
+ * 角色
+ */
+export enum Role {
+  USER = 'user', // 普通用户
+  ADMIN = 'admin', // 管理员（拥有全部权限）
+  FINANCE = 'finance', // 财务（退款、对账、账本）
+  OPERATOR = 'operator', // 运营（套餐、优惠码、面试官人设和 Prompt）
+}
+
+/**
+ * 权限（`<模块>:<操作>`）
+ */
+export enum Permission {
+  PAYMENT_REFUND = 'payment:refund', // 查看和审核退款
+  PAYMENT_RECONCILE = 'payment:reconcile', // 对账
+  PAYMENT_PLAN = 'payment:plan', // 管理套餐
+  PAYMENT_COUPON = 'payment:coupon', // 管理优惠码
+  LEDGER_READ = 'ledger:read', // 查看用户账本
+  INTERVIEW_CONFIG = 'interview:config', // 管理面试官人设和 Prompt 版本
+  INTERVIEW_STATS = 'interview:stats', // 查看面试统计
+  USER_GRANT = 'user:grant', // 分配角色和权限
+}
+
+/**
+ * 各角色拥有的权限
+ */
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  [Role.USER]: [],
+  [Role.ADMIN]: Object.values(Permission),
+  [Role.FINANCE]: [
+    Permission.PAYMENT_REFUND,
+    Permission.PAYMENT_RECONCILE,
+    Permission.LEDGER_READ,
+  ],
+  [Role.OPERATOR]: [
+    Permission.PAYMENT_PLAN,
+    Permission.PAYMENT_COUPON,
+    Permission.INTERVIEW_CONFIG,
+    Permission.INTERVIEW_STATS,
+  ],
+};
+
+/**
+ * 计算用户的全部权限：角色权限加上单独授予的权限
+ */
+export function resolvePermissions(
+  roles: string[] = [],
+  granted: string[] = [],
+): string[] {
+  const permissions = new Set<string>(granted);
+  for (const role of roles) {
+    for (const permission of ROLE_PERMISSIONS[role as Role] ?? []) {
+      permissions.add(permission);
+    }
+  }
+  return [...permissions];
+}
@@ -0,0 +1,16 @@
+import { SetMetadata } from '@nestjs/common';
+import { Permission, Role } from './permissions';
+
+export const ROLES_KEY = 'roles';
+export const PERMISSIONS_KEY = 'permissions';
+
+/**
+ * 要求用户拥有任一角色
+ */
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
+
+/**
+ * 要求用户拥有全部权限
+ */
+export const RequirePermissions = (...permissions: Permission[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
@@ -0,0 +1,80 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { AuthenticatedUser } from './jwt.strategy';
+import { Permission, Role, resolvePermissions } from './permissions';
+import { RequirePermissions, Roles } from './roles.decorator';
+import { RolesGuard } from './roles.guard';
+
+@Roles(Role.ADMIN, Role.FINANCE)
+class RefundController {
+  list() {}
+
+  @RequirePermissions(Permission.PAYMENT_REFUND, Permission.USER_GRANT)
+  approve() {}
+}
+
+class ProfileController {
+  get() {}
+}
+
+describe('RolesGuard', () => {
+  const guard = new RolesGuard(new Reflector());
+
+  const contextFor = (
+    controller: new () => object,
+    handler: string,
+    user?: Pick<AuthenticatedUser, 'roles' | 'permissions'>,
+  ) =>
+    ({
+      getHandler: () =>
+        (controller.prototype as Record<string, () => void>)[handler],
+      getClass: () => controller,
+      switchToHttp: () => ({ getRequest: () => ({ user }) }),
+    }) as unknown as ExecutionContext;
+
+  const userWith = (roles: Role[], granted: Permission[] = []) => ({
+    roles,
+    permissions: resolvePermissions(roles, granted),
+  });
+
+  it('没有角色和权限要求时只要求登录', () => {
+    expect(guard.canActivate(contextFor(ProfileController, 'get'))).toBe(true);
+  });
+
+  it('拥有任一角色即可访问', () => {
+    expect(
+      guard.canActivate(
+        contextFor(RefundController, 'list', userWith([Role.FINANCE])),
+      ),
+    ).toBe(true);
+    expect(() =>
+      guard.canActivate(
+        contextFor(RefundController, 'list', userWith([Role.OPERATOR])),
+      ),
+    ).toThrow(ForbiddenException);
+  });
+
+  it('方法上要求的权限需要全部拥有', () => {
+    expect(() =>
+      guard.canActivate(
+        contextFor(RefundController, 'approve', userWith([Role.FINANCE])),
+      ),
+    ).toThrow(ForbiddenException);
+
+    expect(
+      guard.canActivate(
+        contextFor(
+          RefundController,
+          'approve',
+          userWith([Role.FINANCE], [Permission.USER_GRANT]),
+        ),
+      ),
+    ).toBe(true);
+  });
+
+  it('未登录时拒绝访问有要求的接口', () => {
+    expect(() =>
+      guard.canActivate(contextFor(RefundController, 'list')),
+    ).toThrow(ForbiddenException);
+  });
+});
@@ -1,30 +1,58 @@
 import {
   CanActivate,
   ExecutionContext,
+  ForbiddenException,
   Injectable,
-  SetMetadata,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
-import { Observable } from 'rxjs';
-
-export const Roles = (...roles: string[]) => SetMetadata('roles', roles); // 自定义装饰器，用于设置角色元数据
+import { PERMISSIONS_KEY, ROLES_KEY } from './roles.decorator';
+import type { AuthenticatedUser } from './jwt.strategy';
 
+/**
+ * 角色和权限守卫（全局注册，在 JwtAuthGuard 之后执行）
+ * 方法上的 @Roles() / @RequirePermissions() 覆盖控制器上的设置；都没有设置时只要求登录
+ */
 @Injectable()
 export class RolesGuard implements CanActivate {
   constructor(private reflector: Reflector) {}
 
   canActivate(context: ExecutionContext): boolean {
-    const requiredRoles = this.reflector.get<string[]>(
-      'roles',
-      context.getHandler(),
-    ); // 获取角色元数据
-    if (!requiredRoles) {
-      return true; // 如果没有设置角色要求，则默认允许访问
+    const targets = [context.getHandler(), context.getClass()];
+    const requiredRoles = this.reflector.getAllAndOverride<string[]>(
+      ROLES_KEY,
+      targets,
+    );
+    const requiredPermissions = this.reflector.getAllAndOverride<string[]>(
+      PERMISSIONS_KEY,
+      targets,
+    );
+    if (!requiredRoles?.length && !requiredPermissions?.length) {
+      return true; // 没有设置角色和权限要求，则默认允许访问
+    }
+
+    const { user } = context
+      .switchToHttp()
+      .getRequest<{ user?: AuthenticatedUser }>();
+    if (!user) {
+      throw new ForbiddenException('没有访问权限');
     }
-    const user = context.switchToHttp().getRequest().user;
-    if (!user || !user.roles) {
-      return false; // 如果用户没有角色信息，则拒绝访问
+
+    if (
+      requiredRoles?.length &&
+      !requiredRoles.some((role) => user.roles.includes(role))
+    ) {
+      throw new ForbiddenException('没有访问权限');
     }
-    return requiredRoles.some((role) => user.roles.includes(role));
+
+    if (
+      requiredPermissions?.length &&
+      !requiredPermissions.every((permission) =>
+        user.permissions.includes(permission),
+      )
+    ) {
+      throw new ForbiddenException('没有访问权限');
+    }
+
+    return true;
   }
 }
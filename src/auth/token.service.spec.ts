@@ -0,0 +1,207 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { mockQuery } from '../../test/mock-query';
+import { User } from '../user/schemas/user.schema';
+import { AuthSession, AuthSessionRevokeReason } from './auth-session.schema';
+import { TokenService } from './token.service';
+
+describe('TokenService', () => {
+  let service: TokenService;
+  let session: Record<string, unknown> | null;
+  const authSessionModel = {
+    create: jest.fn(),
+    findOne: jest.fn(),
+    updateOne: jest.fn(),
+    updateMany: jest.fn(),
+  };
+  const userModel = {
+    findById: jest.fn(),
+    updateOne: jest.fn(),
+  };
+  const jwtService = {
+    sign: jest.fn(),
+  };
+
+  const user = {
+    _id: new Types.ObjectId(),
+    username: 'alice',
+    email: 'alice@example.com',
+    roles: ['user'],
+    tokenVersion: 2,
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    session = null;
+    // 内存中的会话：轮换时以刷新令牌哈希未变为条件更新
+    authSessionModel.create.mockImplementation(
+      (doc: Record<string, unknown>) => {
+        session = { ...doc };
+        return Promise.resolve(doc);
+      },
+    );
+    authSessionModel.findOne.mockImplementation(() => mockQuery(session));
+    authSessionModel.updateOne.mockImplementation(
+      (
+        filter: { refreshTokenHash?: string },
+        update: { $set: Record<string, unknown> },
+      ) => {
+        if (
+          !session ||
+          session.revokedAt ||
+          (filter.refreshTokenHash &&
+            filter.refreshTokenHash !== session.refreshTokenHash)
+        ) {
+          return Promise.resolve({ modifiedCount: 0 });
+        }
+        Object.assign(session, update.$set);
+        return Promise.resolve({ modifiedCount: 1 });
+      },
+    );
+    userModel.findById.mockImplementation(() => mockQuery(user));
+    jwtService.sign.mockReturnValue('access-token');
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        TokenService,
+        {
+          provide: getModelToken(AuthSession.name),
+          useValue: authSessionModel,
+        },
+        { provide: getModelToken(User.name), useValue: userModel },
+        { provide: JwtService, useValue: jwtService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+    service = moduleRef.get(TokenService);
+  });
+
+  it('登录时创建会话，只保存刷新令牌的哈希', async () => {
+    const tokens = await service.issue(user);
+
+    const [sessionId] = tokens.refreshToken.split('.');
+    expect(session).toMatchObject({
+      sessionId,
+      userId: user._id.toString(),
+      tokenVersion: 2,
+    });
+    expect(session?.refreshTokenHash).not.toContain(tokens.refreshToken);
+    expect(jwtService.sign).toHaveBeenCalledWith(
+      expect.objectContaining({ sid: sessionId, tv: 2 }),
+    );
+    expect(tokens).toMatchObject({
+      token: 'access-token',
+      expiresIn: 900,
+      refreshExpiresIn: 30 * 24 * 60 * 60,
+    });
+  });
+
+  describe('refresh', () => {
+    it('轮换刷新令牌，旧的刷新令牌随即失效', async () => {
+      const { refreshToken } = await service.issue(user);
+
+      const refreshed = await service.refresh(refreshToken);
+
+      expect(refreshed.refreshToken).not.toBe(refreshToken);
+      expect(refreshed.refreshToken.split('.')[0]).toBe(
+        refreshToken.split('.')[0],
+      );
+      await expect(
+        service.refresh(refreshed.refreshToken),
+      ).resolves.toBeDefined();
+    });
+
+    it('已轮换的刷新令牌被再次使用时吊销整个会话', async () => {
+      const { refreshToken } = await service.issue(user);
+      const refreshed = await service.refresh(refreshToken);
+
+      await expect(service.refresh(refreshToken)).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+      expect(session).toMatchObject({
+        revokedReason: AuthSessionRevokeReason.REUSE_DETECTED,
+      });
+
+      // 被盗用的会话中最新的刷新令牌也不能再使用
+      await expect(
+        service.refresh(refreshed.refreshToken),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+    });
+
+    it('用户令牌版本变化后拒绝刷新', async () => {
+      const { refreshToken } = await service.issue(user);
+      userModel.findById.mockImplementation(() =>
+        mockQuery({ ...user, tokenVersion: 3 }),
+      );
+
+      await expect(service.refresh(refreshToken)).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+    });
+
+    it('会话已过期时拒绝刷新', async () => {
+      const { refreshToken } = await service.issue(user);
+      session!.expiresAt = new Date(Date.now() - 1000);
+
+      await expect(service.refresh(refreshToken)).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+    });
+  });
+
+  describe('resolveAccessToken', () => {
+    const payload = {
+      userId: user._id.toString(),
+      username: 'alice',
+      roles: ['user'],
+      sid: 's1',
+      tv: 2,
+    };
+
+    it('返回数据库中的最新角色和权限', async () => {
+      userModel.findById.mockReturnValue(
+        mockQuery({ ...user, roles: ['finance'], permissions: ['user:grant'] }),
+      );
+      session = { sessionId: 's1' };
+
+      await expect(service.resolveAccessToken(payload)).resolves.toEqual({
+        roles: ['finance'],
+        permissions: ['user:grant'],
+      });
+    });
+
+    it('令牌版本变化或会话已吊销时令牌失效', async () => {
+      session = { sessionId: 's1' };
+      await expect(
+        service.resolveAccessToken({ ...payload, tv: 1 }),
+      ).resolves.toBeNull();
+
+      session = { sessionId: 's1', revokedAt: new Date() };
+      await expect(service.resolveAccessToken(payload)).resolves.toBeNull();
+    });
+  });
+
+  it('吊销全部会话时递增用户令牌版本', async () => {
+    authSessionModel.updateMany.mockResolvedValue({ modifiedCount: 2 });
+
+    await service.revokeAll('u1', AuthSessionRevokeReason.PASSWORD_CHANGED);
+
+    expect(userModel.updateOne).toHaveBeenCalledWith(
+      { _id: 'u1' },
+      { $inc: { tokenVersion: 1 } },
+    );
+    expect(authSessionModel.updateMany).toHaveBeenCalledWith(
+      { userId: 'u1', revokedAt: { $exists: false } },
+      {
+        $set: {
+          revokedAt: expect.any(Date) as unknown,
+          revokedReason: AuthSessionRevokeReason.PASSWORD_CHANGED,
+        },
+      },
+    );
+  });
+});
@@ -0,0 +1,241 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import {
+  AuthSession,
+  AuthSessionDocument,
+  AuthSessionRevokeReason,
+} from './auth-session.schema';
+import { User, UserDocument } from '../user/schemas/user.schema';
+import {
+  getRefreshTokenExpirationSeconds,
+  getTokenExpirationSeconds,
+} from '../common/utils/jwt.util';
+
+/**
+ * 访问令牌载荷
+ */
+export interface AccessTokenPayload {
+  userId: string; // 用户ID
+  username: string; // 用户名
+  email?: string; // 用户邮箱
+  roles: string[]; // 用户角色
+  sid: string; // 会话ID
+  tv: number; // 用户令牌版本
+}
+
+/**
+ * 签发的令牌
+ */
+export interface IssuedTokens {
+  token: string; // 访问令牌
+  refreshToken: string; // 刷新令牌
+  expiresIn: number; // 访问令牌有效期（秒）
+  refreshExpiresIn: number; // 刷新令牌有效期（秒）
+}
+
+/**
+ * 登录设备信息
+ */
+export interface SessionClientInfo {
+  userAgent?: string;
+  ip?: string;
+}
+
+type TokenSubject = Pick<
+  UserDocument,
+  '_id' | 'username' | 'email' | 'roles' | 'tokenVersion'
+>;
+
+/**
+ * 令牌服务
+ *
+ * - 登录时签发短期访问令牌和刷新令牌，刷新令牌格式为 `<会话ID>.<随机串>`，只保存哈希
+ * - 刷新时轮换刷新令牌；已轮换的刷新令牌再次使用时吊销整个会话
+ * - 访问令牌校验会话未吊销、用户令牌版本未变化；修改密码等操作递增令牌版本，使所有会话失效
+ */
+@Injectable()
+export class TokenService {
+  private readonly logger = new Logger(TokenService.name);
+
+  constructor(
+    @InjectModel(AuthSession.name)
+    private readonly authSessionModel: Model<AuthSessionDocument>,
+    @InjectModel(User.name)
+    private readonly userModel: Model<UserDocument>,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * 登录成功后创建会话并签发令牌
+   */
+  async issue(
+    user: TokenSubject,
+    client: SessionClientInfo = {},
+  ): Promise<IssuedTokens> {
+    const sessionId = randomUUID();
+    const refreshToken = this.generateRefreshToken(sessionId);
+    const refreshExpiresIn = getRefreshTokenExpirationSeconds(
+      this.configService,
+    );
+
+    await this.authSessionModel.create({
+      sessionId,
+      userId: user._id.toString(),
+      refreshTokenHash: this.hash(refreshToken),
+      tokenVersion: user.tokenVersion ?? 0,
+      expiresAt: new Date(Date.now() + refreshExpiresIn * 1000),
+      userAgent: client.userAgent,
+      ip: client.ip,
+    });
+
+    return {
+      token: this.signAccessToken(user, sessionId),
+      refreshToken,
+      expiresIn: getTokenExpirationSeconds(this.configService),
+      refreshExpiresIn,
+    };
+  }
+
+  /**
+   * 用刷新令牌换取新的访问令牌和刷新令牌
+   */
+  async refresh(refreshToken: string): Promise<IssuedTokens> {
+    const sessionId = refreshToken.split('.')[0];
+    const session = await this.authSessionModel.findOne({ sessionId }).lean();
+
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+      throw new UnauthorizedException('登录已失效，请重新登录');
+    }
+
+    const refreshTokenHash = this.hash(refreshToken);
+    if (refreshTokenHash !== session.refreshTokenHash) {
+      // 已轮换的刷新令牌被再次使用，说明令牌可能已泄露，吊销整个会话
+      await this.revokeSession(
+        sessionId,
+        AuthSessionRevokeReason.REUSE_DETECTED,
+      );
+      this.logger.warn(
+        `⚠️ 刷新令牌被重复使用，已吊销会话: userId=${session.userId}, sessionId=${sessionId}`,
+      );
+      throw new UnauthorizedException('登录已失效，请重新登录');
+    }
+
+    const user = await this.userModel
+      .findById(session.userId)
+      .select('username email roles tokenVersion')
+      .lean();
+    if (!user || (user.tokenVersion ?? 0) !== session.tokenVersion) {
+      throw new UnauthorizedException('登录已失效，请重新登录');
+    }
+
+    // 🔒 以刷新令牌哈希未变为条件轮换，并发刷新时只有一个成功
+    const nextRefreshToken = this.generateRefreshToken(sessionId);
+    const rotated = await this.authSessionModel.updateOne(
+      { sessionId, refreshTokenHash, revokedAt: { $exists: false } },
+      {
+        $set: {
+          refreshTokenHash: this.hash(nextRefreshToken),
+          lastRefreshedAt: new Date(),
+        },
+      },
+    );
+    if (!rotated.modifiedCount) {
+      throw new UnauthorizedException('登录已失效，请重新登录');
+    }
+
+    return {
+      token: this.signAccessToken(user, sessionId),
+      refreshToken: nextRefreshToken,
+      expiresIn: getTokenExpirationSeconds(this.configService),
+      refreshExpiresIn: Math.max(
+        0,
+        Math.floor((session.expiresAt.getTime() - Date.now()) / 1000),
+      ),
+    };
+  }
+
+  /**
+   * 校验访问令牌是否已被吊销
+   * @returns 令牌有效时返回用户当前的角色和权限（角色变更立即生效，不依赖令牌中的角色），已吊销时返回 null
+   */
+  async resolveAccessToken(
+    payload: AccessTokenPayload,
+  ): Promise<Pick<User, 'roles' | 'permissions'> | null> {
+    const user = await this.userModel
+      .findById(payload.userId)
+      .select('tokenVersion roles permissions')
+      .lean();
+    if (!user || (user.tokenVersion ?? 0) !== (payload.tv ?? 0)) {
+      return null;
+    }
+
+    // 没有 sid 的令牌是启用会话前签发的，只校验令牌版本
+    if (payload.sid) {
+      const session = await this.authSessionModel
+        .findOne({ sessionId: payload.sid })
+        .select('revokedAt')
+        .lean();
+      if (!session || session.revokedAt) {
+        return null;
+      }
+    }
+
+    return { roles: user.roles ?? [], permissions: user.permissions ?? [] };
+  }
+
+  /**
+   * 吊销单个会话（退出登录）
+   */
+  async revokeSession(
+    sessionId: string,
+    reason: AuthSessionRevokeReason = AuthSessionRevokeReason.LOGOUT,
+  ) {
+    await this.authSessionModel.updateOne(
+      { sessionId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date(), revokedReason: reason } },
+    );
+  }
+
+  /**
+   * 吊销用户的全部会话（递增令牌版本，已签发的访问令牌全部失效）
+   */
+  async revokeAll(userId: string, reason: AuthSessionRevokeReason) {
+    await this.userModel.updateOne(
+      { _id: userId },
+      { $inc: { tokenVersion: 1 } },
+    );
+    const result = await this.authSessionModel.updateMany(
+      { userId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date(), revokedReason: reason } },
+    );
+
+    this.logger.log(
+      `🔒 已吊销用户全部会话: userId=${userId}, reason=${reason}, sessions=${result.modifiedCount}`,
+    );
+  }
+
+  private signAccessToken(user: TokenSubject, sessionId: string): string {
+    const payload: AccessTokenPayload = {
+      userId: user._id.toString(),
+      username: user.username,
+      email: user.email,
+      roles: user.roles,
+      sid: sessionId,
+      tv: user.tokenVersion ?? 0,
+    };
+    return this.jwtService.sign(payload);
+  }
+
+  private generateRefreshToken(sessionId: string): string {
+    return `${sessionId}.${randomBytes(32).toString('base64url')}`;
+  }
+
+  private hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
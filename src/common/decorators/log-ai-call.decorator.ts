@@ -1,5 +1,9 @@
 import { Logger } from '@nestjs/common';
 import { traceIdStorage } from '../middleware/trace-id.middleware';
+import {
+  collectAIUsage,
+  createUsageTotals,
+} from '../../ai/services/ai-usage.service';
 
 const logger = new Logger('AI-CALL');
 
@@ -20,16 +24,19 @@ export function LogAICall(methodName: string) {
     descriptor.value = async function (...args: any[]) {
       const traceId = traceIdStorage.getStore();
       const startTime = Date.now();
+      // 收集本次调用内所有模型调用的真实用量（由 TokenUsageCallbackHandler 累加）
+      const usage = createUsageTotals();
 
       try {
         logger.log(`[${traceId}] 开始 AI 调用: ${methodName}`);
 
-        const result = await originalMethod.apply(this, args);
+        const result = await collectAIUsage(usage, () =>
+          originalMethod.apply(this, args),
+        );
         const duration = Date.now() - startTime;
 
-        // 假设 result 包含 usage 信息
-        const tokenInfo = result.usage
-          ? `，Token: 输入=${result.usage.promptTokens}, 输出=${result.usage.completionTokens}`
+        const tokenInfo = usage.calls
+          ? `，Token: 输入=${usage.promptTokens}, 输出=${usage.completionTokens}, 成本=${usage.estimatedCost.toFixed(6)}元`
           : '';
 
         logger.log(
@@ -1,5 +1,25 @@
-export function getTokenExpirationSeconds(): number {
-  // 这里可以根据环境变量或业务需求动态计算过期时间
-  // 为了与课程保持一致，先写死为 24 小时
-  return 60 * 60 * 24;
+import type { ConfigService } from '@nestjs/config';
+
+/**
+ * 访问令牌有效期（秒）
+ * 访问令牌只短期有效，过期后用刷新令牌换取新令牌（默认 15 分钟）
+ */
+export function getTokenExpirationSeconds(
+  configService?: ConfigService,
+): number {
+  return Number(configService?.get('JWT_ACCESS_TOKEN_TTL_SECONDS') ?? 60 * 15);
+}
+
+/**
+ * 刷新令牌有效期（秒，默认 30 天）
+ */
+export function getRefreshTokenExpirationSeconds(
+  configService?: ConfigService,
+): number {
+  return (
+    Number(configService?.get('JWT_REFRESH_TOKEN_TTL_DAYS') ?? 30) *
+    24 *
+    60 *
+    60
+  );
 }
@@ -8,6 +8,43 @@ export const configValidationSchema = Joi.object({
   // JWT
   JWT_SECRET: Joi.string().required(),
   JWT_EXPIRES_IN: Joi.string().required(),
+  JWT_ACCESS_TOKEN_TTL_SECONDS: Joi.number().integer().min(60).default(900),
+  JWT_REFRESH_TOKEN_TTL_DAYS: Joi.number().integer().min(1).default(30),
+
+  // Account
+  ACCOUNT_TOKEN_SECRET: Joi.string().optional(),
+  APP_WEB_URL: Joi.string().uri().optional(),
+  EMAIL_VERIFICATION_REQUIRED: Joi.boolean().default(false),
+  EMAIL_VERIFICATION_TTL_HOURS: Joi.number().integer().min(1).default(24),
+  PASSWORD_RESET_TTL_MINUTES: Joi.number().integer().min(1).default(30),
+  ACCOUNT_EMAIL_RESEND_COOLDOWN_SECONDS: Joi.number()
+    .integer()
+    .min(0)
+    .default(60),
+
+  // Mail
+  MAIL_TRANSPORT: Joi.string().valid('local', 'smtp').default('local'),
+  MAIL_FROM: Joi.string().optional(),
+  MAIL_OUTBOX_DIR: Joi.string().optional(),
+  SMTP_HOST: Joi.string().optional(),
+  SMTP_PORT: Joi.number().port().optional(),
+  SMTP_SECURE: Joi.boolean().default(true),
+  SMTP_USER: Joi.string().optional(),
+  SMTP_PASS: Joi.string().optional(),
+
+  // WeChat
+  WECHAT_API_MODE: Joi.string().valid('live', 'local').default('live'),
+  WECHAT_MINI_APP_ID: Joi.string().optional(),
+  WECHAT_MINI_APP_SECRET: Joi.string().optional(),
+  WECHAT_API_BASE_URL: Joi.string().uri().optional(),
+
+  // OTP
+  OTP_SECRET: Joi.string().optional(),
+  OTP_CODE_TTL_SECONDS: Joi.number().integer().min(60).default(300),
+  OTP_RESEND_INTERVAL_SECONDS: Joi.number().integer().min(0).default(60),
+  OTP_MAX_PER_PHONE_PER_DAY: Joi.number().integer().min(1).default(10),
+  OTP_MAX_PER_IP_PER_HOUR: Joi.number().integer().min(1).default(30),
+  OTP_MAX_ATTEMPTS: Joi.number().integer().min(1).default(5),
 
   // Server
   PORT: Joi.number().default(3000),
@@ -16,5 +53,57 @@ export const configValidationSchema = Joi.object({
   // AI
   DEEPSEEK_API_KEY: Joi.string().required(),
   DEEPSEEK_MODEL: Joi.string().default('deepseek-chat'),
+  OPENAI_API_KEY: Joi.string().optional(),
+  OPENAI_MODEL: Joi.string().default('gpt-4o-mini'),
+  OPENAI_BASE_URL: Joi.string().uri().optional(),
+  LOCAL_LLM_BASE_URL: Joi.string().uri().optional(),
+  LOCAL_LLM_MODEL: Joi.string().optional(),
+  LOCAL_LLM_API_KEY: Joi.string().optional(),
+  AI_MODEL_ROUTING: Joi.string().optional(),
+  AI_REQUEST_TIMEOUT: Joi.number().default(60000),
+  AI_OUTPUT_MAX_REPAIRS: Joi.number().integer().min(0).default(2),
+  AI_MODEL_PRICING: Joi.string().optional(),
+  AI_FAKE_LLM: Joi.boolean().default(false),
+  AI_FAKE_FIXTURES: Joi.string().optional(),
   MAX_TOKENS: Joi.number().default(4000),
+
+  // Interview
+  MOCK_INTERVIEW_BILLING_SWEEP_INTERVAL_SECONDS: Joi.number()
+    .integer()
+    .min(0)
+    .default(60),
+
+  // Payment
+  PAYMENT_MODE: Joi.string().valid('virtual', 'live').default('virtual'),
+  PAYMENT_ORDER_TTL_MINUTES: Joi.number().integer().min(1).default(15),
+  PAYMENT_ORDER_SWEEP_INTERVAL_SECONDS: Joi.number()
+    .integer()
+    .min(0)
+    .default(60),
+  PAYMENT_REFUND_RESOLVE_INTERVAL_SECONDS: Joi.number()
+    .integer()
+    .min(0)
+    .default(300),
+  PAYMENT_BILL_DIR: Joi.string().optional(),
+  PAYMENT_RECONCILIATION_HOUR: Joi.number()
+    .integer()
+    .min(-1)
+    .max(23)
+    .default(10),
+  VIP_SCHEDULER_INTERVAL_MINUTES: Joi.number().integer().min(0).default(60),
+  VIP_RENEWAL_REMINDER_DAYS: Joi.number().integer().min(1).default(3),
+  ALIPAY_APP_ID: Joi.string().optional(),
+  ALIPAY_PRIVATE_KEY: Joi.string().optional(),
+  ALIPAY_PUBLIC_KEY: Joi.string().optional(),
+  ALIPAY_GATEWAY: Joi.string().uri().optional(),
+  ALIPAY_NOTIFY_URL: Joi.string().uri().optional(),
+  WECHAT_PAY_APP_ID: Joi.string().optional(),
+  WECHAT_PAY_MCH_ID: Joi.string().optional(),
+  WECHAT_PAY_SERIAL_NO: Joi.string().optional(),
+  WECHAT_PAY_PRIVATE_KEY: Joi.string().optional(),
+  WECHAT_PAY_API_V3_KEY: Joi.string().length(32).optional(),
+  WECHAT_PAY_PLATFORM_PUBLIC_KEY: Joi.string().optional(),
+  WECHAT_PAY_PLATFORM_SERIAL: Joi.string().optional(),
+  WECHAT_PAY_BASE_URL: Joi.string().uri().optional(),
+  WECHAT_PAY_NOTIFY_URL: Joi.string().uri().optional(),
 });
@@ -0,0 +1,124 @@
+import { ApiProperty, OmitType, PartialType } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { FollowUpAggressiveness } from '../schemas/interview-persona.schema';
+
+/**
+ * 新增面试官人设请求 DTO（管理后台）
+ */
+export class CreateInterviewPersonaDto {
+  @ApiProperty({
+    description: '人设唯一标识（小写字母、数字和中划线）',
+    example: 'strict-tech-lead',
+    maxLength: 50,
+  })
+  @IsString()
+  @IsNotEmpty({ message: '人设标识不能为空' })
+  @MaxLength(50, { message: '人设标识不能超过50个字符' })
+  @Matches(/^[a-z0-9-]+$/, {
+    message: '人设标识只能包含小写字母、数字和中划线',
+  })
+  personaId: string;
+
+  @ApiProperty({
+    description: '人设名称',
+    example: '严格的技术负责人',
+    maxLength: 50,
+  })
+  @IsString()
+  @IsNotEmpty({ message: '人设名称不能为空' })
+  @MaxLength(50, { message: '人设名称不能超过50个字符' })
+  name: string;
+
+  @ApiProperty({
+    description: '面试官称呼',
+    example: '王磊',
+    maxLength: 20,
+  })
+  @IsString()
+  @IsNotEmpty({ message: '面试官称呼不能为空' })
+  @MaxLength(20, { message: '面试官称呼不能超过20个字符' })
+  interviewerName: string;
+
+  @ApiProperty({
+    description: '人设简介',
+    example: '关注技术细节和工程质量',
+    required: false,
+    maxLength: 200,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(200, { message: '人设简介不能超过200个字符' })
+  description?: string;
+
+  @ApiProperty({
+    description: '语气和风格要求（写入出题 Prompt）',
+    example: '语气简洁直接，要求候选人给出具体的数据和原理',
+    maxLength: 1000,
+  })
+  @IsString()
+  @IsNotEmpty({ message: '语气要求不能为空' })
+  @MaxLength(1000, { message: '语气要求不能超过1000个字符' })
+  toneInstructions: string;
+
+  @ApiProperty({
+    description:
+      '开场白模板，可使用 {candidateName}、{interviewerName}、{positionName} 占位符',
+    example: '{candidateName}你好，我是{interviewerName}。请先做个自我介绍。',
+    maxLength: 2000,
+  })
+  @IsString()
+  @IsNotEmpty({ message: '开场白模板不能为空' })
+  @MaxLength(2000, { message: '开场白模板不能超过2000个字符' })
+  openingTemplate: string;
+
+  @ApiProperty({
+    description:
+      '结束语模板，可使用 {candidateName}、{interviewerName}、{positionName} 占位符',
+    example: '好的{candidateName}，今天的面试就到这里。— {interviewerName}',
+    maxLength: 2000,
+  })
+  @IsString()
+  @IsNotEmpty({ message: '结束语模板不能为空' })
+  @MaxLength(2000, { message: '结束语模板不能超过2000个字符' })
+  closingTemplate: string;
+
+  @ApiProperty({
+    description: '追问力度',
+    enum: FollowUpAggressiveness,
+    example: FollowUpAggressiveness.MEDIUM,
+    required: false,
+  })
+  @IsEnum(FollowUpAggressiveness, { message: '追问力度无效' })
+  @IsOptional()
+  followUpAggressiveness?: FollowUpAggressiveness;
+
+  @ApiProperty({ description: '是否启用', example: true, required: false })
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+
+  @ApiProperty({
+    description: '排序（越小越靠前）',
+    example: 10,
+    required: false,
+  })
+  @IsInt()
+  @IsOptional()
+  sortOrder?: number;
+}
+
+/**
+ * 修改面试官人设请求 DTO（管理后台）
+ */
+export class UpdateInterviewPersonaDto extends PartialType(
+  OmitType(CreateInterviewPersonaDto, ['personaId'] as const),
+) {}
@@ -18,6 +18,14 @@ export enum MockInterviewType {
   COMPREHENSIVE = 'behavior', // 行测 + HR 面试（约45分钟）
 }
 
+/**
+ * 模拟面试计费方式
+ */
+export enum MockInterviewBillingMode {
+  COUNT = 'count', // 按次计费（开始时扣除一次面试次数）
+  MINUTE = 'minute', // 按分钟计费（开始时预留时长，结束时按实际时长结算）
+}
+
 /**
  * 开始模拟面试请求 DTO
  */
@@ -114,6 +122,26 @@ export class StartMockInterviewDto {
   @IsOptional()
   @MaxLength(10000, { message: '简历内容不能超过10000个字符' })
   resumeContent?: string;
+
+  @ApiProperty({
+    description: '面试官人设ID（可选，不传使用默认人设）',
+    example: 'strict-tech-lead',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  personaId?: string;
+
+  @ApiProperty({
+    description:
+      '计费方式：count=按次计费（默认），minute=按分钟计费（使用模拟面试时长）',
+    enum: MockInterviewBillingMode,
+    example: MockInterviewBillingMode.COUNT,
+    required: false,
+  })
+  @IsEnum(MockInterviewBillingMode, { message: '计费方式无效' })
+  @IsOptional()
+  billingMode?: MockInterviewBillingMode;
 }
 
 /**
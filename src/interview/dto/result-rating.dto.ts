@@ -0,0 +1,36 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * 结果评分请求 DTO（简历押题和模拟面试通用）
+ */
+export class RateResultDto {
+  @ApiProperty({
+    description: '评分 1-5 星',
+    example: 4,
+    minimum: 1,
+    maximum: 5,
+  })
+  @IsInt({ message: '评分必须是整数' })
+  @Min(1, { message: '评分不能小于1' })
+  @Max(5, { message: '评分不能大于5' })
+  rating: number;
+
+  @ApiProperty({
+    description: '文字反馈',
+    example: '问题很贴合我的项目经历',
+    required: false,
+    maxLength: 500,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500, { message: '反馈不能超过500个字符' })
+  feedback?: string;
+}
@@ -0,0 +1,57 @@
+import {
+  MockInterviewBillingMode,
+  MockInterviewType,
+} from '../dto/mock-interview.dto';
+import type { AdaptiveState } from '../services/difficulty-engine.service';
+import type { PlanProgress } from '../services/interview-planner.service';
+import type { InterviewPlanItem } from '../schemas/ai-interview-result.schema';
+import type { InterviewPersonaProfile } from '../services/interview-persona.service';
+import type { ResolvedPrompt } from '../../ai/services/prompt-registry.service';
+
+/**
+ * 面试会话
+ * 由会话存储（InterviewSessionStore）持久化，任意实例都可以加载并继续面试
+ */
+export interface InterviewSession {
+  sessionId: string; // 临时ID，用于这次面试
+  resultId?: string; // 数据库中的持久化ID
+  consumptionRecordId?: string; // 消费记录ID
+  billingMode?: MockInterviewBillingMode; // 计费方式（旧会话没有时为按次计费）
+
+  // 用户信息
+  userId: string; // 用户ID
+  interviewType: MockInterviewType; // 面试类型（专项/综合）
+  interviewerName: string; // 面试官名字
+  persona?: InterviewPersonaProfile; // 面试官人设快照（旧会话没有时使用默认人设）
+  candidateName?: string; // 候选人名字
+
+  // 岗位信息
+  company: string; // 公司名称
+  positionName?: string; // 岗位名称
+  salaryRange?: string; // 薪资范围
+  jd?: string; // 职位描述
+  resumeContent: string; // 简历内容（保存，用于后续问题生成）
+
+  // 对话历史
+  conversationHistory: Array<{
+    role: 'interviewer' | 'candidate';
+    content: string;
+    timestamp: Date;
+    standardAnswer?: string; // 标准答案（仅面试官问题有）
+  }>;
+
+  // 进度追踪
+  questionCount: number; // 已问的问题数
+  startTime: Date; // 开始时间
+  targetDuration: number; // 预期时长（分钟）
+  adaptiveState?: AdaptiveState; // 自适应难度状态（下一题的目标难度和话题）
+  plan?: InterviewPlanItem[]; // 面试计划（开始时生成的有序大纲）
+  planProgress?: PlanProgress; // 面试计划进度
+  questionPrompt?: ResolvedPrompt; // 出题 Prompt 版本快照（旧会话没有时使用内置版本）
+
+  // 状态
+  isActive: boolean; // 是否活跃（用于判断是否已结束或已暂停）
+
+  // 并发控制
+  version: number; // 会话版本号（乐观锁，每次保存 +1）
+}
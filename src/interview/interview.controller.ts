@@ -9,10 +9,19 @@
   Sse,
   Param,
   Get,
+  Patch,
+  Query,
 } from '@nestjs/common';
 import type { Response } from 'express';
-import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/permissions';
+import { Public } from '../auth/public.decorator';
+import { EmailVerifiedGuard } from '../auth/email-verified.guard';
 import { InterviewService } from './services/interview.service';
+import { InterviewPersonaService } from './services/interview-persona.service';
+import { PromptExperimentService } from './services/prompt-experiment.service';
+import { PromptRegistryService } from '../ai/services/prompt-registry.service';
+import { PromptKey } from '../ai/schemas/prompt-version.schema';
 import { ResumeQuizDto } from './dto/resume-quiz.dto';
 import {
   AnswerMockInterviewDto,
@@ -20,13 +29,32 @@ import {
 } from './dto/mock-interview.dto';
 import { ResponseUtil } from '../common/utils/response.util';
 import { ExchangePackageDto } from './dto/exchange-package.dto';
-import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import {
+  CreateInterviewPersonaDto,
+  UpdateInterviewPersonaDto,
+} from './dto/interview-persona.dto';
+import {
+  CreatePromptVersionDto,
+  UpdatePromptVersionDto,
+} from '../ai/dto/prompt-version.dto';
+import { RateResultDto } from './dto/result-rating.dto';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
 
 @ApiTags('面试管理')
 @ApiBearerAuth()
 @Controller('interview')
 export class InterviewController {
-  constructor(private readonly interviewService: InterviewService) {}
+  constructor(
+    private readonly interviewService: InterviewService,
+    private readonly interviewPersonaService: InterviewPersonaService,
+    private readonly promptRegistry: PromptRegistryService,
+    private readonly promptExperimentService: PromptExperimentService,
+  ) {}
 
   /**
    * 8.3-LangChain 实战-分析报告
@@ -34,7 +62,6 @@ export class InterviewController {
    * @returns
    */
   @Post('/analyze-resume')
-  @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: '分析简历' })
   async analyzeResume(
     @Body() body: { position: string; resume: string; jobDescription: string },
@@ -59,6 +86,7 @@ export class InterviewController {
    * @returns
    */
   @Post('/continue-conversation')
+  @Public()
   @ApiOperation({ summary: '继续对话' })
   async continueConversation(
     @Body() body: { sessionId: string; question: string },
@@ -80,7 +108,7 @@ export class InterviewController {
    * 简历押题的接口
    */
   @Post('resume/quiz/stream')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(EmailVerifiedGuard)
   @ApiOperation({ summary: '简历押题（流式响应）' })
   async resumeQuizStream(
     @Body() dto: ResumeQuizDto,
@@ -129,11 +157,21 @@ export class InterviewController {
     });
   }
 
+  /**
+   * 获取可选的面试官人设
+   */
+  @Get('mock/personas')
+  @ApiOperation({ summary: '获取面试官人设列表' })
+  async getInterviewPersonas() {
+    const personas = await this.interviewPersonaService.listActive();
+    return ResponseUtil.success(personas, '获取成功');
+  }
+
   /**
    * 开始模拟面试 - SSE流式响应
    */
   @Post('mock/start')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(EmailVerifiedGuard)
   @ApiOperation({ summary: '开始模拟面试（流式响应）' })
   async startMockInterview(
     @Body() dto: StartMockInterviewDto,
@@ -195,7 +233,6 @@ export class InterviewController {
    * 回答面试问题 - SSE流式响应
    */
   @Post('mock/answer')
-  @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: '回答面试问题（流式响应）' })
   async answerMockInterview(
     @Body() dto: AnswerMockInterviewDto,
@@ -257,7 +294,6 @@ export class InterviewController {
    * 结束面试（用户主动结束）
    */
   @Post('mock/end/:resultId')
-  @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: '结束面试' })
   async endMockInterview(
     @Param('resultId') resultId: string,
@@ -272,7 +308,6 @@ export class InterviewController {
    * 暂停面试
    */
   @Post('mock/pause/:resultId')
-  @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: '暂停面试' })
   async pauseMockInterview(
     @Param('resultId') resultId: string,
@@ -290,7 +325,6 @@ export class InterviewController {
    * 恢复面试
    */
   @Post('mock/resume/:resultId')
-  @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: '恢复面试' })
   async resumeMockInterview(
     @Param('resultId') resultId: string,
@@ -309,7 +343,6 @@ export class InterviewController {
    * 统一接口，根据 resultId 自动识别类型（简历押题/专项面试/综合面试）
    */
   @Get('analysis/report/:resultId')
-  @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: '获取分析报告' })
   async getAnalysisReport(
     @Param('resultId') resultId: string,
@@ -327,7 +360,6 @@ export class InterviewController {
    * 获取简历押题历史记录
    */
   @Get('resume/quiz/history')
-  @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: '获取简历押题历史记录' })
   async getResumeQuizHistory(@Request() req: any) {
     const history = await this.interviewService.getResumeQuizHistory(
@@ -340,7 +372,6 @@ export class InterviewController {
    * 获取专项面试历史记录
    */
   @Get('special/history')
-  @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: '获取专项面试历史记录' })
   async getSpecialInterviewHistory(@Request() req: any) {
     const history = await this.interviewService.getSpecialInterviewHistory(
@@ -353,7 +384,6 @@ export class InterviewController {
    * 获取综合面试历史记录
    */
   @Get('behavior/history')
-  @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: '获取综合面试历史记录' })
   async getBehaviorInterviewHistory(@Request() req: any) {
     const history = await this.interviewService.getBehaviorInterviewHistory(
@@ -366,7 +396,6 @@ export class InterviewController {
    * 获取简历押题结果详情
    */
   @Get('resume/quiz/result/:resultId')
-  @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: '获取简历押题结果详情' })
   async getResumeQuizResult(
     @Param('resultId') resultId: string,
@@ -379,12 +408,37 @@ export class InterviewController {
     return ResponseUtil.success(result, '获取成功');
   }
 
+  /**
+   * 为简历押题或模拟面试结果评分
+   */
+  @Post('result/:resultId/rating')
+  @ApiOperation({
+    summary: '为押题或面试结果评分',
+    description: '评分 1-5 星，可重复提交（以最后一次为准）',
+  })
+  async rateResult(
+    @Param('resultId') resultId: string,
+    @Body() dto: RateResultDto,
+    @Request() req: any,
+  ) {
+    const result = await this.interviewService.rateResult(
+      req.user.userId,
+      resultId,
+      dto,
+    );
+    return ResponseUtil.success(result, '评分成功');
+  }
+
   /**
    * 获取模拟面试问答列表
+   * 每一项包含单题评估结果（score、starAnalysis、aiComment、highlights、improvements）
    */
   @Get('mock/result/:resultId/qa')
-  @UseGuards(JwtAuthGuard)
-  @ApiOperation({ summary: '获取模拟面试问答列表' })
+  @ApiOperation({
+    summary: '获取模拟面试问答列表',
+    description:
+      '返回问答列表及单题评估结果，evaluationStatus 为 pending 时表示评估仍在后台进行',
+  })
   async getMockInterviewQA(
     @Param('resultId') resultId: string,
     @Request() req: any,
@@ -400,7 +454,6 @@ export class InterviewController {
    * 获取模拟面试详情
    */
   @Get('mock/history/:resultId')
-  @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: '获取模拟面试详情' })
   async getMockInterviewHistory(
     @Param('resultId') resultId: string,
@@ -417,7 +470,6 @@ export class InterviewController {
    * 获取未完成的模拟面试
    */
   @Get('mock/unfinished')
-  @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: '获取未完成的模拟面试' })
   async getUnfinishedMockInterviews(@Request() req: any) {
     const interviews = await this.interviewService.getUnfinishedMockInterviews(
@@ -431,7 +483,6 @@ export class InterviewController {
    * 使用小麦币兑换套餐
    */
   @Post('exchange-package')
-  @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: '使用小麦币兑换套餐' })
   async exchangePackage(@Body() dto: ExchangePackageDto, @Request() req: any) {
     const result = await this.interviewService.exchangePackage(
@@ -446,7 +497,6 @@ export class InterviewController {
    * 语音转文字
    */
   @Post('speech-to-text')
-  @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: '语音转文字' })
   async speechToText(@Body() body: { audio: string }, @Request() req: any) {
     const text = await this.interviewService.speechToText(body.audio);
@@ -454,10 +504,110 @@ export class InterviewController {
   }
 
   /**
-   * 获取当前正在进行模拟面试的人数（公开接口）
+   * 获取全部面试官人设（管理员）
+   */
+  @Get('admin/personas')
+  @RequirePermissions(Permission.INTERVIEW_CONFIG)
+  @ApiOperation({ summary: '获取全部面试官人设（管理员）' })
+  async getAllInterviewPersonas() {
+    const personas = await this.interviewPersonaService.listAll();
+    return ResponseUtil.success(personas, '获取成功');
+  }
+
+  /**
+   * 新增面试官人设（管理员）
+   */
+  @Post('admin/personas')
+  @RequirePermissions(Permission.INTERVIEW_CONFIG)
+  @ApiOperation({ summary: '新增面试官人设（管理员）' })
+  async createInterviewPersona(@Body() dto: CreateInterviewPersonaDto) {
+    const persona = await this.interviewPersonaService.create(dto);
+    return ResponseUtil.success(persona, '创建成功');
+  }
+
+  /**
+   * 修改面试官人设（管理员）
+   */
+  @Patch('admin/personas/:personaId')
+  @RequirePermissions(Permission.INTERVIEW_CONFIG)
+  @ApiOperation({
+    summary: '修改面试官人设（管理员）',
+    description: '停用人设请将 isActive 设置为 false，进行中的面试不受影响',
+  })
+  async updateInterviewPersona(
+    @Param('personaId') personaId: string,
+    @Body() dto: UpdateInterviewPersonaDto,
+  ) {
+    const persona = await this.interviewPersonaService.update(personaId, dto);
+    return ResponseUtil.success(persona, '修改成功');
+  }
+
+  /**
+   * 获取 Prompt 版本列表（管理员）
+   */
+  @Get('admin/prompts')
+  @RequirePermissions(Permission.INTERVIEW_CONFIG)
+  @ApiOperation({ summary: '获取 Prompt 版本列表（管理员）' })
+  @ApiQuery({ name: 'key', enum: PromptKey, required: false })
+  async getPromptVersions(@Query('key') key?: PromptKey) {
+    const versions = await this.promptRegistry.listVersions(key);
+    return ResponseUtil.success(versions, '获取成功');
+  }
+
+  /**
+   * 新增 Prompt 版本（管理员）
+   */
+  @Post('admin/prompts')
+  @RequirePermissions(Permission.INTERVIEW_CONFIG)
+  @ApiOperation({
+    summary: '新增 Prompt 版本（管理员）',
+    description: 'weight 大于 0 的版本参与 A/B 实验，按权重分配给用户',
+  })
+  async createPromptVersion(@Body() dto: CreatePromptVersionDto) {
+    const version = await this.promptRegistry.createVersion(dto);
+    return ResponseUtil.success(version, '创建成功');
+  }
+
+  /**
+   * 对比各 Prompt 版本的质量指标（管理员）
+   */
+  @Get('admin/prompts/stats')
+  @RequirePermissions(Permission.INTERVIEW_CONFIG)
+  @ApiOperation({
+    summary: '对比各 Prompt 版本的质量指标（管理员）',
+    description: '包含用户评分、失败率、输出修复率和平均 Token 成本',
+  })
+  @ApiQuery({ name: 'key', enum: PromptKey, required: false })
+  async getPromptVersionStats(@Query('key') key?: PromptKey) {
+    const stats = await this.promptExperimentService.getStats(key);
+    return ResponseUtil.success(stats, '获取成功');
+  }
+
+  /**
+   * 修改 Prompt 版本（管理员）
+   */
+  @Patch('admin/prompts/:key/:version')
+  @RequirePermissions(Permission.INTERVIEW_CONFIG)
+  @ApiOperation({
+    summary: '修改 Prompt 版本（管理员）',
+    description:
+      '只能调整权重、启用状态和说明；模板内容不可修改，需要修改请新建版本',
+  })
+  async updatePromptVersion(
+    @Param('key') key: PromptKey,
+    @Param('version') version: string,
+    @Body() dto: UpdatePromptVersionDto,
+  ) {
+    const updated = await this.promptRegistry.updateVersion(key, version, dto);
+    return ResponseUtil.success(updated, '修改成功');
+  }
+
+  /**
+   * 获取当前正在进行模拟面试的人数（管理员）
    */
   @Get('admin/mock-interview-count')
-  @ApiOperation({ summary: '获取实时模拟面试人数' })
+  @RequirePermissions(Permission.INTERVIEW_STATS)
+  @ApiOperation({ summary: '获取实时模拟面试人数（管理员）' })
   async getMockInterviewCount() {
     const count = await this.interviewService.getActiveMockInterviewCount();
     return { count };
@@ -3,10 +3,22 @@ import { InterviewController } from './interview.controller';
 import { InterviewService } from './services/interview.service';
 import { InterviewAIService } from './services/interview-ai.service';
 import { DocumentParserService } from './services/document-parser.service';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AIModule } from '../ai/ai.module';
+import { PaymentModule } from '../payment/payment.module';
+import { LedgerModule } from '../ledger/ledger.module';
 import { ResumeAnalysisService } from './services/resume-analysis.service';
 import { ConversationContinuationService } from './services/conversation-continuation.service';
+import { DifficultyEngineService } from './services/difficulty-engine.service';
+import { InterviewPlannerService } from './services/interview-planner.service';
+import { InterviewPersonaService } from './services/interview-persona.service';
+import { PromptExperimentService } from './services/prompt-experiment.service';
+import { MockInterviewBillingService } from './services/mock-interview-billing.service';
+import { MockInterviewBillingSchedulerService } from './services/mock-interview-billing-scheduler.service';
+import {
+  InterviewPersona,
+  InterviewPersonaSchema,
+} from './schemas/interview-persona.schema';
 import { MongooseModule } from '@nestjs/mongoose';
 import {
   ConsumptionRecord,
@@ -26,11 +38,16 @@ import {
   UserTransaction,
   UserTransactionSchema,
 } from '../user/schemas/user-transaction.schema';
+import { INTERVIEW_SESSION_STORE } from './session-store/interview-session.store';
+import { MongoInterviewSessionStore } from './session-store/mongo-interview-session.store';
+import { MemoryInterviewSessionStore } from './session-store/memory-interview-session.store';
 
 @Module({
   imports: [
     ConfigModule,
     AIModule, // 导入 AI 模块以使用 AIModelFactory
+    PaymentModule, // 导入支付模块以使用 PlanService（小麦币兑换套餐）
+    LedgerModule, // 扣除、退还次数和小麦币兑换通过账本记账
     MongooseModule.forFeature([
       { name: ConsumptionRecord.name, schema: ConsumptionRecordSchema },
       { name: ResumeQuizResult.name, schema: ResumeQuizResultSchema },
@@ -38,6 +55,7 @@ import {
       { name: Resume.name, schema: ResumeSchema },
       { name: AIInterviewResult.name, schema: AIInterviewResultSchema },
       { name: UserTransaction.name, schema: UserTransactionSchema },
+      { name: InterviewPersona.name, schema: InterviewPersonaSchema },
     ]),
   ],
   controllers: [InterviewController],
@@ -47,6 +65,31 @@ import {
     DocumentParserService,
     ResumeAnalysisService,
     ConversationContinuationService,
+    DifficultyEngineService,
+    InterviewPlannerService,
+    InterviewPersonaService,
+    PromptExperimentService,
+    MockInterviewBillingService,
+    MockInterviewBillingSchedulerService,
+    MongoInterviewSessionStore,
+    MemoryInterviewSessionStore,
+    {
+      // 面试会话存储：默认 MongoDB，测试环境可切换为内存
+      provide: INTERVIEW_SESSION_STORE,
+      useFactory: (
+        configService: ConfigService,
+        mongoStore: MongoInterviewSessionStore,
+        memoryStore: MemoryInterviewSessionStore,
+      ) =>
+        configService.get<string>('INTERVIEW_SESSION_STORE') === 'memory'
+          ? memoryStore
+          : mongoStore,
+      inject: [
+        ConfigService,
+        MongoInterviewSessionStore,
+        MemoryInterviewSessionStore,
+      ],
+    },
   ],
   exports: [InterviewService, InterviewAIService, DocumentParserService],
 })
@@ -17,6 +17,11 @@ export function buildMockInterviewPrompt(context: {
   return `# 角色设定
 你是一位经验丰富的面试官，正在进行一场${interviewTypeDesc}。
 
+# 面试官风格
+{personaTone}
+
+- **追问风格**: {followUpStyle}
+
 # 面试信息
 - **面试类型**: {interviewType}
 - **公司**: {company}
@@ -25,6 +30,15 @@ export function buildMockInterviewPrompt(context: {
 - **已用时间**: {elapsedMinutes}分钟
 - **目标时长**: {targetDuration}分钟
 
+# 本轮出题要求
+{turnDirective}
+
+- **目标话题**: {targetTopic}
+- **目标难度**: {targetDifficulty}
+- **候选人近期表现**: {performanceScore}分（0-100）
+
+下一个问题必须围绕目标话题，难度与目标难度保持一致，不要重复已经问过的问题。
+
 # 候选人简历
 {resumeContent}
 
@@ -115,15 +129,15 @@ ${
    - 自然过渡，模拟真实面试场景
    - **在问题后，用 [STANDARD_ANSWER] 标记开始，给出该问题的标准答案或参考答案**
 
-2. **如果面试应该结束**：
+2. **如果面试应该结束**（「本轮出题要求」明确要求结束时）：
    ${
      shouldConsiderEnding
-       ? `- 当前已接近目标时长，如果话题已完整，应该结束
+       ? `- 当前已接近目标时长，如果话题已完整，也可以结束
    - 以"好的，今天的面试就到这里"或类似话语开始
    - 简要总结候选人的表现
    - 告知后续流程（如"我们会在3-5个工作日内给你答复"）
    - 在结束语后单独一行输出: [END_INTERVIEW]`
-       : `- 只有在达到目标时长且话题完整时才结束面试
+       : `- 面试计划未完成时不要结束面试
    - 结束时要输出: [END_INTERVIEW]`
    }
 
@@ -153,9 +167,9 @@ Vue3 性能优化的参考答案：
 \`\`\`
 
 ## 注意事项
-- 保持面试官的专业性和友好度
+- 保持「面试官风格」中要求的语气，评价和提问都要符合该风格
 - 问题要具体，避免过于宽泛
-- 根据候选人的回答质量调整问题难度
+- 按照「本轮出题要求」中的目标难度出题，不要自行调整难度
 - 每次只问一个问题（除非是关联的子问题）
 - 不要重复已经问过的问题
 - 面试时长控制很重要，不要无限延长
@@ -199,10 +213,11 @@ export function buildAssessmentPrompt(context: {
    - 回答空洞、缺乏细节和实例 → 大幅扣分
    - 回答有逻辑、有深度、有实例 → 正常给分
 
-2. **与标准答案对比**：
-   - 必须对比用户回答与标准答案的差距
-   - 遗漏关键点要扣分
-   - 理解错误要严重扣分
+2. **以单题评估为依据**：
+   - 每道题已经有单题评估结果（单题得分、STAR分析、点评、亮点、待改进点）
+   - 不要重新逐题评判，而是基于单题评估结果进行汇总和归纳
+   - 综合评分应与单题得分的整体水平保持一致
+   - 只有缺少单题评估的问题，才需要对比标准答案自行判断
 
 3. **综合评分要真实反映水平**：
    - 无回答或全部回答过短 → 0-40分（需提升）
@@ -284,7 +299,7 @@ ${
 
 1. **评分必须严格客观**：不要给没有充分回答的候选人高分
 2. **回答长度是重要参考**：过短的回答（<20字）说明候选人没有认真思考
-3. **必须对比标准答案**：评估回答是否包含关键要点
+3. **参考单题评估**：优劣势和改进建议要从单题评估的亮点和待改进点中提炼
 4. **优劣势要具体**：避免空泛，要基于实际回答内容
 5. **改进建议要针对性强**：指出具体哪些方面需要提升
 6. **雷达图要真实反映水平**：不要给无效回答虚高的分数
@@ -293,3 +308,124 @@ ${
 
 请严格按照 JSON 格式输出，不要包含其他文字。`;
 }
+
+/**
+ * 构建单题评估的 Prompt
+ * 每道题回答保存后在后台调用，对比标准答案给出单题得分和 STAR 分析
+ */
+export function buildAnswerEvaluationPrompt(context: {
+  interviewType: 'special' | 'comprehensive';
+}): string {
+  return `# 角色设定
+你是一位严格的面试评估专家，需要对候选人在${
+    context.interviewType === 'special'
+      ? '专项面试（技术面试）'
+      : '综合面试（行测+HR）'
+  }中某一道题的回答进行评估。
+
+# 面试信息
+- **岗位**: {positionName}
+
+# 面试问题
+{question}
+
+# 参考答案
+{standardAnswer}
+
+# 候选人回答
+{answer}
+
+# 评估任务
+
+1. **对比参考答案**：找出候选人回答覆盖了哪些关键点、遗漏了哪些关键点、是否有理解错误
+2. **STAR 分析**：从情境(Situation)、任务(Task)、行动(Action)、结果(Result)四个方面给回答打分（0-100）
+   - 行测题、概念题等不适用 STAR 的问题，四项按回答的完整度和准确度打分即可
+3. **单题得分**（0-100）：
+   - 回答过短（<20字）或无实质内容 → 0-30分
+   - 答非所问或理解错误 → 30-50分
+   - 覆盖部分关键点但缺乏细节 → 50-74分
+   - 覆盖主要关键点且有实例 → 75-89分
+   - 完整、深入、超出参考答案 → 90-100分
+
+## 输出要求
+
+请以 JSON 格式输出，不要包含其他文字：
+
+\`\`\`json
+{{
+  "score": 72,
+  "starAnalysis": {{
+    "situation": 70,
+    "task": 75,
+    "action": 68,
+    "result": 60,
+    "overallScore": 68,
+    "feedback": "行动描述较具体，但缺少可量化的结果"
+  }},
+  "aiComment": "回答覆盖了缓存穿透和雪崩的处理，但没有提到热点 key 的问题",
+  "highlights": ["能结合项目说明布隆过滤器的使用"],
+  "improvements": ["补充热点 key 的处理方案", "给出优化前后的数据对比"]
+}}
+\`\`\``;
+}
+
+/**
+ * 构建面试计划的 Prompt
+ * 面试开始前调用，根据简历、JD 和面试类型生成有序的面试大纲
+ */
+export function buildInterviewPlanPrompt(context: {
+  interviewType: 'special' | 'comprehensive';
+}): string {
+  return `# 角色设定
+你是一位资深面试官，需要在面试开始前，根据候选人的简历和岗位要求，制定一份${
+    context.interviewType === 'special'
+      ? '专项面试（技术深度为主，约60分钟）'
+      : '综合面试（行测题 + HR面试，约45分钟）'
+  }的面试计划。
+
+# 面试信息
+- **公司**: {company}
+- **岗位**: {positionName}
+- **职位描述**: {jd}
+
+# 候选人简历
+{resumeContent}
+
+# 任务要求
+
+按面试顺序列出 8-12 个考察点，每个考察点对应一个主问题（面试中可以在此基础上追问）：
+1. **topic**：具体的考察点，要结合简历和 JD，例如「Redis 缓存一致性方案」「项目中的性能优化」
+2. **category**：问题类别，只能是以下之一：
+   technical | project | problem-solving | soft-skill | behavioral | scenario
+3. **difficulty**：目标难度，只能是 easy | medium | hard，整体由易到难
+4. **timeBudgetMinutes**：该考察点（含追问）的时间预算，整数分钟
+
+${
+  context.interviewType === 'special'
+    ? `专项面试以 technical、project、problem-solving、scenario 为主，禁止安排 behavioral 类问题。`
+    : `综合面试以 behavioral、soft-skill 为主，并安排 2-4 个 problem-solving 类的行测题（逻辑推理、数字计算、语言理解），禁止深挖技术细节。`
+}
+
+## 输出要求
+
+请以 JSON 格式输出，不要包含其他文字：
+
+\`\`\`json
+{{
+  "items": [
+    {{
+      "topic": "简历中电商项目的整体架构",
+      "category": "project",
+      "difficulty": "easy",
+      "timeBudgetMinutes": 5
+    }},
+    {{
+      "topic": "Redis 缓存穿透、击穿、雪崩的处理",
+      "category": "technical",
+      "difficulty": "medium",
+      "timeBudgetMinutes": 6
+    }}
+  ]
+}}
+\`\`\``;
+}
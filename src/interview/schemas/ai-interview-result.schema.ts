@@ -1,5 +1,9 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types, Schema as MongooseSchema } from 'mongoose';
+import {
+  QuestionCategory,
+  QuestionDifficulty,
+} from './interview-quiz-result.schema';
 
 export type AIInterviewResultDocument = AIInterviewResult & Document;
 
@@ -75,6 +79,27 @@ export class InterviewQA {
   @Prop({ type: [String], default: [] })
   improvements?: string[]; // 需要改进的点
 
+  @Prop({ type: String, enum: QuestionDifficulty })
+  difficulty?: QuestionDifficulty; // 出题时的目标难度（用于难度曲线）
+
+  @Prop()
+  topic?: string; // 出题时的目标话题（QuestionCategory）
+
+  @Prop({ type: Number, min: 0, max: 100 })
+  performanceScore?: number; // 出题时候选人的近期表现 (0-100)
+
+  @Prop()
+  planIndex?: number; // 对应面试计划中的第几项
+
+  @Prop()
+  isFollowUp?: boolean; // 是否为追问
+
+  @Prop({ enum: ['pending', 'completed', 'failed'] })
+  evaluationStatus?: string; // 单题评估状态
+
+  @Prop()
+  evaluatedAt?: Date; // 单题评估完成时间
+
   @Prop()
   askedAt?: Date; // 问题生成时间（AI开始生成时的时间）
 
@@ -87,6 +112,52 @@ export class InterviewQA {
 
 export const InterviewQASchema = SchemaFactory.createForClass(InterviewQA);
 
+/**
+ * 面试计划项
+ */
+@Schema({ _id: false })
+export class InterviewPlanItem {
+  @Prop({ required: true })
+  topic: string; // 考察点
+
+  @Prop({ type: String, enum: QuestionCategory, required: true })
+  category: QuestionCategory; // 问题类别
+
+  @Prop({ type: String, enum: QuestionDifficulty, required: true })
+  difficulty: QuestionDifficulty; // 目标难度
+
+  @Prop({ required: true })
+  timeBudgetMinutes: number; // 时间预算（分钟，含追问）
+}
+
+export const InterviewPlanItemSchema =
+  SchemaFactory.createForClass(InterviewPlanItem);
+
+/**
+ * 按分钟计费信息
+ * 计量时长 = usedSeconds + 当前这段进行中的时长（从 resumedAt 或 startedAt 开始，暂停时不计）
+ */
+@Schema({ _id: false })
+export class MockInterviewBilling {
+  @Prop({ required: true })
+  reservedMinutes: number; // 开始时预留的分钟数（面试时长上限）
+
+  @Prop({ required: true })
+  startedAt: Date; // 开始计量时间
+
+  @Prop({ default: 0 })
+  usedSeconds: number; // 最近一次暂停前累计的计量时长（秒）
+
+  @Prop()
+  settledMinutes?: number; // 结算扣除的分钟数（不足一分钟按一分钟计）
+
+  @Prop()
+  settledAt?: Date; // 结算时间（结算后退还未用完的预留分钟）
+}
+
+export const MockInterviewBillingSchema =
+  SchemaFactory.createForClass(MockInterviewBilling);
+
 /**
  * 雷达图维度数据
  */
@@ -165,12 +236,18 @@ export class AIInterviewResult {
   @Prop()
   interviewMode?: string; // 面试模式（视频/语音/文字）
 
+  @Prop()
+  personaId?: string; // 面试官人设ID
+
   // ============ 面试内容 ============
+  @Prop({ type: [InterviewPlanItemSchema], default: [] })
+  interviewPlan: InterviewPlanItem[]; // 面试计划（开始前生成的有序大纲）
+
   @Prop({ type: [InterviewQASchema], default: [] })
   qaList: InterviewQA[]; // 问答列表
 
   @Prop()
-  totalQuestions?: number; // 总问题数
+  totalQuestions?: number; // 总问题数（面试计划的主问题数，不含追问）
 
   @Prop()
   answeredQuestions?: number; // 已回答问题数
@@ -252,9 +329,18 @@ export class AIInterviewResult {
   @Prop()
   completedAt?: Date; // 完成时间
 
+  @Prop({ type: MockInterviewBillingSchema })
+  billing?: MockInterviewBilling; // 按分钟计费信息（按次计费的面试为空）
+
   @Prop({ type: MongooseSchema.Types.Mixed })
   sessionState?: any; // 保存完整会话状态（用于恢复）
 
+  @Prop({ index: true, sparse: true })
+  sessionId?: string; // 面试会话ID（会话存储按此查询）
+
+  @Prop({ default: 0 })
+  sessionVersion: number; // 会话版本号（乐观锁）
+
   @Prop({
     enum: ['pending', 'generating', 'completed', 'failed'],
     default: 'pending',
@@ -295,6 +381,9 @@ export class AIInterviewResult {
 
   @Prop()
   promptVersion?: string; // Prompt版本
+
+  @Prop({ type: Object })
+  promptVersions?: Record<string, string>; // 各环节使用的 Prompt 版本（key 为 PromptKey）
 }
 
 export const AIInterviewResultSchema =
@@ -0,0 +1,97 @@
+import { z } from 'zod';
+import {
+  QuestionCategory,
+  QuestionDifficulty,
+} from './interview-quiz-result.schema';
+
+/**
+ * AI 输出的校验 Schema（zod）
+ *
+ * 与对应的 Mongoose Schema 保持一致（枚举、必填字段、分数范围），
+ * AI 输出不符合时会带着校验错误重新请求 AI 修复，而不是用默认值兜底。
+ */
+
+// 优先级（与 LearningPriority / ImprovementSuggestion 的 priority 枚举一致）
+const PrioritySchema = z.enum(['high', 'medium', 'low']);
+
+const ScoreSchema = z.number().min(0).max(100);
+
+const RadarDimensionSchema = z.object({
+  dimension: z.string().min(1),
+  score: ScoreSchema,
+  description: z.string().optional(),
+});
+
+/**
+ * 简历押题 - 问题部分
+ */
+export const ResumeQuizQuestionsSchema = z.object({
+  questions: z
+    .array(
+      z.object({
+        question: z.string().min(1),
+        answer: z.string().min(1),
+        category: z.enum(QuestionCategory),
+        difficulty: z.enum(QuestionDifficulty),
+        tips: z.string().optional(),
+        keywords: z.array(z.string()).optional(),
+        reasoning: z.string().optional(),
+      }),
+    )
+    .min(1),
+  summary: z.string().min(1),
+});
+
+/**
+ * 简历押题 - 匹配度分析部分
+ */
+export const ResumeQuizAnalysisSchema = z.object({
+  matchScore: ScoreSchema,
+  matchLevel: z.string().min(1),
+  matchedSkills: z.array(
+    z.object({
+      skill: z.string().min(1),
+      matched: z.boolean(),
+      proficiency: z.string().optional(),
+    }),
+  ),
+  missingSkills: z.array(z.string()),
+  knowledgeGaps: z.array(z.string()),
+  learningPriorities: z.array(
+    z.object({
+      topic: z.string().min(1),
+      priority: PrioritySchema,
+      reason: z.string().min(1),
+    }),
+  ),
+  radarData: z.array(RadarDimensionSchema).min(4),
+  strengths: z.array(z.string()),
+  weaknesses: z.array(z.string()),
+  interviewTips: z.array(z.string()),
+});
+
+/**
+ * 模拟面试评估报告
+ */
+export const AssessmentReportSchema = z.object({
+  overallScore: ScoreSchema,
+  overallLevel: z.string().min(1),
+  overallComment: z.string().min(1),
+  radarData: z.array(RadarDimensionSchema).min(1),
+  strengths: z.array(z.string()),
+  weaknesses: z.array(z.string()),
+  improvements: z.array(
+    z.object({
+      category: z.string().min(1),
+      suggestion: z.string().min(1),
+      priority: PrioritySchema,
+    }),
+  ),
+  fluencyScore: ScoreSchema,
+  logicScore: ScoreSchema,
+  professionalScore: ScoreSchema,
+});
+
+export type ResumeQuizQuestions = z.infer<typeof ResumeQuizQuestionsSchema>;
+export type ResumeQuizAnalysis = z.infer<typeof ResumeQuizAnalysisSchema>;
+export type AssessmentReport = z.infer<typeof AssessmentReportSchema>;
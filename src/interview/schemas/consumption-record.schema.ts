@@ -56,6 +56,9 @@ export class ConsumptionRecord {
   @Prop({ required: true })
   consumedCount: number; // 消费的次数（通常为1）
 
+  @Prop()
+  consumedMinutes?: number; // 消费的分钟数（按分钟计费的模拟面试，结算后写入）
+
   @Prop()
   description?: string; // 消费描述
 
@@ -0,0 +1,56 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type InterviewPersonaDocument = InterviewPersona & Document;
+
+/**
+ * 追问力度
+ */
+export enum FollowUpAggressiveness {
+  LOW = 'low', // 点到为止，很少追问
+  MEDIUM = 'medium', // 回答不完整时适度追问
+  HIGH = 'high', // 层层深挖，连续追问
+}
+
+/**
+ * 面试官人设 Schema
+ * 管理员可以通过后台接口新增和修改人设，无需改代码
+ */
+@Schema({ timestamps: true })
+export class InterviewPersona {
+  @Prop({ required: true, unique: true })
+  personaId: string; // 人设唯一标识（如 friendly-hr）
+
+  @Prop({ required: true })
+  name: string; // 人设名称（展示给用户，如「亲和的 HR」）
+
+  @Prop({ required: true })
+  interviewerName: string; // 面试官称呼（如「张三」）
+
+  @Prop()
+  description?: string; // 人设简介
+
+  @Prop({ required: true })
+  toneInstructions: string; // 语气和风格要求（写入出题 Prompt）
+
+  @Prop({ required: true })
+  openingTemplate: string; // 开场白模板
+
+  @Prop({ required: true })
+  closingTemplate: string; // 结束语模板
+
+  @Prop({
+    enum: FollowUpAggressiveness,
+    default: FollowUpAggressiveness.MEDIUM,
+  })
+  followUpAggressiveness: FollowUpAggressiveness; // 追问力度
+
+  @Prop({ default: true })
+  isActive: boolean; // 是否启用
+
+  @Prop({ default: 0 })
+  sortOrder: number; // 排序（越小越靠前）
+}
+
+export const InterviewPersonaSchema =
+  SchemaFactory.createForClass(InterviewPersona);
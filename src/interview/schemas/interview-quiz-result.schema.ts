@@ -246,6 +246,9 @@ export class ResumeQuizResult {
 
   @Prop()
   promptVersion?: string; // Prompt版本（用于A/B测试）
+
+  @Prop({ type: Object })
+  promptVersions?: Record<string, string>; // 各环节使用的 Prompt 版本（key 为 PromptKey）
 }
 
 export const ResumeQuizResultSchema =
@@ -1,6 +1,7 @@
 import { Injectable, Logger } from "@nestjs/common";
 import { PromptTemplate } from "@langchain/core/prompts";
 import { AIModelFactory } from "src/ai/services/ai-model.factory";
+import { AIFeature } from "src/ai/schemas/ai-usage-record.schema";
 import { Message } from '../../ai/interfaces/message.interface'
 import { CONVERSATION_CONTINUATION_PROMPT } from "../prompts/resume-analysis.prompts";
 
@@ -24,7 +25,7 @@ export class ConversationContinuationService {
     // 1. 创建prompt模板
     const prompt = PromptTemplate.fromTemplate(CONVERSATION_CONTINUATION_PROMPT);
     // 2. 获取模型
-    const model = this.aiModelFactory.createDefaultModel()
+    const model = this.aiModelFactory.createDefaultModel(AIFeature.CONVERSATION)
     // 3. 组建链
     const chain = prompt.pipe(model)
     
@@ -40,7 +41,7 @@ export class ConversationContinuationService {
       this.logger.log('对话继续完成')
       return aiResponse
     } catch (err) {
-      this.logger.error(`继续对话失败，错误信息：${err.message}`)
+      this.logger.error(`继续对话失败，错误信息：${(err as Error).message}`)
       throw err
     }
   }
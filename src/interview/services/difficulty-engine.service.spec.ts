@@ -0,0 +1,94 @@
+import {
+  QuestionCategory,
+  QuestionDifficulty,
+} from '../schemas/interview-quiz-result.schema';
+import { DifficultyEngineService } from './difficulty-engine.service';
+
+describe('DifficultyEngineService', () => {
+  const engine = new DifficultyEngineService();
+
+  describe('scoreAnswer', () => {
+    it('没有标准答案和得分时按回答长度打分', () => {
+      expect(engine.scoreAnswer({ answer: '好'.repeat(100) })).toBe(50);
+      expect(engine.scoreAnswer({ answer: '好'.repeat(500) })).toBe(100);
+    });
+
+    it('按标准答案的关键词覆盖率打分', () => {
+      const standardAnswer = '使用 Redis 缓存热点数据';
+
+      const covered = engine.scoreAnswer({
+        answer: '可以用 redis 缓存热点数据',
+        standardAnswer,
+      });
+      const missed = engine.scoreAnswer({
+        answer: '可以加机器',
+        standardAnswer,
+      });
+
+      expect(covered).toBeGreaterThan(missed);
+    });
+
+    it('有单题得分时以得分为主', () => {
+      const answer = '好'.repeat(100);
+
+      expect(engine.scoreAnswer({ answer, score: 90 })).toBe(74);
+      expect(engine.scoreAnswer({ answer, score: 10 })).toBe(26);
+    });
+  });
+
+  describe('performanceScore', () => {
+    it('越新的回答权重越高', () => {
+      const poor = { answer: '不会', score: 0 };
+      const good = { answer: '好'.repeat(200), score: 100 };
+
+      expect(engine.performanceScore([poor, poor, good])).toBe(50);
+      expect(engine.performanceScore([good, poor, poor])).toBe(20);
+    });
+
+    it('只取最近 3 题', () => {
+      const poor = { answer: '不会', score: 0 };
+      const good = { answer: '好'.repeat(200), score: 100 };
+
+      expect(engine.performanceScore([good, good, poor, poor, poor])).toBe(0);
+    });
+  });
+
+  describe('nextState', () => {
+    const good = { answer: '好'.repeat(200), score: 100 };
+    const poor = { answer: '不会', score: 0 };
+    const state = engine.createInitialState(QuestionCategory.TECHNICAL);
+
+    it('表现好时在当前难度上提高一级，表现差时降低一级', () => {
+      const target = { topic: QuestionCategory.TECHNICAL };
+
+      expect(engine.nextState(state, [good], target).difficulty).toBe(
+        QuestionDifficulty.HARD,
+      );
+      expect(engine.nextState(state, [poor], target).difficulty).toBe(
+        QuestionDifficulty.EASY,
+      );
+    });
+
+    it('进入新的计划项时以计划难度为基准', () => {
+      const next = engine.nextState(state, [good], {
+        topic: QuestionCategory.PROJECT,
+        baseDifficulty: QuestionDifficulty.EASY,
+      });
+
+      expect(next).toMatchObject({
+        difficulty: QuestionDifficulty.MEDIUM,
+        topic: QuestionCategory.PROJECT,
+        topicTurns: 1,
+      });
+    });
+
+    it('同一话题继续提问时累计提问次数', () => {
+      const next = engine.nextState({ ...state, topicTurns: 2 }, [], {
+        topic: QuestionCategory.TECHNICAL,
+      });
+
+      expect(next.topicTurns).toBe(3);
+      expect(next.difficulty).toBe(QuestionDifficulty.MEDIUM);
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import { Injectable } from '@nestjs/common';
+import {
+  QuestionCategory,
+  QuestionDifficulty,
+} from '../schemas/interview-quiz-result.schema';
+
+/**
+ * 单个回答的质量信号
+ */
+export interface AnswerSignal {
+  answer: string; // 候选人回答
+  standardAnswer?: string; // 该问题的标准答案
+  score?: number; // 单题评估得分（后台评估完成后才有）
+}
+
+/**
+ * 自适应出题状态（保存在面试会话中）
+ */
+export interface AdaptiveState {
+  difficulty: QuestionDifficulty; // 当前目标难度
+  performanceScore: number; // 近期表现 (0-100)
+  topic: QuestionCategory; // 当前话题
+  topicTurns: number; // 当前话题已连续提问的次数
+}
+
+/**
+ * 下一题的话题（来自面试计划）
+ */
+export interface QuestionTopicTarget {
+  topic: QuestionCategory; // 话题
+  baseDifficulty?: QuestionDifficulty; // 计划中的目标难度（切换到新计划项时使用）
+}
+
+/**
+ * 难度展示文案（用于 Prompt）
+ */
+export const DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = {
+  [QuestionDifficulty.EASY]: '简单（基础概念，帮助候选人找回状态）',
+  [QuestionDifficulty.MEDIUM]: '中等（结合实际场景，考察理解和应用）',
+  [QuestionDifficulty.HARD]: '困难（深挖原理、边界情况或复杂场景）',
+};
+
+/**
+ * 话题展示文案（用于 Prompt）
+ */
+export const TOPIC_LABELS: Record<QuestionCategory, string> = {
+  [QuestionCategory.TECHNICAL]: '技术能力',
+  [QuestionCategory.PROJECT]: '项目经验',
+  [QuestionCategory.PROBLEM_SOLVING]: '问题解决',
+  [QuestionCategory.SOFT_SKILL]: '软技能',
+  [QuestionCategory.BEHAVIORAL]: '行为面试',
+  [QuestionCategory.SCENARIO]: '场景题',
+};
+
+const DIFFICULTY_ORDER = [
+  QuestionDifficulty.EASY,
+  QuestionDifficulty.MEDIUM,
+  QuestionDifficulty.HARD,
+];
+
+/**
+ * 自适应难度引擎
+ *
+ * 根据最近几道题的回答质量（回答长度、对标准答案的关键词覆盖率、单题得分）
+ * 估算候选人的近期表现，在面试计划给出的话题和难度基础上调整下一题的难度：
+ * - 表现好：提高一级难度
+ * - 表现差：降低一级难度
+ */
+@Injectable()
+export class DifficultyEngineService {
+  private readonly RECENT_WINDOW_WEIGHTS = [0.5, 0.3, 0.2]; // 最近 3 题的权重（最新的在前）
+  private readonly RAISE_THRESHOLD = 75; // 表现高于此值提高难度
+  private readonly LOWER_THRESHOLD = 45; // 表现低于此值降低难度
+
+  /**
+   * 创建初始状态
+   */
+  createInitialState(
+    topic: QuestionCategory,
+    difficulty: QuestionDifficulty = QuestionDifficulty.MEDIUM,
+  ): AdaptiveState {
+    return {
+      difficulty,
+      performanceScore: 60,
+      topic,
+      topicTurns: 0,
+    };
+  }
+
+  /**
+   * 计算下一题的目标难度
+   *
+   * @param state - 当前状态（旧会话没有时使用初始状态）
+   * @param signals - 按时间顺序排列的回答信号
+   * @param target - 下一题的话题；切换到新的计划项时以计划难度为基准
+   */
+  nextState(
+    state: AdaptiveState | undefined,
+    signals: AnswerSignal[],
+    target: QuestionTopicTarget,
+  ): AdaptiveState {
+    const current =
+      state || this.createInitialState(target.topic, target.baseDifficulty);
+    const baseDifficulty = target.baseDifficulty || current.difficulty;
+    const topicTurns =
+      target.topic === current.topic && !target.baseDifficulty
+        ? current.topicTurns + 1
+        : 1;
+
+    if (signals.length === 0) {
+      return {
+        ...current,
+        difficulty: baseDifficulty,
+        topic: target.topic,
+        topicTurns,
+      };
+    }
+
+    const performanceScore = this.performanceScore(signals);
+
+    // 难度：根据近期表现在基准难度上调整一级
+    const difficultyIndex = DIFFICULTY_ORDER.indexOf(baseDifficulty);
+    let nextIndex = difficultyIndex;
+    if (performanceScore >= this.RAISE_THRESHOLD) {
+      nextIndex = Math.min(difficultyIndex + 1, DIFFICULTY_ORDER.length - 1);
+    } else if (performanceScore < this.LOWER_THRESHOLD) {
+      nextIndex = Math.max(difficultyIndex - 1, 0);
+    }
+
+    return {
+      difficulty: DIFFICULTY_ORDER[nextIndex],
+      performanceScore,
+      topic: target.topic,
+      topicTurns,
+    };
+  }
+
+  /**
+   * 近期表现 (0-100)：最近几道题质量分的加权平均，越新的回答权重越高
+   */
+  performanceScore(signals: AnswerSignal[]): number {
+    const recentScores = signals
+      .slice(-this.RECENT_WINDOW_WEIGHTS.length)
+      .reverse()
+      .map((signal) => this.scoreAnswer(signal));
+    return this.weightedAverage(recentScores);
+  }
+
+  /**
+   * 单个回答的质量分 (0-100)
+   * 有单题评估得分时以得分为主，长度和关键词覆盖率作为补充
+   */
+  scoreAnswer(signal: AnswerSignal): number {
+    const lengthScore = Math.min(
+      100,
+      Math.round((signal.answer.trim().length / 200) * 100),
+    );
+    const coverageScore = signal.standardAnswer
+      ? this.keywordCoverage(signal.answer, signal.standardAnswer)
+      : undefined;
+
+    if (typeof signal.score === 'number') {
+      return Math.round(
+        signal.score * 0.6 +
+          lengthScore * 0.2 +
+          (coverageScore ?? lengthScore) * 0.2,
+      );
+    }
+
+    if (coverageScore === undefined) {
+      return lengthScore;
+    }
+
+    return Math.round(lengthScore * 0.5 + coverageScore * 0.5);
+  }
+
+  /**
+   * 关键词覆盖率 (0-100)
+   * 标准答案中的英文术语和中文二元词组，在回答中出现的比例；覆盖 60% 即视为满分
+   */
+  private keywordCoverage(answer: string, standardAnswer: string): number {
+    const keywords = this.extractKeywords(standardAnswer);
+    if (keywords.size === 0) {
+      return 0;
+    }
+
+    const normalizedAnswer = answer.toLowerCase();
+    let hits = 0;
+    keywords.forEach((keyword) => {
+      if (normalizedAnswer.includes(keyword)) {
+        hits++;
+      }
+    });
+
+    return Math.min(100, Math.round((hits / keywords.size / 0.6) * 100));
+  }
+
+  private extractKeywords(text: string): Set<string> {
+    const normalized = text.toLowerCase();
+    const terms: string[] = normalized.match(/[a-z][a-z0-9.+#-]+/g) ?? [];
+    const segments: string[] = normalized.match(/[\u4e00-\u9fa5]{2,}/g) ?? [];
+    const bigrams = segments.flatMap((segment) =>
+      Array.from({ length: segment.length - 1 }, (_, i) =>
+        segment.slice(i, i + 2),
+      ),
+    );
+
+    return new Set([...terms, ...bigrams]);
+  }
+
+  private weightedAverage(scores: number[]): number {
+    const weights = this.RECENT_WINDOW_WEIGHTS.slice(0, scores.length);
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    const total = scores.reduce(
+      (sum, score, index) => sum + score * weights[index],
+      0,
+    );
+    return Math.round(total / totalWeight);
+  }
+}
@@ -0,0 +1,90 @@
+import { Test } from '@nestjs/testing';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { AIModelFactory } from '../../ai/services/ai-model.factory';
+import { InterviewAIService } from './interview-ai.service';
+import { InterviewPersonaService } from './interview-persona.service';
+
+describe('InterviewAIService', () => {
+  let service: InterviewAIService;
+  const aiModelFactory = {
+    createStableModel: jest.fn(),
+  };
+
+  const answer = {
+    interviewType: 'special' as const,
+    question: '说说事件循环',
+    answer: '宏任务和微任务交替执行',
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        InterviewAIService,
+        { provide: AIModelFactory, useValue: aiModelFactory },
+      ],
+    })
+      .useMocker(() => ({}))
+      .compile();
+    service = moduleRef.get(InterviewAIService);
+  });
+
+  const respondWith = (content: object) =>
+    aiModelFactory.createStableModel.mockReturnValue(
+      new FakeListChatModel({ responses: [JSON.stringify(content)] }),
+    );
+
+  describe('evaluateInterviewAnswer', () => {
+    it('返回单题得分和 STAR 分析，得分限制在 0-100', async () => {
+      respondWith({
+        score: 104.6,
+        starAnalysis: { situation: 80, task: 70 },
+        aiComment: '回答完整',
+        highlights: ['结构清晰'],
+      });
+
+      const evaluation = await service.evaluateInterviewAnswer(answer);
+
+      expect(evaluation).toEqual({
+        score: 100,
+        starAnalysis: { situation: 80, task: 70 },
+        aiComment: '回答完整',
+        highlights: ['结构清晰'],
+        improvements: [],
+      });
+    });
+
+    it('得分不是数字时评估失败', async () => {
+      respondWith({ score: '优秀', aiComment: '回答完整' });
+
+      await expect(service.evaluateInterviewAnswer(answer)).rejects.toThrow(
+        'score 不是数字',
+      );
+    });
+  });
+
+  describe('generateOpeningStatement', () => {
+    const persona = {
+      ...new InterviewPersonaService(null as never).defaultProfile(),
+      interviewerName: '王五',
+      openingTemplate:
+        '{candidateName}好，我是{interviewerName}老师。\n\n' +
+        '我看到你申请的是{positionName}岗位。\n\n' +
+        '请先介绍一下自己。',
+    };
+
+    it('按人设模板填充候选人、面试官和岗位', () => {
+      expect(
+        service.generateOpeningStatement(persona, '小明', '前端工程师'),
+      ).toBe(
+        '小明好，我是王五老师。\n\n我看到你申请的是前端工程师岗位。\n\n请先介绍一下自己。',
+      );
+    });
+
+    it('占位符没有值时省略整段', () => {
+      expect(service.generateOpeningStatement(persona)).toBe(
+        '你好，我是王五老师。\n\n请先介绍一下自己。',
+      );
+    });
+  });
+});
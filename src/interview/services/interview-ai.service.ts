@@ -11,11 +11,38 @@ import {
   FORMAT_INSTRUCTIONS_ANALYSIS_ONLY,
 } from '../prompts/format-instructions.prompts';
 import { AIModelFactory } from '../../ai/services/ai-model.factory';
+import { AIFeature } from '../../ai/schemas/ai-usage-record.schema';
+import { StructuredOutputService } from '../../ai/services/structured-output.service';
+import {
+  PromptRegistryService,
+  ResolvedPrompt,
+} from '../../ai/services/prompt-registry.service';
+import { PromptKey } from '../../ai/schemas/prompt-version.schema';
+import {
+  collectAIUsage,
+  createUsageTotals,
+} from '../../ai/services/ai-usage.service';
+import {
+  AssessmentReport,
+  AssessmentReportSchema,
+  ResumeQuizAnalysis,
+  ResumeQuizAnalysisSchema,
+  ResumeQuizQuestions,
+  ResumeQuizQuestionsSchema,
+} from '../schemas/ai-output.schema';
 import {
   buildMockInterviewPrompt,
   buildAssessmentPrompt,
+  buildAnswerEvaluationPrompt,
+  buildInterviewPlanPrompt,
 } from '../prompts/mock-interview.prompts';
 import { LogAICall } from '../../common/decorators/log-ai-call.decorator';
+import { DIFFICULTY_LABELS } from './difficulty-engine.service';
+import {
+  FOLLOW_UP_STYLE_LABELS,
+  InterviewPersonaProfile,
+} from './interview-persona.service';
+import { QuestionDifficulty } from '../schemas/interview-quiz-result.schema';
 
 /**
  * 简历押题输入
@@ -27,7 +54,7 @@ export interface ResumeQuizInput {
   maxSalary?: number;
   jd: string;
   resumeContent: string;
-  promptVersion?: string;
+  prompt?: ResolvedPrompt; // 使用的 Prompt 版本（不传则使用内置版本）
 }
 
 /**
@@ -90,6 +117,50 @@ export interface ResumeQuizOutput {
   };
 }
 
+/**
+ * 单题评估结果
+ */
+export interface AnswerEvaluation {
+  score: number; // 单题得分 (0-100)
+  starAnalysis: {
+    situation?: number;
+    task?: number;
+    action?: number;
+    result?: number;
+    overallScore?: number;
+    feedback?: string;
+  };
+  aiComment: string; // AI点评
+  highlights: string[]; // 亮点
+  improvements: string[]; // 需要改进的点
+}
+
+/**
+ * 面试评估报告输入
+ */
+export interface AssessmentReportInput {
+  interviewType: 'special' | 'comprehensive';
+  company?: string;
+  positionName?: string;
+  jd?: string;
+  resumeContent?: string;
+  // 问答记录（包含单题评估结果）
+  qaList: Array<
+    Partial<AnswerEvaluation> & {
+      question: string;
+      answer: string;
+      standardAnswer?: string;
+    }
+  >;
+  // 回答质量统计
+  answerQualityMetrics?: {
+    totalQuestions: number;
+    avgAnswerLength: number;
+    emptyAnswersCount: number;
+  };
+  prompt?: ResolvedPrompt; // 使用的 Prompt 版本（不传则使用内置版本）
+}
+
 /**
  * 面试 AI 服务
  * 封装 LangChain + DeepSeek 的调用
@@ -101,6 +172,8 @@ export class InterviewAIService {
   constructor(
     private readonly configService: ConfigService,
     private aiModelFactory: AIModelFactory,
+    private structuredOutputService: StructuredOutputService,
+    private promptRegistry: PromptRegistryService,
   ) {}
 
   /**
@@ -110,25 +183,20 @@ export class InterviewAIService {
   @LogAICall('generateResumeQuiz')
   async generateResumeQuizQuestionsOnly(
     input: ResumeQuizInput,
-  ): Promise<{ questions: any[]; summary: string }> {
+  ): Promise<ResumeQuizQuestions> {
     const startTime = Date.now();
 
     try {
       // 1. 构建 Prompt
-      // 使用之前在 9.2 中设计的 RESUME_QUIZ_PROMPT_QUESTIONS_ONLY
+      // 默认使用之前在 9.2 中设计的 RESUME_QUIZ_PROMPT_QUESTIONS_ONLY，A/B 实验时使用分配到的版本
+      const promptVersion =
+        input.prompt ||
+        this.promptRegistry.builtIn(PromptKey.RESUME_QUIZ_QUESTIONS);
       const prompt = PromptTemplate.fromTemplate(
-        RESUME_QUIZ_PROMPT_QUESTIONS_ONLY,
+        promptVersion.template || RESUME_QUIZ_PROMPT_QUESTIONS_ONLY,
       );
 
-      // 2. 创建输出解析器
-      // JsonOutputParser 会自动解析 AI 返回的 JSON
-      const parser = new JsonOutputParser();
-
-      // 3. 构建链
-      const model = this.aiModelFactory.createDefaultModel();
-      const chain = prompt.pipe(model).pipe(parser);
-
-      // 4. 准备参数
+      // 2. 准备参数
       const salaryRange =
         input.minSalary && input.maxSalary
           ? `${input.minSalary}K-${input.maxSalary}K`
@@ -148,25 +216,28 @@ export class InterviewAIService {
       };
 
       this.logger.log(
-        `🚀 [押题部分] 开始生成: company=${params.company}, position=${params.positionName}`,
+        `🚀 [押题部分] 开始生成: company=${params.company}, position=${params.positionName}, promptVersion=${promptVersion.version}`,
       );
 
-      // 5. 调用 AI
-      const rawResult = await chain.invoke(params);
-      this.logger.log(`🔍 [押题部分] 原始结果: ${rawResult}`);
-
-      // 6. 验证结果
-      // 虽然我们还没有 Zod 验证（下节课才加），但我们可以做基本检查
-      if (!Array.isArray(rawResult.questions)) {
-        throw new Error('AI返回的结果中 questions 不是数组');
-      }
+      // 3. 调用 AI，并用 Schema 校验结果（不符合时自动请 AI 修复）
+      // 模型在 track 内创建，用量和修复次数才会记到这个 Prompt 版本上
+      const result = await this.promptRegistry.track(promptVersion, (run) =>
+        this.structuredOutputService.invoke({
+          label: '押题部分',
+          prompt,
+          variables: params,
+          model: this.aiModelFactory.createDefaultModel(AIFeature.RESUME_QUIZ),
+          schema: ResumeQuizQuestionsSchema,
+          onRepair: () => run.repairs++,
+        }),
+      );
 
       const duration = Date.now() - startTime;
       this.logger.log(
-        `✅ [押题部分] 生成成功: 耗时=${duration}ms, 问题数=${rawResult.questions?.length || 0}`,
+        `✅ [押题部分] 生成成功: 耗时=${duration}ms, 问题数=${result.questions.length}`,
       );
 
-      return rawResult as { questions: any[]; summary: string };
+      return result;
     } catch (error) {
       const duration = Date.now() - startTime;
       this.logger.error(
@@ -180,20 +251,20 @@ export class InterviewAIService {
    * 生成简历押题 - 仅匹配度分析部分
    * 返回：匹配度、技能分析、学习建议、雷达图等
    */
-  async generateResumeQuizAnalysisOnly(input: ResumeQuizInput): Promise<any> {
+  async generateResumeQuizAnalysisOnly(
+    input: ResumeQuizInput,
+  ): Promise<ResumeQuizAnalysis> {
     const startTime = Date.now();
 
     try {
       // 流程与上面类似
+      const promptVersion =
+        input.prompt ||
+        this.promptRegistry.builtIn(PromptKey.RESUME_QUIZ_ANALYSIS);
       const prompt = PromptTemplate.fromTemplate(
-        RESUME_QUIZ_PROMPT_ANALYSIS_ONLY,
+        promptVersion.template || RESUME_QUIZ_PROMPT_ANALYSIS_ONLY,
       );
 
-      const parser = new JsonOutputParser();
-
-      const model = this.aiModelFactory.createDefaultModel();
-      const chain = prompt.pipe(model).pipe(parser);
-
       const salaryRange =
         input.minSalary && input.maxSalary
           ? `${input.minSalary}K-${input.maxSalary}K`
@@ -213,10 +284,19 @@ export class InterviewAIService {
       };
 
       this.logger.log(
-        `🚀 [匹配度分析] 开始生成: company=${params.company}, position=${params.positionName}`,
+        `🚀 [匹配度分析] 开始生成: company=${params.company}, position=${params.positionName}, promptVersion=${promptVersion.version}`,
       );
 
-      const result = await chain.invoke(params);
+      const result = await this.promptRegistry.track(promptVersion, (run) =>
+        this.structuredOutputService.invoke({
+          label: '匹配度分析',
+          prompt,
+          variables: params,
+          model: this.aiModelFactory.createDefaultModel(AIFeature.RESUME_QUIZ),
+          schema: ResumeQuizAnalysisSchema,
+          onRepair: () => run.repairs++,
+        }),
+      );
 
       const duration = Date.now() - startTime;
       this.logger.log(`✅ [匹配度分析] 生成成功: 耗时=${duration}ms`);
@@ -245,6 +325,10 @@ export class InterviewAIService {
    *   - conversationHistory: Array<{ role: 'interviewer' | 'candidate'; content: string }>，表示对话历史，包含角色（面试官或候选人）和发言内容。
    *   - elapsedMinutes: number，表示已经进行的面试时长（分钟）。
    *   - targetDuration: number，表示目标面试时长（分钟）。
+   *   - targetDifficulty / performanceScore: 自适应难度引擎给出的本轮目标难度。
+   *   - targetTopic / turnDirective: 面试计划给出的本轮话题和出题指令（追问 / 下一项 / 结束）。
+   *   - persona: 面试官人设，决定提问语气和追问风格。
+   *   - prompt: 使用的 Prompt 版本（可选，不传则使用内置版本）。
    *
    * @returns AsyncGenerator<string> - 返回一个异步生成器，逐块返回流式生成的面试问题内容，直到面试问题生成完成。
    *
@@ -265,19 +349,34 @@ export class InterviewAIService {
     }>;
     elapsedMinutes: number;
     targetDuration: number;
+    targetDifficulty: QuestionDifficulty;
+    targetTopic: string;
+    performanceScore: number;
+    turnDirective: string;
+    persona: InterviewPersonaProfile;
+    prompt?: ResolvedPrompt;
   }): AsyncGenerator<string> {
+    const promptVersion =
+      context.prompt ||
+      this.promptRegistry.builtIn(PromptKey.MOCK_INTERVIEW_QUESTION);
+    // 流式生成无法放进 track 回调，这里手动统计本次 Prompt 执行的用量
+    const usage = createUsageTotals();
+
     try {
       // 第 1 步：构建 Prompt（动态的）
-      // 调用外部函数 buildMockInterviewPrompt，生成面试问题所需的提示内容
-      const prompt = buildMockInterviewPrompt(context);
+      // 调用外部函数 buildMockInterviewPrompt，生成面试问题所需的提示内容；A/B 实验时使用分配到的版本
+      const prompt =
+        promptVersion.template || buildMockInterviewPrompt(context);
 
       // 第 2 步：创建 Prompt 模板
       // 使用 PromptTemplate.fromTemplate() 方法，将构建好的 prompt 转化为可执行的模板
       const promptTemplate = PromptTemplate.fromTemplate(prompt);
 
       // 第 3 步：构建链（Prompt → LLM）
-      // 使用 AI 模型工厂创建一个默认的 AI 模型
-      const model = this.aiModelFactory.createDefaultModel();
+      // 使用 AI 模型工厂创建一个默认的 AI 模型（在用量统计范围内创建）
+      const model = collectAIUsage(usage, () =>
+        this.aiModelFactory.createDefaultModel(AIFeature.INTERVIEW_QUESTION),
+      );
       // 将 prompt 模板和 AI 模型连接成一个管道（pipeline）
       const chain = promptTemplate.pipe(model);
 
@@ -296,6 +395,13 @@ export class InterviewAIService {
         ),
         elapsedMinutes: context.elapsedMinutes, // 已用时长
         targetDuration: context.targetDuration, // 目标时长
+        targetDifficulty: DIFFICULTY_LABELS[context.targetDifficulty], // 目标难度
+        targetTopic: context.targetTopic, // 目标话题
+        performanceScore: context.performanceScore, // 近期表现
+        turnDirective: context.turnDirective, // 本轮出题指令
+        personaTone: context.persona.toneInstructions, // 面试官语气
+        followUpStyle:
+          FOLLOW_UP_STYLE_LABELS[context.persona.followUpAggressiveness], // 追问风格
       });
 
       // 逐块返回内容
@@ -312,11 +418,20 @@ export class InterviewAIService {
       this.logger.log(
         `✅ 流式生成完成: 耗时=${duration}ms, 长度=${fullContent.length}`,
       );
+      await this.promptRegistry.recordRun(promptVersion, usage, {
+        status: 'success',
+        repairs: 0,
+      });
 
       // 返回最终生成的完整内容
       return this.parseInterviewResponse(fullContent, context);
     } catch (error) {
       // 错误处理：如果流式生成过程中出现任何异常，记录错误日志并抛出异常
+      await this.promptRegistry.recordRun(promptVersion, usage, {
+        status: 'failed',
+        repairs: 0,
+        errorMessage: (error as Error).message,
+      });
       this.logger.error(
         `❌ 流式生成面试问题失败: ${error.message}`,
         error.stack,
@@ -325,6 +440,43 @@ export class InterviewAIService {
     }
   }
 
+  /**
+   * 生成面试计划
+   * 返回 AI 输出的原始计划项，由 InterviewPlannerService 负责校验和兜底
+   */
+  async generateInterviewPlan(context: {
+    interviewType: 'special' | 'comprehensive';
+    company?: string;
+    positionName?: string;
+    jd?: string;
+    resumeContent: string;
+  }): Promise<Array<Record<string, unknown>>> {
+    const startTime = Date.now();
+
+    const promptTemplate = PromptTemplate.fromTemplate(
+      buildInterviewPlanPrompt(context),
+    );
+    const model = this.aiModelFactory.createStableModel(
+      AIFeature.INTERVIEW_PLAN,
+    );
+    const chain = promptTemplate
+      .pipe(model)
+      .pipe(new JsonOutputParser<{ items?: Array<Record<string, unknown>> }>());
+
+    const result = await chain.invoke({
+      company: context.company || '未提供',
+      positionName: context.positionName || '未提供',
+      jd: context.jd || '未提供',
+      resumeContent: context.resumeContent,
+    });
+
+    this.logger.log(
+      `✅ 面试计划生成完成: 耗时=${Date.now() - startTime}ms, items=${result.items?.length || 0}`,
+    );
+
+    return result.items || [];
+  }
+
   /**
    * 格式化对话历史
    * 该方法将对话历史数组格式化为一段带有编号和角色标识的文本，
@@ -425,43 +577,31 @@ export class InterviewAIService {
 
   /**
    * 生成面试开场白（非流式）
-   * 该方法用于生成面试的开场白内容，根据面试官姓名、候选人姓名和职位名称动态生成问候语、职位信息和面试的开场提示。
+   * 该方法根据面试官人设的开场白模板，填入面试官称呼、候选人姓名和职位名称生成开场白。
    *
-   * @param interviewerName - 面试官的姓名，用于问候候选人并提供称呼。
+   * @param persona - 面试官人设，提供开场白模板和面试官称呼。
    * @param candidateName - 候选人的姓名（可选），如果提供，问候语中会使用候选人的名字；如果未提供，默认使用“你”。
-   * @param positionName - 职位名称（可选），如果提供，开场白中会提到候选人申请的职位。
+   * @param positionName - 职位名称（可选），如果未提供，模板中引用职位名称的段落会被省略。
    *
    * @returns string - 返回生成的面试开场白内容，包含问候语、职位信息和自我介绍提示。
    */
   generateOpeningStatement(
-    interviewerName: string,
+    persona: InterviewPersonaProfile,
     candidateName?: string,
     positionName?: string,
   ): string {
-    // 第 1 步：生成问候语
-    let greeting = candidateName ? `${candidateName}` : '你'; // 如果提供了候选人的名字，使用名字，否则使用“你”
-    greeting += '好，我是你今天的面试官，你可以叫我'; // 构建问候语前半部分
-    greeting += `${interviewerName}老师。\n\n`; // 添加面试官的名字，并以“老师”作为称呼
-
-    // 第 2 步：如果提供了职位名称，添加职位相关信息
-    if (positionName) {
-      greeting += `我看到你申请的是${positionName}岗位。\n\n`; // 如果职位名称存在，提到候选人申请的岗位
-    }
-
-    // 第 3 步：生成面试的开始提示
-    greeting +=
-      '让我们开始今天的面试吧。\n\n' + // 提示面试开始
-      '首先，请你简单介绍一下自己。自我介绍可以说明你的学历以及专业背景、工作经历以及取得的成绩等。'; // 提供自我介绍的指导
-
-    // 第 4 步：返回生成的开场白内容
-    return greeting;
+    return this.renderStatementTemplate(persona.openingTemplate, {
+      candidateName: candidateName || '你',
+      interviewerName: persona.interviewerName,
+      positionName,
+    });
   }
 
   /**
    * 流式生成面试开场白（模拟打字机效果）
    * 该方法使用流式生成的方式逐步返回面试开场白的内容，并模拟打字机效果。每次返回一小段字符，并通过延迟模拟打字的过程。
    *
-   * @param interviewerName - 面试官的姓名，用于问候候选人并提供称呼。
+   * @param persona - 面试官人设，提供开场白模板和面试官称呼。
    * @param candidateName - 候选人的姓名（可选），如果提供，问候语中会使用候选人的名字；如果未提供，默认使用“你”。
    * @param positionName - 职位名称（可选），如果提供，开场白中会提到候选人申请的职位。
    *
@@ -469,14 +609,14 @@ export class InterviewAIService {
    * 每次返回3-8个字符，模拟打字机的效果。
    */
   async *generateOpeningStatementStream(
-    interviewerName: string,
+    persona: InterviewPersonaProfile,
     candidateName?: string,
     positionName?: string,
   ): AsyncGenerator<string, string, undefined> {
     // 第 1 步：生成完整的开场白
     // 调用 generateOpeningStatement 方法生成完整的面试开场白内容
     const fullGreeting = this.generateOpeningStatement(
-      interviewerName,
+      persona,
       candidateName,
       positionName,
     );
@@ -500,85 +640,180 @@ export class InterviewAIService {
    * 生成面试结束语
    */
   generateClosingStatement(
-    interviewerName: string,
+    persona: InterviewPersonaProfile,
     candidateName?: string,
+    positionName?: string,
   ): string {
-    const name = candidateName || '候选人';
-    return (
-      `好的${name}，今天的面试就到这里。\n\n` +
-      `感谢你的时间和精彩的回答。整体来看，你的表现不错。\n\n` +
-      `我们会将你的面试情况反馈给用人部门，预计3-5个工作日内会给你答复。\n\n` +
-      `如果有任何问题，可以随时联系HR。祝你一切顺利！\n\n` +
-      `— ${interviewerName}老师`
-    );
+    return this.renderStatementTemplate(persona.closingTemplate, {
+      candidateName: candidateName || '候选人',
+      interviewerName: persona.interviewerName,
+      positionName,
+    });
+  }
+
+  /**
+   * 填充开场白 / 结束语模板
+   * 模板按空行分段，某段引用的占位符没有值时整段省略（例如未填写岗位时不提岗位）
+   */
+  private renderStatementTemplate(
+    template: string,
+    values: Record<string, string | undefined>,
+  ): string {
+    return template
+      .split('\n\n')
+      .filter((paragraph) =>
+        Array.from(paragraph.matchAll(/\{(\w+)\}/g)).every(
+          ([, key]) => !(key in values) || Boolean(values[key]),
+        ),
+      )
+      .map((paragraph) =>
+        paragraph.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+          key in values ? values[key] || '' : placeholder,
+        ),
+      )
+      .join('\n\n');
+  }
+
+  /**
+   * 评估单题回答
+   * 对比标准答案给出单题得分、STAR 分析、点评、亮点和改进点
+   */
+  async evaluateInterviewAnswer(context: {
+    interviewType: 'special' | 'comprehensive';
+    positionName?: string;
+    question: string;
+    answer: string;
+    standardAnswer?: string;
+  }): Promise<AnswerEvaluation> {
+    const startTime = Date.now();
+
+    try {
+      const prompt = buildAnswerEvaluationPrompt(context);
+      const promptTemplate = PromptTemplate.fromTemplate(prompt);
+
+      // 评分需要稳定输出，使用低温度模型
+      const model = this.aiModelFactory.createStableModel(
+        AIFeature.ANSWER_EVALUATION,
+      );
+      const chain = promptTemplate
+        .pipe(model)
+        .pipe(new JsonOutputParser<Partial<AnswerEvaluation>>());
+
+      const result = await chain.invoke({
+        positionName: context.positionName || '未提供',
+        question: context.question,
+        standardAnswer: context.standardAnswer || '无',
+        answer: context.answer,
+      });
+
+      if (typeof result.score !== 'number') {
+        throw new Error('AI返回的单题评估中 score 不是数字');
+      }
+
+      this.logger.log(
+        `✅ 单题评估完成: 耗时=${Date.now() - startTime}ms, score=${result.score}`,
+      );
+
+      return {
+        score: Math.max(0, Math.min(100, Math.round(result.score))),
+        starAnalysis: result.starAnalysis || {},
+        aiComment: result.aiComment || '',
+        highlights: result.highlights || [],
+        improvements: result.improvements || [],
+      };
+    } catch (error) {
+      this.logger.error(
+        `❌ 单题评估失败: 耗时=${Date.now() - startTime}ms, 错误=${(error as Error).message}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 格式化单题评估结果（供评估报告使用）
+   */
+  private formatAnswerEvaluation(qa: Partial<AnswerEvaluation>): string {
+    if (typeof qa.score !== 'number') {
+      return '单题评估: 无';
+    }
+
+    const star = qa.starAnalysis
+      ? `S${qa.starAnalysis.situation ?? '-'}/T${qa.starAnalysis.task ?? '-'}/A${qa.starAnalysis.action ?? '-'}/R${qa.starAnalysis.result ?? '-'}`
+      : '无';
+
+    return [
+      `单题得分: ${qa.score}`,
+      `STAR分析: ${star}`,
+      `AI点评: ${qa.aiComment || '无'}`,
+      `亮点: ${(qa.highlights || []).join('；') || '无'}`,
+      `待改进: ${(qa.improvements || []).join('；') || '无'}`,
+    ].join('\\n');
   }
 
   /**
    * 生成面试评估报告
    * 基于用户的回答、职位描述、简历等信息，调用AI模型分析并生成一份完整的评估报告
    */
-  async generateInterviewAssessmentReport(context): Promise<any> {
+  async generateInterviewAssessmentReport(
+    context: AssessmentReportInput,
+  ): Promise<AssessmentReport> {
     try {
       // 1. 构建提示(Prompt)
-      // 根据传入的上下文信息（如面试类型、问答列表等）构建一个给AI模型的详细指令。
-      const prompt = buildAssessmentPrompt(context);
+      // 根据传入的上下文信息（如面试类型、问答列表等）构建一个给AI模型的详细指令；A/B 实验时使用分配到的版本
+      const promptVersion: ResolvedPrompt =
+        context.prompt ||
+        this.promptRegistry.builtIn(PromptKey.ASSESSMENT_REPORT);
+      const prompt = promptVersion.template || buildAssessmentPrompt(context);
       const promptTemplate = PromptTemplate.fromTemplate(prompt);
 
-      // 2. 初始化AI模型和处理链
-      // 创建一个默认的AI模型实例
-      const model = this.aiModelFactory.createDefaultModel();
-      // 创建一个JSON解析器，用于将AI模型的输出（期望是JSON字符串）转换成JS对象
-      const parser = new JsonOutputParser();
-      // 创建一个处理链：将格式化后的prompt传给model，再将model的输出传给parser进行解析
-      const chainWithParser = promptTemplate.pipe(model).pipe(parser);
+      // 2. AI模型在 track 内创建，用量和修复次数记到这个 Prompt 版本上
 
       // 记录开始生成的日志信息
       this.logger.log(
-        `🤖 开始生成面试评估报告: type=${context.interviewType}, qaCount=${context.qaList.length}`,
+        `🤖 开始生成面试评估报告: type=${context.interviewType}, qaCount=${context.qaList.length}, promptVersion=${promptVersion.version}`,
       );
       const startTime = Date.now(); // 记录开始时间，用于计算耗时
 
       // 3. 调用AI模型并获取结果
-      // 异步调用处理链，并传入详细的面试数据
-      const result: any = await chainWithParser.invoke({
-        interviewType: context.interviewType, // 面试类型
-        company: context.company || '', // 公司名称
-        positionName: context.positionName || '未提供', // 职位名称
-        jd: context.jd || '未提供', // 职位描述 (Job Description)
-        resumeContent: context.resumeContent, // 简历内容
-        // 将问答列表格式化成一个长字符串，包含问题、用户回答、回答长度和标准答案
-        qaList: context.qaList
-          .map(
-            (qa, index) =>
-              `问题${index + 1}: ${qa.question}\\n用户回答: ${qa.answer}\\n回答长度: ${qa.answer.length}字\\n标准答案: ${qa.standardAnswer || '无'}`,
-          )
-          .join('\\n\\n'), // 每个问答对之间用换行符隔开
-        totalQuestions: context.qaList.length, // 总问题数
-        // 如果有回答质量指标，也格式化成字符串
-        qualityMetrics: context.answerQualityMetrics
-          ? `\\n## 回答质量统计\\n- 总问题数: ${context.answerQualityMetrics.totalQuestions}\\n- 平均回答长度: ${context.answerQualityMetrics.avgAnswerLength}字\\n- 无效回答数: ${context.answerQualityMetrics.emptyAnswersCount}`
-          : '',
-      });
+      // 传入详细的面试数据，输出按 Schema 校验，不符合时自动请 AI 修复
+      const result = await this.promptRegistry.track(promptVersion, (run) =>
+        this.structuredOutputService.invoke({
+          label: '面试评估报告',
+          prompt: promptTemplate,
+          model: this.aiModelFactory.createDefaultModel(
+            AIFeature.ASSESSMENT_REPORT,
+          ),
+          schema: AssessmentReportSchema,
+          onRepair: () => run.repairs++,
+          variables: {
+            interviewType: context.interviewType, // 面试类型
+            company: context.company || '', // 公司名称
+            positionName: context.positionName || '未提供', // 职位名称
+            jd: context.jd || '未提供', // 职位描述 (Job Description)
+            resumeContent: context.resumeContent, // 简历内容
+            // 将问答列表格式化成一个长字符串，包含问题、用户回答、回答长度、标准答案和单题评估
+            qaList: context.qaList
+              .map(
+                (qa, index) =>
+                  `问题${index + 1}: ${qa.question}\\n用户回答: ${qa.answer}\\n回答长度: ${qa.answer.length}字\\n标准答案: ${qa.standardAnswer || '无'}\\n${this.formatAnswerEvaluation(qa)}`,
+              )
+              .join('\\n\\n'), // 每个问答对之间用换行符隔开
+            totalQuestions: context.qaList.length, // 总问题数
+            // 如果有回答质量指标，也格式化成字符串
+            qualityMetrics: context.answerQualityMetrics
+              ? `\\n## 回答质量统计\\n- 总问题数: ${context.answerQualityMetrics.totalQuestions}\\n- 平均回答长度: ${context.answerQualityMetrics.avgAnswerLength}字\\n- 无效回答数: ${context.answerQualityMetrics.emptyAnswersCount}`
+              : '',
+          },
+        }),
+      );
 
       const duration = Date.now() - startTime; // 计算生成报告的总耗时
       this.logger.log(
         `✅ 评估报告生成完成: 耗时=${duration}ms, overallScore=${result.overallScore}`,
       );
 
-      // 4. 格式化并返回最终结果
-      // 从AI返回的结果中提取关键信息，并为可能缺失的字段提供默认值，确保返回对象的结构稳定
-      return {
-        overallScore: result.overallScore || 75, // 综合得分
-        overallLevel: result.overallLevel || '良好', // 综合评级
-        overallComment: result.overallComment || '面试表现良好', // 综合评语
-        radarData: result.radarData || [], // 能力雷达图数据
-        strengths: result.strengths || [], // 优点
-        weaknesses: result.weaknesses || [], // 缺点
-        improvements: result.improvements || [], // 改进建议
-        fluencyScore: result.fluencyScore || 80, // 表达流畅度得分
-        logicScore: result.logicScore || 80, // 逻辑清晰度得分
-        professionalScore: result.professionalScore || 80, // 专业知识得分
-      };
+      // 4. 返回通过校验的结果（不再用默认分数兜底，避免给用户展示虚假的评分）
+      return result;
     } catch (error) {
       // 5. 错误处理
       // 如果在生成过程中发生任何错误，记录详细的错误日志并抛出异常
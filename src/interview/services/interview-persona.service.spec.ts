@@ -0,0 +1,122 @@
+import { BadRequestException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { mockQuery } from '../../../test/mock-query';
+import {
+  FollowUpAggressiveness,
+  InterviewPersona,
+} from '../schemas/interview-persona.schema';
+import {
+  DEFAULT_PERSONA_ID,
+  InterviewPersonaService,
+} from './interview-persona.service';
+
+describe('InterviewPersonaService', () => {
+  let service: InterviewPersonaService;
+  const personaModel = {
+    findOne: jest.fn(),
+    bulkWrite: jest.fn(),
+  };
+
+  const strictPersona = {
+    personaId: 'strict',
+    name: '严格面试官',
+    interviewerName: '李四',
+    toneInstructions: '语气严肃',
+    openingTemplate: '{candidateName}好',
+    closingTemplate: '再见',
+    followUpAggressiveness: FollowUpAggressiveness.HIGH,
+    description: '不属于人设快照的字段',
+    isActive: true,
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        InterviewPersonaService,
+        {
+          provide: getModelToken(InterviewPersona.name),
+          useValue: personaModel,
+        },
+      ],
+    }).compile();
+    service = moduleRef.get(InterviewPersonaService);
+  });
+
+  describe('resolve', () => {
+    it('返回启用的人设快照', async () => {
+      personaModel.findOne.mockReturnValue(mockQuery(strictPersona));
+
+      const profile = await service.resolve('strict');
+
+      expect(personaModel.findOne).toHaveBeenCalledWith({
+        personaId: 'strict',
+        isActive: true,
+      });
+      expect(profile).toEqual({
+        personaId: 'strict',
+        name: '严格面试官',
+        interviewerName: '李四',
+        toneInstructions: '语气严肃',
+        openingTemplate: '{candidateName}好',
+        closingTemplate: '再见',
+        followUpAggressiveness: FollowUpAggressiveness.HIGH,
+      });
+    });
+
+    it('指定的人设不存在或已停用时拒绝开始面试', async () => {
+      personaModel.findOne.mockReturnValue(mockQuery(null));
+
+      await expect(service.resolve('missing')).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+    });
+
+    it('未指定人设且数据库中没有默认人设时使用内置默认人设', async () => {
+      personaModel.findOne.mockReturnValue(mockQuery(null));
+
+      const profile = await service.resolve();
+
+      expect(personaModel.findOne).toHaveBeenCalledWith({
+        personaId: DEFAULT_PERSONA_ID,
+        isActive: true,
+      });
+      expect(profile).toEqual(service.defaultProfile());
+    });
+  });
+
+  it('按追问力度决定每个计划项最多追问次数', () => {
+    const profile = service.defaultProfile();
+
+    expect(
+      service.maxFollowUps({
+        ...profile,
+        followUpAggressiveness: FollowUpAggressiveness.LOW,
+      }),
+    ).toBe(1);
+    expect(
+      service.maxFollowUps({
+        ...profile,
+        followUpAggressiveness: FollowUpAggressiveness.HIGH,
+      }),
+    ).toBe(3);
+  });
+
+  it('写入内置人设时不覆盖管理员的修改', async () => {
+    personaModel.bulkWrite.mockResolvedValue({});
+
+    await service.onModuleInit();
+
+    const [operations] = personaModel.bulkWrite.mock.calls[0] as [
+      Array<{
+        updateOne: { update: Record<string, unknown>; upsert: boolean };
+      }>,
+    ];
+    expect(operations.length).toBeGreaterThan(0);
+    for (const { updateOne } of operations) {
+      expect(Object.keys(updateOne.update)).toEqual(['$setOnInsert']);
+      expect(updateOne.upsert).toBe(true);
+    }
+  });
+});
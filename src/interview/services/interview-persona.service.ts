@@ -0,0 +1,291 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  FollowUpAggressiveness,
+  InterviewPersona,
+  InterviewPersonaDocument,
+} from '../schemas/interview-persona.schema';
+import {
+  CreateInterviewPersonaDto,
+  UpdateInterviewPersonaDto,
+} from '../dto/interview-persona.dto';
+
+/**
+ * 面试官人设快照（开始面试时保存到会话中，后台修改人设不影响进行中的面试）
+ */
+export interface InterviewPersonaProfile {
+  personaId: string;
+  name: string;
+  interviewerName: string;
+  toneInstructions: string;
+  openingTemplate: string;
+  closingTemplate: string;
+  followUpAggressiveness: FollowUpAggressiveness;
+}
+
+/**
+ * 追问力度展示文案（用于 Prompt）
+ */
+export const FOLLOW_UP_STYLE_LABELS: Record<FollowUpAggressiveness, string> = {
+  [FollowUpAggressiveness.LOW]:
+    '点到为止：候选人答出要点即可进入下一题，很少追问细节',
+  [FollowUpAggressiveness.MEDIUM]:
+    '适度追问：回答不完整或有明显漏洞时追问一次，帮助候选人补充',
+  [FollowUpAggressiveness.HIGH]:
+    '层层深挖：抓住回答中的每个模糊点连续追问，直到触及原理和边界',
+};
+
+// 不同追问力度下，每个计划项最多追问次数
+const MAX_FOLLOW_UPS: Record<FollowUpAggressiveness, number> = {
+  [FollowUpAggressiveness.LOW]: 1,
+  [FollowUpAggressiveness.MEDIUM]: 2,
+  [FollowUpAggressiveness.HIGH]: 3,
+};
+
+export const DEFAULT_PERSONA_ID = 'standard';
+
+// 开场白 / 结束语模板中可用的占位符：{candidateName}、{interviewerName}、{positionName}
+// 某个段落引用的占位符没有值时，整段省略
+const DEFAULT_CLOSING_TEMPLATE =
+  '好的{candidateName}，今天的面试就到这里。\n\n' +
+  '感谢你的时间和精彩的回答。整体来看，你的表现不错。\n\n' +
+  '我们会将你的面试情况反馈给用人部门，预计3-5个工作日内会给你答复。\n\n' +
+  '如果有任何问题，可以随时联系HR。祝你一切顺利！\n\n' +
+  '— {interviewerName}老师';
+
+// 内置人设（首次启动时写入数据库，之后由管理员维护）
+const BUILT_IN_PERSONAS: Array<
+  InterviewPersonaProfile & { description: string }
+> = [
+  {
+    personaId: DEFAULT_PERSONA_ID,
+    name: '标准面试官',
+    interviewerName: '张三',
+    description: '专业友好，节奏适中，适合大多数候选人',
+    toneInstructions:
+      '保持面试官的专业性和友好度，语气平和，对候选人的回答给出客观简短的评价。',
+    openingTemplate:
+      '{candidateName}好，我是你今天的面试官，你可以叫我{interviewerName}老师。\n\n' +
+      '我看到你申请的是{positionName}岗位。\n\n' +
+      '让我们开始今天的面试吧。\n\n' +
+      '首先，请你简单介绍一下自己。自我介绍可以说明你的学历以及专业背景、工作经历以及取得的成绩等。',
+    closingTemplate: DEFAULT_CLOSING_TEMPLATE,
+    followUpAggressiveness: FollowUpAggressiveness.MEDIUM,
+  },
+  {
+    personaId: 'friendly-hr',
+    name: '亲和的 HR',
+    interviewerName: '林悦',
+    description: '温和鼓励，注重沟通和动机，适合第一次参加面试的候选人',
+    toneInstructions:
+      '语气温和亲切，多用鼓励性的表达，先肯定候选人回答中的亮点再提出问题；候选人紧张或卡壳时给出适当的引导。',
+    openingTemplate:
+      '{candidateName}你好呀，我是今天和你聊天的{interviewerName}，不用紧张，就当是一次轻松的交流。\n\n' +
+      '你申请的是{positionName}岗位，我们会围绕你的经历和想法聊一聊。\n\n' +
+      '先请你做个简单的自我介绍吧，讲讲你的背景和最近在做的事情。',
+    closingTemplate:
+      '好的{candidateName}，今天就先聊到这里，谢谢你这么真诚的分享！\n\n' +
+      '我们会在3-5个工作日内把结果反馈给你，有任何问题都可以随时联系我。\n\n' +
+      '祝你一切顺利！— {interviewerName}',
+    followUpAggressiveness: FollowUpAggressiveness.LOW,
+  },
+  {
+    personaId: 'strict-tech-lead',
+    name: '严格的技术负责人',
+    interviewerName: '王磊',
+    description: '关注技术细节和工程质量，回答含糊时会直接指出',
+    toneInstructions:
+      '语气简洁直接，不寒暄；评价回答时直接指出不准确或含糊的地方，要求候选人给出具体的数据、原理和取舍理由。',
+    openingTemplate:
+      '{candidateName}你好，我是{interviewerName}，负责这个团队的技术。\n\n' +
+      '今天主要聊{positionName}岗位相关的技术问题，我会比较关注细节。\n\n' +
+      '请先用两三分钟介绍一下你最近做的项目，重点讲你自己负责的部分。',
+    closingTemplate:
+      '好，{candidateName}，今天的技术面就到这里。\n\n' +
+      '我们会综合评估后在3-5个工作日内给你答复。\n\n' +
+      '— {interviewerName}',
+    followUpAggressiveness: FollowUpAggressiveness.HIGH,
+  },
+  {
+    personaId: 'pressure-interviewer',
+    name: '压力面试官',
+    interviewerName: '赵峰',
+    description: '刻意制造压力，质疑候选人的回答，考察抗压和应变能力',
+    toneInstructions:
+      '语气冷静严肃，经常质疑候选人的回答（如「你确定吗？」「这个理由说服不了我」），但不进行人身攻击；观察候选人在压力下是否能保持逻辑清晰。',
+    openingTemplate:
+      '{candidateName}，我是{interviewerName}。我们时间有限，直接开始。\n\n' +
+      '{positionName}岗位的竞争很激烈，我需要看到你比其他候选人强在哪里。\n\n' +
+      '用一分钟介绍你自己，只说最重要的。',
+    closingTemplate:
+      '{candidateName}，今天就到这里。\n\n' +
+      '结果会在3-5个工作日内通知你。\n\n' +
+      '— {interviewerName}',
+    followUpAggressiveness: FollowUpAggressiveness.HIGH,
+  },
+  {
+    personaId: 'bar-raiser',
+    name: 'Bar Raiser',
+    interviewerName: '陈默',
+    description: '跨团队的把关面试官，关注候选人是否能拉高团队整体水平',
+    toneInstructions:
+      '语气专业克制，问题偏开放；重点考察候选人的思考深度、主人翁意识和长期成长潜力，要求用具体事例（STAR）支撑观点。',
+    openingTemplate:
+      '{candidateName}你好，我是{interviewerName}，今天作为交叉面试官和你聊一聊。\n\n' +
+      '我不会只关注{positionName}岗位的专业技能，也会关注你做事的方式和思考方式。\n\n' +
+      '请先介绍一下你自己，以及一件你最有成就感的事情。',
+    closingTemplate:
+      '谢谢你，{candidateName}，今天的交流很有价值。\n\n' +
+      '我们会综合所有面试官的意见，在3-5个工作日内给你答复。\n\n' +
+      '— {interviewerName}',
+    followUpAggressiveness: FollowUpAggressiveness.HIGH,
+  },
+];
+
+/**
+ * 面试官人设服务
+ *
+ * 人设保存在数据库中，管理员可以新增和修改；
+ * 开始面试时按 personaId 解析出人设快照，决定开场白、结束语、出题语气和追问力度。
+ */
+@Injectable()
+export class InterviewPersonaService implements OnModuleInit {
+  private readonly logger = new Logger(InterviewPersonaService.name);
+
+  constructor(
+    @InjectModel(InterviewPersona.name)
+    private personaModel: Model<InterviewPersonaDocument>,
+  ) {}
+
+  /**
+   * 写入内置人设（已存在的不覆盖，保留管理员的修改）
+   */
+  async onModuleInit(): Promise<void> {
+    try {
+      await this.personaModel.bulkWrite(
+        BUILT_IN_PERSONAS.map((persona, index) => ({
+          updateOne: {
+            filter: { personaId: persona.personaId },
+            update: {
+              $setOnInsert: { ...persona, isActive: true, sortOrder: index },
+            },
+            upsert: true,
+          },
+        })),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `⚠️ 内置面试官人设初始化失败: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * 解析面试使用的人设
+   * 未指定 personaId 时使用默认人设；数据库不可用时回退到内置默认人设
+   */
+  async resolve(personaId?: string): Promise<InterviewPersonaProfile> {
+    const persona = await this.personaModel
+      .findOne({ personaId: personaId || DEFAULT_PERSONA_ID, isActive: true })
+      .lean();
+
+    if (persona) {
+      return this.toProfile(persona);
+    }
+
+    if (personaId) {
+      throw new BadRequestException('面试官人设不存在或已停用');
+    }
+
+    return this.defaultProfile();
+  }
+
+  /**
+   * 内置默认人设（旧会话没有人设快照时使用）
+   */
+  defaultProfile(): InterviewPersonaProfile {
+    return this.toProfile(BUILT_IN_PERSONAS[0]);
+  }
+
+  /**
+   * 人设对应的每个计划项最多追问次数
+   */
+  maxFollowUps(persona: InterviewPersonaProfile): number {
+    return (
+      MAX_FOLLOW_UPS[persona.followUpAggressiveness] ??
+      MAX_FOLLOW_UPS[FollowUpAggressiveness.MEDIUM]
+    );
+  }
+
+  /**
+   * 获取可选的人设列表（用户开始面试前选择）
+   */
+  async listActive() {
+    return this.personaModel
+      .find({ isActive: true })
+      .select(
+        'personaId name interviewerName description followUpAggressiveness',
+      )
+      .sort({ sortOrder: 1, createdAt: 1 })
+      .lean();
+  }
+
+  /**
+   * 获取全部人设（管理后台）
+   */
+  async listAll() {
+    return this.personaModel.find().sort({ sortOrder: 1, createdAt: 1 }).lean();
+  }
+
+  /**
+   * 新增人设（管理后台）
+   */
+  async create(dto: CreateInterviewPersonaDto) {
+    const exists = await this.personaModel.exists({
+      personaId: dto.personaId,
+    });
+    if (exists) {
+      throw new ConflictException('人设标识已存在');
+    }
+
+    const persona = await this.personaModel.create(dto);
+    this.logger.log(`✅ 新增面试官人设: personaId=${dto.personaId}`);
+    return persona.toObject();
+  }
+
+  /**
+   * 修改人设（管理后台）
+   */
+  async update(personaId: string, dto: UpdateInterviewPersonaDto) {
+    const persona = await this.personaModel
+      .findOneAndUpdate({ personaId }, { $set: dto }, { new: true })
+      .lean();
+
+    if (!persona) {
+      throw new NotFoundException('面试官人设不存在');
+    }
+
+    this.logger.log(`✅ 修改面试官人设: personaId=${personaId}`);
+    return persona;
+  }
+
+  private toProfile(persona: InterviewPersonaProfile): InterviewPersonaProfile {
+    return {
+      personaId: persona.personaId,
+      name: persona.name,
+      interviewerName: persona.interviewerName,
+      toneInstructions: persona.toneInstructions,
+      openingTemplate: persona.openingTemplate,
+      closingTemplate: persona.closingTemplate,
+      followUpAggressiveness: persona.followUpAggressiveness,
+    };
+  }
+}
@@ -0,0 +1,112 @@
+import { Test } from '@nestjs/testing';
+import { MockInterviewType } from '../dto/mock-interview.dto';
+import { InterviewPlanItem } from '../schemas/ai-interview-result.schema';
+import {
+  QuestionCategory,
+  QuestionDifficulty,
+} from '../schemas/interview-quiz-result.schema';
+import { InterviewAIService } from './interview-ai.service';
+import { InterviewPlannerService } from './interview-planner.service';
+
+describe('InterviewPlannerService', () => {
+  let planner: InterviewPlannerService;
+  const aiService = {
+    generateInterviewPlan: jest.fn(),
+  };
+
+  const item = (topic: string): InterviewPlanItem => ({
+    topic,
+    category: QuestionCategory.TECHNICAL,
+    difficulty: QuestionDifficulty.MEDIUM,
+    timeBudgetMinutes: 5,
+  });
+  const plan = [item('缓存'), item('并发')];
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        InterviewPlannerService,
+        { provide: InterviewAIService, useValue: aiService },
+      ],
+    }).compile();
+    planner = moduleRef.get(InterviewPlannerService);
+  });
+
+  describe('createPlan', () => {
+    const context = {
+      interviewType: MockInterviewType.SPECIAL,
+      resumeContent: '简历',
+    };
+
+    it('丢弃不合法的计划项，时间预算限制在 2-20 分钟', async () => {
+      aiService.generateInterviewPlan.mockResolvedValue([
+        { ...item('缓存'), timeBudgetMinutes: 60 },
+        { ...item('并发'), timeBudgetMinutes: 1 },
+        { ...item('网络'), category: 'unknown' },
+        { ...item('  '), timeBudgetMinutes: 5 },
+        item('数据库'),
+        item('消息队列'),
+      ]);
+
+      const created = await planner.createPlan(context);
+
+      expect(created.map((planItem) => planItem.topic)).toEqual([
+        '缓存',
+        '并发',
+        '数据库',
+        '消息队列',
+      ]);
+      expect(created[0].timeBudgetMinutes).toBe(20);
+      expect(created[1].timeBudgetMinutes).toBe(2);
+    });
+
+    it('有效计划项不足或生成失败时使用默认计划', async () => {
+      aiService.generateInterviewPlan.mockResolvedValueOnce([item('缓存')]);
+      aiService.generateInterviewPlan.mockRejectedValueOnce(new Error('超时'));
+
+      const defaultPlan = planner.defaultPlan(MockInterviewType.SPECIAL);
+      expect(await planner.createPlan(context)).toEqual(defaultPlan);
+      expect(await planner.createPlan(context)).toEqual(defaultPlan);
+    });
+  });
+
+  describe('nextTurn', () => {
+    const progress = { index: 0, followUps: 0, itemStartedAt: new Date() };
+
+    it('回答部分到位时追问当前计划项', () => {
+      const turn = planner.nextTurn(plan, progress, 50);
+
+      expect(turn).toMatchObject({
+        item: plan[0],
+        isFollowUp: true,
+        finished: false,
+        progress: { index: 0, followUps: 1 },
+      });
+    });
+
+    it('回答很好、很差或追问次数用完时进入下一项', () => {
+      expect(planner.nextTurn(plan, progress, 90).item).toBe(plan[1]);
+      expect(planner.nextTurn(plan, progress, 10).item).toBe(plan[1]);
+      expect(
+        planner.nextTurn(plan, { ...progress, followUps: 2 }, 50).item,
+      ).toBe(plan[1]);
+    });
+
+    it('计划项时间预算用完时不再追问', () => {
+      const itemStartedAt = new Date(Date.now() - 6 * 60 * 1000);
+
+      const turn = planner.nextTurn(plan, { ...progress, itemStartedAt }, 50);
+
+      expect(turn.isFollowUp).toBe(false);
+      expect(turn.item).toBe(plan[1]);
+    });
+
+    it('最后一项完成后标记结束', () => {
+      const turn = planner.nextTurn(plan, { ...progress, index: 1 }, 90);
+
+      expect(turn).toMatchObject({ finished: true, isFollowUp: false });
+      expect(turn.item).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,302 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InterviewAIService } from './interview-ai.service';
+import { TOPIC_LABELS } from './difficulty-engine.service';
+import { MockInterviewType } from '../dto/mock-interview.dto';
+import { InterviewPlanItem } from '../schemas/ai-interview-result.schema';
+import {
+  QuestionCategory,
+  QuestionDifficulty,
+} from '../schemas/interview-quiz-result.schema';
+
+/**
+ * 面试计划进度（保存在面试会话中）
+ */
+export interface PlanProgress {
+  index: number; // 当前计划项下标（-1 表示还在开场自我介绍）
+  followUps: number; // 当前计划项已追问的次数
+  itemStartedAt: Date; // 当前计划项开始时间
+}
+
+/**
+ * 下一轮的出题安排
+ */
+export interface PlannedTurn {
+  progress: PlanProgress; // 更新后的进度
+  item?: InterviewPlanItem; // 本轮对应的计划项（计划完成时为空）
+  isFollowUp: boolean; // 是否为追问
+  finished: boolean; // 计划是否已全部完成（本轮应输出结束语）
+}
+
+// 计划生成失败时使用的默认大纲
+const DEFAULT_PLANS: Record<MockInterviewType, InterviewPlanItem[]> = {
+  [MockInterviewType.SPECIAL]: [
+    {
+      topic: '简历中最有代表性的项目及个人职责',
+      category: QuestionCategory.PROJECT,
+      difficulty: QuestionDifficulty.EASY,
+      timeBudgetMinutes: 5,
+    },
+    {
+      topic: '项目中遇到的技术难点与解决过程',
+      category: QuestionCategory.PROJECT,
+      difficulty: QuestionDifficulty.MEDIUM,
+      timeBudgetMinutes: 7,
+    },
+    {
+      topic: '简历核心技术栈的原理与机制',
+      category: QuestionCategory.TECHNICAL,
+      difficulty: QuestionDifficulty.MEDIUM,
+      timeBudgetMinutes: 7,
+    },
+    {
+      topic: 'JD 要求的关键技术能力',
+      category: QuestionCategory.TECHNICAL,
+      difficulty: QuestionDifficulty.MEDIUM,
+      timeBudgetMinutes: 7,
+    },
+    {
+      topic: '性能优化与问题排查',
+      category: QuestionCategory.PROBLEM_SOLVING,
+      difficulty: QuestionDifficulty.MEDIUM,
+      timeBudgetMinutes: 7,
+    },
+    {
+      topic: '技术选型与方案权衡',
+      category: QuestionCategory.TECHNICAL,
+      difficulty: QuestionDifficulty.HARD,
+      timeBudgetMinutes: 7,
+    },
+    {
+      topic: '结合业务场景的系统设计',
+      category: QuestionCategory.SCENARIO,
+      difficulty: QuestionDifficulty.HARD,
+      timeBudgetMinutes: 10,
+    },
+    {
+      topic: '算法与数据结构',
+      category: QuestionCategory.PROBLEM_SOLVING,
+      difficulty: QuestionDifficulty.HARD,
+      timeBudgetMinutes: 8,
+    },
+  ],
+  [MockInterviewType.COMPREHENSIVE]: [
+    {
+      topic: '求职动机与职业规划',
+      category: QuestionCategory.BEHAVIORAL,
+      difficulty: QuestionDifficulty.EASY,
+      timeBudgetMinutes: 5,
+    },
+    {
+      topic: '团队协作与冲突处理经历',
+      category: QuestionCategory.BEHAVIORAL,
+      difficulty: QuestionDifficulty.MEDIUM,
+      timeBudgetMinutes: 5,
+    },
+    {
+      topic: '压力应对与自我认知',
+      category: QuestionCategory.SOFT_SKILL,
+      difficulty: QuestionDifficulty.MEDIUM,
+      timeBudgetMinutes: 5,
+    },
+    {
+      topic: '逻辑推理题',
+      category: QuestionCategory.PROBLEM_SOLVING,
+      difficulty: QuestionDifficulty.MEDIUM,
+      timeBudgetMinutes: 5,
+    },
+    {
+      topic: '数字计算题',
+      category: QuestionCategory.PROBLEM_SOLVING,
+      difficulty: QuestionDifficulty.MEDIUM,
+      timeBudgetMinutes: 5,
+    },
+    {
+      topic: '语言理解题',
+      category: QuestionCategory.PROBLEM_SOLVING,
+      difficulty: QuestionDifficulty.MEDIUM,
+      timeBudgetMinutes: 5,
+    },
+    {
+      topic: '工作中的情景应对',
+      category: QuestionCategory.SCENARIO,
+      difficulty: QuestionDifficulty.HARD,
+      timeBudgetMinutes: 5,
+    },
+    {
+      topic: '公司匹配度与价值观',
+      category: QuestionCategory.SOFT_SKILL,
+      difficulty: QuestionDifficulty.MEDIUM,
+      timeBudgetMinutes: 5,
+    },
+  ],
+};
+
+/**
+ * 面试计划服务
+ *
+ * 面试开始前根据简历、JD 和面试类型生成有序大纲，
+ * 面试过程中决定每一轮是继续追问当前计划项，还是进入下一项。
+ */
+@Injectable()
+export class InterviewPlannerService {
+  private readonly logger = new Logger(InterviewPlannerService.name);
+
+  private readonly MIN_PLAN_ITEMS = 4; // 计划至少包含的项数
+  private readonly MAX_PLAN_ITEMS = 15; // 计划最多包含的项数
+  private readonly FOLLOW_UP_MIN_SCORE = 30; // 回答质量低于此值不再追问（直接换题）
+  private readonly FOLLOW_UP_MAX_SCORE = 75; // 回答质量高于此值无需追问
+  private readonly DEFAULT_MAX_FOLLOW_UPS = 2; // 每个计划项默认最多追问次数
+
+  constructor(private aiService: InterviewAIService) {}
+
+  /**
+   * 生成面试计划
+   * AI 生成失败或结果不可用时，回退到默认大纲，保证面试可以开始
+   */
+  async createPlan(context: {
+    interviewType: MockInterviewType;
+    company?: string;
+    positionName?: string;
+    jd?: string;
+    resumeContent: string;
+  }): Promise<InterviewPlanItem[]> {
+    try {
+      const rawItems = await this.aiService.generateInterviewPlan({
+        ...context,
+        interviewType:
+          context.interviewType === MockInterviewType.SPECIAL
+            ? 'special'
+            : 'comprehensive',
+      });
+      const plan = this.normalizePlan(rawItems);
+
+      if (plan.length < this.MIN_PLAN_ITEMS) {
+        throw new Error(`有效计划项不足: ${plan.length}`);
+      }
+
+      this.logger.log(`📋 面试计划生成成功: items=${plan.length}`);
+      return plan;
+    } catch (error) {
+      this.logger.warn(
+        `⚠️ 面试计划生成失败，使用默认计划: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return this.defaultPlan(context.interviewType);
+    }
+  }
+
+  /**
+   * 默认面试计划
+   */
+  defaultPlan(interviewType: MockInterviewType): InterviewPlanItem[] {
+    return DEFAULT_PLANS[interviewType].map((item) => ({ ...item }));
+  }
+
+  /**
+   * 初始进度（开场自我介绍阶段）
+   */
+  createProgress(startTime: Date): PlanProgress {
+    return { index: -1, followUps: 0, itemStartedAt: startTime };
+  }
+
+  /**
+   * 决定下一轮的出题安排
+   *
+   * 追问条件：回答质量处于「部分到位」区间、追问次数未用完、计划项时间预算未用完；
+   * 否则进入下一个计划项，全部完成后标记 finished。
+   *
+   * @param plan - 面试计划
+   * @param progress - 当前进度
+   * @param latestAnswerScore - 最新回答的质量分 (0-100)
+   * @param maxFollowUps - 每个计划项最多追问次数
+   */
+  nextTurn(
+    plan: InterviewPlanItem[],
+    progress: PlanProgress,
+    latestAnswerScore?: number,
+    maxFollowUps: number = this.DEFAULT_MAX_FOLLOW_UPS,
+  ): PlannedTurn {
+    const now = new Date();
+    const currentItem = plan[progress.index];
+
+    if (currentItem && latestAnswerScore !== undefined) {
+      const spentMinutes =
+        (now.getTime() - new Date(progress.itemStartedAt).getTime()) / 60000;
+      const canFollowUp =
+        latestAnswerScore >= this.FOLLOW_UP_MIN_SCORE &&
+        latestAnswerScore < this.FOLLOW_UP_MAX_SCORE &&
+        progress.followUps < maxFollowUps &&
+        spentMinutes < currentItem.timeBudgetMinutes;
+
+      if (canFollowUp) {
+        return {
+          progress: { ...progress, followUps: progress.followUps + 1 },
+          item: currentItem,
+          isFollowUp: true,
+          finished: false,
+        };
+      }
+    }
+
+    const nextIndex = progress.index + 1;
+    if (nextIndex >= plan.length) {
+      return {
+        progress: { ...progress, index: plan.length },
+        isFollowUp: false,
+        finished: true,
+      };
+    }
+
+    return {
+      progress: { index: nextIndex, followUps: 0, itemStartedAt: now },
+      item: plan[nextIndex],
+      isFollowUp: false,
+      finished: false,
+    };
+  }
+
+  /**
+   * 生成本轮的出题指令（写入 Prompt）
+   */
+  buildTurnDirective(plan: InterviewPlanItem[], turn: PlannedTurn): string {
+    if (turn.finished || !turn.item) {
+      return '面试计划中的考察点已全部完成。请不要再提出新问题，直接输出结束语，并在结束语后单独一行输出: [END_INTERVIEW]';
+    }
+
+    const itemLabel = `「${turn.item.topic}」（${TOPIC_LABELS[turn.item.category]}）`;
+
+    if (turn.isFollowUp) {
+      return `继续考察面试计划第 ${turn.progress.index + 1}/${plan.length} 项${itemLabel}。候选人上一个回答不够完整，请针对回答中的薄弱点进行第 ${turn.progress.followUps} 次追问，不要换话题，也不要结束面试。`;
+    }
+
+    return `进入面试计划第 ${turn.progress.index + 1}/${plan.length} 项${itemLabel}，时间预算约 ${turn.item.timeBudgetMinutes} 分钟。请先简短回应候选人上一个回答，再围绕该考察点提出一个新问题，不要结束面试。`;
+  }
+
+  /**
+   * 校验并规范化 AI 生成的计划项，丢弃字段不合法的项
+   */
+  private normalizePlan(
+    rawItems: Array<Record<string, unknown>>,
+  ): InterviewPlanItem[] {
+    const categories = Object.values(QuestionCategory) as string[];
+    const difficulties = Object.values(QuestionDifficulty) as string[];
+
+    return (Array.isArray(rawItems) ? rawItems : [])
+      .filter(
+        (item) =>
+          typeof item?.topic === 'string' &&
+          item.topic.trim() &&
+          categories.includes(item.category as string) &&
+          difficulties.includes(item.difficulty as string),
+      )
+      .slice(0, this.MAX_PLAN_ITEMS)
+      .map((item) => ({
+        topic: String(item.topic).trim(),
+        category: item.category as QuestionCategory,
+        difficulty: item.difficulty as QuestionDifficulty,
+        timeBudgetMinutes: Math.min(
+          20,
+          Math.max(2, Math.round(Number(item.timeBudgetMinutes) || 5)),
+        ),
+      }));
+  }
+}
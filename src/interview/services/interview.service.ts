@@ -1,5 +1,5 @@
 ﻿// src/interview/services/interview.service.ts
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { SessionManager } from '../../ai/services/session.manager';
 import { ResumeAnalysisService } from './resume-analysis.service';
@@ -7,7 +7,7 @@ import { ConversationContinuationService } from './conversation-continuation.ser
 import { RESUME_ANALYSIS_SYSTEM_MESSAGE } from '../prompts/resume-analysis.prompts';
 import { Subject } from 'rxjs';
 import { ResumeQuizDto } from '../dto/resume-quiz.dto';
-import { v4 as uuidv4 } from 'uuid';
+import { randomUUID } from 'crypto';
 import { ConsumptionStatus } from '../schemas/consumption-record.schema';
 import { BadRequestException, NotFoundException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
@@ -24,10 +24,14 @@ import {
 } from '../schemas/interview-quiz-result.schema';
 import { DocumentParserService } from './document-parser.service';
 import { InterviewAIService } from './interview-ai.service';
-import { AIInterviewType } from '../schemas/ai-interview-result.schema';
+import {
+  AIInterviewType,
+  InterviewQA,
+} from '../schemas/ai-interview-result.schema';
 import {
   StartMockInterviewDto,
   MockInterviewEventDto,
+  MockInterviewBillingMode,
   MockInterviewEventType,
   MockInterviewType,
 } from '../dto/mock-interview.dto';
@@ -47,6 +51,32 @@ import {
 } from '../../user/schemas/user-transaction.schema';
 
 import { traceIdStorage } from '../../common/middleware/trace-id.middleware';
+import {
+  AIUsageService,
+  bindAIUsage,
+  runWithAIUsage,
+} from '../../ai/services/ai-usage.service';
+import { PromptRegistryService } from '../../ai/services/prompt-registry.service';
+import { PromptKey } from '../../ai/schemas/prompt-version.schema';
+import { InterviewSession } from '../interfaces/interview-session.interface';
+import { RateResultDto } from '../dto/result-rating.dto';
+import {
+  AnswerSignal,
+  DifficultyEngineService,
+  TOPIC_LABELS,
+} from './difficulty-engine.service';
+import { InterviewPlannerService } from './interview-planner.service';
+import { InterviewPersonaService } from './interview-persona.service';
+import { PlanService } from '../../payment/plan.service';
+import { VipService } from '../../payment/vip/vip.service';
+import { LedgerService } from '../../ledger/ledger.service';
+import { LedgerReason } from '../../ledger/ledger-entry.schema';
+import { MockInterviewBillingService } from './mock-interview-billing.service';
+import {
+  INTERVIEW_SESSION_STORE,
+  InterviewSessionConflictException,
+} from '../session-store/interview-session.store';
+import type { InterviewSessionStore } from '../session-store/interview-session.store';
 const AipSpeech = require('baidu-aip').speech;
 const ffmpeg = require('fluent-ffmpeg');
 const ffmpegPath = require('@ffmpeg-installer/ffmpeg').path;
@@ -70,6 +100,10 @@ export interface ProgressEvent {
   stage?: 'prepare' | 'generating' | 'saving' | 'done'; // 当前阶段
 }
 
+// 按分钟计费的面试时长用完时的结束语
+const BALANCE_EXHAUSTED_CLOSING_STATEMENT =
+  '感谢您今天的面试表现。您本次预留的模拟面试时长已经用完，我们今天的面试就到这里。已进行的问答会正常生成评估报告，如需继续练习，可以购买模拟面试时长后开始新的面试。祝您生活愉快！';
+
 /**
  * 消费类型枚举
  */
@@ -80,44 +114,6 @@ export enum ConsumptionType {
   AI_INTERVIEW = 'ai_interview', // AI模拟面试（如果使用次数计费）
 }
 
-/**
- * 面试会话（内存中）
- */
-interface InterviewSession {
-  sessionId: string; // 临时ID，用于这次面试
-  resultId?: string; // 数据库中的持久化ID
-  consumptionRecordId?: string; // 消费记录ID
-
-  // 用户信息
-  userId: string; // 用户ID
-  interviewType: MockInterviewType; // 面试类型（专项/综合）
-  interviewerName: string; // 面试官名字
-  candidateName?: string; // 候选人名字
-
-  // 岗位信息
-  company: string; // 公司名称
-  positionName?: string; // 岗位名称
-  salaryRange?: string; // 薪资范围
-  jd?: string; // 职位描述
-  resumeContent: string; // 简历内容（保存，用于后续问题生成）
-
-  // 对话历史
-  conversationHistory: Array<{
-    role: 'interviewer' | 'candidate';
-    content: string;
-    timestamp: Date;
-    standardAnswer?: string; // 标准答案（仅面试官问题有）
-  }>;
-
-  // 进度追踪
-  questionCount: number; // 已问的问题数
-  startTime: Date; // 开始时间
-  targetDuration: number; // 预期时长（分钟）
-
-  // 状态
-  isActive: boolean; // 是否活跃（用于判断是否已结束）
-}
-
 /**
  * 面试服务
  *
@@ -134,9 +130,8 @@ export class InterviewService {
   // 面试时长限制（分钟）
   private readonly SPECIAL_INTERVIEW_MAX_DURATION = 120; // 专项面试最大时长（分钟）
   private readonly BEHAVIOR_INTERVIEW_MAX_DURATION = 120; // 行测+HR面试最大时长（分钟）
-
-  // 存储活跃的面试会话（内存中）
-  private interviewSessions: Map<string, InterviewSession> = new Map();
+  private readonly ANSWER_CLAIM_TIMEOUT = 5; // 回答处理超时（分钟），超时未完成的回答视为处理中断
+  private readonly ANSWER_EVALUATION_TIMEOUT = 3; // 单题评估超时（分钟），超时仍在评估中的回答视为评估中断
 
   constructor(
     private configService: ConfigService,
@@ -145,6 +140,17 @@ export class InterviewService {
     private conversationContinuationService: ConversationContinuationService,
     private documentParserService: DocumentParserService,
     private aiService: InterviewAIService,
+    private difficultyEngine: DifficultyEngineService,
+    private interviewPlanner: InterviewPlannerService,
+    private interviewPersonaService: InterviewPersonaService,
+    private planService: PlanService,
+    private vipService: VipService,
+    private ledgerService: LedgerService,
+    private mockInterviewBilling: MockInterviewBillingService,
+    private aiUsageService: AIUsageService,
+    private promptRegistry: PromptRegistryService,
+    @Inject(INTERVIEW_SESSION_STORE)
+    private sessionStore: InterviewSessionStore,
     @InjectModel(ConsumptionRecord.name)
     private consumptionRecordModel: Model<ConsumptionRecordDocument>,
     @InjectModel(ResumeQuizResult.name)
@@ -187,9 +193,8 @@ export class InterviewService {
       this.logger.log(`[${traceId}]创建会话: ${sessionId}`);
 
       // 第二步：调用专门的简历分析服务
-      const result = await this.resumeAnalysisService.analyze(
-        resumeContent,
-        jobDescription,
+      const result = await runWithAIUsage({ userId }, () =>
+        this.resumeAnalysisService.analyze(resumeContent, jobDescription),
       );
 
       // 第三步：保存用户输入到会话历史
@@ -268,8 +273,10 @@ export class InterviewService {
   ): Subject<ProgressEvent> {
     const subject = new Subject<ProgressEvent>();
 
-    // 异步执行，通过 Subject 发送进度
-    this.executeResumeQuiz(userId, dto, subject).catch((error) => {
+    // 异步执行，通过 Subject 发送进度（AI 用量归属到当前用户）
+    runWithAIUsage({ userId }, () =>
+      this.executeResumeQuiz(userId, dto, subject),
+    ).catch((error) => {
       subject.error(error);
     });
 
@@ -285,9 +292,11 @@ export class InterviewService {
     progressSubject?: Subject<ProgressEvent>,
   ): Promise<any> {
     let consumptionRecord: any = null;
-    const recordId = uuidv4();
-    const resultId = uuidv4();
+    let deducted = false; // 是否已扣除次数（会员不限次数时不扣除，失败时也无需退还）
+    const recordId = randomUUID();
+    const resultId = randomUUID();
     console.log('recordId', recordId);
+    bindAIUsage({ resultId });
 
     // 处理错误
     try {
@@ -342,27 +351,33 @@ export class InterviewService {
 
       // ========== 步骤 1: 检查并扣除次数（原子操作）==========
       // ⚠️ 注意：扣费后如果后续步骤失败，会在 catch 块中自动退款
+      // 会员权益包含不限次数的简历押题时不扣除次数
 
-      const user = await this.userModel.findOneAndUpdate(
-        {
-          _id: userId,
-          resumeRemainingCount: { $gt: 0 }, // 条件：必须余额 > 0
-        },
-        {
-          $inc: { resumeRemainingCount: -1 }, // 原子操作：余额 - 1
-        },
-        { new: false }, // 返回更新前的文档，用于日志记录
-      );
+      if (await this.vipService.hasUnlimited(userId, 'resumeRemainingCount')) {
+        this.logger.log(`👑 会员不限次数简历押题，跳过扣费: userId=${userId}`);
+      } else {
+        // 通过账本记账扣除次数，余额不足时记账失败
+        const entry = await this.ledgerService.post(
+          userId,
+          { resumeRemainingCount: -1 },
+          {
+            reason: LedgerReason.CONSUME,
+            referenceId: recordId,
+            description: `简历押题 - ${dto?.company} ${dto.positionName}`,
+          },
+        );
 
-      // 检查扣费是否成功
-      if (!user) {
-        throw new BadRequestException('简历押题次数不足，请前往充值页面购买');
-      }
+        // 检查扣费是否成功
+        if (!entry) {
+          throw new BadRequestException('简历押题次数不足，请前往充值页面购买');
+        }
+        deducted = true;
 
-      // 记录详细日志
-      this.logger.log(
-        `✅ 用户扣费成功: userId=${userId}, 扣费前=${user.resumeRemainingCount}, 扣费后=${user.resumeRemainingCount - 1}`,
-      );
+        // 记录详细日志
+        this.logger.log(
+          `✅ 用户扣费成功: userId=${userId}, 扣费后=${entry.balances.resumeRemainingCount}`,
+        );
+      }
 
       // ========== 步骤 2: 创建消费记录（pending）==========
 
@@ -372,7 +387,7 @@ export class InterviewService {
         userId,
         type: ConsumptionType.RESUME_QUIZ, // 消费类型
         status: ConsumptionStatus.PENDING, // ⭐ 关键：标记为处理中
-        consumedCount: 1, // 消费次数
+        consumedCount: deducted ? 1 : 0, // 消费次数（会员不限次数时为 0）
         description: `简历押题 - ${dto?.company} ${dto.positionName}`,
 
         // 记录输入参数（用于调试和重现问题）
@@ -420,6 +435,18 @@ export class InterviewService {
       // ========== 阶段 2: AI 生成阶段 - 分两步（10-90%）==========
       const aiStartTime = Date.now();
 
+      // 解析本次使用的 Prompt 版本（指定了版本时优先使用，否则按 A/B 实验权重分配）
+      const questionsPrompt = await this.promptRegistry.resolve(
+        PromptKey.RESUME_QUIZ_QUESTIONS,
+        userId,
+        dto.promptVersion,
+      );
+      const analysisPrompt = await this.promptRegistry.resolve(
+        PromptKey.RESUME_QUIZ_ANALYSIS,
+        userId,
+        dto.promptVersion,
+      );
+
       this.logger.log(`🤖 开始生成押题部分...`);
       this.emitProgress(
         progressSubject,
@@ -438,6 +465,7 @@ export class InterviewService {
           maxSalary: dto.maxSalary,
           jd: dto.jd,
           resumeContent,
+          prompt: questionsPrompt,
         });
 
       this.logger.log(
@@ -465,6 +493,7 @@ export class InterviewService {
           maxSalary: dto.maxSalary,
           jd: dto.jd,
           resumeContent,
+          prompt: analysisPrompt,
         });
 
       this.logger.log(`✅ 匹配度分析完成`);
@@ -478,6 +507,8 @@ export class InterviewService {
         ...questionsResult,
         ...analysisResult,
       };
+      // 实际使用的模型和 Token 用量（发生故障转移时可能不止一个模型）
+      const usage = await this.buildConsumptionUsage(resultId);
 
       // ========== 阶段 3: 保存结果阶段==========
       const quizResult = await this.resumeQuizResultModel.create({
@@ -504,13 +535,17 @@ export class InterviewService {
         interviewTips: aiResult.interviewTips,
         // 元数据
         consumptionRecordId: recordId,
-        aiModel: 'deepseek-chat',
-        promptVersion: dto.promptVersion || 'v2',
+        aiModel: usage.aiModel,
+        promptVersion: questionsPrompt.version,
+        promptVersions: {
+          [PromptKey.RESUME_QUIZ_QUESTIONS]: questionsPrompt.version,
+          [PromptKey.RESUME_QUIZ_ANALYSIS]: analysisPrompt.version,
+        },
       });
 
       this.logger.log(`✅ 结果保存成功: resultId=${resultId}`);
 
-      // 更新消费记录为成功
+      // 更新消费记录为成功（Token 用量和成本来自 AI 用量记录）
       await this.consumptionRecordModel.findByIdAndUpdate(
         consumptionRecord._id,
         {
@@ -520,10 +555,7 @@ export class InterviewService {
               resultId,
               questionCount: aiResult.questions.length,
             },
-            aiModel: 'deepseek-chat',
-            promptTokens: aiResult.usage?.promptTokens,
-            completionTokens: aiResult.usage?.completionTokens,
-            totalTokens: aiResult.usage?.totalTokens,
+            ...usage,
             completedAt: new Date(),
           },
         },
@@ -577,9 +609,11 @@ export class InterviewService {
       // ========== 失败回滚流程 ==========
       try {
         // 1. 返还次数（最重要！）
-        this.logger.log(`🔄 开始退还次数: userId=${userId}`);
-        await this.refundCount(userId, 'resume');
-        this.logger.log(`✅ 次数退还成功: userId=${userId}`);
+        if (deducted) {
+          this.logger.log(`🔄 开始退还次数: userId=${userId}`);
+          await this.refundCount(userId, 'resume', recordId);
+          this.logger.log(`✅ 次数退还成功: userId=${userId}`);
+        }
 
         // 2. 更新消费记录为失败
         if (consumptionRecord) {
@@ -594,7 +628,7 @@ export class InterviewService {
                     ? error.stack // 开发环境记录堆栈
                     : undefined, // 生产环境不记录（隐私考虑）
                 failedAt: new Date(),
-                isRefunded: true, // ← 标记为已退款
+                isRefunded: deducted, // ← 标记为已退款
                 refundedAt: new Date(),
               },
             },
@@ -639,10 +673,12 @@ export class InterviewService {
   /**
    * 退还次数
    * ⚠️ 关键方法：确保在任何失败情况下都能正确退还用户次数
+   * @param recordId 扣费时的消费记录ID（同一消费记录只退还一次）
    */
   private async refundCount(
     userId: string,
     type: 'resume' | 'special' | 'behavior',
+    recordId: string,
   ): Promise<void> {
     const field =
       type === 'resume'
@@ -651,22 +687,19 @@ export class InterviewService {
           ? 'specialRemainingCount'
           : 'behaviorRemainingCount';
 
-    // 使用原子操作退还次数
-    const result = await this.userModel.findByIdAndUpdate(
+    // 通过账本记账退还次数
+    const entry = await this.ledgerService.post(
       userId,
+      { [field]: 1 },
       {
-        $inc: { [field]: 1 },
+        reason: LedgerReason.CONSUME_REVERSAL,
+        referenceId: recordId,
+        description: '使用失败退还次数',
       },
-      { new: true }, // 返回更新后的文档
     );
 
-    // 验证退款是否成功
-    if (!result) {
-      throw new Error(`退款失败：用户不存在 userId=${userId}`);
-    }
-
     this.logger.log(
-      `✅ 次数退还成功: userId=${userId}, type=${type}, 退还后=${result[field]}`,
+      `✅ 次数退还成功: userId=${userId}, type=${type}, 退还后=${entry?.balances[field]}`,
     );
   }
 
@@ -822,9 +855,8 @@ export class InterviewService {
     if (urlToDownload) {
       try {
         // 1. 从 URL 下载文件
-        const rawText = await this.documentParserService.parseDocumentFromUrl(
-          urlToDownload,
-        );
+        const rawText =
+          await this.documentParserService.parseDocumentFromUrl(urlToDownload);
 
         // 2. 清理文本（移除格式化符号等）
         const cleanedText = this.documentParserService.cleanText(rawText);
@@ -904,8 +936,10 @@ export class InterviewService {
   ): Subject<MockInterviewEventDto> {
     const subject = new Subject<MockInterviewEventDto>();
 
-    // 异步执行
-    this.executeStartMockInterview(userId, dto, subject).catch((error) => {
+    // 异步执行（AI 用量归属到当前用户）
+    runWithAIUsage({ userId }, () =>
+      this.executeStartMockInterview(userId, dto, subject),
+    ).catch((error) => {
       this.logger.error(`模拟面试启动失败: ${error.message}`, error.stack);
       if (subject && !subject.closed) {
         subject.next({
@@ -941,7 +975,20 @@ export class InterviewService {
     dto: StartMockInterviewDto,
     progressSubject: Subject<MockInterviewEventDto>,
   ): Promise<void> {
+    let deducted = false; // 是否已扣除次数（会员不限次数时不扣除，失败时也无需退还）
+    let reservedMinutes = 0; // 按分钟计费时预留的分钟数（启动失败时全额退还）
+    const recordId = randomUUID(); // 本次面试的消费记录ID（同时作为扣费的账本单据号）
+    const billingMode = dto.billingMode ?? MockInterviewBillingMode.COUNT;
     try {
+      // 0. 解析面试官人设（人设无效时不扣费）
+      const persona = await this.interviewPersonaService.resolve(dto.personaId);
+
+      // 设定面试的目标时长
+      const targetDuration =
+        dto.interviewType === MockInterviewType.SPECIAL
+          ? this.SPECIAL_INTERVIEW_MAX_DURATION // 120 分钟
+          : this.BEHAVIOR_INTERVIEW_MAX_DURATION; // 120 分钟
+
       // 1. 检查并扣除次数
       // 根据面试类型选择扣费字段
       const countField =
@@ -949,29 +996,44 @@ export class InterviewService {
           ? 'specialRemainingCount'
           : 'behaviorRemainingCount';
 
-      // 查找用户并确保剩余次数足够
-      const user = await this.userModel.findOneAndUpdate(
-        {
-          _id: userId,
-          [countField]: { $gt: 0 },
-        },
-        {
-          $inc: { [countField]: -1 }, // 扣除一次模拟面试的次数
-        },
-        { new: false },
-      );
+      if (billingMode === MockInterviewBillingMode.MINUTE) {
+        // 按分钟计费：预留时长，结束时按实际时长结算
+        reservedMinutes = await this.mockInterviewBilling.reserve(
+          userId,
+          recordId,
+          targetDuration,
+          `模拟面试 - ${dto.company} ${dto.positionName}`,
+        );
+      } else if (await this.vipService.hasUnlimited(userId, countField)) {
+        // 会员权益包含该类面试不限次数时不扣除次数
+        this.logger.log(
+          `👑 会员不限次数模拟面试，跳过扣费: userId=${userId}, type=${dto.interviewType}`,
+        );
+      } else {
+        // 通过账本扣除一次模拟面试的次数，余额不足时记账失败
+        const entry = await this.ledgerService.post(
+          userId,
+          { [countField]: -1 },
+          {
+            reason: LedgerReason.CONSUME,
+            referenceId: recordId,
+            description: `模拟面试 - ${dto.company} ${dto.positionName}`,
+          },
+        );
 
-      // 如果用户没有足够的次数，抛出异常
-      if (!user) {
-        throw new BadRequestException(
-          `${dto.interviewType === MockInterviewType.SPECIAL ? '专项面试' : '综合面试'}次数不足，请前往充值页面购买`,
+        // 如果用户没有足够的次数，抛出异常
+        if (!entry) {
+          throw new BadRequestException(
+            `${dto.interviewType === MockInterviewType.SPECIAL ? '专项面试' : '综合面试'}次数不足，请前往充值页面购买`,
+          );
+        }
+        deducted = true;
+
+        this.logger.log(
+          `✅ 用户扣费成功: userId=${userId}, type=${dto.interviewType}, 扣费后=${entry.balances[countField]}`,
         );
       }
 
-      this.logger.log(
-        `✅ 用户扣费成功: userId=${userId}, type=${dto.interviewType}, 扣费前=${user[countField]}, 扣费后=${user[countField] - 1}`,
-      );
-
       // 2. 提取简历内容
       // 提取用户简历内容
       const resumeContent = await this.extractResumeContent(userId, {
@@ -979,15 +1041,29 @@ export class InterviewService {
         resumeContent: dto.resumeContent,
       } as any);
 
+      // 为本次面试生成 resultId
+      const resultId = randomUUID();
+      bindAIUsage({ resultId });
+
+      // 2.1 根据简历、JD 和面试类型生成面试计划
+      const plan = await this.interviewPlanner.createPlan({
+        interviewType: dto.interviewType,
+        company: dto.company,
+        positionName: dto.positionName,
+        jd: dto.jd,
+        resumeContent,
+      });
+
+      // 2.2 分配出题 Prompt 版本，整场面试使用同一个版本
+      const questionPrompt = await this.promptRegistry.resolve(
+        PromptKey.MOCK_INTERVIEW_QUESTION,
+        userId,
+      );
+
       // 3. 创建会话
       // 为每个面试生成唯一的会话ID
-      const sessionId = uuidv4();
-      const interviewerName = '面试官（张三老师）';
-      // 设定面试的目标时长
-      const targetDuration =
-        dto.interviewType === MockInterviewType.SPECIAL
-          ? this.SPECIAL_INTERVIEW_MAX_DURATION // 120 分钟
-          : this.BEHAVIOR_INTERVIEW_MAX_DURATION; // 120 分钟
+      const sessionId = randomUUID();
+      const interviewerName = `面试官（${persona.interviewerName}老师）`;
 
       // 根据工资范围生成工资区间
       const salaryRange =
@@ -1000,11 +1076,13 @@ export class InterviewService {
               : undefined;
 
       // 创建面试会话对象
-      const session: InterviewSession = {
+      const startTime = new Date();
+      let session: InterviewSession = {
         sessionId,
         userId,
         interviewType: dto.interviewType,
         interviewerName,
+        persona,
         candidateName: dto.candidateName,
         company: dto.company || '',
         positionName: dto.positionName,
@@ -1013,21 +1091,24 @@ export class InterviewService {
         resumeContent,
         conversationHistory: [],
         questionCount: 0,
-        startTime: new Date(),
+        startTime,
         targetDuration,
+        adaptiveState: this.difficultyEngine.createInitialState(
+          plan[0].category,
+          plan[0].difficulty,
+        ),
+        plan,
+        planProgress: this.interviewPlanner.createProgress(startTime),
+        questionPrompt,
         isActive: true,
+        version: 0,
       };
 
-      // 将会话保存到内存中的会话池
-      this.interviewSessions.set(sessionId, session);
-
-      // 4. 创建数据库记录并生成 resultId
-      const resultId = uuidv4();
-      const recordId = uuidv4();
-
+      // 4. 创建数据库记录
       // 为会话分配 resultId 和消费记录ID
       session.resultId = resultId;
       session.consumptionRecordId = recordId;
+      session.billingMode = billingMode;
 
       // 保存面试结果记录到数据库
       await this.aiInterviewResultModel.create({
@@ -1043,12 +1124,19 @@ export class InterviewService {
         salaryRange,
         jobDescription: dto.jd,
         interviewMode: 'text',
+        personaId: persona.personaId,
         qaList: [],
-        totalQuestions: 0,
+        interviewPlan: plan,
+        totalQuestions: plan.length,
         answeredQuestions: 0,
         status: 'in_progress',
         consumptionRecordId: recordId,
-        sessionState: session, // 保存会话状态
+        billing: reservedMinutes
+          ? { reservedMinutes, startedAt: startTime, usedSeconds: 0 }
+          : undefined,
+        promptVersions: {
+          [PromptKey.MOCK_INTERVIEW_QUESTION]: questionPrompt.version,
+        },
         metadata: {
           interviewerName,
           candidateName: dto.candidateName,
@@ -1056,6 +1144,9 @@ export class InterviewService {
         },
       });
 
+      // 保存会话到会话存储
+      session = await this.sessionStore.create(session);
+
       // 创建消费记录
       await this.consumptionRecordModel.create({
         resultId,
@@ -1067,7 +1158,7 @@ export class InterviewService {
             ? ConsumptionType.SPECIAL_INTERVIEW
             : ConsumptionType.BEHAVIOR_INTERVIEW,
         status: ConsumptionStatus.SUCCESS,
-        consumedCount: 1,
+        consumedCount: deducted ? 1 : 0, // 按分钟计费时结算后写入 consumedMinutes
         description: `模拟面试 - ${dto.interviewType === MockInterviewType.SPECIAL ? '专项面试' : '综合面试'}`,
         inputData: {
           company: dto.company || '',
@@ -1090,7 +1181,7 @@ export class InterviewService {
       // 5. 流式生成开场白
       let fullOpeningStatement = '';
       const openingGenerator = this.aiService.generateOpeningStatementStream(
-        interviewerName,
+        persona,
         dto.candidateName,
         dto.positionName,
       );
@@ -1107,8 +1198,7 @@ export class InterviewService {
           interviewerName,
           content: fullOpeningStatement, // 累积内容
           questionNumber: 0,
-          totalQuestions:
-            dto.interviewType === MockInterviewType.SPECIAL ? 12 : 8,
+          totalQuestions: plan.length,
           elapsedMinutes: 0,
           isStreaming: true, // 标记为流式传输中
         });
@@ -1137,11 +1227,9 @@ export class InterviewService {
               askedAt: openingStatementTime, // ✅ 记录提问时间
             },
           },
-          $set: {
-            sessionState: session, // 更新会话状态
-          },
         },
       );
+      session = await this.sessionStore.save(session);
 
       this.logger.log(`📝 开场白已保存到数据库: resultId=${resultId}`);
 
@@ -1153,8 +1241,7 @@ export class InterviewService {
         interviewerName,
         content: fullOpeningStatement,
         questionNumber: 0,
-        totalQuestions:
-          dto.interviewType === MockInterviewType.SPECIAL ? 12 : 8,
+        totalQuestions: plan.length,
         elapsedMinutes: 0,
         isStreaming: false, // 流式传输完成
       });
@@ -1167,12 +1254,21 @@ export class InterviewService {
 
       progressSubject.complete();
     } catch (error) {
-      // 失败时退还次数
-      const countField =
-        dto.interviewType === MockInterviewType.SPECIAL
-          ? 'special'
-          : 'behavior';
-      await this.refundCount(userId, countField as any);
+      // 失败时退还已扣除的次数或预留的时长
+      if (deducted) {
+        const countField: 'special' | 'behavior' =
+          dto.interviewType === MockInterviewType.SPECIAL
+            ? 'special'
+            : 'behavior';
+        await this.refundCount(userId, countField, recordId);
+      }
+      if (reservedMinutes) {
+        await this.mockInterviewBilling.release(
+          userId,
+          recordId,
+          reservedMinutes,
+        );
+      }
       throw error;
     }
   }
@@ -1191,19 +1287,19 @@ export class InterviewService {
   ): Subject<MockInterviewEventDto> {
     const subject = new Subject<MockInterviewEventDto>();
 
-    // 异步执行
-    this.executeAnswerMockInterview(userId, sessionId, answer, subject).catch(
-      (error) => {
-        this.logger.error(`处理面试回答失败: ${error.message}`, error.stack);
-        if (subject && !subject.closed) {
-          subject.next({
-            type: MockInterviewEventType.ERROR,
-            error: error,
-          });
-          subject.complete();
-        }
-      },
-    );
+    // 异步执行（AI 用量归属到当前用户）
+    runWithAIUsage({ userId }, () =>
+      this.executeAnswerMockInterview(userId, sessionId, answer, subject),
+    ).catch((error) => {
+      this.logger.error(`处理面试回答失败: ${error.message}`, error.stack);
+      if (subject && !subject.closed) {
+        subject.next({
+          type: MockInterviewEventType.ERROR,
+          error: error,
+        });
+        subject.complete();
+      }
+    });
     return subject;
   }
 
@@ -1221,31 +1317,54 @@ export class InterviewService {
     answer: string,
     progressSubject: Subject<MockInterviewEventDto>,
   ): Promise<void> {
-    try {
-      // 1. 获取会话
-      const session = this.interviewSessions.get(sessionId);
+    // 1. 获取会话
+    let session = await this.sessionStore.get(sessionId);
 
-      if (!session) {
-        throw new NotFoundException('面试会话不存在或已过期');
-      }
+    if (!session) {
+      throw new NotFoundException('面试会话不存在或已过期');
+    }
 
-      if (session.userId !== userId) {
-        throw new BadRequestException('无权访问此面试会话');
-      }
+    if (session.userId !== userId) {
+      throw new BadRequestException('无权访问此面试会话');
+    }
+
+    if (!session.isActive) {
+      throw new BadRequestException('面试会话已结束或已暂停');
+    }
+
+    bindAIUsage({ resultId: session.resultId });
 
-      if (!session.isActive) {
-        throw new BadRequestException('面试会话已结束');
+    // 上一条回答还在处理中（最后一条是候选人回答），拒绝重复提交
+    const lastEntry =
+      session.conversationHistory[session.conversationHistory.length - 1];
+    if (lastEntry?.role === 'candidate') {
+      const claimedAt = new Date(lastEntry.timestamp).getTime();
+      if (Date.now() - claimedAt < this.ANSWER_CLAIM_TIMEOUT * 60 * 1000) {
+        throw new InterviewSessionConflictException(sessionId);
       }
 
-      // 2. 记录候选人回答
-      session.conversationHistory.push({
-        role: 'candidate',
-        content: answer,
-        timestamp: new Date(),
-      });
+      // 处理回答的进程中途退出，没来得及撤回：超时后撤回该回答，由本次提交重新占住本轮
+      this.logger.warn(
+        `⚠️ 回答处理超时，撤回后重新处理: sessionId=${sessionId}, claimedAt=${new Date(claimedAt).toISOString()}`,
+      );
+      session.conversationHistory.pop();
+      session.questionCount--;
+      await this.removeOrphanQuestions(session);
+    }
 
-      session.questionCount++;
+    // 2. 记录候选人回答
+    session.conversationHistory.push({
+      role: 'candidate',
+      content: answer,
+      timestamp: new Date(),
+    });
+
+    session.questionCount++;
 
+    // 先保存回答，占住本轮（同时提交的另一个回答会因版本冲突而失败）
+    session = await this.sessionStore.save(session);
+
+    try {
       // 3. 计算已用时间
       const elapsedMinutes = Math.floor(
         (Date.now() - session.startTime.getTime()) / 1000 / 60,
@@ -1263,16 +1382,25 @@ export class InterviewService {
           ? this.SPECIAL_INTERVIEW_MAX_DURATION
           : this.BEHAVIOR_INTERVIEW_MAX_DURATION;
 
-      if (elapsedMinutes >= maxDuration) {
+      // 3.2 按分钟计费的面试，预留时长用完时结束面试
+      const balanceExhausted =
+        session.billingMode === MockInterviewBillingMode.MINUTE &&
+        ((await this.mockInterviewBilling.getRemainingSeconds(
+          session.resultId!,
+        )) ?? 0) <= 0;
+
+      if (elapsedMinutes >= maxDuration || balanceExhausted) {
         this.logger.log(
-          `⏰ 面试超时，强制结束: sessionId=${sessionId}, elapsed=${elapsedMinutes}min, max=${maxDuration}min`,
+          `⏰ 面试${balanceExhausted ? '时长已用完' : '超时'}，强制结束: sessionId=${sessionId}, elapsed=${elapsedMinutes}min, max=${maxDuration}min`,
         );
 
         // 面试结束
         session.isActive = false;
 
         // 添加结束语
-        const closingStatement = `感谢您今天的面试表现。由于时间关系（已进行${elapsedMinutes}分钟），我们今天的面试就到这里。您的回答让我们对您有了较为全面的了解，后续我们会进行综合评估，有结果会及时通知您。祝您生活愉快！`;
+        const closingStatement = balanceExhausted
+          ? BALANCE_EXHAUSTED_CLOSING_STATEMENT
+          : `感谢您今天的面试表现。由于时间关系（已进行${elapsedMinutes}分钟），我们今天的面试就到这里。您的回答让我们对您有了较为全面的了解，后续我们会进行综合评估，有结果会及时通知您。祝您生活愉快！`;
 
         session.conversationHistory.push({
           role: 'interviewer',
@@ -1280,8 +1408,10 @@ export class InterviewService {
           timestamp: new Date(),
         });
 
-        // 保存面试结果
+        // 保存面试结果并结算时长
+        session = await this.sessionStore.save(session);
         const resultId = await this.saveMockInterviewResult(session);
+        await this.mockInterviewBilling.settle(resultId);
 
         // 发送结束事件
         progressSubject.next({
@@ -1294,20 +1424,12 @@ export class InterviewService {
           metadata: {
             totalQuestions: session.questionCount,
             interviewerName: session.interviewerName,
-            reason: 'timeout', // 标记为超时结束
+            reason: balanceExhausted ? 'balance_exhausted' : 'timeout', // 标记为超时 / 时长用完结束
           },
         });
 
-        // TODO: 异步生成评估报告（不阻塞返回）
-
-        // 清理会话（延迟清理）
-        setTimeout(
-          () => {
-            this.interviewSessions.delete(sessionId);
-            this.logger.log(`🗑️ 会话已清理: sessionId=${sessionId}`);
-          },
-          5 * 60 * 1000,
-        );
+        // 异步生成评估报告（不阻塞返回）
+        void this.generateAssessmentReportAsync(resultId);
 
         progressSubject.complete();
         return; // 提前返回，不再继续生成下一个问题
@@ -1319,6 +1441,41 @@ export class InterviewService {
         sessionId,
       });
 
+      // 4.1 按面试计划决定本轮是追问还是进入下一项（旧会话没有计划时使用默认计划）
+      const plan = session.plan?.length
+        ? session.plan
+        : this.interviewPlanner.defaultPlan(session.interviewType);
+      const signals = await this.collectAnswerSignals(session);
+      const latestSignal = signals[signals.length - 1];
+      const persona =
+        session.persona || this.interviewPersonaService.defaultProfile();
+      const turn = this.interviewPlanner.nextTurn(
+        plan,
+        session.planProgress ||
+          this.interviewPlanner.createProgress(session.startTime),
+        latestSignal
+          ? this.difficultyEngine.scoreAnswer(latestSignal)
+          : undefined,
+        this.interviewPersonaService.maxFollowUps(persona),
+      );
+      const targetItem = turn.item || plan[plan.length - 1];
+      const totalQuestions = plan.length;
+      const questionNumber = Math.min(turn.progress.index + 1, totalQuestions);
+
+      // 4.2 根据近期回答表现，在计划难度基础上调整本题的目标难度
+      const adaptiveState = this.difficultyEngine.nextState(
+        session.adaptiveState,
+        signals,
+        {
+          topic: targetItem.category,
+          baseDifficulty: turn.isFollowUp ? undefined : targetItem.difficulty,
+        },
+      );
+
+      this.logger.log(
+        `🎚️ 下一题目标: plan=${questionNumber}/${totalQuestions}, followUp=${turn.isFollowUp}, finished=${turn.finished}, difficulty=${adaptiveState.difficulty}, performance=${adaptiveState.performanceScore}`,
+      );
+
       // 5. 流式生成下一个问题
       const questionStartTime = new Date(); // ✅ 记录问题开始生成的时间
       let fullQuestion = '';
@@ -1344,6 +1501,12 @@ export class InterviewService {
         })),
         elapsedMinutes,
         targetDuration: session.targetDuration,
+        targetDifficulty: adaptiveState.difficulty,
+        targetTopic: `${targetItem.topic}（${TOPIC_LABELS[targetItem.category]}）`,
+        performanceScore: adaptiveState.performanceScore,
+        turnDirective: this.interviewPlanner.buildTurnDirective(plan, turn),
+        persona,
+        prompt: session.questionPrompt,
       });
 
       // 逐块推送问题内容，并捕获返回值
@@ -1375,9 +1538,8 @@ export class InterviewService {
                 sessionId,
                 interviewerName: session.interviewerName,
                 content: questionOnlyContent,
-                questionNumber: session.questionCount,
-                totalQuestions:
-                  session.interviewType === MockInterviewType.SPECIAL ? 12 : 8,
+                questionNumber,
+                totalQuestions,
                 elapsedMinutes,
                 isStreaming: false, // ✅ 标记流式传输完成
               });
@@ -1407,9 +1569,8 @@ export class InterviewService {
                 sessionId,
                 interviewerName: session.interviewerName,
                 content: standardAnswerContent,
-                questionNumber: session.questionCount,
-                totalQuestions:
-                  session.interviewType === MockInterviewType.SPECIAL ? 12 : 8,
+                questionNumber,
+                totalQuestions,
                 elapsedMinutes,
                 isStreaming: true, // 标记为流式传输中
               });
@@ -1421,9 +1582,8 @@ export class InterviewService {
               sessionId,
               interviewerName: session.interviewerName,
               content: fullQuestion,
-              questionNumber: session.questionCount,
-              totalQuestions:
-                session.interviewType === MockInterviewType.SPECIAL ? 12 : 8,
+              questionNumber,
+              totalQuestions,
               elapsedMinutes,
               isStreaming: true, // 标记为流式传输中
             });
@@ -1439,9 +1599,8 @@ export class InterviewService {
             sessionId,
             interviewerName: session.interviewerName,
             content: standardAnswerContent,
-            questionNumber: session.questionCount,
-            totalQuestions:
-              session.interviewType === MockInterviewType.SPECIAL ? 12 : 8,
+            questionNumber,
+            totalQuestions,
             elapsedMinutes,
             isStreaming: false, // ✅ 标记流式传输完成
           });
@@ -1493,7 +1652,6 @@ export class InterviewService {
               0, // 开场白是第一项
               userAnswer.content,
               userAnswer.timestamp,
-              session, // 传递 session 用于更新 sessionState
             );
           } else {
             // 更新上一个问题的用户回答
@@ -1503,7 +1661,6 @@ export class InterviewService {
               qaIndex,
               userAnswer.content,
               userAnswer.timestamp,
-              session, // 传递 session 用于更新 sessionState
             );
           }
         }
@@ -1519,6 +1676,13 @@ export class InterviewService {
       await this.createInterviewQuestionPlaceholder(
         session.resultId,
         questionStartTime,
+        {
+          difficulty: adaptiveState.difficulty,
+          topic: adaptiveState.topic,
+          performanceScore: adaptiveState.performanceScore,
+          planIndex: turn.finished ? undefined : turn.progress.index,
+          isFollowUp: turn.isFollowUp,
+        },
       );
 
       // 9. 记录AI生成的新问题（包含标准答案）到内存
@@ -1546,23 +1710,23 @@ export class InterviewService {
         );
       }
 
-      // 12. 更新 sessionState 到数据库
-      await this.aiInterviewResultModel.findOneAndUpdate(
-        { resultId: session.resultId },
-        {
-          $set: {
-            sessionState: session, // 同步会话状态
-          },
-        },
-      );
-
-      // 12. 判断是否结束面试
-      if (aiResponse.shouldEnd) {
+      // 12. 判断是否结束面试（计划已全部完成时，即使 AI 未输出结束标记也结束）
+      const shouldEnd = aiResponse.shouldEnd || turn.finished;
+      if (shouldEnd) {
         // 面试结束
         session.isActive = false;
+      }
+
+      // 13. 保存会话和计划进度（释放本轮）
+      session.plan = plan;
+      session.planProgress = turn.progress;
+      session.adaptiveState = adaptiveState;
+      session = await this.sessionStore.save(session);
 
-        // 保存面试结果
+      if (shouldEnd) {
+        // 保存面试结果，并异步生成评估报告（不阻塞返回）
         const resultId = await this.saveMockInterviewResult(session);
+        void this.generateAssessmentReportAsync(resultId);
 
         // 发送结束事件（标记流式完成）
         progressSubject.next({
@@ -1577,15 +1741,6 @@ export class InterviewService {
             interviewerName: session.interviewerName,
           },
         });
-
-        // 清理会话（延迟清理，给前端一些时间获取结果）
-        setTimeout(
-          () => {
-            this.interviewSessions.delete(sessionId);
-            this.logger.log(`🗑️ 会话已清理: sessionId=${sessionId}`);
-          },
-          5 * 60 * 1000,
-        ); // 5分钟后清理
       } else {
         // 继续面试 - 如果没有检测到标准答案，发送最终问题事件
         if (!hasStandardAnswer) {
@@ -1594,9 +1749,8 @@ export class InterviewService {
             sessionId,
             interviewerName: session.interviewerName,
             content: aiResponse.question,
-            questionNumber: session.questionCount,
-            totalQuestions:
-              session.interviewType === MockInterviewType.SPECIAL ? 12 : 8,
+            questionNumber,
+            totalQuestions,
             elapsedMinutes,
             isStreaming: false, // 流式传输完成
           });
@@ -1612,10 +1766,94 @@ export class InterviewService {
 
       progressSubject.complete();
     } catch (error) {
+      // 本轮未完成：撤回候选人回答，允许用户重新提交
+      await this.rollbackPendingAnswer(session);
       throw error;
     }
   }
 
+  /**
+   * 收集回答质量信号
+   * 从对话历史中取出每个回答及其对应问题的标准答案，
+   * 并合并数据库中已经完成的单题评估得分
+   */
+  private async collectAnswerSignals(
+    session: InterviewSession,
+  ): Promise<AnswerSignal[]> {
+    const dbRecord = await this.aiInterviewResultModel
+      .findOne({ resultId: session.resultId })
+      .select('qaList.score');
+
+    const signals: AnswerSignal[] = [];
+    let qaIndex = -1;
+    let standardAnswer: string | undefined;
+
+    for (const entry of session.conversationHistory) {
+      if (entry.role === 'interviewer') {
+        qaIndex++;
+        standardAnswer = entry.standardAnswer;
+      } else {
+        signals.push({
+          answer: entry.content,
+          standardAnswer,
+          score: dbRecord?.qaList?.[qaIndex]?.score,
+        });
+      }
+    }
+
+    return signals;
+  }
+
+  /**
+   * 撤回未处理完成的候选人回答
+   * 问题生成失败时调用，否则会话会一直停留在「回答处理中」状态
+   * 以会话存储中的状态为准（内存中的会话可能已经记录了本轮生成的问题）
+   */
+  private async rollbackPendingAnswer(
+    session: InterviewSession,
+  ): Promise<void> {
+    try {
+      const saved = await this.sessionStore.get(session.sessionId);
+      const lastEntry =
+        saved?.conversationHistory[saved.conversationHistory.length - 1];
+      if (!saved || lastEntry?.role !== 'candidate') {
+        return;
+      }
+
+      saved.conversationHistory.pop();
+      saved.questionCount--;
+      await this.sessionStore.save(saved);
+      await this.removeOrphanQuestions(saved);
+      this.logger.warn(`↩️ 已撤回未完成的回答: sessionId=${session.sessionId}`);
+    } catch (error) {
+      this.logger.error(
+        `❌ 撤回回答失败: sessionId=${session.sessionId}, ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * 删除未完成的一轮写入 qaList 的问题占位项
+   * qaList 与对话历史中的面试官消息（开场白和问题）一一对应，多出的项是本轮未完成时留下的，
+   * 不删除的话重新回答后新问题会写到错位的索引上
+   */
+  private async removeOrphanQuestions(session: InterviewSession) {
+    if (!session.resultId) {
+      return;
+    }
+
+    const questionCount = session.conversationHistory.filter(
+      (entry) => entry.role === 'interviewer',
+    ).length;
+    await this.aiInterviewResultModel.updateOne(
+      {
+        resultId: session.resultId,
+        [`qaList.${questionCount}`]: { $exists: true },
+      },
+      { $push: { qaList: { $each: [], $slice: questionCount } } },
+    );
+  }
+
   /**
    * 保存模拟面试结果（面试结束时调用）
    * 如果已经通过实时保存创建了记录，则直接返回 resultId。
@@ -1636,13 +1874,13 @@ export class InterviewService {
         );
 
         // 更新面试结果和消费记录为完成状态
+        // 最终会话状态（包括结束语）已由调用方写入会话存储
         await this.aiInterviewResultModel.findOneAndUpdate(
           { resultId: session.resultId },
           {
             $set: {
               status: 'completed', // 更新为已完成状态
               completedAt: new Date(), // 设置完成时间
-              sessionState: session, // 保存最终会话状态（包括结束语）
             },
           },
         );
@@ -1664,8 +1902,8 @@ export class InterviewService {
       }
 
       // 如果没有 resultId（没有启用实时保存或出错），使用原有逻辑创建完整记录
-      const resultId = uuidv4(); // 生成新的 resultId
-      const recordId = uuidv4(); // 生成新的消费记录ID
+      const resultId = randomUUID(); // 生成新的 resultId
+      const recordId = randomUUID(); // 生成新的消费记录ID
 
       // 构建问答列表（包含标准答案）
       const qaList: any[] = [];
@@ -1755,13 +1993,11 @@ export class InterviewService {
   /**
    * 【步骤1】更新用户回答
    * 在用户提交回答时调用。该方法用于更新面试结果中的用户回答内容，并在用户首次回答时增加回答计数。
-   * 另外，还可以同步更新面试会话的状态（sessionState），以便持续跟踪和保存面试进度。
    *
    * @param resultId - 面试结果的唯一标识符，用于查找对应的面试结果记录。
    * @param qaIndex - 问题的索引，用于确定更新的是哪一个问题的回答。
    * @param answer - 用户的回答内容。
    * @param answeredAt - 用户提交回答的时间。
-   * @param session - 可选的 session 对象，用于更新面试会话的状态。
    *
    * @returns Promise<void> - 返回一个 `Promise`，表示更新操作的结果（没有返回值）。
    */
@@ -1770,7 +2006,6 @@ export class InterviewService {
     qaIndex: number,
     answer: string,
     answeredAt: Date,
-    session?: InterviewSession, // 可选的 session，用于更新 sessionState
   ): Promise<void> {
     try {
       // 检查是否是第一次回答（避免重复增加计数）
@@ -1789,14 +2024,10 @@ export class InterviewService {
         $set: {
           [`qaList.${qaIndex}.answer`]: answer, // 更新当前问题的回答内容
           [`qaList.${qaIndex}.answeredAt`]: answeredAt, // 更新回答时间
+          [`qaList.${qaIndex}.evaluationStatus`]: 'pending', // 等待单题评估
         },
       };
 
-      // 如果传递了 session（即存在面试会话），同步更新会话状态
-      if (session) {
-        updateQuery.$set.sessionState = session;
-      }
-
       // 只有在第一次回答时，才增加已回答问题的计数
       if (isFirstAnswer) {
         updateQuery.$inc = { answeredQuestions: 1 }; // 增加回答的数量
@@ -1814,6 +2045,9 @@ export class InterviewService {
         this.logger.log(
           `✅ [步骤1] 更新用户回答成功: resultId=${resultId}, qaIndex=${qaIndex}, answer前50字=${answer.substring(0, 50)}..., isFirstAnswer=${isFirstAnswer}`,
         );
+
+        // 后台评估本题回答（不阻塞下一个问题的生成）
+        void this.evaluateAnswer(result, qaIndex);
       } else {
         // 更新失败，记录错误日志
         this.logger.error(
@@ -1829,6 +2063,134 @@ export class InterviewService {
     }
   }
 
+  /**
+   * 单题评估
+   * 对比标准答案给出得分、STAR 分析和点评，写回 qaList 对应项。
+   * 失败只记录状态，不影响面试流程；生成评估报告前会对未完成的题目补评。
+   *
+   * @param dbResult - 面试结果记录
+   * @param qaIndex - 问题的索引
+   */
+  private async evaluateAnswer(
+    dbResult: AIInterviewResultDocument,
+    qaIndex: number,
+  ): Promise<void> {
+    const resultId = dbResult.resultId;
+    const qa = dbResult.qaList[qaIndex];
+
+    if (!qa?.answer) {
+      return;
+    }
+
+    try {
+      const evaluation = await runWithAIUsage(
+        { userId: dbResult.userId, resultId },
+        () =>
+          this.aiService.evaluateInterviewAnswer({
+            interviewType:
+              dbResult.interviewType === AIInterviewType.SPECIAL
+                ? 'special'
+                : 'comprehensive',
+            positionName: dbResult.position,
+            question: qa.question,
+            answer: qa.answer,
+            standardAnswer: qa.standardAnswer,
+          }),
+      );
+
+      await this.aiInterviewResultModel.findOneAndUpdate(
+        { resultId },
+        {
+          $set: {
+            [`qaList.${qaIndex}.score`]: evaluation.score,
+            [`qaList.${qaIndex}.starAnalysis`]: evaluation.starAnalysis,
+            [`qaList.${qaIndex}.aiComment`]: evaluation.aiComment,
+            [`qaList.${qaIndex}.highlights`]: evaluation.highlights,
+            [`qaList.${qaIndex}.improvements`]: evaluation.improvements,
+            [`qaList.${qaIndex}.evaluationStatus`]: 'completed',
+            [`qaList.${qaIndex}.evaluatedAt`]: new Date(),
+          },
+        },
+      );
+
+      this.logger.log(
+        `✅ 单题评估已保存: resultId=${resultId}, qaIndex=${qaIndex}, score=${evaluation.score}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `❌ 单题评估失败: resultId=${resultId}, qaIndex=${qaIndex}, ${(error as Error).message}`,
+      );
+      await this.aiInterviewResultModel
+        .findOneAndUpdate(
+          { resultId },
+          { $set: { [`qaList.${qaIndex}.evaluationStatus`]: 'failed' } },
+        )
+        .catch(() => undefined);
+    }
+  }
+
+  /**
+   * 汇总结果关联的 AI 用量，生成消费记录需要更新的字段
+   */
+  private async buildConsumptionUsage(resultId: string) {
+    const usage = await this.aiUsageService.summarize({ resultId });
+    return {
+      aiModel: usage.model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.totalTokens,
+      estimatedCost: usage.estimatedCost,
+      aiResponseTime: usage.responseTime,
+    };
+  }
+
+  /**
+   * 补全单题评估
+   * 生成评估报告前调用：先等待后台正在进行的单题评估（不重复调用模型），
+   * 再对评估失败或评估超时的回答逐题补评，返回最新的面试记录
+   */
+  private async ensureAnswerEvaluations(
+    dbResult: AIInterviewResultDocument,
+  ): Promise<AIInterviewResultDocument> {
+    const timeoutMs = this.ANSWER_EVALUATION_TIMEOUT * 60 * 1000;
+    const isEvaluating = (qa: InterviewQA) =>
+      qa?.evaluationStatus === 'pending' &&
+      !!qa.answeredAt &&
+      Date.now() - new Date(qa.answeredAt).getTime() < timeoutMs;
+
+    while (dbResult.qaList.some((qa) => qa?.answer && isEvaluating(qa))) {
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+      dbResult =
+        (await this.aiInterviewResultModel.findOne({
+          resultId: dbResult.resultId,
+        })) || dbResult;
+    }
+
+    const missingIndexes = dbResult.qaList
+      .map((qa, index) =>
+        qa?.answer && qa.evaluationStatus !== 'completed' ? index : -1,
+      )
+      .filter((index) => index >= 0);
+
+    if (missingIndexes.length === 0) {
+      return dbResult;
+    }
+
+    this.logger.log(
+      `🔍 补全单题评估: resultId=${dbResult.resultId}, count=${missingIndexes.length}`,
+    );
+
+    for (const qaIndex of missingIndexes) {
+      await this.evaluateAnswer(dbResult, qaIndex);
+    }
+
+    return (
+      (await this.aiInterviewResultModel.findOne({
+        resultId: dbResult.resultId,
+      })) || dbResult
+    );
+  }
+
   /**
    * 【步骤2】创建问题占位项
    * 在AI开始生成问题前调用。该方法用于在面试结果中创建一个“问题占位项”，
@@ -1837,12 +2199,17 @@ export class InterviewService {
    *
    * @param resultId - 面试结果的唯一标识符，用于查找对应的面试结果记录。
    * @param askedAt - 问题生成的时间，通常是AI开始生成问题的时间。
+   * @param meta - 本题的目标难度、话题和对应的计划项，记录下来用于生成难度曲线。
    *
    * @returns Promise<void> - 返回一个 `Promise`，表示创建占位项的操作结果（没有返回值）。
    */
   private async createInterviewQuestionPlaceholder(
     resultId: string,
     askedAt: Date,
+    meta: Pick<
+      InterviewQA,
+      'difficulty' | 'topic' | 'performanceScore' | 'planIndex' | 'isFollowUp'
+    > = {},
   ): Promise<void> {
     try {
       // 创建问题占位项，表示问题正在生成中
@@ -1853,6 +2220,7 @@ export class InterviewService {
         answerDuration: 0, // 答案时长为空
         askedAt: askedAt, // 问题生成的时间
         answeredAt: null, // 答案时间为空，尚未回答
+        ...meta, // 目标难度、话题、近期表现、计划项
       };
 
       // 使用 findOneAndUpdate 更新面试记录，将占位项添加到 qaList 数组中
@@ -1860,7 +2228,6 @@ export class InterviewService {
         { resultId }, // 查找对应的面试结果记录
         {
           $push: { qaList: placeholderItem }, // 将占位项添加到 qaList
-          $inc: { totalQuestions: 1 }, // 更新总问题数
         },
         { new: true }, // 返回更新后的记录
       );
@@ -1985,10 +2352,14 @@ export class InterviewService {
   }
 
   /**
-   * 结束面试（用户主动结束）
+   * 结束面试（用户主动结束，或按分钟计费的面试时长用完时自动结束）
    * 使用 resultId（持久化）查询
    */
-  async endMockInterview(userId: string, resultId: string): Promise<void> {
+  async endMockInterview(
+    userId: string,
+    resultId: string,
+    reason: 'manual' | 'balance_exhausted' = 'manual',
+  ): Promise<void> {
     // 1. 从数据库查询面试记录
     const dbResult = await this.aiInterviewResultModel.findOne({
       resultId,
@@ -2003,12 +2374,10 @@ export class InterviewService {
       throw new BadRequestException('面试已经结束');
     }
 
-    // 2. 从 sessionState 获取会话
-    let session: InterviewSession;
+    // 2. 从会话存储加载会话
+    let session = await this.loadSessionForResult(dbResult);
 
-    if (dbResult.sessionState) {
-      session = dbResult.sessionState as InterviewSession;
-    } else {
+    if (!session) {
       throw new NotFoundException('无法加载面试状态');
     }
 
@@ -2016,10 +2385,14 @@ export class InterviewService {
     session.isActive = false;
 
     // 4. 添加面试结束语
-    const closingStatement = this.aiService.generateClosingStatement(
-      session.interviewerName,
-      session.candidateName,
-    );
+    const closingStatement =
+      reason === 'balance_exhausted'
+        ? BALANCE_EXHAUSTED_CLOSING_STATEMENT
+        : this.aiService.generateClosingStatement(
+            session.persona || this.interviewPersonaService.defaultProfile(),
+            session.candidateName,
+            session.positionName,
+          );
 
     session.conversationHistory.push({
       role: 'interviewer',
@@ -2027,16 +2400,32 @@ export class InterviewService {
       timestamp: new Date(),
     });
 
-    // 5. 保存结果
+    // 5. 保存结果并结算时长（按分钟计费）
+    session = await this.sessionStore.save(session);
     await this.saveMockInterviewResult(session);
+    await this.mockInterviewBilling.settle(resultId);
 
-    // TODO：6. 异步生成评估报告（不阻塞返回）
+    // 6. 异步生成评估报告（不阻塞返回）
+    void this.generateAssessmentReportAsync(resultId);
+  }
 
-    // 7. 从内存中清理会话（如果存在）
-    if (session.sessionId) {
-      this.interviewSessions.delete(session.sessionId);
-      this.logger.log(`🗑️ 会话已从内存清理: sessionId=${session.sessionId}`);
+  /**
+   * 根据面试记录加载会话
+   * 旧记录没有 sessionId 字段，回退到 metadata / sessionState 中的 sessionId
+   */
+  private async loadSessionForResult(
+    dbResult: AIInterviewResultDocument,
+  ): Promise<InterviewSession | null> {
+    const sessionId: string | undefined =
+      dbResult.sessionId ||
+      (dbResult.metadata?.sessionId as string | undefined) ||
+      (dbResult.sessionState as InterviewSession | undefined)?.sessionId;
+
+    if (!sessionId) {
+      return null;
     }
+
+    return this.sessionStore.get(sessionId);
   }
 
   /**
@@ -2067,7 +2456,21 @@ export class InterviewService {
         throw new BadRequestException('面试已经结束，无法暂停');
       }
 
-      // 2. 更新记录为暂停状态
+      // 2. 停用会话，暂停期间不再接受回答
+      const session = await this.loadSessionForResult(dbResult);
+      if (session) {
+        const lastEntry =
+          session.conversationHistory[session.conversationHistory.length - 1];
+        if (lastEntry?.role === 'candidate') {
+          // 正在生成下一个问题，暂停会导致本轮结果丢失
+          throw new InterviewSessionConflictException(session.sessionId);
+        }
+
+        session.isActive = false;
+        await this.sessionStore.save(session);
+      }
+
+      // 3. 更新记录为暂停状态
       pausedAt = new Date();
       await this.aiInterviewResultModel.findOneAndUpdate(
         { resultId },
@@ -2075,18 +2478,13 @@ export class InterviewService {
           $set: {
             status: 'paused',
             pausedAt,
+            // 按分钟计费：累计暂停前的计量时长，暂停期间不计
+            ...this.mockInterviewBilling.meterPause(dbResult, pausedAt),
           },
         },
       );
 
       this.logger.log(`⏸️ 面试已暂停: resultId=${resultId}`);
-
-      // 3. 从内存中清理会话（如果存在）
-      const session = dbResult.sessionState as InterviewSession;
-      if (session?.sessionId) {
-        this.interviewSessions.delete(session.sessionId);
-        this.logger.log(`🗑️ 会话已从内存清理: sessionId=${session.sessionId}`);
-      }
     } catch (error) {
       this.logger.error(`❌ 暂停面试异常: ${error.message}`, error.stack);
       throw error;
@@ -2128,22 +2526,17 @@ export class InterviewService {
         throw new NotFoundException('未找到可恢复的面试，或面试未暂停');
       }
 
-      // 2. 从 sessionState 恢复会话
-      if (!dbResult.sessionState) {
-        throw new BadRequestException('会话数据不完整，无法恢复');
-      }
-
-      const session: InterviewSession =
-        dbResult.sessionState as InterviewSession;
+      // 2. 从会话存储加载会话
+      let session = await this.loadSessionForResult(dbResult);
 
       // 确保会话数据完整
       if (!session || !session.sessionId) {
         throw new BadRequestException('会话数据不完整，无法恢复');
       }
 
-      // 3. 重新激活会话并放回内存
+      // 3. 重新激活会话
       session.isActive = true;
-      this.interviewSessions.set(session.sessionId, session);
+      session = await this.sessionStore.save(session);
 
       // 4. 更新数据库状态
       await this.aiInterviewResultModel.findOneAndUpdate(
@@ -2152,7 +2545,6 @@ export class InterviewService {
           $set: {
             status: 'in_progress',
             resumedAt: new Date(),
-            sessionState: session, // 更新会话状态
           },
         },
       );
@@ -2246,9 +2638,23 @@ export class InterviewService {
         }),
       );
 
+      // 难度曲线：每道题出题时的目标难度、话题以及最终得分
+      const difficultyCurve = (aiInterviewResult.qaList || [])
+        .map((qa, index) => ({
+          questionNumber: index,
+          difficulty: qa.difficulty,
+          topic: qa.topic,
+          performanceScore: qa.performanceScore,
+          planIndex: qa.planIndex,
+          isFollowUp: qa.isFollowUp,
+          score: qa.score,
+        }))
+        .filter((point) => point.difficulty);
+
       return {
         ...aiInterviewResult.toObject(),
         learningPriorities,
+        difficultyCurve,
       };
     }
 
@@ -2350,15 +2756,28 @@ export class InterviewService {
         { $set: { reportStatus: 'generating' } },
       );
 
-      // 从数据库的 qaList 中提取问答对
+      // 先补全单题评估，报告基于单题评估结果汇总
+      const evaluatedResult = await this.ensureAnswerEvaluations(dbResult);
+
+      // 从数据库的 qaList 中提取问答对（包含单题评估结果）
       const qaList: Array<{
         question: string;
         answer: string;
         standardAnswer?: string;
-      }> = (dbResult.qaList.filter((qa) => qa) || []).map((qa) => ({
+        score?: number;
+        starAnalysis?: any;
+        aiComment?: string;
+        highlights?: string[];
+        improvements?: string[];
+      }> = (evaluatedResult.qaList.filter((qa) => qa) || []).map((qa) => ({
         question: qa?.question,
         answer: qa?.answer,
         standardAnswer: qa?.standardAnswer,
+        score: qa?.score,
+        starAnalysis: qa?.starAnalysis,
+        aiComment: qa?.aiComment,
+        highlights: qa?.highlights,
+        improvements: qa?.improvements,
       }));
 
       this.logger.log(
@@ -2421,29 +2840,39 @@ export class InterviewService {
         `📊 回答质量统计: 总问题=${qaList.length}, 平均回答长度=${Math.round(avgAnswerLength)}, 无效回答=${emptyAnswers}`,
       );
 
-      // 从 sessionState 中获取 resumeContent（如果存在）
-      const resumeContent = dbResult.sessionState?.resumeContent || '';
+      // 从会话中获取 resumeContent（如果存在）
+      const session = await this.loadSessionForResult(dbResult);
+      const resumeContent = session?.resumeContent || '';
 
       // 转换 interviewType：数据库中是 'special' | 'behavior'，AI 服务需要 'special' | 'comprehensive'
       const interviewType =
         dbResult.interviewType === 'special' ? 'special' : 'comprehensive';
 
+      // 分配评估报告 Prompt 版本
+      const assessmentPrompt = await this.promptRegistry.resolve(
+        PromptKey.ASSESSMENT_REPORT,
+        dbResult.userId,
+      );
+
       // 调用 AI 生成评估报告
-      const assessment = await this.aiService.generateInterviewAssessmentReport(
-        {
-          interviewType,
-          company: dbResult.company || '',
-          positionName: dbResult.position || '',
-          jd: dbResult.jobDescription || '',
-          resumeContent,
-          qaList,
-          // 传递额外的质量指标供 AI 参考
-          answerQualityMetrics: {
-            totalQuestions: qaList.length,
-            avgAnswerLength: Math.round(avgAnswerLength),
-            emptyAnswersCount: emptyAnswers,
-          },
-        },
+      const assessment = await runWithAIUsage(
+        { userId: dbResult.userId, resultId },
+        () =>
+          this.aiService.generateInterviewAssessmentReport({
+            interviewType,
+            company: dbResult.company || '',
+            positionName: dbResult.position || '',
+            jd: dbResult.jobDescription || '',
+            resumeContent,
+            qaList,
+            // 传递额外的质量指标供 AI 参考
+            answerQualityMetrics: {
+              totalQuestions: qaList.length,
+              avgAnswerLength: Math.round(avgAnswerLength),
+              emptyAnswersCount: emptyAnswers,
+            },
+            prompt: assessmentPrompt,
+          }),
       );
 
       // 更新数据库中的评估数据
@@ -2463,6 +2892,9 @@ export class InterviewService {
             professionalScore: assessment.professionalScore,
             reportStatus: 'completed',
             reportGeneratedAt: new Date(),
+            promptVersion: assessmentPrompt.version,
+            [`promptVersions.${PromptKey.ASSESSMENT_REPORT}`]:
+              assessmentPrompt.version,
           },
         },
       );
@@ -2470,6 +2902,17 @@ export class InterviewService {
       this.logger.log(
         `✅ 评估报告生成成功: resultId=${resultId}, overallScore=${assessment.overallScore}`,
       );
+
+      // 评估报告是面试的最后一次 AI 调用，此时汇总整场面试的用量写入消费记录
+      const usage = await this.buildConsumptionUsage(resultId);
+      await this.consumptionRecordModel.findOneAndUpdate(
+        { resultId },
+        { $set: usage },
+      );
+      await this.aiInterviewResultModel.findOneAndUpdate(
+        { resultId },
+        { $set: { aiModel: usage.aiModel } },
+      );
     } catch (error) {
       this.logger.error(
         `❌ 评估报告生成失败: resultId=${resultId}, error=${error.message}`,
@@ -2501,89 +2944,79 @@ export class InterviewService {
     userId: string,
     packageType: 'resume' | 'special' | 'behavior',
   ): Promise<any> {
-    const EXCHANGE_COST = 20; // 每次兑换消耗 20 小麦币
-    const EXCHANGE_COUNT = 1; // 每次兑换增加 1 次
-
     this.logger.log(
       `🎁 开始兑换套餐: userId=${userId}, packageType=${packageType}`,
     );
 
-    // 1. 检查用户小麦币余额
+    // 1. 获取兑换套餐（消耗的小麦币和增加的次数由套餐配置决定）
+    const plan = await this.planService.resolveExchange(
+      `exchange-${packageType}`,
+    );
+    const exchangeCost = plan.price;
+    const packageName = plan.name;
+    const countField = `${packageType}RemainingCount` as const;
+    const exchangeCount = plan.benefits[countField] ?? 0;
+
+    // 2. 检查用户小麦币余额
     const user = await this.userModel.findById(userId);
     if (!user) {
       throw new BadRequestException('用户不存在');
     }
 
-    if (user.maiCoinBalance < EXCHANGE_COST) {
+    if (user.maiCoinBalance < exchangeCost) {
       throw new BadRequestException(
-        `小麦币余额不足，需要 ${EXCHANGE_COST} 小麦币，当前余额 ${user.maiCoinBalance}`,
+        `小麦币余额不足，需要 ${exchangeCost} 小麦币，当前余额 ${user.maiCoinBalance}`,
       );
     }
 
-    // 2. 根据兑换类型确定要增加的次数字段
-    let countField: string;
-    let packageName: string;
-
-    switch (packageType) {
-      case 'resume':
-        countField = 'resumeRemainingCount';
-        packageName = '简历押题';
-        break;
-      case 'special':
-        countField = 'specialRemainingCount';
-        packageName = '专项面试';
-        break;
-      case 'behavior':
-        countField = 'behaviorRemainingCount';
-        packageName = '行测+HR面试';
-        break;
-      default:
-        throw new BadRequestException('无效的兑换类型');
-    }
-
-    // 3. 执行兑换（原子操作）
-    const updateData: any = {
-      $inc: {
-        maiCoinBalance: -EXCHANGE_COST, // 扣除小麦币
-        [countField]: EXCHANGE_COUNT, // 增加对应次数
-      },
-    };
+    // 3. 执行兑换（账本记账：扣除小麦币并增加对应次数，记账即兑换生效）
+    const outTradeNo = `MAI${Date.now()}${Math.floor(Math.random() * 1000)
+      .toString()
+      .padStart(3, '0')}`;
 
-    const updatedUser = await this.userModel.findByIdAndUpdate(
+    const entry = await this.ledgerService.post(
       userId,
-      updateData,
-      { new: true },
+      {
+        ...plan.benefits, // 增加对应次数
+        maiCoinBalance: (plan.benefits.maiCoinBalance ?? 0) - exchangeCost, // 扣除小麦币
+      },
+      {
+        reason: LedgerReason.EXCHANGE,
+        referenceId: outTradeNo,
+        description: `兑换${packageName}`,
+        metadata: { planId: plan.planId, packageType },
+      },
     );
 
-    if (!updatedUser) {
-      throw new BadRequestException('兑换失败，请重试');
+    if (!entry) {
+      throw new BadRequestException(
+        `小麦币余额不足，需要 ${exchangeCost} 小麦币，请前往充值页面购买`,
+      );
     }
 
+    const balances = entry.balances;
     this.logger.log(
       `✅ 兑换成功: userId=${userId}, packageType=${packageType}, ` +
-        `小麦币余额=${updatedUser.maiCoinBalance}, ` +
-        `${countField}=${updatedUser[countField]}`,
+        `小麦币余额=${balances.maiCoinBalance}, ` +
+        `${countField}=${balances[countField]}`,
     );
 
-    // 4. 创建交易记录（异步，不影响返回）
-    const outTradeNo = `MAI${Date.now()}${Math.floor(Math.random() * 1000)
-      .toString()
-      .padStart(3, '0')}`;
-
+    // 4. 创建交易记录（兑换已记入账本，交易记录写入失败不影响兑换结果）
     try {
       await this.userTransactionModel.create({
         user: new Types.ObjectId(userId),
         userIdentifier: userId,
         type: UserTransactionType.EXPENSE,
-        amount: EXCHANGE_COST,
+        amount: exchangeCost,
         currency: 'MAI', // 小麦币
         description: `兑换${packageName}`,
+        planId: plan.planId,
         planName: '小麦币兑换',
         source: 'MAI_exchange',
         metadata: {
           packageType,
           packageName,
-          exchangeCount: EXCHANGE_COUNT,
+          exchangeCount,
         },
         payData: {
           outTradeNo,
@@ -2601,13 +3034,13 @@ export class InterviewService {
     // 5. 返回兑换结果（小麦币保留两位小数）
     return {
       success: true,
-      message: `兑换成功！您已成功兑换 1 次${packageName}`,
-      remainingMaiCoin: parseFloat(updatedUser.maiCoinBalance.toFixed(2)),
-      remainingCount: updatedUser[countField],
+      message: `兑换成功！您已成功兑换 ${exchangeCount} 次${packageName}`,
+      remainingMaiCoin: parseFloat(balances.maiCoinBalance.toFixed(2)),
+      remainingCount: balances[countField],
       packageType,
       packageName,
-      exchangeCost: EXCHANGE_COST,
-      exchangeCount: EXCHANGE_COUNT,
+      exchangeCost,
+      exchangeCount,
     };
   }
 
@@ -2658,6 +3091,44 @@ export class InterviewService {
     return result;
   }
 
+  /**
+   * 为简历押题或模拟面试结果评分
+   * 评分会计入对应 Prompt 版本的质量统计
+   */
+  async rateResult(
+    userId: string,
+    resultId: string,
+    dto: RateResultDto,
+  ): Promise<{ resultId: string; rating: number }> {
+    const rating = {
+      rating: dto.rating,
+      feedback: dto.feedback,
+      ratedAt: new Date(),
+    };
+
+    const quizResult = await this.resumeQuizResultModel.findOneAndUpdate(
+      { userId, resultId },
+      { $set: rating },
+    );
+    if (quizResult) {
+      return { resultId, rating: dto.rating };
+    }
+
+    const interviewResult = await this.aiInterviewResultModel.findOne({
+      userId,
+      resultId,
+    });
+    if (!interviewResult) {
+      throw new NotFoundException('结果不存在');
+    }
+    if (interviewResult.status !== 'completed') {
+      throw new BadRequestException('面试尚未结束，暂不能评分');
+    }
+
+    await this.aiInterviewResultModel.updateOne({ resultId }, { $set: rating });
+    return { resultId, rating: dto.rating };
+  }
+
   /**
    * 获取模拟面试问答列表
    */
@@ -2674,7 +3145,10 @@ export class InterviewService {
   /**
    * 获取模拟面试详情
    */
-  async getMockInterviewHistory(userId: string, resultId: string): Promise<any> {
+  async getMockInterviewHistory(
+    userId: string,
+    resultId: string,
+  ): Promise<any> {
     const result = await this.aiInterviewResultModel.findOne({
       userId,
       resultId,
@@ -2694,7 +3168,9 @@ export class InterviewService {
         userId,
         status: { $in: ['in_progress', 'paused'] },
       })
-      .select('resultId company position interviewType status createdAt updatedAt')
+      .select(
+        'resultId company position interviewType status createdAt updatedAt',
+      )
       .sort({ updatedAt: -1 })
       .lean();
   }
@@ -2715,8 +3191,8 @@ export class InterviewService {
     const audioBuffer = Buffer.from(audioBase64, 'base64');
 
     const tempDir = os.tmpdir();
-    const webmPath = path.join(tempDir, `${uuidv4()}.webm`);
-    const wavPath = path.join(tempDir, `${uuidv4()}.wav`);
+    const webmPath = path.join(tempDir, `${randomUUID()}.webm`);
+    const wavPath = path.join(tempDir, `${randomUUID()}.wav`);
 
     try {
       fs.writeFileSync(webmPath, audioBuffer);
@@ -2739,11 +3215,15 @@ export class InterviewService {
       if (result.err_no === 0) {
         return result.result[0];
       } else {
-        throw new BadRequestException(`语音识别失败: ${result.err_msg || '未知错误'}`);
+        throw new BadRequestException(
+          `语音识别失败: ${result.err_msg || '未知错误'}`,
+        );
       }
     } catch (error) {
       this.logger.error('语音识别错误:', error);
-      throw new BadRequestException(`语音识别失败: ${error.message || '未知错误'}`);
+      throw new BadRequestException(
+        `语音识别失败: ${error.message || '未知错误'}`,
+      );
     } finally {
       if (fs.existsSync(webmPath)) fs.unlinkSync(webmPath);
       if (fs.existsSync(wavPath)) fs.unlinkSync(wavPath);
@@ -2763,4 +3243,3 @@ export class InterviewService {
     return count;
   }
 }
-
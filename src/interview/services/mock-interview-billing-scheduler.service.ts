@@ -0,0 +1,97 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InterviewService } from './interview.service';
+import { MockInterviewBillingService } from './mock-interview-billing.service';
+
+/**
+ * 模拟面试计费定时任务
+ * 按 MOCK_INTERVIEW_BILLING_SWEEP_INTERVAL_SECONDS 定时结束预留时长已用完的面试，并结算已结束但未结算的面试（设置为 0 时不启动）
+ */
+@Injectable()
+export class MockInterviewBillingSchedulerService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(
+    MockInterviewBillingSchedulerService.name,
+  );
+
+  /** 定时器 */
+  private timer?: NodeJS.Timeout;
+
+  /** 是否正在执行（上一轮没结束时跳过本轮） */
+  private running = false;
+
+  constructor(
+    private readonly interviewService: InterviewService,
+    private readonly mockInterviewBilling: MockInterviewBillingService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    const intervalSeconds = Number(
+      this.configService.get('MOCK_INTERVIEW_BILLING_SWEEP_INTERVAL_SECONDS') ??
+        60,
+    );
+
+    if (!(intervalSeconds > 0)) {
+      this.logger.warn('⚠️ 模拟面试计费定时任务未启动');
+      return;
+    }
+
+    this.timer = setInterval(() => void this.sweep(), intervalSeconds * 1000);
+    // 不阻止进程退出
+    this.timer.unref();
+    this.logger.log(
+      `✅ 模拟面试计费定时任务已启动，间隔 ${intervalSeconds} 秒`,
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * 执行一轮任务
+   */
+  async sweep() {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const exhausted = await this.mockInterviewBilling.findExhausted();
+      for (const { userId, resultId } of exhausted) {
+        try {
+          await this.interviewService.endMockInterview(
+            userId,
+            resultId,
+            'balance_exhausted',
+          );
+          this.logger.log(`⏰ 面试时长已用完，自动结束: resultId=${resultId}`);
+        } catch (error) {
+          // 会话已无法加载时直接结算，避免预留时长一直占用
+          this.logger.error(
+            `❌ 自动结束面试失败，直接结算: resultId=${resultId}, error=${(error as Error).message}`,
+          );
+          await this.mockInterviewBilling.settle(resultId);
+        }
+      }
+
+      await this.mockInterviewBilling.settleCompleted();
+    } catch (error) {
+      this.logger.error(
+        `模拟面试计费定时任务执行失败: ${(error as Error).message}`,
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,238 @@
+import { BadRequestException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { mockQuery } from '../../../test/mock-query';
+import { LedgerReason } from '../../ledger/ledger-entry.schema';
+import { LedgerService } from '../../ledger/ledger.service';
+import { User } from '../../user/schemas/user.schema';
+import { AIInterviewResult } from '../schemas/ai-interview-result.schema';
+import { ConsumptionRecord } from '../schemas/consumption-record.schema';
+import { MockInterviewBillingService } from './mock-interview-billing.service';
+
+describe('MockInterviewBillingService', () => {
+  let service: MockInterviewBillingService;
+  const aiInterviewResultModel = {
+    findOne: jest.fn(),
+    find: jest.fn(),
+    updateOne: jest.fn(),
+  };
+  const consumptionRecordModel = {
+    updateOne: jest.fn(),
+  };
+  const userModel = {
+    findById: jest.fn(),
+  };
+  const ledgerService = {
+    post: jest.fn(),
+  };
+
+  const minute = 60 * 1000;
+  const startedAt = new Date('2026-10-19T10:00:00Z');
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        MockInterviewBillingService,
+        {
+          provide: getModelToken(AIInterviewResult.name),
+          useValue: aiInterviewResultModel,
+        },
+        {
+          provide: getModelToken(ConsumptionRecord.name),
+          useValue: consumptionRecordModel,
+        },
+        { provide: getModelToken(User.name), useValue: userModel },
+        { provide: LedgerService, useValue: ledgerService },
+      ],
+    }).compile();
+    service = moduleRef.get(MockInterviewBillingService);
+  });
+
+  describe('reserve', () => {
+    it('预留剩余时长，不超过面试最大时长', async () => {
+      userModel.findById.mockReturnValue(
+        mockQuery({ aiInterviewRemainingMinutes: 45.5 }),
+      );
+      ledgerService.post.mockResolvedValue({ lines: [] });
+
+      expect(await service.reserve('u1', 'c1', 30, '模拟面试')).toBe(30);
+      expect(ledgerService.post).toHaveBeenCalledWith(
+        'u1',
+        { aiInterviewRemainingMinutes: -30 },
+        expect.objectContaining({
+          reason: LedgerReason.CONSUME,
+          referenceId: 'c1',
+        }),
+      );
+    });
+
+    it('剩余时长不足一分钟或扣除失败时拒绝开始', async () => {
+      userModel.findById.mockReturnValue(
+        mockQuery({ aiInterviewRemainingMinutes: 0.5 }),
+      );
+      await expect(
+        service.reserve('u1', 'c1', 30, '模拟面试'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(ledgerService.post).not.toHaveBeenCalled();
+
+      userModel.findById.mockReturnValue(
+        mockQuery({ aiInterviewRemainingMinutes: 10 }),
+      );
+      ledgerService.post.mockResolvedValue(null);
+      await expect(
+        service.reserve('u1', 'c1', 30, '模拟面试'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+
+  describe('usedSeconds', () => {
+    const billing = { reservedMinutes: 30, startedAt, usedSeconds: 0 };
+
+    it('进行中的面试计量到当前时间', () => {
+      const now = new Date(startedAt.getTime() + 5 * minute);
+
+      expect(service.usedSeconds({ billing, status: 'in_progress' }, now)).toBe(
+        300,
+      );
+    });
+
+    it('暂停期间不计，恢复后从恢复时间继续计量', () => {
+      const paused = { ...billing, usedSeconds: 120 };
+      const resumedAt = new Date(startedAt.getTime() + 10 * minute);
+      const now = new Date(resumedAt.getTime() + minute);
+
+      expect(
+        service.usedSeconds({ billing: paused, status: 'paused' }, now),
+      ).toBe(120);
+      expect(
+        service.usedSeconds(
+          { billing: paused, status: 'in_progress', resumedAt },
+          now,
+        ),
+      ).toBe(180);
+    });
+  });
+
+  describe('settle', () => {
+    const result = (usedSeconds: number) => ({
+      userId: 'u1',
+      consumptionRecordId: 'c1',
+      status: 'paused',
+      billing: { reservedMinutes: 30, startedAt, usedSeconds },
+    });
+
+    it('不足一分钟按一分钟计，先退还未用完的时长再标记结算', async () => {
+      aiInterviewResultModel.findOne.mockReturnValue(mockQuery(result(601)));
+      ledgerService.post.mockResolvedValue({
+        metadata: { settledMinutes: 11 },
+      });
+      aiInterviewResultModel.updateOne.mockResolvedValue({ modifiedCount: 1 });
+
+      expect(await service.settle('r1')).toBe(11);
+
+      expect(ledgerService.post).toHaveBeenCalledWith(
+        'u1',
+        { aiInterviewRemainingMinutes: 19 },
+        expect.objectContaining({
+          reason: LedgerReason.CONSUME_REVERSAL,
+          referenceId: 'c1',
+        }),
+      );
+      expect(ledgerService.post.mock.invocationCallOrder[0]).toBeLessThan(
+        aiInterviewResultModel.updateOne.mock.invocationCallOrder[0],
+      );
+      expect(aiInterviewResultModel.updateOne).toHaveBeenCalledWith(
+        { resultId: 'r1', 'billing.settledAt': { $exists: false } },
+        {
+          $set: {
+            'billing.usedSeconds': 601,
+            'billing.settledMinutes': 11,
+            'billing.settledAt': expect.any(Date) as unknown,
+          },
+        },
+      );
+      expect(consumptionRecordModel.updateOne).toHaveBeenCalledWith(
+        { recordId: 'c1' },
+        { $set: { consumedMinutes: 11 } },
+      );
+    });
+
+    it('并发结算时以先记账的结算时长为准', async () => {
+      aiInterviewResultModel.findOne.mockReturnValue(mockQuery(result(601)));
+      ledgerService.post.mockResolvedValue({
+        metadata: { settledMinutes: 10 },
+      });
+      aiInterviewResultModel.updateOne.mockResolvedValue({ modifiedCount: 1 });
+
+      expect(await service.settle('r1')).toBe(10);
+      expect(aiInterviewResultModel.updateOne).toHaveBeenCalledWith(
+        expect.anything(),
+        {
+          $set: expect.objectContaining({
+            'billing.usedSeconds': 600,
+            'billing.settledMinutes': 10,
+          }) as unknown,
+        },
+      );
+    });
+
+    it('其他结算已标记完成时不重复更新消费记录', async () => {
+      aiInterviewResultModel.findOne.mockReturnValue(mockQuery(result(601)));
+      ledgerService.post.mockResolvedValue({
+        metadata: { settledMinutes: 11 },
+      });
+      aiInterviewResultModel.updateOne.mockResolvedValue({ modifiedCount: 0 });
+
+      expect(await service.settle('r1')).toBeUndefined();
+      expect(consumptionRecordModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('用完预留时长时不退还', async () => {
+      aiInterviewResultModel.findOne.mockReturnValue(mockQuery(result(2000)));
+      aiInterviewResultModel.updateOne.mockResolvedValue({ modifiedCount: 1 });
+
+      expect(await service.settle('r1')).toBe(30);
+      expect(ledgerService.post).not.toHaveBeenCalled();
+    });
+
+    it('按次计费或已结算的面试不结算', async () => {
+      aiInterviewResultModel.findOne.mockReturnValueOnce(
+        mockQuery({ userId: 'u1', status: 'completed' }),
+      );
+      expect(await service.settle('r1')).toBeUndefined();
+
+      aiInterviewResultModel.findOne.mockReturnValueOnce(
+        mockQuery({
+          ...result(600),
+          billing: { ...result(600).billing, settledAt: new Date() },
+        }),
+      );
+      expect(await service.settle('r1')).toBeUndefined();
+      expect(aiInterviewResultModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  it('findExhausted 只返回预留时长已用完的面试', async () => {
+    const billing = {
+      reservedMinutes: 10,
+      startedAt: new Date(Date.now() - 20 * minute),
+      usedSeconds: 0,
+    };
+    aiInterviewResultModel.find.mockReturnValue(
+      mockQuery([
+        { userId: 'u1', resultId: 'r1', status: 'in_progress', billing },
+        {
+          userId: 'u2',
+          resultId: 'r2',
+          status: 'in_progress',
+          billing: { ...billing, reservedMinutes: 60 },
+        },
+      ]),
+    );
+
+    expect(await service.findExhausted()).toEqual([
+      { userId: 'u1', resultId: 'r1' },
+    ]);
+  });
+});
@@ -0,0 +1,287 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  AIInterviewResult,
+  AIInterviewResultDocument,
+} from '../schemas/ai-interview-result.schema';
+import {
+  ConsumptionRecord,
+  ConsumptionRecordDocument,
+} from '../schemas/consumption-record.schema';
+import { User, UserDocument } from '../../user/schemas/user.schema';
+import { LedgerService } from '../../ledger/ledger.service';
+import { LedgerReason } from '../../ledger/ledger-entry.schema';
+
+// 开始按分钟计费的面试至少需要的时长（分钟）
+const MIN_RESERVED_MINUTES = 1;
+
+// 单次最多处理的面试数
+const BATCH_SIZE = 100;
+
+type BillingState = Pick<
+  AIInterviewResult,
+  'billing' | 'status' | 'resumedAt' | 'completedAt'
+>;
+
+/**
+ * 模拟面试按分钟计费
+ *
+ * - 开始时从模拟面试时长中预留本场面试可用的时长（剩余时长，不超过面试最大时长）
+ * - 面试进行中计量实际时长，暂停期间不计（暂停时累计到 usedSeconds，恢复后从 resumedAt 继续计量）
+ * - 结束或超时时按实际时长结算（不足一分钟按一分钟计），退还未用完的预留时长
+ * - 预留时长用完时由定时任务自动结束面试
+ */
+@Injectable()
+export class MockInterviewBillingService {
+  private readonly logger = new Logger(MockInterviewBillingService.name);
+
+  constructor(
+    @InjectModel(AIInterviewResult.name)
+    private readonly aiInterviewResultModel: Model<AIInterviewResultDocument>,
+    @InjectModel(ConsumptionRecord.name)
+    private readonly consumptionRecordModel: Model<ConsumptionRecordDocument>,
+    @InjectModel(User.name)
+    private readonly userModel: Model<UserDocument>,
+    private readonly ledgerService: LedgerService,
+  ) {}
+
+  /**
+   * 预留面试时长
+   * @param userId 用户ID
+   * @param recordId 消费记录ID（作为账本单据号，结算时按此退还）
+   * @param maxMinutes 面试最大时长（分钟）
+   * @param description 描述
+   * @returns 预留的分钟数
+   */
+  async reserve(
+    userId: string,
+    recordId: string,
+    maxMinutes: number,
+    description: string,
+  ): Promise<number> {
+    const user = await this.userModel
+      .findById(userId)
+      .select('aiInterviewRemainingMinutes')
+      .lean();
+    const reservedMinutes = Math.min(
+      Math.floor(user?.aiInterviewRemainingMinutes ?? 0),
+      maxMinutes,
+    );
+
+    if (reservedMinutes < MIN_RESERVED_MINUTES) {
+      throw new BadRequestException('模拟面试时长不足，请前往充值页面购买');
+    }
+
+    const entry = await this.ledgerService.post(
+      userId,
+      { aiInterviewRemainingMinutes: -reservedMinutes },
+      {
+        reason: LedgerReason.CONSUME,
+        referenceId: recordId,
+        description,
+        metadata: { reservedMinutes },
+      },
+    );
+
+    if (!entry) {
+      throw new BadRequestException('模拟面试时长不足，请前往充值页面购买');
+    }
+
+    this.logger.log(
+      `✅ 预留模拟面试时长: userId=${userId}, recordId=${recordId}, reservedMinutes=${reservedMinutes}`,
+    );
+    return reservedMinutes;
+  }
+
+  /**
+   * 释放预留的时长（面试启动失败时全额退还）
+   */
+  async release(userId: string, recordId: string, reservedMinutes: number) {
+    await this.ledgerService.post(
+      userId,
+      { aiInterviewRemainingMinutes: reservedMinutes },
+      {
+        reason: LedgerReason.CONSUME_REVERSAL,
+        referenceId: recordId,
+        description: '模拟面试启动失败退还时长',
+      },
+    );
+  }
+
+  /**
+   * 计算已计量的时长（秒）
+   * 暂停和结算后时长不再增加；已结束但未结算的面试计量到结束时间
+   */
+  usedSeconds(result: BillingState, now = new Date()): number {
+    const billing = result.billing;
+    if (!billing) {
+      return 0;
+    }
+
+    if (billing.settledAt || result.status === 'paused') {
+      return billing.usedSeconds;
+    }
+
+    const end =
+      result.status === 'completed' && result.completedAt
+        ? result.completedAt
+        : now;
+    const since =
+      result.resumedAt && result.resumedAt > billing.startedAt
+        ? result.resumedAt
+        : billing.startedAt;
+
+    return (
+      billing.usedSeconds +
+      Math.max(0, (end.getTime() - since.getTime()) / 1000)
+    );
+  }
+
+  /**
+   * 获取剩余可用的时长（秒）
+   * @returns 按次计费的面试返回 undefined
+   */
+  async getRemainingSeconds(resultId: string): Promise<number | undefined> {
+    const result = await this.aiInterviewResultModel
+      .findOne({ resultId })
+      .select('billing status resumedAt completedAt')
+      .lean();
+
+    if (!result?.billing) {
+      return undefined;
+    }
+
+    return result.billing.reservedMinutes * 60 - this.usedSeconds(result);
+  }
+
+  /**
+   * 暂停时累计计量时长
+   * @returns 需要合并到暂停更新中的字段（按次计费的面试为空）
+   */
+  meterPause(result: BillingState, pausedAt: Date): Record<string, number> {
+    if (!result.billing) {
+      return {};
+    }
+
+    return { 'billing.usedSeconds': this.usedSeconds(result, pausedAt) };
+  }
+
+  /**
+   * 结算：按实际时长扣除（不足一分钟按一分钟计，不超过预留时长），退还未用完的预留时长
+   * @returns 结算扣除的分钟数（按次计费或已结算的面试返回 undefined）
+   */
+  async settle(resultId: string): Promise<number | undefined> {
+    const result = await this.aiInterviewResultModel
+      .findOne({ resultId })
+      .select('userId consumptionRecordId billing status resumedAt completedAt')
+      .lean();
+
+    if (!result?.billing || result.billing.settledAt) {
+      return undefined;
+    }
+
+    const { reservedMinutes } = result.billing;
+    const settledAt = new Date();
+    const usedSeconds = Math.min(
+      this.usedSeconds(result, settledAt),
+      reservedMinutes * 60,
+    );
+    let settledMinutes = Math.ceil(usedSeconds / 60);
+
+    // 先退还未用完的预留时长（同一消费记录只退还一次），再标记已结算；
+    // 退还失败时不会标记结算，由结算任务重试
+    if (reservedMinutes > settledMinutes && result.consumptionRecordId) {
+      const entry = await this.ledgerService.post(
+        result.userId,
+        { aiInterviewRemainingMinutes: reservedMinutes - settledMinutes },
+        {
+          reason: LedgerReason.CONSUME_REVERSAL,
+          referenceId: result.consumptionRecordId,
+          description: '模拟面试结算退还未用完的时长',
+          metadata: { resultId, settledMinutes },
+        },
+      );
+      // 并发结算时以先记账的结算时长为准
+      if (typeof entry?.metadata?.settledMinutes === 'number') {
+        settledMinutes = entry.metadata.settledMinutes;
+      }
+    }
+
+    // 🔒 以未结算为条件标记结算，防止重复结算
+    const claimed = await this.aiInterviewResultModel.updateOne(
+      { resultId, 'billing.settledAt': { $exists: false } },
+      {
+        $set: {
+          'billing.usedSeconds': Math.min(usedSeconds, settledMinutes * 60),
+          'billing.settledMinutes': settledMinutes,
+          'billing.settledAt': settledAt,
+        },
+      },
+    );
+    if (!claimed.modifiedCount) {
+      return undefined;
+    }
+
+    const unusedMinutes = reservedMinutes - settledMinutes;
+    if (result.consumptionRecordId) {
+      await this.consumptionRecordModel.updateOne(
+        { recordId: result.consumptionRecordId },
+        { $set: { consumedMinutes: settledMinutes } },
+      );
+    }
+
+    this.logger.log(
+      `✅ 模拟面试结算完成: resultId=${resultId}, 预留=${reservedMinutes}分钟, 扣除=${settledMinutes}分钟, 退还=${unusedMinutes}分钟`,
+    );
+    return settledMinutes;
+  }
+
+  /**
+   * 查找预留时长已用完、仍在进行中的面试
+   */
+  async findExhausted(): Promise<Array<{ userId: string; resultId: string }>> {
+    const now = new Date();
+    const results = await this.aiInterviewResultModel
+      .find({
+        status: 'in_progress',
+        billing: { $exists: true },
+        'billing.settledAt': { $exists: false },
+      })
+      .select('userId resultId billing status resumedAt completedAt')
+      .sort({ 'billing.startedAt': 1 })
+      .limit(BATCH_SIZE)
+      .lean();
+
+    return results
+      .filter(
+        (result) =>
+          this.usedSeconds(result, now) >= result.billing!.reservedMinutes * 60,
+      )
+      .map((result) => ({ userId: result.userId, resultId: result.resultId }));
+  }
+
+  /**
+   * 结算已结束但未结算的面试（结算过程中服务重启等情况）
+   * @returns 结算的面试数
+   */
+  async settleCompleted(): Promise<number> {
+    const results = await this.aiInterviewResultModel
+      .find({
+        status: 'completed',
+        billing: { $exists: true },
+        'billing.settledAt': { $exists: false },
+      })
+      .select('resultId')
+      .limit(BATCH_SIZE)
+      .lean();
+
+    let count = 0;
+    for (const result of results) {
+      if ((await this.settle(result.resultId)) !== undefined) {
+        count++;
+      }
+    }
+    return count;
+  }
+}
@@ -0,0 +1,141 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { PromptRegistryService } from '../../ai/services/prompt-registry.service';
+import { PromptKey } from '../../ai/schemas/prompt-version.schema';
+import {
+  ResumeQuizResult,
+  ResumeQuizResultDocument,
+} from '../schemas/interview-quiz-result.schema';
+import {
+  AIInterviewResult,
+  AIInterviewResultDocument,
+} from '../schemas/ai-interview-result.schema';
+
+/**
+ * 单个 Prompt 版本的质量指标
+ */
+export interface PromptVersionStats {
+  key: PromptKey;
+  version: string;
+  runs: number; // 执行次数
+  failureRate: number; // 失败率
+  repairRate: number; // 需要修复输出的比例
+  avgRepairs: number; // 平均修复次数
+  avgTokens: number; // 平均 Token 数
+  avgCost: number; // 平均成本（元）
+  totalCost: number; // 总成本（元）
+  results: number; // 产出的结果数
+  ratedResults: number; // 有用户评分的结果数
+  avgRating: number | null; // 平均用户评分（没有评分时为 null）
+}
+
+/**
+ * Prompt A/B 实验统计服务
+ * 合并 Prompt 执行记录（失败率、修复率、成本）和结果上的用户评分，按版本对比
+ */
+@Injectable()
+export class PromptExperimentService {
+  constructor(
+    private promptRegistry: PromptRegistryService,
+    @InjectModel(ResumeQuizResult.name)
+    private resumeQuizResultModel: Model<ResumeQuizResultDocument>,
+    @InjectModel(AIInterviewResult.name)
+    private aiInterviewResultModel: Model<AIInterviewResultDocument>,
+  ) {}
+
+  /**
+   * 获取各 Prompt 版本的质量指标
+   */
+  async getStats(key?: PromptKey): Promise<PromptVersionStats[]> {
+    const keys = key ? [key] : Object.values(PromptKey);
+    const [runStats, ...ratingStats] = await Promise.all([
+      this.promptRegistry.summarizeRuns(key),
+      ...keys.map((k) => this.summarizeRatings(k)),
+    ]);
+
+    const stats = new Map<string, PromptVersionStats>();
+    const getOrCreate = (k: PromptKey, version: string) => {
+      const id = `${k}:${version}`;
+      if (!stats.has(id)) {
+        stats.set(id, {
+          key: k,
+          version,
+          runs: 0,
+          failureRate: 0,
+          repairRate: 0,
+          avgRepairs: 0,
+          avgTokens: 0,
+          avgCost: 0,
+          totalCost: 0,
+          results: 0,
+          ratedResults: 0,
+          avgRating: null,
+        });
+      }
+      return stats.get(id)!;
+    };
+
+    for (const run of runStats) {
+      Object.assign(getOrCreate(run.key, run.version), run);
+    }
+    keys.forEach((k, index) => {
+      for (const rating of ratingStats[index]) {
+        Object.assign(getOrCreate(k, rating.version), {
+          results: rating.results,
+          ratedResults: rating.ratedResults,
+          avgRating:
+            rating.avgRating === null
+              ? null
+              : Math.round(rating.avgRating * 100) / 100,
+        });
+      }
+    });
+
+    return Array.from(stats.values()).sort(
+      (a, b) =>
+        a.key.localeCompare(b.key) || a.version.localeCompare(b.version),
+    );
+  }
+
+  /**
+   * 按版本统计结果数量和用户评分
+   * 押题的 Prompt 版本记录在押题结果上，面试出题和评估报告记录在面试结果上
+   */
+  private summarizeRatings(key: PromptKey) {
+    const model: Model<any> =
+      key === PromptKey.RESUME_QUIZ_QUESTIONS ||
+      key === PromptKey.RESUME_QUIZ_ANALYSIS
+        ? this.resumeQuizResultModel
+        : this.aiInterviewResultModel;
+    const field = `promptVersions.${key}`;
+
+    return model.aggregate<{
+      version: string;
+      results: number;
+      ratedResults: number;
+      avgRating: number | null;
+    }>([
+      { $match: { [field]: { $exists: true } } },
+      {
+        $group: {
+          _id: `$${field}`,
+          results: { $sum: 1 },
+          ratedResults: {
+            $sum: { $cond: [{ $gt: ['$rating', null] }, 1, 0] },
+          },
+          avgRating: { $avg: '$rating' },
+        },
+      },
+      {
+        $project: {
+          _id: 0,
+          version: '$_id',
+          results: 1,
+          ratedResults: 1,
+          avgRating: 1,
+        },
+      },
+    ]);
+  }
+}
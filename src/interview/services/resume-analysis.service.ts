@@ -2,6 +2,7 @@ import { Injectable, Logger } from "@nestjs/common";
 import { PromptTemplate } from "@langchain/core/prompts";
 import { JsonOutputParser } from "@langchain/core/output_parsers";
 import { AIModelFactory } from "src/ai/services/ai-model.factory";
+import { AIFeature } from "src/ai/schemas/ai-usage-record.schema";
 import { RESUME_ANALYSIS_PROMPT } from "../prompts/resume-analysis.prompts";
 
 /**
@@ -31,15 +32,15 @@ export class ResumeAnalysisService {
    * @param jobDescription 岗位要求
    * @return 分析结果Json对象
   */
-  async analyze(resumeContent: string, jobDescription: string): Promise<any> { 
+  async analyze(resumeContent: string, jobDescription: string): Promise<Record<string, unknown>> { 
     // 1. 创建prompt模板
     const prompt = PromptTemplate.fromTemplate(RESUME_ANALYSIS_PROMPT);
 
     // 2. 获取模型
-    const model = this.aiModelFactory.createDefaultModel();
+    const model = this.aiModelFactory.createDefaultModel(AIFeature.RESUME_ANALYSIS);
 
     // 3. 创建输出解析器
-    const parser = new JsonOutputParser();
+    const parser = new JsonOutputParser<Record<string, unknown>>();
 
     // 4. 创建Chain
     const chain = prompt.pipe(model).pipe(parser);
@@ -0,0 +1,40 @@
+import { ConflictException } from '@nestjs/common';
+import { InterviewSession } from '../interfaces/interview-session.interface';
+
+/**
+ * 会话存储的注入令牌
+ */
+export const INTERVIEW_SESSION_STORE = 'INTERVIEW_SESSION_STORE';
+
+/**
+ * 面试会话存储
+ *
+ * 所有实例共享同一份会话数据，请求落到哪个进程都能继续面试。
+ * save 使用乐观锁：只有当存储中的版本号与 session.version 一致时才会写入，
+ * 否则抛出 InterviewSessionConflictException，避免并发回答把对话历史写乱。
+ */
+export interface InterviewSessionStore {
+  /**
+   * 创建会话（版本号从 0 开始）
+   */
+  create(session: InterviewSession): Promise<InterviewSession>;
+
+  /**
+   * 按 sessionId 加载会话，不存在时返回 null
+   */
+  get(sessionId: string): Promise<InterviewSession | null>;
+
+  /**
+   * 保存会话，返回版本号 +1 之后的会话
+   */
+  save(session: InterviewSession): Promise<InterviewSession>;
+}
+
+/**
+ * 会话版本冲突（会话已被其他请求修改）
+ */
+export class InterviewSessionConflictException extends ConflictException {
+  constructor(sessionId: string) {
+    super(`面试会话正在处理其他请求，请稍后重试: sessionId=${sessionId}`);
+  }
+}
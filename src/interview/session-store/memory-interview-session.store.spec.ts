@@ -0,0 +1,70 @@
+import { MockInterviewType } from '../dto/mock-interview.dto';
+import { InterviewSession } from '../interfaces/interview-session.interface';
+import { InterviewSessionConflictException } from './interview-session.store';
+import { MemoryInterviewSessionStore } from './memory-interview-session.store';
+
+describe('MemoryInterviewSessionStore', () => {
+  let store: MemoryInterviewSessionStore;
+
+  const session: InterviewSession = {
+    sessionId: 'session-1',
+    resultId: 'result-1',
+    userId: 'user-1',
+    interviewType: MockInterviewType.SPECIAL,
+    interviewerName: '面试官',
+    company: '公司',
+    resumeContent: '简历',
+    conversationHistory: [],
+    questionCount: 0,
+    startTime: new Date(),
+    targetDuration: 30,
+    isActive: true,
+    version: 5,
+  };
+
+  beforeEach(() => {
+    store = new MemoryInterviewSessionStore();
+  });
+
+  it('创建会话时版本号从 0 开始', async () => {
+    const created = await store.create(session);
+
+    expect(created.version).toBe(0);
+    expect(await store.get('session-1')).toMatchObject({ version: 0 });
+  });
+
+  it('保存后版本号 +1', async () => {
+    const created = await store.create(session);
+
+    const saved = await store.save({ ...created, questionCount: 1 });
+
+    expect(saved.version).toBe(1);
+    expect(await store.get('session-1')).toMatchObject({
+      questionCount: 1,
+      version: 1,
+    });
+  });
+
+  it('版本号过期时拒绝保存，不覆盖已保存的会话', async () => {
+    const created = await store.create(session);
+    await store.save({ ...created, questionCount: 1 });
+
+    await expect(
+      store.save({ ...created, questionCount: 2 }),
+    ).rejects.toBeInstanceOf(InterviewSessionConflictException);
+    expect(await store.get('session-1')).toMatchObject({ questionCount: 1 });
+  });
+
+  it('读取的是副本，修改不影响已保存的会话', async () => {
+    await store.create(session);
+
+    const loaded = await store.get('session-1');
+    loaded!.conversationHistory.push({
+      role: 'candidate',
+      content: '回答',
+      timestamp: new Date(),
+    });
+
+    expect((await store.get('session-1'))!.conversationHistory).toHaveLength(0);
+  });
+});
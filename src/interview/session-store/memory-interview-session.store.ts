@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common';
+import { InterviewSession } from '../interfaces/interview-session.interface';
+import {
+  InterviewSessionConflictException,
+  InterviewSessionStore,
+} from './interview-session.store';
+
+/**
+ * 内存会话存储
+ *
+ * 仅用于测试和单实例本地开发（INTERVIEW_SESSION_STORE=memory）。
+ * 读写都做深拷贝，行为上与持久化存储保持一致。
+ */
+@Injectable()
+export class MemoryInterviewSessionStore implements InterviewSessionStore {
+  private sessions: Map<string, InterviewSession> = new Map();
+
+  create(session: InterviewSession): Promise<InterviewSession> {
+    const created: InterviewSession = { ...session, version: 0 };
+    this.sessions.set(session.sessionId, structuredClone(created));
+    return Promise.resolve(created);
+  }
+
+  get(sessionId: string): Promise<InterviewSession | null> {
+    const session = this.sessions.get(sessionId);
+    return Promise.resolve(session ? structuredClone(session) : null);
+  }
+
+  save(session: InterviewSession): Promise<InterviewSession> {
+    const current = this.sessions.get(session.sessionId);
+
+    if (!current || current.version !== session.version) {
+      return Promise.reject(
+        new InterviewSessionConflictException(session.sessionId),
+      );
+    }
+
+    const saved: InterviewSession = {
+      ...session,
+      version: session.version + 1,
+    };
+    this.sessions.set(session.sessionId, structuredClone(saved));
+    return Promise.resolve(saved);
+  }
+}
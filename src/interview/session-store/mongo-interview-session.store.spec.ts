@@ -0,0 +1,92 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { mockQuery } from '../../../test/mock-query';
+import { MockInterviewType } from '../dto/mock-interview.dto';
+import { InterviewSession } from '../interfaces/interview-session.interface';
+import { AIInterviewResult } from '../schemas/ai-interview-result.schema';
+import { InterviewSessionConflictException } from './interview-session.store';
+import { MongoInterviewSessionStore } from './mongo-interview-session.store';
+
+describe('MongoInterviewSessionStore', () => {
+  let store: MongoInterviewSessionStore;
+  const model = {
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+  };
+
+  const session: InterviewSession = {
+    sessionId: 'session-1',
+    resultId: 'result-1',
+    userId: 'user-1',
+    interviewType: MockInterviewType.SPECIAL,
+    interviewerName: '面试官',
+    company: '公司',
+    resumeContent: '简历',
+    conversationHistory: [],
+    questionCount: 0,
+    startTime: new Date(),
+    targetDuration: 30,
+    isActive: true,
+    version: 2,
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        MongoInterviewSessionStore,
+        { provide: getModelToken(AIInterviewResult.name), useValue: model },
+      ],
+    }).compile();
+    store = moduleRef.get(MongoInterviewSessionStore);
+  });
+
+  it('按 sessionVersion 返回会话版本号', async () => {
+    model.findOne.mockReturnValue(
+      mockQuery({
+        sessionState: { ...session, version: 0 },
+        sessionVersion: 3,
+      }),
+    );
+
+    const loaded = await store.get('session-1');
+
+    expect(loaded).toMatchObject({ sessionId: 'session-1', version: 3 });
+  });
+
+  it('保存时以当前版本号为条件写入并 +1', async () => {
+    model.findOneAndUpdate.mockReturnValue(mockQuery({ resultId: 'result-1' }));
+
+    const saved = await store.save(session);
+
+    expect(saved.version).toBe(3);
+    expect(model.findOneAndUpdate).toHaveBeenCalledWith(
+      { resultId: 'result-1', sessionVersion: 2 },
+      {
+        $set: expect.objectContaining({
+          sessionId: 'session-1',
+          sessionVersion: 3,
+        }) as unknown,
+      },
+    );
+  });
+
+  it('没有 sessionVersion 的旧记录按版本 0 保存', async () => {
+    model.findOneAndUpdate.mockReturnValue(mockQuery({ resultId: 'result-1' }));
+
+    await store.save({ ...session, version: 0 });
+
+    expect(model.findOneAndUpdate).toHaveBeenCalledWith(
+      { resultId: 'result-1', sessionVersion: { $in: [0, null] } },
+      expect.anything(),
+    );
+  });
+
+  it('版本号不匹配时抛出冲突异常', async () => {
+    model.findOneAndUpdate.mockReturnValue(mockQuery(null));
+
+    await expect(store.save(session)).rejects.toBeInstanceOf(
+      InterviewSessionConflictException,
+    );
+  });
+});
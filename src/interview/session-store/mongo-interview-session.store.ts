@@ -0,0 +1,104 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  AIInterviewResult,
+  AIInterviewResultDocument,
+} from '../schemas/ai-interview-result.schema';
+import { InterviewSession } from '../interfaces/interview-session.interface';
+import {
+  InterviewSessionConflictException,
+  InterviewSessionStore,
+} from './interview-session.store';
+
+/**
+ * 基于 MongoDB 的会话存储（默认实现）
+ *
+ * 会话保存在 AIInterviewResult.sessionState 中，
+ * sessionVersion 字段作为乐观锁的版本号。
+ */
+@Injectable()
+export class MongoInterviewSessionStore implements InterviewSessionStore {
+  private readonly logger = new Logger(MongoInterviewSessionStore.name);
+
+  constructor(
+    @InjectModel(AIInterviewResult.name)
+    private aiInterviewResultModel: Model<AIInterviewResultDocument>,
+  ) {}
+
+  async create(session: InterviewSession): Promise<InterviewSession> {
+    if (!session.resultId) {
+      throw new Error('session.resultId 不存在，无法保存会话');
+    }
+
+    const created: InterviewSession = { ...session, version: 0 };
+    const result = await this.aiInterviewResultModel.findOneAndUpdate(
+      { resultId: session.resultId },
+      {
+        $set: {
+          sessionId: session.sessionId,
+          sessionState: created,
+          sessionVersion: 0,
+        },
+      },
+    );
+
+    if (!result) {
+      throw new Error(`面试记录不存在，无法保存会话: ${session.resultId}`);
+    }
+
+    return created;
+  }
+
+  async get(sessionId: string): Promise<InterviewSession | null> {
+    // 兼容旧记录：旧记录只在 metadata.sessionId 中保存了 sessionId
+    const result = await this.aiInterviewResultModel
+      .findOne({
+        $or: [{ sessionId }, { 'metadata.sessionId': sessionId }],
+      })
+      .select('sessionState sessionVersion')
+      .lean();
+
+    if (!result?.sessionState) {
+      return null;
+    }
+
+    return {
+      ...(result.sessionState as InterviewSession),
+      version: result.sessionVersion || 0,
+    };
+  }
+
+  async save(session: InterviewSession): Promise<InterviewSession> {
+    const expectedVersion = session.version || 0;
+    const saved: InterviewSession = {
+      ...session,
+      version: expectedVersion + 1,
+    };
+
+    const result = await this.aiInterviewResultModel.findOneAndUpdate(
+      {
+        resultId: session.resultId,
+        // 旧记录没有 sessionVersion 字段，视为版本 0
+        sessionVersion:
+          expectedVersion === 0 ? { $in: [0, null] } : expectedVersion,
+      },
+      {
+        $set: {
+          sessionId: session.sessionId,
+          sessionState: saved,
+          sessionVersion: saved.version,
+        },
+      },
+    );
+
+    if (!result) {
+      this.logger.warn(
+        `⚠️ 会话版本冲突: sessionId=${session.sessionId}, expectedVersion=${expectedVersion}`,
+      );
+      throw new InterviewSessionConflictException(session.sessionId);
+    }
+
+    return saved;
+  }
+}
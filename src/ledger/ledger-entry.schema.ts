@@ -0,0 +1,103 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, SchemaTypes } from 'mongoose';
+
+export type LedgerEntryDocument = LedgerEntry & Document;
+
+/**
+ * 记账的用户余额（与 User 上的余额字段同名）
+ */
+export const LEDGER_ASSETS = [
+  'maiCoinBalance',
+  'resumeRemainingCount',
+  'specialRemainingCount',
+  'behaviorRemainingCount',
+  'aiInterviewRemainingMinutes',
+] as const;
+
+export type LedgerAsset = (typeof LEDGER_ASSETS)[number];
+
+export type LedgerBalances = Record<LedgerAsset, number>;
+
+/**
+ * 记账原因
+ */
+export enum LedgerReason {
+  OPENING = 'opening', // 期初余额（启用账本前的余额）
+  PURCHASE = 'purchase', // 购买套餐
+  EXCHANGE = 'exchange', // 小麦币兑换
+  CONSUME = 'consume', // 使用功能扣除次数
+  CONSUME_REVERSAL = 'consume_reversal', // 使用失败退还次数
+  REFUND_CLAWBACK = 'refund_clawback', // 退款扣回权益
+  REFUND_REVERSAL = 'refund_reversal', // 退款失败归还权益
+  VIP_REFILL = 'vip_refill', // 会员按月补足次数
+  ACCOUNT_MERGE_OUT = 'account_merge_out', // 合并账号时从被合并的账号转出
+  ACCOUNT_MERGE_IN = 'account_merge_in', // 合并账号时转入保留的账号
+}
+
+/**
+ * 每种记账原因对应的系统对方账户
+ * 用户账户的每一笔借贷都在对方账户记一笔方向相反、金额相同的账，按余额类型汇总后借贷平衡
+ */
+export const LEDGER_CONTRA_ACCOUNTS: Record<LedgerReason, string> = {
+  [LedgerReason.OPENING]: 'system:opening',
+  [LedgerReason.PURCHASE]: 'system:sales',
+  [LedgerReason.EXCHANGE]: 'system:exchange',
+  [LedgerReason.CONSUME]: 'system:consumption',
+  [LedgerReason.CONSUME_REVERSAL]: 'system:consumption',
+  [LedgerReason.REFUND_CLAWBACK]: 'system:refund',
+  [LedgerReason.REFUND_REVERSAL]: 'system:refund',
+  [LedgerReason.VIP_REFILL]: 'system:vip',
+  [LedgerReason.ACCOUNT_MERGE_OUT]: 'system:merge',
+  [LedgerReason.ACCOUNT_MERGE_IN]: 'system:merge',
+};
+
+/**
+ * 分录行：用户账户某种余额的一次变动
+ */
+export interface LedgerLine {
+  asset: LedgerAsset; // 余额类型
+  amount: number; // 变动数量（正数为入账，负数为出账）
+  balanceAfter: number; // 变动后余额
+  contraAccount: string; // 对方账户（记一笔 -amount）
+}
+
+/**
+ * 账本分录 Schema（只追加，不修改）
+ *
+ * - 每个用户的分录按 seq 连续编号，(userId, seq) 唯一索引保证并发写入时只有一个成功
+ * - 分录写入即记账生效，User 上的余额字段只是账本最新余额的投影
+ * - (reason, referenceId) 唯一索引保证同一业务单据只记一次账
+ */
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class LedgerEntry {
+  @Prop({ required: true })
+  userId: string; // 用户ID
+
+  @Prop({ required: true })
+  seq: number; // 用户分录序号（从 1 开始连续递增）
+
+  @Prop({ required: true, enum: LedgerReason })
+  reason: LedgerReason; // 记账原因
+
+  @Prop({ required: true })
+  referenceId: string; // 关联的业务单据ID（订单号、退款单号、消费记录ID、被合并的账号ID等）
+
+  @Prop()
+  description?: string; // 描述
+
+  @Prop({ type: [Object], default: [] })
+  lines: LedgerLine[]; // 分录行
+
+  @Prop({ type: Object, required: true })
+  balances: LedgerBalances; // 记账后的全部余额
+
+  @Prop({ type: SchemaTypes.Mixed })
+  metadata?: Record<string, any>; // 扩展信息
+
+  createdAt?: Date;
+}
+
+export const LedgerEntrySchema = SchemaFactory.createForClass(LedgerEntry);
+
+LedgerEntrySchema.index({ userId: 1, seq: 1 }, { unique: true });
+LedgerEntrySchema.index({ reason: 1, referenceId: 1 }, { unique: true });
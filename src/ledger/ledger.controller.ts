@@ -0,0 +1,60 @@
+import { Controller, Get, Param, Query, Req } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiTags,
+} from '@nestjs/swagger';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/permissions';
+import { LedgerService } from './ledger.service';
+
+type AuthenticatedRequest = Request & { user?: { userId?: string } };
+
+@ApiTags('账本')
+@ApiBearerAuth()
+@Controller('ledger')
+export class LedgerController {
+  constructor(private readonly ledgerService: LedgerService) {}
+
+  /**
+   * 获取当前用户的账单
+   * 包含账本余额、核对结果和分录（按时间倒序）
+   */
+  @Get('statement')
+  @ApiOperation({ summary: '获取我的账单' })
+  @ApiQuery({ name: 'skip', required: false })
+  @ApiQuery({ name: 'limit', required: false })
+  getStatement(
+    @Req() req: AuthenticatedRequest,
+    @Query('skip') skip?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.ledgerService.getStatement(
+      (req.user as { userId: string }).userId,
+      {
+        skip: Number(skip) || 0,
+        limit: Math.min(Number(limit) || 20, 100),
+      },
+    );
+  }
+
+  /**
+   * 获取指定用户的账单（管理员）
+   */
+  @Get('admin/users/:userId/statement')
+  @RequirePermissions(Permission.LEDGER_READ)
+  @ApiOperation({ summary: '获取用户账单（管理员）' })
+  @ApiQuery({ name: 'skip', required: false })
+  @ApiQuery({ name: 'limit', required: false })
+  getUserStatement(
+    @Param('userId') userId: string,
+    @Query('skip') skip?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.ledgerService.getStatement(userId, {
+      skip: Number(skip) || 0,
+      limit: Math.min(Number(limit) || 20, 100),
+    });
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { LedgerController } from './ledger.controller';
+import { LedgerService } from './ledger.service';
+import { LedgerEntry, LedgerEntrySchema } from './ledger-entry.schema';
+import { User, UserSchema } from '../user/schemas/user.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: LedgerEntry.name, schema: LedgerEntrySchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+  ],
+  controllers: [LedgerController],
+  providers: [LedgerService],
+  exports: [LedgerService],
+})
+export class LedgerModule {}
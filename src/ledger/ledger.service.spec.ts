@@ -0,0 +1,255 @@
+import { ConflictException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { mockQuery } from '../../test/mock-query';
+import { User } from '../user/schemas/user.schema';
+import { LedgerEntry, LedgerReason } from './ledger-entry.schema';
+import { LedgerService } from './ledger.service';
+
+type StoredEntry = Pick<
+  LedgerEntry,
+  'userId' | 'seq' | 'reason' | 'referenceId' | 'lines' | 'balances'
+>;
+
+describe('LedgerService', () => {
+  let service: LedgerService;
+  let entries: StoredEntry[];
+  let user: Record<string, number>;
+
+  const duplicateKeyError = () =>
+    Object.assign(new Error('E11000'), { code: 11000 });
+
+  const ledgerEntryModel = {
+    findOne: jest.fn(),
+    create: jest.fn(),
+    find: jest.fn(),
+  };
+  const userModel = {
+    findById: jest.fn(),
+    updateOne: jest.fn(),
+  };
+
+  // 内存中的分录集合，按 (userId, seq) 和 (reason, referenceId) 唯一
+  const findEntry = (filter: Partial<StoredEntry>) =>
+    filter.reason
+      ? entries.find(
+          (entry) =>
+            entry.reason === filter.reason &&
+            entry.referenceId === filter.referenceId,
+        )
+      : entries
+          .filter((entry) => entry.userId === filter.userId)
+          .sort((a, b) => b.seq - a.seq)[0];
+  const createEntry = (doc: StoredEntry) => {
+    if (
+      entries.some(
+        (entry) =>
+          (entry.userId === doc.userId && entry.seq === doc.seq) ||
+          (entry.reason === doc.reason &&
+            entry.referenceId === doc.referenceId),
+      )
+    ) {
+      return Promise.reject(duplicateKeyError());
+    }
+    entries.push(doc);
+    return Promise.resolve({ ...doc, toObject: () => doc });
+  };
+
+  const purchase = { reason: LedgerReason.PURCHASE, referenceId: 'o1' };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    entries = [];
+    user = { maiCoinBalance: 50, specialRemainingCount: 1 };
+    ledgerEntryModel.findOne.mockImplementation(
+      (filter: Partial<StoredEntry>) => mockQuery(findEntry(filter) ?? null),
+    );
+    ledgerEntryModel.create.mockImplementation(createEntry);
+    ledgerEntryModel.find.mockImplementation(() => ({
+      sort: () => ({
+        lean: () => ({
+          cursor: () => [...entries].sort((a, b) => a.seq - b.seq),
+        }),
+      }),
+    }));
+    userModel.findById.mockImplementation(() => mockQuery(user));
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        LedgerService,
+        {
+          provide: getModelToken(LedgerEntry.name),
+          useValue: ledgerEntryModel,
+        },
+        { provide: getModelToken(User.name), useValue: userModel },
+      ],
+    }).compile();
+    service = moduleRef.get(LedgerService);
+  });
+
+  describe('post', () => {
+    it('首次记账前写入期初余额分录', async () => {
+      const entry = await service.post('u1', { maiCoinBalance: 100 }, purchase);
+
+      expect(entries.map((e) => e.reason)).toEqual([
+        LedgerReason.OPENING,
+        LedgerReason.PURCHASE,
+      ]);
+      expect(entries[0].lines).toEqual([
+        expect.objectContaining({ asset: 'maiCoinBalance', amount: 50 }),
+        expect.objectContaining({ asset: 'specialRemainingCount', amount: 1 }),
+      ]);
+      expect(entry).toMatchObject({
+        seq: 2,
+        lines: [
+          {
+            asset: 'maiCoinBalance',
+            amount: 100,
+            balanceAfter: 150,
+            contraAccount: 'system:sales',
+          },
+        ],
+        balances: { maiCoinBalance: 150, specialRemainingCount: 1 },
+      });
+      expect(userModel.updateOne).toHaveBeenLastCalledWith(
+        expect.objectContaining({ _id: 'u1' }),
+        {
+          $set: expect.objectContaining({
+            maiCoinBalance: 150,
+            ledgerSeq: 2,
+          }) as unknown,
+        },
+      );
+    });
+
+    it('同一业务单据重复记账时返回已有分录', async () => {
+      const first = await service.post('u1', { maiCoinBalance: 100 }, purchase);
+      const second = await service.post(
+        'u1',
+        { maiCoinBalance: 100 },
+        purchase,
+      );
+
+      expect(second).toEqual(first);
+      expect(entries).toHaveLength(2);
+    });
+
+    it('出账后余额小于 0 时拒绝记账', async () => {
+      const entry = await service.post(
+        'u1',
+        { specialRemainingCount: -2 },
+        { reason: LedgerReason.CONSUME, referenceId: 'c1' },
+      );
+
+      expect(entry).toBeNull();
+      expect(entries.map((e) => e.reason)).toEqual([LedgerReason.OPENING]);
+    });
+
+    it('其他请求抢先写入同一序号时基于最新余额重试', async () => {
+      await service.post('u1', { maiCoinBalance: 100 }, purchase);
+      ledgerEntryModel.create.mockImplementationOnce((doc: StoredEntry) => {
+        // 模拟并发：在本次写入之前另一请求写入了同一序号
+        entries.push({
+          ...doc,
+          reason: LedgerReason.CONSUME,
+          referenceId: 'c1',
+          lines: [],
+          balances: { ...doc.balances, maiCoinBalance: 130 },
+        });
+        return Promise.reject(duplicateKeyError());
+      });
+
+      const entry = await service.post(
+        'u1',
+        { maiCoinBalance: -30 },
+        { reason: LedgerReason.EXCHANGE, referenceId: 'e1' },
+      );
+
+      expect(entry).toMatchObject({
+        seq: 4,
+        balances: { maiCoinBalance: 100 },
+      });
+    });
+
+    it('并发冲突次数用完时抛出异常', async () => {
+      await service.post('u1', { maiCoinBalance: 100 }, purchase);
+      ledgerEntryModel.create.mockImplementation(() =>
+        Promise.reject(duplicateKeyError()),
+      );
+
+      await expect(
+        service.post(
+          'u1',
+          { maiCoinBalance: -30 },
+          { reason: LedgerReason.EXCHANGE, referenceId: 'e1' },
+        ),
+      ).rejects.toBeInstanceOf(ConflictException);
+    });
+  });
+
+  it('topUp 只把低于目标数量的余额补足到目标数量', async () => {
+    const entry = await service.topUp(
+      'u1',
+      { specialRemainingCount: 3, maiCoinBalance: 10 },
+      { reason: LedgerReason.VIP_REFILL, referenceId: 'u1:2026-10' },
+    );
+
+    expect(entry?.lines).toEqual([
+      expect.objectContaining({ asset: 'specialRemainingCount', amount: 2 }),
+    ]);
+  });
+
+  describe('drain', () => {
+    const merge = {
+      reason: LedgerReason.ACCOUNT_MERGE_OUT,
+      referenceId: 'u1',
+    };
+
+    it('转出全部余额', async () => {
+      const entry = await service.drain('u1', merge);
+
+      expect(entry?.lines).toEqual([
+        expect.objectContaining({ asset: 'maiCoinBalance', amount: -50 }),
+        expect.objectContaining({ asset: 'specialRemainingCount', amount: -1 }),
+      ]);
+      expect(entry?.balances).toMatchObject({
+        maiCoinBalance: 0,
+        specialRemainingCount: 0,
+      });
+    });
+
+    it('没有余额时不写入转出分录', async () => {
+      user = {};
+
+      const entry = await service.drain('u1', merge);
+
+      expect(entry?.reason).not.toBe(LedgerReason.ACCOUNT_MERGE_OUT);
+      expect(entries.map((e) => e.reason)).not.toContain(
+        LedgerReason.ACCOUNT_MERGE_OUT,
+      );
+    });
+  });
+
+  describe('verify', () => {
+    it('账本连续且与用户余额一致时核对通过', async () => {
+      await service.post('u1', { maiCoinBalance: 100 }, purchase);
+      user = { ...user, maiCoinBalance: 150, ledgerSeq: 2 };
+
+      const result = await service.verify('u1');
+
+      expect(result.consistent).toBe(true);
+      expect(result.ledgerBalances).toMatchObject({ maiCoinBalance: 150 });
+    });
+
+    it('用户余额被直接修改时报告不一致', async () => {
+      await service.post('u1', { maiCoinBalance: 100 }, purchase);
+      user = { ...user, maiCoinBalance: 999, ledgerSeq: 2 };
+
+      const result = await service.verify('u1');
+
+      expect(result.consistent).toBe(false);
+      expect(result.issues).toEqual([
+        expect.stringContaining('maiCoinBalance'),
+      ]);
+    });
+  });
+});
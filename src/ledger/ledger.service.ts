@@ -0,0 +1,397 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { User, UserDocument } from '../user/schemas/user.schema';
+import {
+  LEDGER_ASSETS,
+  LEDGER_CONTRA_ACCOUNTS,
+  LedgerAsset,
+  LedgerBalances,
+  LedgerEntry,
+  LedgerEntryDocument,
+  LedgerLine,
+  LedgerReason,
+} from './ledger-entry.schema';
+
+// 并发写入同一用户账本时的最大重试次数
+const MAX_APPEND_ATTEMPTS = 5;
+
+/**
+ * 余额变动（正数为入账，负数为出账）
+ */
+export type LedgerChanges = Partial<Record<LedgerAsset, number>>;
+
+/**
+ * 记账参数
+ */
+export interface LedgerPostOptions {
+  reason: LedgerReason; // 记账原因
+  referenceId: string; // 关联的业务单据ID（同一原因下唯一，重复记账时返回已有分录）
+  description?: string; // 描述
+  metadata?: Record<string, any>; // 扩展信息
+}
+
+/**
+ * 账本服务
+ *
+ * 小麦币和各类次数的所有变动都通过账本记账：
+ * - 分录只追加不修改，每笔记录变动数量、记账原因、关联单据和变动后余额
+ * - 分录写入即记账生效，随后把最新余额投影到 User 上（投影失败时下一次记账会覆盖修正）
+ * - 出账后余额小于 0 时拒绝记账
+ */
+@Injectable()
+export class LedgerService {
+  private readonly logger = new Logger(LedgerService.name);
+
+  constructor(
+    @InjectModel(LedgerEntry.name)
+    private readonly ledgerEntryModel: Model<LedgerEntryDocument>,
+    @InjectModel(User.name)
+    private readonly userModel: Model<UserDocument>,
+  ) {}
+
+  /**
+   * 记账：按变动数量增减余额
+   * @param userId 用户ID
+   * @param changes 余额变动
+   * @param options 记账参数
+   * @returns 记账后的分录；余额不足时返回 null
+   */
+  post(
+    userId: string,
+    changes: LedgerChanges,
+    options: LedgerPostOptions,
+  ): Promise<LedgerEntry | null> {
+    return this.append(userId, () => changes, options);
+  }
+
+  /**
+   * 补足余额：余额低于目标数量时补足到目标数量
+   * @param userId 用户ID
+   * @param targets 目标数量
+   * @param options 记账参数
+   * @returns 记账后的分录；无需补足时返回最新分录
+   */
+  topUp(
+    userId: string,
+    targets: LedgerChanges,
+    options: LedgerPostOptions,
+  ): Promise<LedgerEntry | null> {
+    return this.append(
+      userId,
+      (balances) =>
+        Object.fromEntries(
+          Object.entries(targets).map(([asset, target]) => [
+            asset,
+            Math.max((target ?? 0) - balances[asset as LedgerAsset], 0),
+          ]),
+        ),
+      options,
+    );
+  }
+
+  /**
+   * 清空余额：全部余额出账（合并账号时转出被合并账号的余额）
+   * @param userId 用户ID
+   * @param options 记账参数
+   * @returns 记账后的分录（分录行即转出的数量）；没有余额时返回最新分录
+   */
+  drain(
+    userId: string,
+    options: LedgerPostOptions,
+  ): Promise<LedgerEntry | null> {
+    return this.append(
+      userId,
+      (balances) =>
+        Object.fromEntries(
+          LEDGER_ASSETS.map((asset) => [asset, -balances[asset]]),
+        ),
+      options,
+    );
+  }
+
+  /**
+   * 查询业务单据的分录
+   * @param reason 记账原因
+   * @param referenceId 关联的业务单据ID
+   * @returns 分录；该单据未记账时返回 null
+   */
+  findEntry(reason: LedgerReason, referenceId: string) {
+    return this.findByReference({ reason, referenceId });
+  }
+
+  /**
+   * 获取用户账单（分录按时间倒序）
+   * @param userId 用户ID
+   * @param options 分页参数
+   */
+  async getStatement(
+    userId: string,
+    options: { skip?: number; limit?: number } = {},
+  ) {
+    const [entries, total, verification] = await Promise.all([
+      this.ledgerEntryModel
+        .find({ userId })
+        .sort({ seq: -1 })
+        .skip(options.skip ?? 0)
+        .limit(options.limit ?? 20)
+        .lean(),
+      this.ledgerEntryModel.countDocuments({ userId }),
+      this.verify(userId),
+    ]);
+
+    return {
+      balances: verification.ledgerBalances,
+      verified: verification.consistent,
+      entries,
+      total,
+    };
+  }
+
+  /**
+   * 核对账本：逐笔校验分录序号连续、余额可由变动累加得出，且与 User 上的余额一致
+   * @param userId 用户ID
+   */
+  async verify(userId: string) {
+    const issues: string[] = [];
+    const balances = this.emptyBalances();
+    let expectedSeq = 1;
+
+    const cursor = this.ledgerEntryModel
+      .find({ userId })
+      .sort({ seq: 1 })
+      .lean()
+      .cursor();
+    for await (const entry of cursor) {
+      if (entry.seq !== expectedSeq) {
+        issues.push(`分录序号不连续: 期望 ${expectedSeq}，实际 ${entry.seq}`);
+      }
+      expectedSeq = entry.seq + 1;
+
+      for (const line of entry.lines) {
+        balances[line.asset] = this.round(balances[line.asset] + line.amount);
+        if (balances[line.asset] !== line.balanceAfter) {
+          issues.push(
+            `分录 ${entry.seq} 的 ${line.asset} 余额不一致: 累计 ${balances[line.asset]}，记录 ${line.balanceAfter}`,
+          );
+        }
+      }
+      for (const asset of LEDGER_ASSETS) {
+        // 新增余额类型之前的分录没有该类型的余额，视为 0
+        if (balances[asset] !== (entry.balances[asset] ?? 0)) {
+          issues.push(
+            `分录 ${entry.seq} 的 ${asset} 余额快照不一致: 累计 ${balances[asset]}，记录 ${entry.balances[asset]}`,
+          );
+        }
+      }
+    }
+
+    const user = await this.userModel
+      .findById(userId)
+      .select([...LEDGER_ASSETS, 'ledgerSeq'])
+      .lean();
+    const userBalances = user ? this.pickBalances(user) : null;
+
+    // 尚未记账的用户以 User 上的余额作为期初余额
+    const ledgerBalances =
+      expectedSeq === 1 && userBalances ? userBalances : balances;
+
+    if (userBalances && expectedSeq > 1) {
+      for (const asset of LEDGER_ASSETS) {
+        if (userBalances[asset] !== ledgerBalances[asset]) {
+          issues.push(
+            `用户 ${asset} 与账本不一致: 用户 ${userBalances[asset]}，账本 ${ledgerBalances[asset]}`,
+          );
+        }
+      }
+    }
+
+    if (issues.length) {
+      this.logger.warn(
+        `⚠️ 账本核对不一致: userId=${userId}, ${issues.join('; ')}`,
+      );
+    }
+
+    return {
+      consistent: issues.length === 0,
+      ledgerBalances,
+      userBalances,
+      issues,
+    };
+  }
+
+  /**
+   * 追加分录
+   * @param build 根据当前余额计算本次变动
+   */
+  private async append(
+    userId: string,
+    build: (balances: LedgerBalances) => LedgerChanges,
+    options: LedgerPostOptions,
+  ): Promise<LedgerEntry | null> {
+    const existing = await this.findByReference(options);
+    if (existing) {
+      return existing;
+    }
+
+    for (let attempt = 1; attempt <= MAX_APPEND_ATTEMPTS; attempt++) {
+      const head = await this.ledgerEntryModel
+        .findOne({ userId })
+        .sort({ seq: -1 })
+        .lean();
+      if (!head) {
+        await this.writeOpening(userId);
+        continue;
+      }
+
+      const contraAccount = LEDGER_CONTRA_ACCOUNTS[options.reason];
+      // 新增余额类型之前的分录没有该类型的余额，补为 0
+      const balances = { ...this.emptyBalances(), ...head.balances };
+      const lines: LedgerLine[] = [];
+      for (const [asset, value] of Object.entries(build({ ...balances }))) {
+        const amount = this.round(value ?? 0);
+        if (!amount) {
+          continue;
+        }
+        const key = asset as LedgerAsset;
+        balances[key] = this.round(balances[key] + amount);
+        if (amount < 0 && balances[key] < 0) {
+          return null;
+        }
+        lines.push({
+          asset: key,
+          amount,
+          balanceAfter: balances[key],
+          contraAccount,
+        });
+      }
+
+      if (!lines.length) {
+        return head;
+      }
+
+      try {
+        const entry = await this.ledgerEntryModel.create({
+          userId,
+          seq: head.seq + 1,
+          reason: options.reason,
+          referenceId: options.referenceId,
+          description: options.description,
+          lines,
+          balances,
+          metadata: options.metadata,
+        });
+        await this.project(userId, entry.seq, balances);
+        return entry.toObject();
+      } catch (error) {
+        if (!this.isDuplicateKeyError(error)) {
+          throw error;
+        }
+        // 同一业务单据已记账（并发重复请求），返回已有分录
+        const duplicated = await this.findByReference(options);
+        if (duplicated) {
+          return duplicated;
+        }
+        // 其他请求抢先写入了同一序号，基于最新余额重试
+      }
+    }
+
+    throw new ConflictException('记账失败（并发更新冲突），请重试');
+  }
+
+  /**
+   * 写入期初分录：把启用账本前 User 上的余额记为第一笔分录
+   */
+  private async writeOpening(userId: string) {
+    const user = await this.userModel
+      .findById(userId)
+      .select([...LEDGER_ASSETS])
+      .lean();
+    if (!user) {
+      throw new NotFoundException('用户不存在');
+    }
+
+    const balances = this.pickBalances(user);
+    const contraAccount = LEDGER_CONTRA_ACCOUNTS[LedgerReason.OPENING];
+    try {
+      await this.ledgerEntryModel.create({
+        userId,
+        seq: 1,
+        reason: LedgerReason.OPENING,
+        referenceId: userId,
+        description: '期初余额',
+        lines: LEDGER_ASSETS.filter((asset) => balances[asset]).map(
+          (asset) => ({
+            asset,
+            amount: balances[asset],
+            balanceAfter: balances[asset],
+            contraAccount,
+          }),
+        ),
+        balances,
+      });
+      await this.project(userId, 1, balances);
+    } catch (error) {
+      // 其他请求已写入期初分录
+      if (!this.isDuplicateKeyError(error)) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * 把账本余额投影到 User（只接受更新的序号，防止乱序覆盖）
+   * 分录已经写入，投影失败只记录日志，下一次记账会覆盖修正
+   */
+  private async project(userId: string, seq: number, balances: LedgerBalances) {
+    try {
+      await this.userModel.updateOne(
+        {
+          _id: userId,
+          $or: [{ ledgerSeq: { $lt: seq } }, { ledgerSeq: { $exists: false } }],
+        },
+        { $set: { ...balances, ledgerSeq: seq } },
+      );
+    } catch (error) {
+      this.logger.error(
+        `❌ 账本余额投影失败: userId=${userId}, seq=${seq}, error=${(error as Error).message}`,
+      );
+    }
+  }
+
+  private findByReference(options: LedgerPostOptions) {
+    return this.ledgerEntryModel
+      .findOne({ reason: options.reason, referenceId: options.referenceId })
+      .lean();
+  }
+
+  private pickBalances(user: Partial<LedgerBalances>): LedgerBalances {
+    const balances = this.emptyBalances();
+    for (const asset of LEDGER_ASSETS) {
+      balances[asset] = this.round(user[asset] ?? 0);
+    }
+    return balances;
+  }
+
+  private emptyBalances(): LedgerBalances {
+    return Object.fromEntries(
+      LEDGER_ASSETS.map((asset) => [asset, 0]),
+    ) as LedgerBalances;
+  }
+
+  /**
+   * 保留两位小数（小麦币精确到分）
+   */
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private isDuplicateKeyError(error: unknown): boolean {
+    return (error as { code?: number }).code === 11000;
+  }
+}
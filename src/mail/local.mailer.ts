@@ -0,0 +1,38 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { mkdir, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { Mailer, MailMessage } from './mailer';
+
+/**
+ * 本地邮件发送器
+ *
+ * 不真正发送邮件：把邮件写入日志，配置了 MAIL_OUTBOX_DIR 时同时写入该目录
+ * （每封邮件一个 JSON 文件，文件名为 `{时间戳}-{收件人}.json`），测试时可以从目录中读取邮件内容。
+ */
+@Injectable()
+export class LocalMailer implements Mailer {
+  private readonly logger = new Logger(LocalMailer.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async send(message: MailMessage): Promise<void> {
+    this.logger.log(
+      `📧 邮件(本地): to=${message.to}, subject=${message.subject}\n${message.text}`,
+    );
+
+    const outboxDir = this.configService.get<string>('MAIL_OUTBOX_DIR');
+    if (!outboxDir) {
+      return;
+    }
+
+    const dir = resolve(outboxDir);
+    await mkdir(dir, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^\w.@-]/g, '_')}.json`;
+    await writeFile(
+      join(dir, fileName),
+      JSON.stringify({ ...message, sentAt: new Date() }, null, 2),
+      'utf8',
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAILER } from './mailer';
+import { LocalMailer } from './local.mailer';
+import { SmtpMailer } from './smtp.mailer';
+
+@Module({
+  providers: [
+    LocalMailer,
+    SmtpMailer,
+    {
+      // 邮件发送器：默认本地（日志/文件），生产环境配置为 smtp
+      provide: MAILER,
+      useFactory: (
+        configService: ConfigService,
+        localMailer: LocalMailer,
+        smtpMailer: SmtpMailer,
+      ) =>
+        configService.get<string>('MAIL_TRANSPORT') === 'smtp'
+          ? smtpMailer
+          : localMailer,
+      inject: [ConfigService, LocalMailer, SmtpMailer],
+    },
+  ],
+  exports: [MAILER],
+})
+export class MailModule {}
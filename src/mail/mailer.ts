@@ -0,0 +1,34 @@
+/**
+ * 邮件发送器的注入令牌
+ */
+export const MAILER = 'MAILER';
+
+/**
+ * 邮件
+ */
+export interface MailMessage {
+  /** 收件人邮箱 */
+  to: string;
+
+  /** 主题 */
+  subject: string;
+
+  /** 纯文本正文 */
+  text: string;
+
+  /** HTML 正文（可选，提供时作为 text 的替代版本一起发送） */
+  html?: string;
+}
+
+/**
+ * 邮件发送器
+ *
+ * 由 MAIL_TRANSPORT 选择实现：smtp 通过 SMTP 服务器发送（SmtpMailer），
+ * local 写入本地目录并记录日志（LocalMailer），用于开发和测试环境。
+ */
+export interface Mailer {
+  /**
+   * 发送邮件，发送失败时抛出异常
+   */
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,301 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import * as net from 'net';
+import * as tls from 'tls';
+import { Mailer, MailMessage } from './mailer';
+
+/** 单次 SMTP 会话的超时时间（毫秒） */
+const SMTP_TIMEOUT_MS = 30000;
+
+/**
+ * SMTP 服务器配置
+ */
+interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // true：直接使用 TLS 连接（465）；false：连接后通过 STARTTLS 升级（587/25）
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+/**
+ * SMTP 响应
+ */
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * SMTP 邮件发送器
+ *
+ * 配置：SMTP_HOST、SMTP_PORT、SMTP_SECURE、SMTP_USER、SMTP_PASS、MAIL_FROM。
+ * 每封邮件建立一次连接，支持 TLS 直连和 STARTTLS，使用 AUTH LOGIN 认证，正文按 UTF-8 + base64 编码。
+ */
+@Injectable()
+export class SmtpMailer implements Mailer {
+  private readonly logger = new Logger(SmtpMailer.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const options = this.getOptions();
+    const session = new SmtpSession(options);
+
+    try {
+      await session.connect();
+      await session.send(message);
+      this.logger.log(
+        `✅ 邮件已发送: to=${message.to}, subject=${message.subject}`,
+      );
+    } finally {
+      session.close();
+    }
+  }
+
+  private getOptions(): SmtpOptions {
+    const host = this.configService.get<string>('SMTP_HOST');
+    if (!host) {
+      throw new Error('SMTP_HOST 未配置');
+    }
+
+    const secure =
+      String(this.configService.get('SMTP_SECURE') ?? 'true') === 'true';
+    const user = this.configService.get<string>('SMTP_USER');
+
+    return {
+      host,
+      port: Number(this.configService.get('SMTP_PORT') ?? (secure ? 465 : 587)),
+      secure,
+      user,
+      pass: this.configService.get<string>('SMTP_PASS'),
+      from: this.configService.get<string>('MAIL_FROM') || user || '',
+    };
+  }
+}
+
+/**
+ * 一次 SMTP 会话（连接 → EHLO → [STARTTLS] → AUTH → 发信 → QUIT）
+ */
+class SmtpSession {
+  private socket?: net.Socket;
+  private buffer = '';
+  private pending?: {
+    resolve: (reply: SmtpReply) => void;
+    reject: (error: Error) => void;
+  };
+  private error?: Error;
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  async connect() {
+    const { host, port, secure } = this.options;
+
+    const socket = secure
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+    await this.waitConnected(socket, secure ? 'secureConnect' : 'connect');
+    this.attach(socket);
+
+    this.expect(await this.read(), [220]);
+    let capabilities = await this.ehlo();
+
+    if (!secure && capabilities.includes('STARTTLS')) {
+      await this.command('STARTTLS', [220]);
+      const upgraded = tls.connect({ socket, servername: host });
+      this.detach(socket);
+      await this.waitConnected(upgraded, 'secureConnect');
+      this.attach(upgraded);
+      capabilities = await this.ehlo();
+    }
+
+    if (this.options.user && capabilities.includes('AUTH')) {
+      await this.command('AUTH LOGIN', [334]);
+      await this.command(this.base64(this.options.user), [334]);
+      await this.command(this.base64(this.options.pass ?? ''), [235]);
+    }
+  }
+
+  async send(message: MailMessage) {
+    await this.command(`MAIL FROM:<${this.address(this.options.from)}>`, [250]);
+    await this.command(`RCPT TO:<${message.to}>`, [250, 251]);
+    await this.command('DATA', [354]);
+    await this.command(`${this.build(message)}\r\n.`, [250]);
+    await this.command('QUIT', [221]).catch(() => undefined);
+  }
+
+  close() {
+    this.socket?.destroy();
+  }
+
+  private async ehlo(): Promise<string> {
+    const reply = await this.command('EHLO localhost', [250]);
+    return reply.lines.join('\n').toUpperCase();
+  }
+
+  private async command(line: string, codes: number[]): Promise<SmtpReply> {
+    this.socket!.write(`${line}\r\n`);
+    return this.expect(await this.read(), codes);
+  }
+
+  private expect(reply: SmtpReply, codes: number[]): SmtpReply {
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP 错误: ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  private read(): Promise<SmtpReply> {
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  /**
+   * 缓冲区中有完整响应时交给等待中的 read（多行响应以 `250-` 开头，最后一行为 `250 `）
+   */
+  private flush() {
+    if (!this.pending) {
+      return;
+    }
+
+    const lines = this.buffer.split('\r\n');
+    for (let i = 0; i < lines.length - 1; i++) {
+      if (/^\d{3}(?: |$)/.test(lines[i])) {
+        this.buffer = lines.slice(i + 1).join('\r\n');
+        const { resolve } = this.pending;
+        this.pending = undefined;
+        resolve({
+          code: Number(lines[i].slice(0, 3)),
+          lines: lines.slice(0, i + 1),
+        });
+        return;
+      }
+    }
+  }
+
+  private attach(socket: net.Socket) {
+    this.socket = socket;
+    socket.setEncoding('utf8');
+    socket.setTimeout(SMTP_TIMEOUT_MS);
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.flush();
+    });
+    socket.on('timeout', () => this.fail(new Error('SMTP 连接超时')));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP 连接已关闭')));
+  }
+
+  private detach(socket: net.Socket) {
+    socket.removeAllListeners('data');
+    socket.removeAllListeners('timeout');
+    socket.removeAllListeners('error');
+    socket.removeAllListeners('close');
+    socket.setTimeout(0);
+  }
+
+  private fail(error: Error) {
+    this.error = this.error ?? error;
+    if (this.pending) {
+      const { reject } = this.pending;
+      this.pending = undefined;
+      reject(error);
+    }
+  }
+
+  private waitConnected(socket: net.Socket, event: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new Error('SMTP 连接超时'));
+      }, SMTP_TIMEOUT_MS);
+      socket.once(event, () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      socket.once('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * 生成邮件内容（有 HTML 正文时使用 multipart/alternative）
+   */
+  private build(message: MailMessage): string {
+    const headers = [
+      `From: ${this.encodeAddress(this.options.from)}`,
+      `To: ${message.to}`,
+      `Subject: =?UTF-8?B?${this.base64(message.subject)}?=`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${randomBytes(16).toString('hex')}@${this.options.host}>`,
+      'MIME-Version: 1.0',
+    ];
+
+    if (!message.html) {
+      return [
+        ...headers,
+        'Content-Type: text/plain; charset=UTF-8',
+        'Content-Transfer-Encoding: base64',
+        '',
+        this.encodeBody(message.text),
+      ].join('\r\n');
+    }
+
+    const boundary = `----=_Part_${randomBytes(12).toString('hex')}`;
+    return [
+      ...headers,
+      `Content-Type: multipart/alternative; boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      this.encodeBody(message.text),
+      `--${boundary}`,
+      'Content-Type: text/html; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      this.encodeBody(message.html),
+      `--${boundary}--`,
+    ].join('\r\n');
+  }
+
+  /**
+   * base64 编码正文，按 76 个字符换行
+   */
+  private encodeBody(content: string): string {
+    return this.base64(content).replace(/.{76}/g, '$&\r\n');
+  }
+
+  private base64(value: string): string {
+    return Buffer.from(value, 'utf8').toString('base64');
+  }
+
+  /**
+   * 编码 `名字 <邮箱>` 中的名字（名字可能包含中文）
+   */
+  private encodeAddress(value: string): string {
+    const match = /^"?(.*?)"?\s*<([^>]+)>$/.exec(value);
+    if (!match?.[1]) {
+      return value;
+    }
+    return `=?UTF-8?B?${this.base64(match[1])}?= <${match[2]}>`;
+  }
+
+  /**
+   * 从 `名字 <邮箱>` 格式中取出邮箱
+   */
+  private address(from: string): string {
+    return /<([^>]+)>/.exec(from)?.[1] ?? from;
+  }
+}
@@ -0,0 +1,20 @@
+import { IsEnum, IsMobilePhone } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { OtpPurpose } from '../otp-code.schema';
+
+export class SendOtpDto {
+  @ApiProperty({
+    description: '手机号（中国大陆）',
+    example: '13800138000',
+  })
+  @IsMobilePhone('zh-CN')
+  phone: string;
+
+  @ApiProperty({
+    description: '用途：login 手机号登录，verify_phone 验证并绑定手机号',
+    enum: OtpPurpose,
+    example: OtpPurpose.LOGIN,
+  })
+  @IsEnum(OtpPurpose)
+  purpose: OtpPurpose;
+}
@@ -0,0 +1,54 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type OtpCodeDocument = OtpCode & Document;
+
+/**
+ * 验证码用途
+ */
+export enum OtpPurpose {
+  LOGIN = 'login', // 手机号登录（未注册时自动注册）
+  VERIFY_PHONE = 'verify_phone', // 验证并绑定手机号
+}
+
+/**
+ * 短信验证码 Schema
+ *
+ * - 只保存验证码的 HMAC，不保存明文
+ * - 每条记录对应一次发送，同时用于按手机号和 IP 统计发送次数（记录保留 24 小时后由 TTL 索引清理）
+ * - 同一手机号、同一用途只有最新一条验证码有效，校验失败次数达到上限后作废
+ */
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class OtpCode {
+  @Prop({ required: true })
+  phone: string; // 手机号
+
+  @Prop({ required: true, enum: OtpPurpose })
+  purpose: OtpPurpose; // 用途
+
+  @Prop({ required: true })
+  codeHash: string; // 验证码的 HMAC
+
+  @Prop({ required: true })
+  expiresAt: Date; // 过期时间
+
+  @Prop({ default: 0 })
+  attempts: number; // 校验失败次数
+
+  @Prop()
+  consumedAt?: Date; // 校验通过时间
+
+  @Prop()
+  revokedAt?: Date; // 作废时间（发送了新验证码或失败次数过多）
+
+  @Prop()
+  ip?: string; // 请求发送的 IP
+
+  createdAt?: Date;
+}
+
+export const OtpCodeSchema = SchemaFactory.createForClass(OtpCode);
+
+OtpCodeSchema.index({ phone: 1, purpose: 1, createdAt: -1 });
+OtpCodeSchema.index({ ip: 1, createdAt: -1 });
+OtpCodeSchema.index({ createdAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
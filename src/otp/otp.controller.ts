@@ -0,0 +1,25 @@
+import { Body, Controller, Post, Request } from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import type { Request as ExpressRequest } from 'express';
+import { OtpService } from './otp.service';
+import { SendOtpDto } from './dto/send-otp.dto';
+import { ResponseUtil } from '../common/utils/response.util';
+import { Public } from '../auth/public.decorator';
+
+@ApiTags('短信验证码')
+@Controller('otp')
+export class OtpController {
+  constructor(private readonly otpService: OtpService) {}
+
+  @Post('send')
+  @Public()
+  @ApiOperation({
+    summary: '发送短信验证码',
+    description:
+      '同一手机号 60 秒内只能发送一次，并按手机号和 IP 限制发送次数；新验证码发送后旧验证码失效',
+  })
+  async send(@Body() dto: SendOtpDto, @Request() req: ExpressRequest) {
+    const result = await this.otpService.send(dto.phone, dto.purpose, req.ip);
+    return ResponseUtil.success(result, '验证码已发送');
+  }
+}
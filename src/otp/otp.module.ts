@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { OtpController } from './otp.controller';
+import { OtpService } from './otp.service';
+import { OtpCode, OtpCodeSchema } from './otp-code.schema';
+import { SMS_PROVIDER } from './providers/sms.provider';
+import { ConsoleSmsProvider } from './providers/console-sms.provider';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: OtpCode.name, schema: OtpCodeSchema }]),
+  ],
+  controllers: [OtpController],
+  providers: [
+    OtpService,
+    {
+      // 短信发送渠道：默认写入日志，接入短信服务后替换为对应实现
+      provide: SMS_PROVIDER,
+      useClass: ConsoleSmsProvider,
+    },
+  ],
+  exports: [OtpService],
+})
+export class OtpModule {}
@@ -0,0 +1,188 @@
+import { BadRequestException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { mockQuery } from '../../test/mock-query';
+import { OtpCode, OtpPurpose } from './otp-code.schema';
+import { OtpService } from './otp.service';
+import { SMS_PROVIDER } from './providers/sms.provider';
+
+describe('OtpService', () => {
+  let service: OtpService;
+  const otpCodeModel = {
+    findOne: jest.fn(),
+    countDocuments: jest.fn(),
+    updateMany: jest.fn(),
+    updateOne: jest.fn(),
+    create: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+  };
+  const smsProvider = {
+    sendVerificationCode: jest.fn(),
+  };
+  const config: Record<string, unknown> = {};
+
+  const phone = '13800138000';
+  const purpose = OtpPurpose.LOGIN;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    for (const key of Object.keys(config)) {
+      delete config[key];
+    }
+    otpCodeModel.findOne.mockReturnValue(mockQuery(null));
+    otpCodeModel.countDocuments.mockResolvedValue(0);
+    otpCodeModel.create.mockImplementation((doc: object) =>
+      Promise.resolve({ _id: 'otp1', ...doc }),
+    );
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        OtpService,
+        { provide: getModelToken(OtpCode.name), useValue: otpCodeModel },
+        { provide: SMS_PROVIDER, useValue: smsProvider },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+    service = moduleRef.get(OtpService);
+  });
+
+  describe('send', () => {
+    it('作废旧验证码，只保存验证码的 HMAC', async () => {
+      const result = await service.send(phone, purpose, '1.2.3.4');
+
+      const [{ code }] = smsProvider.sendVerificationCode.mock.calls[0] as [
+        { code: string },
+      ];
+      const [saved] = otpCodeModel.create.mock.calls[0] as [
+        { codeHash: string },
+      ];
+      expect(code).toMatch(/^\d{6}$/);
+      expect(saved.codeHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(saved.codeHash).not.toContain(code);
+      expect(otpCodeModel.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ phone, purpose }),
+        { $set: { revokedAt: expect.any(Date) as unknown } },
+      );
+      expect(result).toEqual({ expiresIn: 300, resendAfter: 60 });
+    });
+
+    it('发送间隔内重复发送返回 429', async () => {
+      otpCodeModel.findOne.mockReturnValue(
+        mockQuery({ createdAt: new Date(Date.now() - 30 * 1000) }),
+      );
+
+      await expect(service.send(phone, purpose)).rejects.toMatchObject({
+        status: HttpStatus.TOO_MANY_REQUESTS,
+      });
+      expect(otpCodeModel.create).not.toHaveBeenCalled();
+    });
+
+    it('手机号每日次数和 IP 每小时次数达到上限时返回 429', async () => {
+      config.OTP_MAX_PER_PHONE_PER_DAY = 3;
+      otpCodeModel.countDocuments.mockResolvedValueOnce(3);
+      await expect(service.send(phone, purpose)).rejects.toThrow(
+        '该手机号今日获取验证码次数已达上限',
+      );
+
+      otpCodeModel.countDocuments
+        .mockResolvedValueOnce(0)
+        .mockResolvedValueOnce(30);
+      await expect(service.send(phone, purpose, '1.2.3.4')).rejects.toThrow(
+        '获取验证码过于频繁，请稍后再试',
+      );
+      expect(otpCodeModel.countDocuments).toHaveBeenLastCalledWith({
+        ip: '1.2.3.4',
+        createdAt: { $gt: expect.any(Date) as unknown },
+      });
+      expect(otpCodeModel.create).not.toHaveBeenCalled();
+    });
+
+    it('短信发送失败时作废验证码', async () => {
+      smsProvider.sendVerificationCode.mockRejectedValue(new Error('欠费'));
+
+      await expect(service.send(phone, purpose)).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+      expect(otpCodeModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'otp1' },
+        { $set: { revokedAt: expect.any(Date) as unknown } },
+      );
+    });
+  });
+
+  describe('verify', () => {
+    let code: string;
+    let codeHash: string;
+
+    beforeEach(async () => {
+      await service.send(phone, purpose);
+      [{ code }] = smsProvider.sendVerificationCode.mock.calls[0] as [
+        { code: string },
+      ];
+      [{ codeHash }] = otpCodeModel.create.mock.calls[0] as [
+        { codeHash: string },
+      ];
+    });
+
+    const latestCode = (attempts: number) =>
+      otpCodeModel.findOneAndUpdate.mockReturnValue(
+        mockQuery({ _id: 'otp1', codeHash, attempts }),
+      );
+
+    it('验证码正确时标记为已使用', async () => {
+      latestCode(1);
+      otpCodeModel.updateOne.mockResolvedValue({ modifiedCount: 1 });
+
+      await service.verify(phone, purpose, code);
+
+      expect(otpCodeModel.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ phone, purpose, attempts: { $lt: 5 } }),
+        { $inc: { attempts: 1 } },
+        { sort: { createdAt: -1 }, new: true },
+      );
+      expect(otpCodeModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'otp1', consumedAt: { $exists: false } },
+        { $set: { consumedAt: expect.any(Date) as unknown } },
+      );
+    });
+
+    it('验证码已被并发请求使用时校验失败', async () => {
+      latestCode(1);
+      otpCodeModel.updateOne.mockResolvedValue({ modifiedCount: 0 });
+
+      await expect(service.verify(phone, purpose, code)).rejects.toThrow(
+        '验证码已失效，请重新获取',
+      );
+    });
+
+    it('验证码错误时不作废，最后一次尝试失败后作废', async () => {
+      const wrong = code === '000000' ? '111111' : '000000';
+
+      latestCode(2);
+      await expect(service.verify(phone, purpose, wrong)).rejects.toThrow(
+        '验证码错误',
+      );
+      expect(otpCodeModel.updateOne).not.toHaveBeenCalled();
+
+      latestCode(5);
+      await expect(service.verify(phone, purpose, wrong)).rejects.toThrow(
+        '验证码错误次数过多，请重新获取',
+      );
+      expect(otpCodeModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'otp1' },
+        { $set: { revokedAt: expect.any(Date) as unknown } },
+      );
+    });
+
+    it('没有可用的验证码时校验失败', async () => {
+      otpCodeModel.findOneAndUpdate.mockReturnValue(mockQuery(null));
+
+      await expect(service.verify(phone, purpose, code)).rejects.toThrow(
+        '验证码已失效，请重新获取',
+      );
+    });
+  });
+});
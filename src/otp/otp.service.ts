@@ -0,0 +1,212 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { createHmac, randomInt, timingSafeEqual } from 'crypto';
+import { OtpCode, OtpCodeDocument, OtpPurpose } from './otp-code.schema';
+import { SMS_PROVIDER } from './providers/sms.provider';
+import type { SmsProvider } from './providers/sms.provider';
+
+/**
+ * 短信验证码
+ *
+ * - 发送：按手机号限制发送间隔（OTP_RESEND_INTERVAL_SECONDS）和每日次数（OTP_MAX_PER_PHONE_PER_DAY），
+ *   按 IP 限制每小时次数（OTP_MAX_PER_IP_PER_HOUR）；发送新验证码时作废同一用途的旧验证码
+ * - 校验：验证码 OTP_CODE_TTL_SECONDS 内有效，只能使用一次，失败 OTP_MAX_ATTEMPTS 次后作废
+ */
+@Injectable()
+export class OtpService {
+  private readonly logger = new Logger(OtpService.name);
+
+  constructor(
+    @InjectModel(OtpCode.name)
+    private readonly otpCodeModel: Model<OtpCodeDocument>,
+    @Inject(SMS_PROVIDER)
+    private readonly smsProvider: SmsProvider,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * 发送验证码
+   * @returns 验证码有效期和下次可发送的等待时间（秒）
+   */
+  async send(phone: string, purpose: OtpPurpose, ip?: string) {
+    const ttlSeconds = this.getNumber('OTP_CODE_TTL_SECONDS', 300);
+    const resendIntervalSeconds = this.getNumber(
+      'OTP_RESEND_INTERVAL_SECONDS',
+      60,
+    );
+
+    await this.checkThrottle(phone, purpose, ip, resendIntervalSeconds);
+
+    const now = new Date();
+    await this.otpCodeModel.updateMany(
+      {
+        phone,
+        purpose,
+        consumedAt: { $exists: false },
+        revokedAt: { $exists: false },
+      },
+      { $set: { revokedAt: now } },
+    );
+
+    const code = randomInt(0, 1000000).toString().padStart(6, '0');
+    const otpCode = await this.otpCodeModel.create({
+      phone,
+      purpose,
+      codeHash: this.hash(phone, purpose, code),
+      expiresAt: new Date(now.getTime() + ttlSeconds * 1000),
+      ip,
+    });
+
+    try {
+      await this.smsProvider.sendVerificationCode({
+        phone,
+        code,
+        purpose,
+        ttlMinutes: Math.ceil(ttlSeconds / 60),
+      });
+    } catch (error) {
+      // 发送失败的验证码作废，但仍计入发送次数，避免借发送失败绕过限流
+      await this.otpCodeModel.updateOne(
+        { _id: otpCode._id },
+        { $set: { revokedAt: new Date() } },
+      );
+      this.logger.error(
+        `❌ 验证码短信发送失败: phone=${this.mask(phone)}, error=${(error as Error).message}`,
+      );
+      throw new BadRequestException('验证码发送失败，请稍后重试');
+    }
+
+    this.logger.log(
+      `📱 验证码已发送: phone=${this.mask(phone)}, purpose=${purpose}`,
+    );
+    return { expiresIn: ttlSeconds, resendAfter: resendIntervalSeconds };
+  }
+
+  /**
+   * 校验验证码（校验通过后验证码失效），验证码错误或已失效时抛出异常
+   */
+  async verify(phone: string, purpose: OtpPurpose, code: string) {
+    const maxAttempts = this.getNumber('OTP_MAX_ATTEMPTS', 5);
+
+    // 🔒 以未使用、未作废、未超过失败次数为条件先计一次尝试，并发请求不能绕过次数限制
+    const otpCode = await this.otpCodeModel
+      .findOneAndUpdate(
+        {
+          phone,
+          purpose,
+          consumedAt: { $exists: false },
+          revokedAt: { $exists: false },
+          expiresAt: { $gt: new Date() },
+          attempts: { $lt: maxAttempts },
+        },
+        { $inc: { attempts: 1 } },
+        { sort: { createdAt: -1 }, new: true },
+      )
+      .lean();
+    if (!otpCode) {
+      throw new BadRequestException('验证码已失效，请重新获取');
+    }
+
+    const expected = Buffer.from(otpCode.codeHash, 'hex');
+    const actual = Buffer.from(this.hash(phone, purpose, code), 'hex');
+    if (!timingSafeEqual(expected, actual)) {
+      if (otpCode.attempts >= maxAttempts) {
+        await this.otpCodeModel.updateOne(
+          { _id: otpCode._id },
+          { $set: { revokedAt: new Date() } },
+        );
+        throw new BadRequestException('验证码错误次数过多，请重新获取');
+      }
+      throw new BadRequestException('验证码错误');
+    }
+
+    const consumed = await this.otpCodeModel.updateOne(
+      { _id: otpCode._id, consumedAt: { $exists: false } },
+      { $set: { consumedAt: new Date() } },
+    );
+    if (!consumed.modifiedCount) {
+      throw new BadRequestException('验证码已失效，请重新获取');
+    }
+  }
+
+  /**
+   * 检查发送频率
+   */
+  private async checkThrottle(
+    phone: string,
+    purpose: OtpPurpose,
+    ip: string | undefined,
+    resendIntervalSeconds: number,
+  ) {
+    const now = Date.now();
+
+    const latest = await this.otpCodeModel
+      .findOne({ phone, purpose })
+      .sort({ createdAt: -1 })
+      .select('createdAt')
+      .lean();
+    if (
+      latest?.createdAt &&
+      now - latest.createdAt.getTime() < resendIntervalSeconds * 1000
+    ) {
+      throw new HttpException(
+        '验证码发送过于频繁，请稍后再试',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    const sentToday = await this.otpCodeModel.countDocuments({
+      phone,
+      createdAt: { $gt: new Date(now - 24 * 60 * 60 * 1000) },
+    });
+    if (sentToday >= this.getNumber('OTP_MAX_PER_PHONE_PER_DAY', 10)) {
+      throw new HttpException(
+        '该手机号今日获取验证码次数已达上限',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    if (ip) {
+      const sentThisHour = await this.otpCodeModel.countDocuments({
+        ip,
+        createdAt: { $gt: new Date(now - 60 * 60 * 1000) },
+      });
+      if (sentThisHour >= this.getNumber('OTP_MAX_PER_IP_PER_HOUR', 30)) {
+        this.logger.warn(`⚠️ IP 获取验证码过于频繁: ip=${ip}`);
+        throw new HttpException(
+          '获取验证码过于频繁，请稍后再试',
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+    }
+  }
+
+  private hash(phone: string, purpose: OtpPurpose, code: string): string {
+    const secret =
+      this.configService.get<string>('OTP_SECRET') ||
+      `${this.configService.get<string>('JWT_SECRET') || 'mmx-secret'}:otp`;
+    return createHmac('sha256', secret)
+      .update(`${phone}:${purpose}:${code}`)
+      .digest('hex');
+  }
+
+  private getNumber(key: string, defaultValue: number): number {
+    return Number(this.configService.get(key) ?? defaultValue);
+  }
+
+  /**
+   * 日志中隐藏手机号中间四位
+   */
+  private mask(phone: string): string {
+    return phone.replace(/^(\d{3})\d{4}(\d+)$/, '$1****$2');
+  }
+}
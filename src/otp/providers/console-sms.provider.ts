@@ -0,0 +1,18 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { SmsProvider, SmsVerificationCode } from './sms.provider';
+
+/**
+ * 控制台短信渠道
+ * 只把验证码写入日志，用于开发和测试环境，以及尚未接入短信服务时
+ */
+@Injectable()
+export class ConsoleSmsProvider implements SmsProvider {
+  private readonly logger = new Logger(ConsoleSmsProvider.name);
+
+  sendVerificationCode(message: SmsVerificationCode): Promise<void> {
+    this.logger.log(
+      `📱 验证码短信: phone=${message.phone}, purpose=${message.purpose}, code=${message.code}, ttl=${message.ttlMinutes}分钟`,
+    );
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * 短信发送渠道的注入令牌
+ */
+export const SMS_PROVIDER = 'SMS_PROVIDER';
+
+/**
+ * 验证码短信
+ */
+export interface SmsVerificationCode {
+  /** 手机号 */
+  phone: string;
+
+  /** 验证码 */
+  code: string;
+
+  /** 用途（不同用途可以使用不同的短信模板） */
+  purpose: string;
+
+  /** 有效期（分钟） */
+  ttlMinutes: number;
+}
+
+/**
+ * 短信发送渠道
+ *
+ * 默认实现只把验证码写入日志（ConsoleSmsProvider），接入阿里云、腾讯云等短信服务时提供新的实现即可。
+ */
+export interface SmsProvider {
+  /**
+   * 发送验证码短信，发送失败时抛出异常
+   */
+  sendVerificationCode(message: SmsVerificationCode): Promise<void>;
+}
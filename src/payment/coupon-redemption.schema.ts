@@ -0,0 +1,59 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type CouponRedemptionDocument = CouponRedemption & Document;
+
+export enum CouponRedemptionStatus {
+  // 已下单，占用次数
+  RESERVED = 'reserved',
+  // 已支付，核销完成
+  REDEEMED = 'redeemed',
+  // 订单关闭或全额退款，已释放次数
+  RELEASED = 'released',
+}
+
+/**
+ * 优惠码核销记录 Schema
+ * 下单时写入占用记录，支付成功后标记为已核销，每个订单最多一条（用于统计总占用次数和每个用户的占用次数）
+ */
+@Schema({ timestamps: true })
+export class CouponRedemption {
+  @Prop({ required: true, index: true })
+  code: string; // 优惠码
+
+  @Prop({ required: true, unique: true })
+  orderId: string; // 支付订单ID
+
+  @Prop({ required: true, index: true })
+  userId: string; // 用户ID
+
+  @Prop()
+  planId?: string; // 套餐ID
+
+  @Prop({ required: true })
+  originalAmount: number; // 原价（元）
+
+  @Prop({ required: true })
+  discountAmount: number; // 优惠金额（元）
+
+  @Prop({ required: true })
+  paidAmount: number; // 实付金额（元）
+
+  @Prop({
+    type: String,
+    enum: CouponRedemptionStatus,
+    default: CouponRedemptionStatus.RESERVED,
+  })
+  status: CouponRedemptionStatus; // 核销状态（没有状态的历史记录都是已核销）
+
+  @Prop()
+  redeemedAt?: Date; // 核销时间（支付完成时间）
+
+  @Prop()
+  releasedAt?: Date; // 释放时间
+}
+
+export const CouponRedemptionSchema =
+  SchemaFactory.createForClass(CouponRedemption);
+
+CouponRedemptionSchema.index({ code: 1, userId: 1 });
@@ -0,0 +1,57 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type CouponDocument = Coupon & Document;
+
+/**
+ * 优惠方式
+ */
+export enum CouponDiscountType {
+  PERCENTAGE = 'percentage', // 按比例减免（discountValue 为减免的百分比，如 20 表示减 20%）
+  FIXED = 'fixed', // 固定金额减免（discountValue 为减免的金额，单位：元）
+}
+
+/**
+ * 优惠码 Schema
+ * 下单时校验并计算实付金额，支付成功后才记录核销
+ */
+@Schema({ timestamps: true })
+export class Coupon {
+  @Prop({ required: true, unique: true, uppercase: true, trim: true })
+  code: string; // 优惠码（统一大写）
+
+  @Prop({ required: true })
+  name: string; // 活动名称
+
+  @Prop()
+  description?: string; // 活动描述
+
+  @Prop({ required: true, enum: CouponDiscountType })
+  discountType: CouponDiscountType; // 优惠方式
+
+  @Prop({ required: true })
+  discountValue: number; // 优惠力度（百分比或金额）
+
+  @Prop({ type: [String], default: [] })
+  planIds: string[]; // 适用的套餐ID（为空表示适用全部购买套餐）
+
+  @Prop()
+  maxRedemptions?: number; // 总核销次数上限（为空表示不限制）
+
+  @Prop({ default: 1 })
+  maxRedemptionsPerUser: number; // 每个用户的核销次数上限
+
+  @Prop({ default: 0 })
+  redeemedCount: number; // 已占用次数（待支付和已支付的订单，订单关闭或全额退款后释放）
+
+  @Prop()
+  validFrom?: Date; // 生效时间（为空表示立即生效）
+
+  @Prop()
+  validUntil?: Date; // 失效时间（为空表示长期有效）
+
+  @Prop({ default: true })
+  isActive: boolean; // 是否启用
+}
+
+export const CouponSchema = SchemaFactory.createForClass(Coupon);
@@ -0,0 +1,208 @@
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { mockQuery } from '../../test/mock-query';
+import {
+  CouponRedemption,
+  CouponRedemptionStatus,
+} from './coupon-redemption.schema';
+import { Coupon, CouponDiscountType } from './coupon.schema';
+import { CouponService } from './coupon.service';
+
+describe('CouponService', () => {
+  let service: CouponService;
+  const couponModel = {
+    findOne: jest.fn(),
+    updateOne: jest.fn(),
+  };
+  const couponRedemptionModel = {
+    create: jest.fn(),
+    deleteOne: jest.fn(),
+    countDocuments: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+  };
+
+  const coupon = {
+    code: 'SPRING20',
+    discountType: CouponDiscountType.PERCENTAGE,
+    discountValue: 20,
+    maxRedemptions: 100,
+    maxRedemptionsPerUser: 1,
+    redeemedCount: 10,
+    isActive: true,
+  };
+  const appliedCoupon = {
+    code: 'SPRING20',
+    discountType: CouponDiscountType.PERCENTAGE,
+    discountValue: 20,
+    originalAmount: 28.8,
+    discountAmount: 5.76,
+  };
+  const order = {
+    orderId: 'o1',
+    userId: 'u1',
+    planId: 'pro',
+    amount: 23.04,
+    coupon: appliedCoupon,
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        CouponService,
+        { provide: getModelToken(Coupon.name), useValue: couponModel },
+        {
+          provide: getModelToken(CouponRedemption.name),
+          useValue: couponRedemptionModel,
+        },
+      ],
+    }).compile();
+    service = moduleRef.get(CouponService);
+  });
+
+  describe('quote', () => {
+    it('按比例计算优惠后的实付金额', async () => {
+      couponModel.findOne.mockReturnValue(mockQuery(coupon));
+      couponRedemptionModel.countDocuments.mockResolvedValue(0);
+
+      const quote = await service.quote(' spring20 ', 'pro', 28.8, 'u1');
+
+      expect(couponModel.findOne).toHaveBeenCalledWith({
+        code: 'SPRING20',
+        isActive: true,
+      });
+      expect(quote).toEqual({ amount: 23.04, coupon: appliedCoupon });
+    });
+
+    it('已过期、已领完或达到个人上限时拒绝使用', async () => {
+      couponModel.findOne.mockReturnValueOnce(
+        mockQuery({ ...coupon, validUntil: new Date(Date.now() - 1000) }),
+      );
+      await expect(
+        service.quote('SPRING20', 'pro', 28.8, 'u1'),
+      ).rejects.toThrow('优惠码已过期');
+
+      couponModel.findOne.mockReturnValueOnce(
+        mockQuery({ ...coupon, redeemedCount: 100 }),
+      );
+      await expect(
+        service.quote('SPRING20', 'pro', 28.8, 'u1'),
+      ).rejects.toThrow('优惠码已被领完');
+
+      couponModel.findOne.mockReturnValueOnce(mockQuery(coupon));
+      couponRedemptionModel.countDocuments.mockResolvedValueOnce(1);
+      await expect(
+        service.quote('SPRING20', 'pro', 28.8, 'u1'),
+      ).rejects.toThrow('您已达到该优惠码的使用次数上限');
+    });
+  });
+
+  describe('reserve', () => {
+    beforeEach(() => {
+      couponModel.findOne.mockReturnValue(mockQuery(coupon));
+    });
+
+    it('写入占用记录并按上限条件占用总次数', async () => {
+      couponRedemptionModel.countDocuments.mockResolvedValue(1);
+      couponModel.updateOne.mockResolvedValue({ modifiedCount: 1 });
+
+      await service.reserve(order);
+
+      expect(couponRedemptionModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 'SPRING20',
+          orderId: 'o1',
+          status: CouponRedemptionStatus.RESERVED,
+        }),
+      );
+      expect(couponModel.updateOne).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'SPRING20' }),
+        { $inc: { redeemedCount: 1 } },
+      );
+      expect(couponRedemptionModel.deleteOne).not.toHaveBeenCalled();
+    });
+
+    it('同一用户并发下单超过个人上限时撤销占用', async () => {
+      couponRedemptionModel.countDocuments.mockResolvedValue(2);
+
+      await expect(service.reserve(order)).rejects.toThrow(
+        '您已达到该优惠码的使用次数上限',
+      );
+
+      expect(couponRedemptionModel.deleteOne).toHaveBeenCalledWith({
+        orderId: 'o1',
+      });
+      expect(couponModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('总次数已领完时撤销占用', async () => {
+      couponRedemptionModel.countDocuments.mockResolvedValue(1);
+      couponModel.updateOne.mockResolvedValue({ modifiedCount: 0 });
+
+      await expect(service.reserve(order)).rejects.toThrow('优惠码已被领完');
+
+      expect(couponRedemptionModel.deleteOne).toHaveBeenCalledWith({
+        orderId: 'o1',
+      });
+    });
+  });
+
+  describe('recordRedemption', () => {
+    it('下单时已占用次数的订单只标记为已核销', async () => {
+      couponRedemptionModel.findOneAndUpdate.mockReturnValue(
+        mockQuery({ status: CouponRedemptionStatus.RESERVED }),
+      );
+
+      await service.recordRedemption(order);
+
+      expect(couponRedemptionModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { orderId: 'o1' },
+        expect.objectContaining({
+          $set: expect.objectContaining({
+            status: CouponRedemptionStatus.REDEEMED,
+          }) as unknown,
+        }),
+        { upsert: true },
+      );
+      expect(couponModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('占用已释放或没有占用记录时重新计入次数', async () => {
+      couponRedemptionModel.findOneAndUpdate
+        .mockReturnValueOnce(
+          mockQuery({ status: CouponRedemptionStatus.RELEASED }),
+        )
+        .mockReturnValueOnce(mockQuery(null));
+
+      await service.recordRedemption(order);
+      await service.recordRedemption({ ...order, orderId: 'o2' });
+
+      expect(couponModel.updateOne).toHaveBeenCalledTimes(2);
+      expect(couponModel.updateOne).toHaveBeenCalledWith(
+        { code: 'SPRING20' },
+        { $inc: { redeemedCount: 1 } },
+      );
+    });
+  });
+
+  describe('release', () => {
+    it('释放占用的次数，重复调用只释放一次', async () => {
+      couponRedemptionModel.findOneAndUpdate
+        .mockReturnValueOnce(mockQuery({ code: 'SPRING20', orderId: 'o1' }))
+        .mockReturnValueOnce(mockQuery(null));
+
+      await service.release('o1');
+      await service.release('o1');
+
+      expect(couponRedemptionModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { orderId: 'o1', status: { $ne: CouponRedemptionStatus.RELEASED } },
+        expect.anything(),
+      );
+      expect(couponModel.updateOne).toHaveBeenCalledTimes(1);
+      expect(couponModel.updateOne).toHaveBeenCalledWith(
+        { code: 'SPRING20' },
+        { $inc: { redeemedCount: -1 } },
+      );
+    });
+  });
+});
@@ -0,0 +1,401 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Coupon, CouponDiscountType, CouponDocument } from './coupon.schema';
+import {
+  CouponRedemption,
+  CouponRedemptionDocument,
+  CouponRedemptionStatus,
+} from './coupon-redemption.schema';
+import { CreateCouponDto, UpdateCouponDto } from './dto/coupon.dto';
+
+/**
+ * 订单使用的优惠码快照（下单时保存到支付记录中，修改优惠码不影响已创建的订单）
+ */
+export interface AppliedCoupon {
+  code: string;
+  discountType: CouponDiscountType;
+  discountValue: number;
+  originalAmount: number; // 原价（元）
+  discountAmount: number; // 优惠金额（元）
+}
+
+/**
+ * 优惠码试算结果
+ */
+export interface CouponQuote {
+  amount: number; // 实付金额（元）
+  coupon: AppliedCoupon;
+}
+
+// 优惠后的最低实付金额（元）
+const MIN_PAYABLE_AMOUNT = 0.01;
+
+/**
+ * 优惠码服务
+ *
+ * 下单时校验优惠码并计算实付金额（快照保存在订单上），同时占用次数；
+ * 支付成功后标记为已核销，订单过期关闭或全额退款后释放占用的次数。
+ */
+@Injectable()
+export class CouponService {
+  private readonly logger = new Logger(CouponService.name);
+
+  constructor(
+    @InjectModel(Coupon.name)
+    private couponModel: Model<CouponDocument>,
+    @InjectModel(CouponRedemption.name)
+    private couponRedemptionModel: Model<CouponRedemptionDocument>,
+  ) {}
+
+  /**
+   * 校验优惠码并计算优惠后的实付金额
+   * 次数上限按已占用（待支付和已支付）的记录提前校验，下单时由 reserve 原子占用
+   *
+   * @param code 优惠码
+   * @param planId 套餐ID
+   * @param originalAmount 原价（元）
+   * @param userId 用户ID
+   */
+  async quote(
+    code: string,
+    planId: string,
+    originalAmount: number,
+    userId?: string,
+  ): Promise<CouponQuote> {
+    if (!userId) {
+      throw new BadRequestException('使用优惠码需要登录');
+    }
+
+    const coupon = await this.couponModel
+      .findOne({ code: this.normalizeCode(code), isActive: true })
+      .lean();
+    if (!coupon) {
+      throw new BadRequestException('优惠码不存在或已停用');
+    }
+
+    const now = new Date();
+    if (coupon.validFrom && coupon.validFrom > now) {
+      throw new BadRequestException('优惠码尚未生效');
+    }
+    if (coupon.validUntil && coupon.validUntil <= now) {
+      throw new BadRequestException('优惠码已过期');
+    }
+
+    if (coupon.planIds?.length && !coupon.planIds.includes(planId)) {
+      throw new BadRequestException('优惠码不适用于该套餐');
+    }
+
+    if (
+      coupon.maxRedemptions != null &&
+      coupon.redeemedCount >= coupon.maxRedemptions
+    ) {
+      throw new BadRequestException('优惠码已被领完');
+    }
+
+    const userRedemptions = await this.countUserRedemptions(
+      coupon.code,
+      userId,
+    );
+    if (userRedemptions >= coupon.maxRedemptionsPerUser) {
+      throw new BadRequestException('您已达到该优惠码的使用次数上限');
+    }
+
+    const discountAmount = this.calculateDiscount(coupon, originalAmount);
+    const amount = this.round2(originalAmount - discountAmount);
+    if (amount < MIN_PAYABLE_AMOUNT) {
+      throw new BadRequestException('优惠后金额不能低于0.01元');
+    }
+
+    return {
+      amount,
+      coupon: {
+        code: coupon.code,
+        discountType: coupon.discountType,
+        discountValue: coupon.discountValue,
+        originalAmount,
+        discountAmount,
+      },
+    };
+  }
+
+  /**
+   * 占用优惠码次数（下单时调用）
+   * 先写入占用记录再核对该用户的占用次数，总次数按上限条件原子递增，任一超限时撤销占用
+   *
+   * @throws BadRequestException 优惠码已被领完或已达到该用户的使用次数上限
+   */
+  async reserve(order: {
+    orderId: string;
+    userId: string;
+    planId?: string;
+    amount: number;
+    coupon: AppliedCoupon;
+  }): Promise<void> {
+    const { code } = order.coupon;
+    await this.couponRedemptionModel.create({
+      code,
+      orderId: order.orderId,
+      userId: order.userId,
+      planId: order.planId,
+      originalAmount: order.coupon.originalAmount,
+      discountAmount: order.coupon.discountAmount,
+      paidAmount: order.amount,
+      status: CouponRedemptionStatus.RESERVED,
+    });
+
+    // 同一用户并发下单时都会计入对方的占用记录，超过上限的一方撤销
+    const coupon = await this.couponModel
+      .findOne({ code })
+      .select('maxRedemptionsPerUser')
+      .lean();
+    const userRedemptions = await this.countUserRedemptions(code, order.userId);
+    if (!coupon || userRedemptions > coupon.maxRedemptionsPerUser) {
+      await this.couponRedemptionModel.deleteOne({ orderId: order.orderId });
+      throw new BadRequestException('您已达到该优惠码的使用次数上限');
+    }
+
+    // 🔒 总次数未达上限时才占用
+    const claimed = await this.couponModel.updateOne(
+      {
+        code,
+        $or: [
+          { maxRedemptions: null },
+          { $expr: { $lt: ['$redeemedCount', '$maxRedemptions'] } },
+        ],
+      },
+      { $inc: { redeemedCount: 1 } },
+    );
+    if (!claimed.modifiedCount) {
+      await this.couponRedemptionModel.deleteOne({ orderId: order.orderId });
+      throw new BadRequestException('优惠码已被领完');
+    }
+
+    this.logger.log(
+      `优惠码已占用: code=${code}, orderId=${order.orderId}, userId=${order.userId}`,
+    );
+  }
+
+  /**
+   * 记录优惠码核销（支付成功后调用，同一订单重复调用只记录一次）
+   * 下单时已占用次数的订单只标记为已核销；占用已释放（订单关闭后又支付成功）或
+   * 没有占用记录的历史订单重新计入次数（已付款的订单不能再拒绝优惠）
+   * 核销失败只记录日志，不影响订单支付结果
+   */
+  async recordRedemption(order: {
+    orderId: string;
+    userId?: string;
+    planId?: string;
+    amount: number;
+    coupon?: AppliedCoupon;
+    paidAt?: Date;
+  }): Promise<void> {
+    if (!order.coupon || !order.userId) {
+      return;
+    }
+
+    try {
+      const previous = await this.couponRedemptionModel
+        .findOneAndUpdate(
+          { orderId: order.orderId },
+          {
+            $set: {
+              status: CouponRedemptionStatus.REDEEMED,
+              paidAmount: order.amount,
+              redeemedAt: order.paidAt || new Date(),
+            },
+            $unset: { releasedAt: '' },
+            $setOnInsert: {
+              code: order.coupon.code,
+              orderId: order.orderId,
+              userId: order.userId,
+              planId: order.planId,
+              originalAmount: order.coupon.originalAmount,
+              discountAmount: order.coupon.discountAmount,
+            },
+          },
+          { upsert: true },
+        )
+        .lean();
+
+      if (!previous || previous.status === CouponRedemptionStatus.RELEASED) {
+        await this.couponModel.updateOne(
+          { code: order.coupon.code },
+          { $inc: { redeemedCount: 1 } },
+        );
+      }
+
+      if (previous?.status !== CouponRedemptionStatus.REDEEMED) {
+        this.logger.log(
+          `✅ 优惠码核销: code=${order.coupon.code}, orderId=${order.orderId}, userId=${order.userId}`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `❌ 优惠码核销记录失败: code=${order.coupon.code}, orderId=${order.orderId}, error=${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * 释放订单占用的优惠码次数（订单过期关闭或全额退款后调用，重复调用只释放一次）
+   * @param orderId 支付订单ID
+   */
+  async release(orderId: string): Promise<void> {
+    const released = await this.couponRedemptionModel
+      .findOneAndUpdate(
+        { orderId, status: { $ne: CouponRedemptionStatus.RELEASED } },
+        {
+          $set: {
+            status: CouponRedemptionStatus.RELEASED,
+            releasedAt: new Date(),
+          },
+        },
+      )
+      .lean();
+    if (!released) {
+      return;
+    }
+
+    await this.couponModel.updateOne(
+      { code: released.code },
+      { $inc: { redeemedCount: -1 } },
+    );
+    this.logger.log(
+      `优惠码占用已释放: code=${released.code}, orderId=${orderId}`,
+    );
+  }
+
+  /**
+   * 获取全部优惠码（管理后台）
+   */
+  async listAll() {
+    return this.couponModel.find().sort({ createdAt: -1 }).lean();
+  }
+
+  /**
+   * 新增优惠码（管理后台）
+   */
+  async create(dto: CreateCouponDto) {
+    const code = this.normalizeCode(dto.code);
+    const exists = await this.couponModel.exists({ code });
+    if (exists) {
+      throw new ConflictException('优惠码已存在');
+    }
+
+    this.assertDiscount(dto);
+
+    const coupon = await this.couponModel.create({ ...dto, code });
+    this.logger.log(`✅ 新增优惠码: code=${code}`);
+    return coupon.toObject();
+  }
+
+  /**
+   * 修改优惠码（管理后台）
+   * 已创建的订单使用下单时的优惠快照，不受影响
+   */
+  async update(code: string, dto: UpdateCouponDto) {
+    const normalizedCode = this.normalizeCode(code);
+    const existing = await this.couponModel
+      .findOne({ code: normalizedCode })
+      .lean();
+    if (!existing) {
+      throw new NotFoundException('优惠码不存在');
+    }
+
+    this.assertDiscount({ ...existing, ...dto });
+
+    const coupon = await this.couponModel
+      .findOneAndUpdate({ code: normalizedCode }, { $set: dto }, { new: true })
+      .lean();
+
+    this.logger.log(`✅ 修改优惠码: code=${normalizedCode}`);
+    return coupon;
+  }
+
+  /**
+   * 获取优惠码的核销记录（管理后台）
+   */
+  async listRedemptions(
+    code: string,
+    options: { skip?: number; limit?: number } = {},
+  ) {
+    const filter = { code: this.normalizeCode(code) };
+    const [redemptions, total] = await Promise.all([
+      this.couponRedemptionModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip(options.skip ?? 0)
+        .limit(options.limit ?? 20)
+        .lean(),
+      this.couponRedemptionModel.countDocuments(filter),
+    ]);
+
+    return { redemptions, total };
+  }
+
+  /**
+   * 统计用户占用的次数（待支付和已支付的订单）
+   */
+  private countUserRedemptions(code: string, userId: string) {
+    return this.couponRedemptionModel.countDocuments({
+      code,
+      userId,
+      status: { $ne: CouponRedemptionStatus.RELEASED },
+    });
+  }
+
+  /**
+   * 计算优惠金额（保留两位小数，不超过原价）
+   */
+  private calculateDiscount(
+    coupon: Pick<Coupon, 'discountType' | 'discountValue'>,
+    originalAmount: number,
+  ): number {
+    const discount =
+      coupon.discountType === CouponDiscountType.PERCENTAGE
+        ? (originalAmount * coupon.discountValue) / 100
+        : coupon.discountValue;
+    return this.round2(Math.min(Math.max(discount, 0), originalAmount));
+  }
+
+  /**
+   * 校验优惠配置
+   */
+  private assertDiscount(coupon: {
+    discountType?: CouponDiscountType;
+    discountValue?: number;
+    validFrom?: Date | string;
+    validUntil?: Date | string;
+  }) {
+    const value = Number(coupon.discountValue);
+    if (!(value > 0)) {
+      throw new BadRequestException('优惠力度必须大于0');
+    }
+    if (coupon.discountType === CouponDiscountType.PERCENTAGE && value >= 100) {
+      throw new BadRequestException('按比例减免的百分比必须小于100');
+    }
+
+    if (
+      coupon.validFrom &&
+      coupon.validUntil &&
+      new Date(coupon.validFrom) >= new Date(coupon.validUntil)
+    ) {
+      throw new BadRequestException('生效时间必须早于失效时间');
+    }
+  }
+
+  private normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  private round2(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
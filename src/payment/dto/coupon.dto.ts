@@ -0,0 +1,153 @@
+import { ApiProperty, OmitType, PartialType } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { CouponDiscountType } from '../coupon.schema';
+
+/**
+ * 新增优惠码请求 DTO（管理后台）
+ */
+export class CreateCouponDto {
+  @ApiProperty({
+    description: '优惠码（字母、数字、中划线和下划线，不区分大小写）',
+    example: 'SPRING20',
+    maxLength: 32,
+  })
+  @IsString()
+  @IsNotEmpty({ message: '优惠码不能为空' })
+  @MaxLength(32, { message: '优惠码不能超过32个字符' })
+  @Matches(/^[A-Za-z0-9_-]+$/, {
+    message: '优惠码只能包含字母、数字、中划线和下划线',
+  })
+  code: string;
+
+  @ApiProperty({ description: '活动名称', example: '春季特惠', maxLength: 50 })
+  @IsString()
+  @IsNotEmpty({ message: '活动名称不能为空' })
+  @MaxLength(50, { message: '活动名称不能超过50个字符' })
+  name: string;
+
+  @ApiProperty({
+    description: '活动描述',
+    example: '全部套餐8折',
+    required: false,
+    maxLength: 200,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(200, { message: '活动描述不能超过200个字符' })
+  description?: string;
+
+  @ApiProperty({
+    description: '优惠方式：percentage=按比例减免，fixed=固定金额减免',
+    enum: CouponDiscountType,
+    example: CouponDiscountType.PERCENTAGE,
+  })
+  @IsEnum(CouponDiscountType, { message: '优惠方式无效' })
+  discountType: CouponDiscountType;
+
+  @ApiProperty({
+    description:
+      '优惠力度：按比例减免时为减免的百分比（如 20 表示减 20%），固定金额减免时为减免的金额（元）',
+    example: 20,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: '优惠力度最多保留两位小数' })
+  @Min(0.01, { message: '优惠力度必须大于0' })
+  discountValue: number;
+
+  @ApiProperty({
+    description: '适用的套餐ID，不填表示适用全部购买套餐',
+    example: ['pro', 'max'],
+    required: false,
+    type: [String],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  planIds?: string[];
+
+  @ApiProperty({
+    description: '总核销次数上限，不填表示不限制',
+    example: 100,
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  maxRedemptions?: number;
+
+  @ApiProperty({
+    description: '每个用户的核销次数上限',
+    example: 1,
+    default: 1,
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  maxRedemptionsPerUser?: number;
+
+  @ApiProperty({
+    description: '生效时间（ISO 8601，为空表示立即生效）',
+    example: '2026-03-01T00:00:00+08:00',
+    required: false,
+  })
+  @IsDateString({}, { message: '生效时间格式无效' })
+  @IsOptional()
+  validFrom?: string;
+
+  @ApiProperty({
+    description: '失效时间（ISO 8601，为空表示长期有效）',
+    example: '2026-03-31T23:59:59+08:00',
+    required: false,
+  })
+  @IsDateString({}, { message: '失效时间格式无效' })
+  @IsOptional()
+  validUntil?: string;
+
+  @ApiProperty({ description: '是否启用', example: true, required: false })
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
+
+/**
+ * 修改优惠码请求 DTO（管理后台）
+ */
+export class UpdateCouponDto extends PartialType(
+  OmitType(CreateCouponDto, ['code'] as const),
+) {}
+
+/**
+ * 试算优惠码请求 DTO
+ */
+export class ValidateCouponDto {
+  @ApiProperty({ description: '优惠码', example: 'SPRING20' })
+  @IsString()
+  @IsNotEmpty({ message: '优惠码不能为空' })
+  code: string;
+
+  @ApiProperty({ description: '套餐ID', example: 'pro' })
+  @IsString()
+  @IsNotEmpty({ message: '套餐ID不能为空' })
+  planId: string;
+
+  @ApiProperty({
+    description: '订单原价（单位：元），与创建订单时的 amount 一致',
+    example: 28.8,
+  })
+  @IsNumber()
+  @Min(0.01)
+  amount: number;
+}
@@ -1,6 +1,7 @@
 import {
   IsEnum,
   IsIn,
+  IsNotEmpty,
   IsOptional,
   IsString,
   Min,
@@ -15,7 +16,7 @@ export class InitiatePaymentDto {
   @ApiProperty({
     description: '订单ID（可选），如果不提供系统会自动生成',
     example: 'a1b2c3d4-e5f6-7890-abcd-ef1234567890',
-    required: false
+    required: false,
   })
   orderId?: string;
 
@@ -23,29 +24,42 @@ export class InitiatePaymentDto {
   @IsNumber()
   @Min(0.01)
   @ApiProperty({
-    description: '订单金额（单位：元），最小值为0.01。custom套餐支持1-10000元，其他套餐有固定金额：single=18.8, pro=28.8, max=68.8, ultra=128.8',
+    description:
+      '订单金额（单位：元），最小值为0.01。按套餐定价校验：固定价格套餐必须等于套餐价格，自定义金额套餐需在套餐的金额范围内（套餐列表见 GET /payment/plans）',
     example: 28.8,
     minimum: 0.01,
-    required: true
+    required: true,
   })
   amount: number;
 
-  @IsIn(['custom', 'single', 'pro', 'max', 'ultra'])
+  @IsString()
+  @IsNotEmpty({ message: '套餐ID不能为空' })
   @ApiProperty({
-    description: '套餐ID，可选值：custom(自定义充值), single(单次面试), pro(专业版), max(旗舰版), ultra(至尊版)',
+    description:
+      '套餐ID，可选值见 GET /payment/plans，如 custom(自定义充值), single(单次面试), pro(专业版), max(旗舰版), ultra(至尊版)',
     example: 'pro',
-    enum: ['custom', 'single', 'pro', 'max', 'ultra'],
-    required: true
+    required: true,
   })
   planId: string;
 
+  @IsOptional()
   @IsString()
   @ApiProperty({
-    description: '套餐名称，用于显示在订单详情中',
+    description: '套餐名称，用于显示在订单详情中，不填则使用套餐配置的名称',
     example: '专业版套餐',
-    required: true
+    required: false,
   })
-  planName: string;
+  planName?: string;
+
+  @IsOptional()
+  @IsString()
+  @ApiProperty({
+    description:
+      '优惠码（可选）。amount 仍传套餐原价，实付金额由服务端按优惠码计算',
+    example: 'SPRING20',
+    required: false,
+  })
+  couponCode?: string;
 
   // 来源，web, h5
   @IsIn(['web', 'h5'])
@@ -53,7 +67,7 @@ export class InitiatePaymentDto {
     description: '订单来源，标识用户从哪个端发起支付。web=网页端, h5=移动端',
     example: 'web',
     enum: ['web', 'h5'],
-    required: true
+    required: true,
   })
   source: string;
 
@@ -61,26 +75,27 @@ export class InitiatePaymentDto {
   @ApiProperty({
     description: '订单描述，用于说明本次购买的内容',
     example: '购买专业版套餐-包含简历分析+专项面试+行为面试',
-    required: true
+    required: true,
   })
   description: string;
 
   @IsOptional()
   @IsString()
   @ApiProperty({
-    description: '订单货币类型，默认为CNY（人民币）',
+    description: '订单货币类型（以套餐定价的货币为准，当前仅支持CNY）',
     example: 'CNY',
     default: 'CNY',
-    required: false
+    required: false,
   })
   currency?: string;
 
   @IsEnum(PaymentChannel)
   @ApiProperty({
-    description: '支付渠道，目前支持：ALIPAY(支付宝), WECHAT(微信支付), VIRTUAL(虚拟支付-测试用)',
+    description:
+      '支付渠道，目前支持：ALIPAY(支付宝), WECHAT(微信支付), VIRTUAL(虚拟支付-测试用)',
     example: 'ALIPAY',
     enum: PaymentChannel,
-    required: true
+    required: true,
   })
   channel: PaymentChannel;
 
@@ -88,16 +103,27 @@ export class InitiatePaymentDto {
   @ApiProperty({
     description: '订单元数据，可以存储额外的业务信息（JSON对象）',
     example: { userId: '123', campaignId: 'spring2026' },
-    required: false
+    required: false,
   })
   metadata?: Record<string, any>;
 
+  @IsOptional()
+  @IsIn(['native', 'jsapi'])
+  @ApiProperty({
+    description:
+      '微信支付方式（仅微信渠道有效）：native=扫码支付（默认）, jsapi=微信内 / 小程序支付（需要账号已绑定微信）',
+    example: 'native',
+    enum: ['native', 'jsapi'],
+    required: false,
+  })
+  tradeType?: 'native' | 'jsapi';
+
   @IsOptional()
   @IsString()
   @ApiProperty({
     description: '支付成功后的回调通知URL，如果不提供则使用系统默认配置',
     example: 'https://api.example.com/payment/callback',
-    required: false
+    required: false,
   })
   notifyUrl?: string;
 }
@@ -0,0 +1,60 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * 申请退款请求 DTO
+ */
+export class CreateRefundDto {
+  @ApiProperty({
+    description: '要退款的支付订单ID',
+    example: 'a1b2c3d4-e5f6-7890-abcd-ef1234567890',
+  })
+  @IsString()
+  @IsNotEmpty({ message: '订单ID不能为空' })
+  orderId: string;
+
+  @ApiProperty({
+    description:
+      '退款金额（单位：元），不填则退还剩余全部金额。部分退款按比例扣回套餐权益',
+    example: 28.8,
+    minimum: 0.01,
+    required: false,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: '退款金额最多保留两位小数' })
+  @Min(0.01, { message: '退款金额不能小于0.01' })
+  @IsOptional()
+  amount?: number;
+
+  @ApiProperty({
+    description: '退款原因',
+    example: '误购买了套餐',
+    maxLength: 200,
+  })
+  @IsString()
+  @IsNotEmpty({ message: '退款原因不能为空' })
+  @MaxLength(200, { message: '退款原因不能超过200个字符' })
+  reason: string;
+}
+
+/**
+ * 审核退款请求 DTO（管理后台）
+ */
+export class ReviewRefundDto {
+  @ApiProperty({
+    description: '审核备注（驳回时展示给用户）',
+    example: '套餐已使用，不符合退款条件',
+    required: false,
+    maxLength: 200,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(200, { message: '审核备注不能超过200个字符' })
+  remark?: string;
+}
@@ -0,0 +1,265 @@
+import { ApiProperty, OmitType, PartialType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import {
+  PlanPricingMode,
+  PlanType,
+  VIP_UNLIMITED_FIELDS,
+  VipPeriod,
+} from '../plan.schema';
+import type { VipUnlimitedField } from '../plan.schema';
+
+/**
+ * 套餐发放的权益（每个计数器发放的数量）
+ */
+export class PlanBenefitsDto {
+  @ApiProperty({ description: '简历押题次数', example: 1, required: false })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  resumeRemainingCount?: number;
+
+  @ApiProperty({ description: '专项面试次数', example: 1, required: false })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  specialRemainingCount?: number;
+
+  @ApiProperty({ description: '行测+HR面试次数', example: 1, required: false })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  behaviorRemainingCount?: number;
+
+  @ApiProperty({ description: '小麦币', example: 0, required: false })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @IsOptional()
+  maiCoinBalance?: number;
+
+  @ApiProperty({
+    description: '模拟面试时长（分钟，按分钟计费的模拟面试使用）',
+    example: 60,
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  aiInterviewRemainingMinutes?: number;
+}
+
+/**
+ * 会员权益
+ */
+export class VipPerksDto {
+  @ApiProperty({
+    description: '会员期间不限次数使用的功能（使用时不扣减次数）',
+    example: ['resumeRemainingCount'],
+    enum: VIP_UNLIMITED_FIELDS,
+    isArray: true,
+    required: false,
+  })
+  @IsArray()
+  @IsIn(VIP_UNLIMITED_FIELDS, { each: true, message: '不限次数的功能无效' })
+  @IsOptional()
+  unlimited?: VipUnlimitedField[];
+
+  @ApiProperty({
+    description: '会员期间每月补足的次数（剩余次数低于该数量时补足）',
+    type: PlanBenefitsDto,
+    required: false,
+  })
+  @ValidateNested()
+  @Type(() => PlanBenefitsDto)
+  @IsOptional()
+  monthlyRefill?: PlanBenefitsDto;
+}
+
+/**
+ * 新增套餐请求 DTO（管理后台）
+ */
+export class CreatePlanDto {
+  @ApiProperty({
+    description: '套餐唯一标识（小写字母、数字和中划线）',
+    example: 'pro',
+    maxLength: 50,
+  })
+  @IsString()
+  @IsNotEmpty({ message: '套餐标识不能为空' })
+  @MaxLength(50, { message: '套餐标识不能超过50个字符' })
+  @Matches(/^[a-z0-9-]+$/, {
+    message: '套餐标识只能包含小写字母、数字和中划线',
+  })
+  planId: string;
+
+  @ApiProperty({
+    description:
+      '套餐类型：purchase=购买套餐，exchange=小麦币兑换，subscription=会员订阅',
+    enum: PlanType,
+    example: PlanType.PURCHASE,
+    required: false,
+  })
+  @IsEnum(PlanType, { message: '套餐类型无效' })
+  @IsOptional()
+  type?: PlanType;
+
+  @ApiProperty({ description: '套餐名称', example: '专业版', maxLength: 50 })
+  @IsString()
+  @IsNotEmpty({ message: '套餐名称不能为空' })
+  @MaxLength(50, { message: '套餐名称不能超过50个字符' })
+  name: string;
+
+  @ApiProperty({
+    description: '套餐描述',
+    example: '包含简历押题、专项面试、行测+HR面试各1次',
+    required: false,
+    maxLength: 200,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(200, { message: '套餐描述不能超过200个字符' })
+  description?: string;
+
+  @ApiProperty({
+    description: '定价方式：fixed=固定价格，custom=自定义金额',
+    enum: PlanPricingMode,
+    example: PlanPricingMode.FIXED,
+    required: false,
+  })
+  @IsEnum(PlanPricingMode, { message: '定价方式无效' })
+  @IsOptional()
+  pricingMode?: PlanPricingMode;
+
+  @ApiProperty({
+    description: '价格（固定价格套餐必填；兑换套餐为消耗的小麦币）',
+    example: 28.8,
+    required: false,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: '价格最多保留两位小数' })
+  @Min(0)
+  @IsOptional()
+  price?: number;
+
+  @ApiProperty({
+    description: '最小金额（自定义金额套餐必填）',
+    example: 1,
+    required: false,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @IsOptional()
+  minAmount?: number;
+
+  @ApiProperty({
+    description: '最大金额（自定义金额套餐必填）',
+    example: 10000,
+    required: false,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @IsOptional()
+  maxAmount?: number;
+
+  @ApiProperty({
+    description: '货币类型，购买套餐为 CNY，兑换套餐为 MAI',
+    example: 'CNY',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  currency?: string;
+
+  @ApiProperty({
+    description: '发放的权益',
+    type: PlanBenefitsDto,
+    required: false,
+  })
+  @ValidateNested()
+  @Type(() => PlanBenefitsDto)
+  @IsOptional()
+  benefits?: PlanBenefitsDto;
+
+  @ApiProperty({
+    description: '每元发放的小麦币（自定义金额套餐使用，默认1）',
+    example: 1,
+    required: false,
+  })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  coinsPerYuan?: number;
+
+  @ApiProperty({
+    description: '会员订阅周期（会员订阅套餐必填）：month=月度，year=年度',
+    enum: VipPeriod,
+    example: VipPeriod.MONTH,
+    required: false,
+  })
+  @IsEnum(VipPeriod, { message: '订阅周期无效' })
+  @IsOptional()
+  vipPeriod?: VipPeriod;
+
+  @ApiProperty({
+    description: '会员权益（会员订阅套餐使用）',
+    type: VipPerksDto,
+    required: false,
+  })
+  @ValidateNested()
+  @Type(() => VipPerksDto)
+  @IsOptional()
+  vipPerks?: VipPerksDto;
+
+  @ApiProperty({
+    description: '上架时间（ISO 8601，为空表示立即上架）',
+    example: '2026-01-01T00:00:00+08:00',
+    required: false,
+  })
+  @IsDateString({}, { message: '上架时间格式无效' })
+  @IsOptional()
+  validFrom?: string;
+
+  @ApiProperty({
+    description: '下架时间（ISO 8601，为空表示长期有效）',
+    example: '2026-12-31T23:59:59+08:00',
+    required: false,
+  })
+  @IsDateString({}, { message: '下架时间格式无效' })
+  @IsOptional()
+  validUntil?: string;
+
+  @ApiProperty({ description: '是否启用', example: true, required: false })
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+
+  @ApiProperty({
+    description: '排序（越小越靠前）',
+    example: 10,
+    required: false,
+  })
+  @IsInt()
+  @IsOptional()
+  sortOrder?: number;
+}
+
+/**
+ * 修改套餐请求 DTO（管理后台）
+ */
+export class UpdatePlanDto extends PartialType(
+  OmitType(CreatePlanDto, ['planId'] as const),
+) {}
@@ -1,5 +1,6 @@
 import { IsString, IsIn } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
+import { PaymentChannel } from '../payment.types';
 
 export class QueryPaymentStatusDto {
   @ApiProperty({
@@ -17,5 +18,5 @@ export class QueryPaymentStatusDto {
     required: true
   })
   @IsIn(['alipay', 'wechat'])
-  channel: string;
+  channel: PaymentChannel;
 }
@@ -0,0 +1,55 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsIn,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { PaymentChannel } from '../payment.types';
+
+/**
+ * 手动发起对账请求 DTO（管理后台）
+ */
+export class RunReconciliationDto {
+  @ApiProperty({
+    description: '支付渠道',
+    enum: PaymentChannel,
+    example: PaymentChannel.ALIPAY,
+  })
+  @IsEnum(PaymentChannel, { message: '支付渠道无效' })
+  channel: PaymentChannel;
+
+  @ApiProperty({
+    description: '账单日期（yyyy-MM-dd，北京时间）',
+    example: '2026-01-01',
+  })
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: '账单日期格式应为 yyyy-MM-dd' })
+  billDate: string;
+}
+
+/**
+ * 处理对账差异请求 DTO（管理后台）
+ */
+export class ResolveReconciliationIssueDto {
+  @ApiProperty({
+    description:
+      '处理方式：resolve=已人工处理，ignore=忽略，retry=自动修复（卡单重新同步渠道结果、补记充值流水）',
+    enum: ['resolve', 'ignore', 'retry'],
+    example: 'retry',
+  })
+  @IsIn(['resolve', 'ignore', 'retry'], { message: '处理方式无效' })
+  action: 'resolve' | 'ignore' | 'retry';
+
+  @ApiProperty({
+    description: '处理说明',
+    example: '已联系渠道确认为测试订单',
+    required: false,
+    maxLength: 200,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(200, { message: '处理说明不能超过200个字符' })
+  note?: string;
+}
@@ -0,0 +1,48 @@
+import { Test } from '@nestjs/testing';
+import { PaymentOrderSweeperService } from './payment-order-sweeper.service';
+import { PaymentService } from './payment.service';
+
+describe('PaymentOrderSweeperService', () => {
+  let sweeper: PaymentOrderSweeperService;
+  const paymentService = {
+    sweepExpiredOrders: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        PaymentOrderSweeperService,
+        { provide: PaymentService, useValue: paymentService },
+      ],
+    })
+      .useMocker(() => ({}))
+      .compile();
+    sweeper = moduleRef.get(PaymentOrderSweeperService);
+  });
+
+  it('上一轮没结束时跳过本轮', async () => {
+    let finish: (count: number) => void = () => undefined;
+    paymentService.sweepExpiredOrders.mockReturnValueOnce(
+      new Promise<number>((resolve) => (finish = resolve)),
+    );
+
+    const first = sweeper.sweep();
+    await sweeper.sweep();
+    finish(0);
+    await first;
+
+    expect(paymentService.sweepExpiredOrders).toHaveBeenCalledTimes(1);
+  });
+
+  it('清理失败不影响下一轮', async () => {
+    paymentService.sweepExpiredOrders
+      .mockRejectedValueOnce(new Error('连接断开'))
+      .mockResolvedValueOnce(2);
+
+    await expect(sweeper.sweep()).resolves.toBeUndefined();
+    await sweeper.sweep();
+
+    expect(paymentService.sweepExpiredOrders).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,73 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PaymentService } from './payment.service';
+
+/**
+ * 过期订单清理任务
+ * 按 PAYMENT_ORDER_SWEEP_INTERVAL_SECONDS 定时关闭超过有效期仍未支付的订单（设置为 0 时不启动）
+ */
+@Injectable()
+export class PaymentOrderSweeperService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(PaymentOrderSweeperService.name);
+
+  /** 定时器 */
+  private timer?: NodeJS.Timeout;
+
+  /** 是否正在执行（上一轮没结束时跳过本轮，避免重复处理） */
+  private running = false;
+
+  constructor(
+    private readonly paymentService: PaymentService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    const intervalSeconds = Number(
+      this.configService.get('PAYMENT_ORDER_SWEEP_INTERVAL_SECONDS') ?? 60,
+    );
+
+    if (!(intervalSeconds > 0)) {
+      this.logger.warn('⚠️ 过期订单清理任务未启动');
+      return;
+    }
+
+    this.timer = setInterval(() => void this.sweep(), intervalSeconds * 1000);
+    // 不阻止进程退出
+    this.timer.unref();
+    this.logger.log(`✅ 过期订单清理任务已启动，间隔 ${intervalSeconds} 秒`);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * 执行一轮清理
+   */
+  async sweep() {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const count = await this.paymentService.sweepExpiredOrders();
+      if (count > 0) {
+        this.logger.log(`本轮处理过期订单 ${count} 个`);
+      }
+    } catch (error) {
+      this.logger.error(`过期订单清理失败: ${(error as Error).message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
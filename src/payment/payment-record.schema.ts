@@ -1,6 +1,9 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, SchemaTypes, Types } from 'mongoose';
 import { PaymentChannel } from './payment.types';
+import type { PlanSnapshot } from './plan.service';
+import type { AppliedCoupon } from './coupon.service';
+import type { VipGrant } from './vip/vip.service';
 
 export type PaymentRecordDocument = PaymentRecord & Document;
 
@@ -13,6 +16,12 @@ export enum PaymentRecordStatus {
   SUCCESS = 'success',
   // 支付失败
   FAILED = 'failed',
+  // 已关闭（超时未支付或支付金额异常）
+  CLOSED = 'closed',
+  // 部分退款
+  PARTIALLY_REFUNDED = 'partially_refunded',
+  // 全额退款
+  REFUNDED = 'refunded',
 }
 
 @Schema({ timestamps: true })
@@ -20,12 +29,18 @@ export class PaymentRecord {
   @Prop({ required: true, unique: true })
   orderId: string; // 订单号（唯一）
 
-  @Prop({ required: true, enum: PaymentChannel })
+  @Prop({ type: String, required: true, enum: PaymentChannel })
   channel: PaymentChannel; // 支付渠道（支付宝或微信）
 
   @Prop({ required: true })
   amount: number; // 支付金额（元）
 
+  @Prop()
+  expectedAmount?: number; // 应付金额（元，下单时按套餐价格和优惠计算，支付成功时按此校验实付金额）
+
+  @Prop({ type: Object })
+  coupon?: AppliedCoupon; // 使用的优惠码快照（原价和优惠金额）
+
   @Prop({ default: 'CNY' })
   currency: string; // 货币类型
 
@@ -35,6 +50,9 @@ export class PaymentRecord {
   @Prop()
   planName?: string; // 套餐名称
 
+  @Prop({ type: Object })
+  planSnapshot?: PlanSnapshot; // 下单时的套餐快照（价格和权益，修改套餐不影响已创建的订单）
+
   @Prop()
   source?: string; // 订单来源
 
@@ -53,6 +71,24 @@ export class PaymentRecord {
   @Prop()
   paidAt?: Date; // 支付完成时间
 
+  @Prop({ index: true })
+  expiresAt?: Date; // 订单过期时间（过期未支付的订单会被关闭）
+
+  @Prop()
+  closedAt?: Date; // 订单关闭时间
+
+  @Prop()
+  anomalyReason?: string; // 异常关闭原因（如支付金额不匹配，已关闭且不再自动处理，需要人工核对）
+
+  @Prop({ type: Object })
+  grantedBenefits?: Record<string, number>; // 支付成功时发放的权益（退款时按此扣回）
+
+  @Prop({ type: Object })
+  vipGrant?: VipGrant; // 本订单开通的会员区间（已开通时重复处理不再续期，退款时按此撤销）
+
+  @Prop({ default: 0 })
+  refundedAmount: number; // 已退款金额（元，包含退款中的金额）
+
   @Prop({ type: SchemaTypes.ObjectId, ref: 'User', index: true })
   user?: Types.ObjectId; // 用户ID引用
 
@@ -0,0 +1,73 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PaymentRefundService } from './payment-refund.service';
+
+/**
+ * 退款结果查询任务
+ * 按 PAYMENT_REFUND_RESOLVE_INTERVAL_SECONDS 定时向支付渠道查询退款中的记录（设置为 0 时不启动）
+ */
+@Injectable()
+export class PaymentRefundResolverService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(PaymentRefundResolverService.name);
+
+  /** 定时器 */
+  private timer?: NodeJS.Timeout;
+
+  /** 是否正在执行（上一轮没结束时跳过本轮，避免重复处理） */
+  private running = false;
+
+  constructor(
+    private readonly paymentRefundService: PaymentRefundService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    const intervalSeconds = Number(
+      this.configService.get('PAYMENT_REFUND_RESOLVE_INTERVAL_SECONDS') ?? 300,
+    );
+
+    if (!(intervalSeconds > 0)) {
+      this.logger.warn('⚠️ 退款结果查询任务未启动');
+      return;
+    }
+
+    this.timer = setInterval(() => void this.resolve(), intervalSeconds * 1000);
+    // 不阻止进程退出
+    this.timer.unref();
+    this.logger.log(`✅ 退款结果查询任务已启动，间隔 ${intervalSeconds} 秒`);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * 执行一轮查询
+   */
+  async resolve() {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const count = await this.paymentRefundService.resolveProcessingRefunds();
+      if (count > 0) {
+        this.logger.log(`本轮查询退款中的记录 ${count} 个`);
+      }
+    } catch (error) {
+      this.logger.error(`退款结果查询失败: ${(error as Error).message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, SchemaTypes, Types } from 'mongoose';
+import { PaymentChannel } from './payment.types';
+
+export type PaymentRefundDocument = PaymentRefund & Document;
+
+export enum PaymentRefundStatus {
+  // 待审核（用户已申请）
+  PENDING_REVIEW = 'pending_review',
+  // 已驳回（管理员驳回或权益已被使用）
+  REJECTED = 'rejected',
+  // 退款中（已扣回权益，等待渠道退款结果）
+  PROCESSING = 'processing',
+  // 退款成功
+  SUCCESS = 'success',
+  // 退款失败（已归还权益）
+  FAILED = 'failed',
+}
+
+@Schema({ timestamps: true })
+export class PaymentRefund {
+  @Prop({ required: true, unique: true })
+  refundId: string; // 退款单号（唯一，同时作为渠道侧的商户退款单号）
+
+  @Prop({ required: true, index: true })
+  orderId: string; // 原支付订单号
+
+  @Prop({ type: String, required: true, enum: PaymentChannel })
+  channel: PaymentChannel; // 支付渠道（原路退回）
+
+  @Prop({ type: SchemaTypes.ObjectId, ref: 'User' })
+  user?: Types.ObjectId; // 用户ID引用
+
+  @Prop({ required: true, index: true })
+  userId: string; // 用户ID（索引）
+
+  @Prop({ required: true })
+  amount: number; // 退款金额（元）
+
+  @Prop({ required: true })
+  orderAmount: number; // 原订单金额（元）
+
+  @Prop({ default: 'CNY' })
+  currency: string; // 货币类型
+
+  @Prop()
+  planId?: string; // 套餐ID
+
+  @Prop()
+  planName?: string; // 套餐名称
+
+  @Prop()
+  reason?: string; // 退款原因
+
+  @Prop({
+    enum: PaymentRefundStatus,
+    default: PaymentRefundStatus.PENDING_REVIEW,
+    index: true,
+  })
+  status: PaymentRefundStatus; // 退款状态
+
+  @Prop({ type: Object })
+  clawback?: Record<string, number>; // 本次退款扣回的权益
+
+  @Prop()
+  reviewedBy?: string; // 审核管理员ID
+
+  @Prop()
+  reviewedAt?: Date; // 审核时间
+
+  @Prop()
+  reviewRemark?: string; // 审核备注（驳回原因）
+
+  @Prop()
+  channelRefundNo?: string; // 渠道侧退款单号
+
+  @Prop()
+  channelStatus?: string; // 渠道原始退款状态
+
+  @Prop()
+  failReason?: string; // 退款失败原因
+
+  @Prop()
+  refundedAt?: Date; // 退款完成时间
+
+  @Prop()
+  createdAt?: Date; // 创建时间
+}
+
+export const PaymentRefundSchema = SchemaFactory.createForClass(PaymentRefund);
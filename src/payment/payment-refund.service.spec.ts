@@ -0,0 +1,263 @@
+import { BadRequestException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { mockQuery } from '../../test/mock-query';
+import { UserTransaction } from '../user/schemas/user-transaction.schema';
+import { LedgerReason } from '../ledger/ledger-entry.schema';
+import { LedgerService } from '../ledger/ledger.service';
+import { PaymentRecord, PaymentRecordStatus } from './payment-record.schema';
+import { PaymentRefund, PaymentRefundStatus } from './payment-refund.schema';
+import { PaymentRefundService } from './payment-refund.service';
+import { CouponService } from './coupon.service';
+import { PaymentService } from './payment.service';
+
+describe('PaymentRefundService', () => {
+  let service: PaymentRefundService;
+  const paymentRefundModel = {
+    findOneAndUpdate: jest.fn(),
+    find: jest.fn(),
+    findById: jest.fn(),
+    aggregate: jest.fn(),
+  };
+  const paymentRecordModel = {
+    findOneAndUpdate: jest.fn(),
+    findOne: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+  };
+  const paymentService = {
+    getProvider: jest.fn(),
+    isPaidStatus: jest.fn(),
+  };
+  const ledgerService = {
+    post: jest.fn(),
+    findEntry: jest.fn(),
+  };
+  const userTransactionModel = {
+    findOneAndUpdate: jest.fn(),
+  };
+  const couponService = {
+    release: jest.fn(),
+  };
+  const provider = {
+    refund: jest.fn(),
+    queryRefund: jest.fn(),
+  };
+
+  const userId = new Types.ObjectId().toHexString();
+  const refund = {
+    _id: new Types.ObjectId(),
+    refundId: 'rf1',
+    orderId: 'o1',
+    channel: 'alipay',
+    userId,
+    amount: 100,
+    currency: 'CNY',
+    status: PaymentRefundStatus.PROCESSING,
+  };
+  const paymentRecord = {
+    _id: new Types.ObjectId(),
+    orderId: 'o1',
+    amount: 100,
+    refundedAmount: 100,
+    status: PaymentRecordStatus.SUCCESS,
+    grantedBenefits: { maiCoinBalance: 100, specialRemainingCount: 3 },
+  };
+  const clawback = { maiCoinBalance: 100, specialRemainingCount: 3 };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        PaymentRefundService,
+        {
+          provide: getModelToken(PaymentRefund.name),
+          useValue: paymentRefundModel,
+        },
+        {
+          provide: getModelToken(PaymentRecord.name),
+          useValue: paymentRecordModel,
+        },
+        { provide: PaymentService, useValue: paymentService },
+        {
+          provide: getModelToken(UserTransaction.name),
+          useValue: userTransactionModel,
+        },
+        { provide: LedgerService, useValue: ledgerService },
+        { provide: CouponService, useValue: couponService },
+      ],
+    })
+      .useMocker(() => ({}))
+      .compile();
+    service = moduleRef.get(PaymentRefundService);
+
+    paymentService.getProvider.mockReturnValue(provider);
+    paymentService.isPaidStatus.mockReturnValue(true);
+    paymentRefundModel.findOneAndUpdate.mockReturnValue(mockQuery(refund));
+    paymentRefundModel.find.mockReturnValue(mockQuery([]));
+    paymentRefundModel.findById.mockReturnValue(mockQuery(refund));
+    paymentRefundModel.aggregate.mockResolvedValue([]);
+    paymentRecordModel.findOneAndUpdate.mockReturnValue(
+      mockQuery(paymentRecord),
+    );
+    paymentRecordModel.findOne.mockReturnValue(mockQuery(paymentRecord));
+    paymentRecordModel.findByIdAndUpdate.mockReturnValue(mockQuery(null));
+    userTransactionModel.findOneAndUpdate.mockReturnValue(mockQuery(null));
+  });
+
+  describe('approveRefund', () => {
+    const approve = () => service.approveRefund('rf1', { userId: 'admin' }, {});
+
+    it('先记录计划扣回的权益，再通过账本扣回', async () => {
+      ledgerService.post.mockResolvedValue({ lines: [] });
+      provider.refund.mockResolvedValue({
+        refundId: 'rf1',
+        status: 'processing',
+      });
+
+      await approve();
+
+      const { calls, invocationCallOrder } =
+        paymentRefundModel.findOneAndUpdate.mock;
+      const saveIndex = calls.findIndex(
+        (args: unknown[]) =>
+          JSON.stringify(args[1]) === JSON.stringify({ $set: { clawback } }),
+      );
+      expect(saveIndex).toBeGreaterThan(-1);
+      expect(invocationCallOrder[saveIndex]).toBeLessThan(
+        ledgerService.post.mock.invocationCallOrder[0],
+      );
+      expect(ledgerService.post).toHaveBeenCalledWith(
+        userId,
+        { maiCoinBalance: -100, specialRemainingCount: -3 },
+        expect.objectContaining({
+          reason: LedgerReason.REFUND_CLAWBACK,
+          referenceId: 'rf1',
+        }),
+      );
+      expect(provider.refund).toHaveBeenCalledWith(
+        expect.objectContaining({ refundId: 'rf1', amount: 100 }),
+      );
+    });
+
+    it('全额退款成功后记录退款流水并释放优惠码次数', async () => {
+      ledgerService.post.mockResolvedValue({ lines: [] });
+      provider.refund.mockResolvedValue({ refundId: 'rf1', status: 'success' });
+      paymentRefundModel.aggregate.mockResolvedValue([{ total: 100 }]);
+
+      await approve();
+
+      expect(paymentRecordModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        paymentRecord._id,
+        { $set: { status: PaymentRecordStatus.REFUNDED } },
+      );
+      expect(couponService.release).toHaveBeenCalledWith('o1');
+      expect(userTransactionModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { relatedOrderId: 'rf1' },
+        expect.objectContaining({
+          $set: expect.objectContaining({ amount: -100 }) as unknown,
+        }),
+        expect.anything(),
+      );
+    });
+
+    it('部分退款成功后不释放优惠码次数', async () => {
+      ledgerService.post.mockResolvedValue({ lines: [] });
+      provider.refund.mockResolvedValue({ refundId: 'rf1', status: 'success' });
+      paymentRefundModel.aggregate.mockResolvedValue([{ total: 50 }]);
+
+      await approve();
+
+      expect(couponService.release).not.toHaveBeenCalled();
+    });
+
+    it('权益已被使用时释放预占金额并驳回退款', async () => {
+      ledgerService.post.mockResolvedValue(null);
+
+      await expect(approve()).rejects.toThrow('套餐权益已被使用，无法退款');
+
+      expect(paymentRecordModel.findOneAndUpdate).toHaveBeenLastCalledWith(
+        { orderId: 'o1' },
+        { $inc: { refundedAmount: -100 } },
+      );
+      expect(paymentRefundModel.findOneAndUpdate).toHaveBeenLastCalledWith(
+        { _id: refund._id, status: PaymentRefundStatus.PROCESSING },
+        {
+          $set: {
+            status: PaymentRefundStatus.REJECTED,
+            reviewRemark: '套餐权益已被使用，无法退款',
+          },
+        },
+      );
+      expect(provider.refund).not.toHaveBeenCalled();
+    });
+
+    it('渠道退款失败时按账本分录归还扣回的权益', async () => {
+      ledgerService.post.mockResolvedValue({ lines: [] });
+      ledgerService.findEntry.mockResolvedValue({
+        lines: [
+          { asset: 'maiCoinBalance', amount: -100 },
+          { asset: 'specialRemainingCount', amount: -3 },
+        ],
+      });
+      provider.refund.mockRejectedValue(new Error('渠道超时'));
+
+      await expect(approve()).rejects.toBeInstanceOf(BadRequestException);
+
+      expect(ledgerService.findEntry).toHaveBeenCalledWith(
+        LedgerReason.REFUND_CLAWBACK,
+        'rf1',
+      );
+      expect(ledgerService.post).toHaveBeenLastCalledWith(
+        userId,
+        { maiCoinBalance: 100, specialRemainingCount: 3 },
+        expect.objectContaining({
+          reason: LedgerReason.REFUND_REVERSAL,
+          referenceId: 'rf1',
+        }),
+      );
+      expect(paymentRecordModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { orderId: 'o1' },
+        { $inc: { refundedAmount: -100 } },
+      );
+    });
+  });
+
+  describe('resolveProcessingRefunds', () => {
+    it('渠道没有受理记录的退款按失败处理并归还权益', async () => {
+      paymentRefundModel.find.mockReturnValue(mockQuery([refund]));
+      ledgerService.findEntry.mockResolvedValue(null);
+      provider.queryRefund.mockResolvedValue({
+        refundId: 'rf1',
+        status: 'failed',
+        channelStatus: 'NOT_FOUND',
+      });
+
+      expect(await service.resolveProcessingRefunds()).toBe(1);
+
+      expect(paymentRefundModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: refund._id, status: PaymentRefundStatus.PROCESSING },
+        {
+          $set: {
+            status: PaymentRefundStatus.FAILED,
+            failReason: '渠道退款失败: NOT_FOUND',
+          },
+        },
+        { new: true },
+      );
+      expect(paymentRecordModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { orderId: 'o1' },
+        { $inc: { refundedAmount: -100 } },
+      );
+    });
+
+    it('查询失败的退款保持退款中', async () => {
+      paymentRefundModel.find.mockReturnValue(mockQuery([refund]));
+      provider.queryRefund.mockRejectedValue(new Error('网络错误'));
+
+      expect(await service.resolveProcessingRefunds()).toBe(1);
+
+      expect(paymentRefundModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+});
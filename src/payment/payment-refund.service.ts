@@ -0,0 +1,799 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { randomUUID } from 'crypto';
+import { PaymentService } from './payment.service';
+import { PaymentRefundResult } from './payment.types';
+import {
+  PaymentRecord,
+  PaymentRecordDocument,
+  PaymentRecordStatus,
+} from './payment-record.schema';
+import {
+  PaymentRefund,
+  PaymentRefundDocument,
+  PaymentRefundStatus,
+} from './payment-refund.schema';
+import { CreateRefundDto, ReviewRefundDto } from './dto/payment-refund.dto';
+import { User, UserDocument } from '../user/schemas/user.schema';
+import {
+  UserTransaction,
+  UserTransactionDocument,
+  UserTransactionType,
+} from '../user/schemas/user-transaction.schema';
+import { LedgerService } from '../ledger/ledger.service';
+import { LedgerReason } from '../ledger/ledger-entry.schema';
+import { VipService } from './vip/vip.service';
+import { CouponService } from './coupon.service';
+
+/** 金额比较允许的浮点误差（元） */
+const AMOUNT_EPSILON = 0.001;
+
+/** 审核通过后超过该时间仍在退款中的记录由定时任务向渠道查询（毫秒） */
+const REFUND_RESOLVE_DELAY_MS = 5 * 60 * 1000;
+
+/** 权益字段对应的名称（用于提示信息） */
+const BENEFIT_LABELS: Record<string, string> = {
+  maiCoinBalance: '小麦币',
+  resumeRemainingCount: '简历押题次数',
+  specialRemainingCount: '专项面试次数',
+  behaviorRemainingCount: '综合面试次数',
+  aiInterviewRemainingMinutes: '模拟面试时长',
+};
+
+/**
+ * 支付退款服务
+ * 负责：
+ * 1. 用户申请退款（全额 / 部分）
+ * 2. 管理员审核：通过后原子扣回已发放的权益，再调用支付渠道原路退款
+ * 3. 权益已被使用时阻止退款；渠道退款失败时归还权益
+ * 4. 退款成功后记录退款流水，并同步订单的退款状态
+ * 5. 会员订阅订单退款成功后撤销该订单开通的会员时长，全额退款后释放占用的优惠码次数
+ */
+@Injectable()
+export class PaymentRefundService {
+  private readonly logger = new Logger(PaymentRefundService.name);
+
+  constructor(
+    @InjectModel(PaymentRefund.name)
+    private readonly paymentRefundModel: Model<PaymentRefundDocument>,
+    @InjectModel(PaymentRecord.name)
+    private readonly paymentRecordModel: Model<PaymentRecordDocument>,
+    @InjectModel(User.name)
+    private readonly userModel: Model<UserDocument>,
+    @InjectModel(UserTransaction.name)
+    private readonly userTransactionModel: Model<UserTransactionDocument>,
+    private readonly paymentService: PaymentService,
+    private readonly ledgerService: LedgerService,
+    private readonly vipService: VipService,
+    private readonly couponService: CouponService,
+  ) {}
+
+  /**
+   * 用户申请退款
+   * @param dto 退款信息（不填金额时退还剩余全部金额）
+   * @param user 当前用户信息
+   * @returns 退款申请（待管理员审核）
+   */
+  async requestRefund(dto: CreateRefundDto, user: { userId: string }) {
+    const paymentRecord = await this.paymentRecordModel
+      .findOne({ orderId: dto.orderId })
+      .exec();
+
+    if (!paymentRecord) {
+      throw new BadRequestException('订单不存在');
+    }
+
+    if (paymentRecord.userId !== user.userId) {
+      throw new ForbiddenException('无权操作此订单');
+    }
+
+    if (
+      paymentRecord.status !== PaymentRecordStatus.SUCCESS &&
+      paymentRecord.status !== PaymentRecordStatus.PARTIALLY_REFUNDED
+    ) {
+      throw new BadRequestException('订单未支付或已全额退款，无法申请退款');
+    }
+
+    // 可退款金额 = 订单金额 - 已退款（含退款中）- 待审核的退款申请
+    const pendingAmount = await this.sumRefundAmount(dto.orderId, [
+      PaymentRefundStatus.PENDING_REVIEW,
+    ]);
+    const refundableAmount = this.roundAmount(
+      paymentRecord.amount -
+        (paymentRecord.refundedAmount || 0) -
+        pendingAmount,
+    );
+
+    if (refundableAmount <= 0) {
+      throw new BadRequestException(
+        '订单已无可退款金额，如有退款申请正在审核中请耐心等待',
+      );
+    }
+
+    const amount = this.roundAmount(dto.amount ?? refundableAmount);
+    if (amount > refundableAmount + AMOUNT_EPSILON) {
+      throw new BadRequestException(
+        `退款金额不能超过可退款金额 ${refundableAmount} 元`,
+      );
+    }
+
+    // 提前检查权益是否已被使用（审核通过时会再次原子校验）
+    const clawback = await this.calculateClawback(
+      paymentRecord,
+      amount,
+      (paymentRecord.refundedAmount || 0) + amount,
+    );
+    await this.assertBenefitsAvailable(user.userId, clawback);
+
+    const refund = await this.paymentRefundModel.create({
+      refundId: randomUUID().replace(/-/g, ''),
+      orderId: paymentRecord.orderId,
+      channel: paymentRecord.channel,
+      user: new Types.ObjectId(user.userId),
+      userId: user.userId,
+      amount,
+      orderAmount: paymentRecord.amount,
+      currency: paymentRecord.currency || 'CNY',
+      planId: paymentRecord.planId,
+      planName: paymentRecord.planName,
+      reason: dto.reason,
+      status: PaymentRefundStatus.PENDING_REVIEW,
+    });
+
+    this.logger.log(
+      `用户申请退款: refundId=${refund.refundId}, orderId=${refund.orderId}, amount=${amount}, userId=${user.userId}`,
+    );
+
+    return refund;
+  }
+
+  /**
+   * 审核通过并执行退款（管理员）
+   * 1. 预占订单的可退款金额（防止并发超额退款）
+   * 2. 原子扣回本次退款对应的权益，权益已被使用时驳回退款
+   * 3. 调用支付渠道原路退款，失败时归还权益和预占金额
+   *
+   * @param refundId 退款单号
+   * @param admin 审核管理员
+   * @param dto 审核备注
+   * @returns 退款记录（渠道异步退款时为退款中状态）
+   */
+  async approveRefund(
+    refundId: string,
+    admin: { userId: string },
+    dto: ReviewRefundDto,
+  ) {
+    // 🔒 原子更新为退款中，防止重复审核
+    const refund = await this.paymentRefundModel
+      .findOneAndUpdate(
+        { refundId, status: PaymentRefundStatus.PENDING_REVIEW },
+        {
+          $set: {
+            status: PaymentRefundStatus.PROCESSING,
+            reviewedBy: admin.userId,
+            reviewedAt: new Date(),
+            reviewRemark: dto.remark,
+          },
+        },
+        { new: true },
+      )
+      .exec();
+
+    if (!refund) {
+      return this.throwReviewConflict(refundId);
+    }
+
+    // 🔒 预占退款金额：已退款金额 + 本次退款不能超过订单金额
+    const paymentRecord = await this.paymentRecordModel
+      .findOneAndUpdate(
+        {
+          orderId: refund.orderId,
+          status: {
+            $in: [
+              PaymentRecordStatus.SUCCESS,
+              PaymentRecordStatus.PARTIALLY_REFUNDED,
+            ],
+          },
+          $expr: {
+            $lte: [
+              { $add: [{ $ifNull: ['$refundedAmount', 0] }, refund.amount] },
+              { $add: ['$amount', AMOUNT_EPSILON] },
+            ],
+          },
+        },
+        { $inc: { refundedAmount: refund.amount } },
+        { new: true },
+      )
+      .exec();
+
+    if (!paymentRecord) {
+      await this.rejectProcessingRefund(refund, '订单可退款金额不足');
+      throw new BadRequestException('订单可退款金额不足，无法退款');
+    }
+
+    // 先记录计划扣回的权益，再记账扣回（账本按退款单号幂等，重放不会重复扣回）
+    const clawback = await this.calculateClawback(
+      paymentRecord,
+      refund.amount,
+      paymentRecord.refundedAmount,
+    );
+    await this.paymentRefundModel
+      .findOneAndUpdate(
+        { _id: refund._id, status: PaymentRefundStatus.PROCESSING },
+        { $set: { clawback } },
+      )
+      .exec();
+
+    // 🔒 原子扣回权益，权益已被使用时驳回退款
+    const deducted = await this.deductBenefits(refund, clawback);
+
+    if (!deducted) {
+      await this.releaseRefundedAmount(refund.orderId, refund.amount);
+      await this.rejectProcessingRefund(refund, '套餐权益已被使用，无法退款');
+      throw new BadRequestException('套餐权益已被使用，无法退款');
+    }
+
+    let result: PaymentRefundResult;
+    try {
+      result = await this.paymentService.getProvider(refund.channel).refund({
+        orderId: refund.orderId,
+        refundId: refund.refundId,
+        amount: refund.amount,
+        totalAmount: paymentRecord.amount,
+        reason: refund.reason,
+        currency: refund.currency,
+      });
+    } catch (error) {
+      const message = (error as Error).message;
+      await this.failRefund(refund._id, `渠道退款失败: ${message}`);
+      throw new BadRequestException(`退款失败：${message}`);
+    }
+
+    return this.applyRefundResult(refund._id, result);
+  }
+
+  /**
+   * 驳回退款申请（管理员）
+   * @param refundId 退款单号
+   * @param admin 审核管理员
+   * @param dto 审核备注（驳回原因）
+   */
+  async rejectRefund(
+    refundId: string,
+    admin: { userId: string },
+    dto: ReviewRefundDto,
+  ) {
+    const refund = await this.paymentRefundModel
+      .findOneAndUpdate(
+        { refundId, status: PaymentRefundStatus.PENDING_REVIEW },
+        {
+          $set: {
+            status: PaymentRefundStatus.REJECTED,
+            reviewedBy: admin.userId,
+            reviewedAt: new Date(),
+            reviewRemark: dto.remark || '退款申请未通过审核',
+          },
+        },
+        { new: true },
+      )
+      .exec();
+
+    if (!refund) {
+      return this.throwReviewConflict(refundId);
+    }
+
+    this.logger.log(
+      `退款申请已驳回: refundId=${refundId}, admin=${admin.userId}`,
+    );
+
+    return refund;
+  }
+
+  /**
+   * 查询退款状态
+   * 退款中的记录会向支付渠道查询最新结果
+   *
+   * @param refundId 退款单号
+   * @param user 当前用户信息（管理员查询时不传）
+   */
+  async getRefund(refundId: string, user?: { userId: string }) {
+    const refund = await this.paymentRefundModel.findOne({ refundId }).exec();
+
+    if (!refund) {
+      throw new NotFoundException('退款申请不存在');
+    }
+
+    if (user && refund.userId !== user.userId) {
+      throw new ForbiddenException('无权查询此退款');
+    }
+
+    // channelStatus 为空说明还未拿到渠道的受理结果，无需查询
+    if (
+      refund.status !== PaymentRefundStatus.PROCESSING ||
+      !refund.channelStatus
+    ) {
+      return refund;
+    }
+
+    try {
+      const result = await this.paymentService
+        .getProvider(refund.channel)
+        .queryRefund(refund.orderId, refund.refundId);
+      return await this.applyRefundResult(refund._id, result);
+    } catch (error) {
+      this.logger.warn(
+        `查询渠道退款结果失败: refundId=${refundId}, ${(error as Error).message}`,
+      );
+      return refund;
+    }
+  }
+
+  /**
+   * 向支付渠道查询退款中的记录并更新结果（由 PaymentRefundResolverService 定时调用）
+   * 渠道没有受理记录的退款按失败处理，归还扣回的权益和预占的退款金额
+   *
+   * @param limit 单次最多处理的退款数
+   * @returns 本次查询的退款数
+   */
+  async resolveProcessingRefunds(limit = 100): Promise<number> {
+    const refunds = await this.paymentRefundModel
+      .find({
+        status: PaymentRefundStatus.PROCESSING,
+        reviewedAt: { $lte: new Date(Date.now() - REFUND_RESOLVE_DELAY_MS) },
+      })
+      .sort({ reviewedAt: 1 })
+      .limit(limit)
+      .exec();
+
+    for (const refund of refunds) {
+      try {
+        const result = await this.paymentService
+          .getProvider(refund.channel)
+          .queryRefund(refund.orderId, refund.refundId);
+        await this.applyRefundResult(refund._id, result);
+      } catch (error) {
+        // 查询失败的退款保持退款中，下一轮继续处理
+        this.logger.warn(
+          `查询渠道退款结果失败: refundId=${refund.refundId}, ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return refunds.length;
+  }
+
+  /**
+   * 获取用户的退款记录
+   * @param userId 用户ID
+   * @param orderId 订单ID（可选，只看某个订单的退款）
+   */
+  async listUserRefunds(userId: string, orderId?: string) {
+    return this.paymentRefundModel
+      .find({ userId, ...(orderId ? { orderId } : {}) })
+      .sort({ createdAt: -1 })
+      .lean();
+  }
+
+  /**
+   * 获取退款申请列表（管理员）
+   * @param options 查询参数（状态、分页）
+   */
+  async listRefunds(
+    options: {
+      status?: PaymentRefundStatus;
+      skip?: number;
+      limit?: number;
+    } = {},
+  ) {
+    const filter = options.status ? { status: options.status } : {};
+    const skip = options.skip || 0;
+    const limit = options.limit || 20;
+
+    const [refunds, total] = await Promise.all([
+      this.paymentRefundModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      this.paymentRefundModel.countDocuments(filter),
+    ]);
+
+    return { refunds, total };
+  }
+
+  /**
+   * 处理渠道返回的退款结果
+   */
+  private async applyRefundResult(
+    id: Types.ObjectId,
+    result: PaymentRefundResult,
+  ) {
+    if (result.status === 'success') {
+      await this.completeRefund(id, result);
+    } else if (result.status === 'failed') {
+      await this.failRefund(
+        id,
+        `渠道退款失败: ${result.channelStatus || '未知状态'}`,
+      );
+    } else {
+      await this.paymentRefundModel
+        .findOneAndUpdate(
+          { _id: id, status: PaymentRefundStatus.PROCESSING },
+          {
+            $set: {
+              channelStatus: result.channelStatus || 'PROCESSING',
+              channelRefundNo: result.channelRefundNo,
+            },
+          },
+        )
+        .exec();
+    }
+
+    return this.paymentRefundModel.findById(id).exec();
+  }
+
+  /**
+   * 退款成功：更新退款状态、同步订单状态并记录退款流水
+   */
+  private async completeRefund(
+    id: Types.ObjectId,
+    result: PaymentRefundResult,
+  ) {
+    // 🔒 只有退款中的记录才能完成，防止重复记录流水
+    const refund = await this.paymentRefundModel
+      .findOneAndUpdate(
+        { _id: id, status: PaymentRefundStatus.PROCESSING },
+        {
+          $set: {
+            status: PaymentRefundStatus.SUCCESS,
+            channelStatus: result.channelStatus,
+            channelRefundNo: result.channelRefundNo,
+            refundedAt: result.refundedAt || new Date(),
+          },
+        },
+        { new: true },
+      )
+      .exec();
+
+    if (!refund) {
+      return;
+    }
+
+    const status = await this.syncOrderRefundStatus(refund.orderId);
+    await this.revokeVip(refund);
+
+    // 全额退款后释放订单占用的优惠码次数
+    if (status === PaymentRecordStatus.REFUNDED) {
+      await this.couponService.release(refund.orderId);
+    }
+
+    // 退款流水以退款单号关联，金额为负数
+    await this.userTransactionModel
+      .findOneAndUpdate(
+        { relatedOrderId: refund.refundId },
+        {
+          $set: {
+            user: new Types.ObjectId(refund.userId),
+            userIdentifier: refund.userId,
+            type: UserTransactionType.REFUND,
+            amount: -refund.amount,
+            currency: refund.currency || 'CNY',
+            description: `退款${refund.planName ? `-${refund.planName}` : ''}`,
+            planId: refund.planId,
+            planName: refund.planName,
+            relatedOrderId: refund.refundId,
+            metadata: {
+              orderId: refund.orderId,
+              reason: refund.reason,
+              clawback: refund.clawback,
+              channelRefundNo: refund.channelRefundNo,
+            },
+          },
+        },
+        { upsert: true, new: true, setDefaultsOnInsert: true },
+      )
+      .exec();
+
+    this.logger.log(
+      `✅ 退款成功: refundId=${refund.refundId}, orderId=${refund.orderId}, amount=${refund.amount}`,
+    );
+  }
+
+  /**
+   * 撤销订单开通的会员时长（部分退款按退款比例撤销）
+   */
+  private async revokeVip(refund: PaymentRefundDocument) {
+    const paymentRecord = await this.paymentRecordModel
+      .findOne({ orderId: refund.orderId })
+      .select('amount vipGrant')
+      .lean();
+    if (!paymentRecord?.vipGrant) {
+      return;
+    }
+
+    await this.vipService.revoke(
+      refund.userId,
+      paymentRecord.vipGrant,
+      refund.amount / paymentRecord.amount,
+    );
+  }
+
+  /**
+   * 退款失败：归还扣回的权益和预占的退款金额
+   */
+  private async failRefund(id: Types.ObjectId, reason: string) {
+    // 🔒 只有退款中的记录才能标记失败，防止重复归还权益
+    const refund = await this.paymentRefundModel
+      .findOneAndUpdate(
+        { _id: id, status: PaymentRefundStatus.PROCESSING },
+        { $set: { status: PaymentRefundStatus.FAILED, failReason: reason } },
+        { new: true },
+      )
+      .exec();
+
+    if (!refund) {
+      return;
+    }
+
+    await this.restoreBenefits(refund);
+    await this.releaseRefundedAmount(refund.orderId, refund.amount);
+    await this.syncOrderRefundStatus(refund.orderId);
+
+    this.logger.error(
+      `❌ 退款失败，已归还权益: refundId=${refund.refundId}, ${reason}`,
+    );
+  }
+
+  /**
+   * 驳回退款中的记录（预占金额或扣回权益失败时使用）
+   */
+  private async rejectProcessingRefund(
+    refund: PaymentRefundDocument,
+    reason: string,
+  ) {
+    await this.paymentRefundModel
+      .findOneAndUpdate(
+        { _id: refund._id, status: PaymentRefundStatus.PROCESSING },
+        {
+          $set: { status: PaymentRefundStatus.REJECTED, reviewRemark: reason },
+        },
+      )
+      .exec();
+
+    this.logger.warn(
+      `退款已驳回: refundId=${refund.refundId}, orderId=${refund.orderId}, ${reason}`,
+    );
+  }
+
+  /**
+   * 审核冲突时抛出对应的异常
+   */
+  private async throwReviewConflict(refundId: string): Promise<never> {
+    const exists = await this.paymentRefundModel.exists({ refundId });
+    if (!exists) {
+      throw new NotFoundException('退款申请不存在');
+    }
+    throw new BadRequestException('退款申请已审核，请勿重复操作');
+  }
+
+  /**
+   * 计算本次退款需要扣回的权益
+   * - 退完剩余全部金额时，扣回剩余未扣回的全部权益
+   * - 部分退款按退款比例扣回：次数向上取整，小麦币按比例保留两位小数
+   *
+   * @param paymentRecord 支付记录
+   * @param amount 本次退款金额
+   * @param refundedAmount 本次退款后的累计退款金额
+   */
+  private async calculateClawback(
+    paymentRecord: PaymentRecordDocument,
+    amount: number,
+    refundedAmount: number,
+  ): Promise<Record<string, number>> {
+    // 兼容记录发放权益之前的订单：按套餐重新计算
+    const granted =
+      paymentRecord.grantedBenefits ??
+      (await this.paymentService.calculateOrderBenefits(
+        paymentRecord,
+        paymentRecord.amount,
+      )) ??
+      {};
+
+    // 之前的退款已扣回的权益
+    const previousRefunds = await this.paymentRefundModel
+      .find({
+        orderId: paymentRecord.orderId,
+        status: {
+          $in: [PaymentRefundStatus.PROCESSING, PaymentRefundStatus.SUCCESS],
+        },
+      })
+      .select('clawback')
+      .lean();
+    const clawedBack: Record<string, number> = {};
+    for (const refund of previousRefunds) {
+      for (const [key, value] of Object.entries(refund.clawback || {})) {
+        clawedBack[key] = (clawedBack[key] || 0) + value;
+      }
+    }
+
+    const isFinalRefund =
+      refundedAmount >= paymentRecord.amount - AMOUNT_EPSILON;
+    const ratio = amount / paymentRecord.amount;
+    const clawback: Record<string, number> = {};
+
+    for (const [key, value] of Object.entries(granted)) {
+      const remaining = this.roundAmount(value - (clawedBack[key] || 0));
+      if (remaining <= 0) {
+        continue;
+      }
+
+      let deduction: number;
+      if (isFinalRefund) {
+        deduction = remaining;
+      } else if (key === 'maiCoinBalance') {
+        deduction = this.roundAmount(value * ratio);
+      } else {
+        deduction = Math.ceil(value * ratio - AMOUNT_EPSILON);
+      }
+
+      clawback[key] = Math.min(deduction, remaining);
+    }
+
+    return clawback;
+  }
+
+  /**
+   * 检查用户剩余权益是否足够扣回（非原子，仅用于申请时提前提示）
+   */
+  private async assertBenefitsAvailable(
+    userId: string,
+    clawback: Record<string, number>,
+  ) {
+    const keys = Object.keys(clawback);
+    if (!keys.length) {
+      return;
+    }
+
+    const user = await this.userModel.findById(userId).select(keys).lean();
+    if (!user) {
+      throw new BadRequestException('用户不存在');
+    }
+
+    for (const key of keys) {
+      const balance = (user[key as keyof typeof user] as number) || 0;
+      if (balance < clawback[key]) {
+        throw new BadRequestException(
+          `${BENEFIT_LABELS[key] || key}已被使用，无法退款`,
+        );
+      }
+    }
+  }
+
+  /**
+   * 🔒 原子扣回权益：只有每项剩余权益都足够时才扣减（通过账本记账）
+   * @returns 是否扣回成功
+   */
+  private async deductBenefits(
+    refund: Pick<PaymentRefund, 'userId' | 'refundId' | 'orderId'>,
+    clawback: Record<string, number>,
+  ): Promise<boolean> {
+    const entries = Object.entries(clawback).filter(([, value]) => value > 0);
+    if (!entries.length) {
+      return true;
+    }
+
+    const entry = await this.ledgerService.post(
+      refund.userId,
+      Object.fromEntries(entries.map(([key, value]) => [key, -value])),
+      {
+        reason: LedgerReason.REFUND_CLAWBACK,
+        referenceId: refund.refundId,
+        description: '退款扣回权益',
+        metadata: { orderId: refund.orderId },
+      },
+    );
+
+    return !!entry;
+  }
+
+  /**
+   * 归还扣回的权益
+   * 按账本中实际扣回的分录归还（扣回前中断的退款没有扣回分录，无需归还）
+   */
+  private async restoreBenefits(
+    refund: Pick<PaymentRefund, 'userId' | 'refundId' | 'orderId'>,
+  ) {
+    const deducted = await this.ledgerService.findEntry(
+      LedgerReason.REFUND_CLAWBACK,
+      refund.refundId,
+    );
+    if (!deducted?.lines.length) {
+      return;
+    }
+
+    await this.ledgerService.post(
+      refund.userId,
+      Object.fromEntries(
+        deducted.lines.map((line) => [line.asset, -line.amount]),
+      ),
+      {
+        reason: LedgerReason.REFUND_REVERSAL,
+        referenceId: refund.refundId,
+        description: '退款失败归还权益',
+        metadata: { orderId: refund.orderId },
+      },
+    );
+  }
+
+  /**
+   * 释放预占的退款金额
+   */
+  private async releaseRefundedAmount(orderId: string, amount: number) {
+    await this.paymentRecordModel
+      .findOneAndUpdate({ orderId }, { $inc: { refundedAmount: -amount } })
+      .exec();
+  }
+
+  /**
+   * 按成功的退款同步订单状态（部分退款 / 全额退款）
+   * @returns 同步后的订单状态；订单不存在或未支付时返回 undefined
+   */
+  private async syncOrderRefundStatus(orderId: string) {
+    const succeededAmount = await this.sumRefundAmount(orderId, [
+      PaymentRefundStatus.SUCCESS,
+    ]);
+    const paymentRecord = await this.paymentRecordModel
+      .findOne({ orderId })
+      .exec();
+
+    if (
+      !paymentRecord ||
+      !this.paymentService.isPaidStatus(paymentRecord.status)
+    ) {
+      return undefined;
+    }
+
+    let status = PaymentRecordStatus.SUCCESS;
+    if (succeededAmount >= paymentRecord.amount - AMOUNT_EPSILON) {
+      status = PaymentRecordStatus.REFUNDED;
+    } else if (succeededAmount > 0) {
+      status = PaymentRecordStatus.PARTIALLY_REFUNDED;
+    }
+
+    await this.paymentRecordModel
+      .findByIdAndUpdate(paymentRecord._id, { $set: { status } })
+      .exec();
+    return status;
+  }
+
+  /**
+   * 统计订单指定状态的退款金额
+   */
+  private async sumRefundAmount(
+    orderId: string,
+    statuses: PaymentRefundStatus[],
+  ): Promise<number> {
+    const [result] = await this.paymentRefundModel.aggregate<{
+      total: number;
+    }>([
+      { $match: { orderId, status: { $in: statuses } } },
+      { $group: { _id: null, total: { $sum: '$amount' } } },
+    ]);
+    return this.roundAmount(result?.total || 0);
+  }
+
+  /**
+   * 金额保留两位小数
+   */
+  private roundAmount(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -1,17 +1,44 @@
 import {
   Body,
   Controller,
+  Delete,
+  Get,
   Headers,
+  Param,
+  Patch,
   Post,
+  Query,
   Req,
-  UseGuards,
+  Res,
 } from '@nestjs/common';
-import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request as ExpressRequest, Response } from 'express';
+import { Public } from '../auth/public.decorator';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/permissions';
 import { PaymentService } from './payment.service';
+import { PaymentRefundService } from './payment-refund.service';
+import { PaymentRefundStatus } from './payment-refund.schema';
+import { PlanService } from './plan.service';
+import { CouponService } from './coupon.service';
+import { VipService } from './vip/vip.service';
+import { PlanType } from './plan.schema';
 import { InitiatePaymentDto } from './dto/initiate-payment.dto';
 import { QueryPaymentStatusDto } from './dto/query-payment-status.dto';
-import { PaymentChannel } from './payment.types';
-import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { CreateRefundDto, ReviewRefundDto } from './dto/payment-refund.dto';
+import { CreatePlanDto, UpdatePlanDto } from './dto/plan.dto';
+import {
+  CreateCouponDto,
+  UpdateCouponDto,
+  ValidateCouponDto,
+} from './dto/coupon.dto';
+import { WechatPayNotifyHeaders } from './providers/wechat-payment.service';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
 
 /**
  * 一个简单的小"保障"。比之前的版本（@Request() req: any,）更严格一些。相当于在 Request 上做了一个扩展（表示可能存在 user 字段）
@@ -22,7 +49,47 @@ type AuthenticatedRequest = Request & { user?: { userId?: string } };
 @ApiBearerAuth()
 @Controller('payment')
 export class PaymentController {
-  constructor(private readonly paymentService: PaymentService) {}
+  constructor(
+    private readonly paymentService: PaymentService,
+    private readonly paymentRefundService: PaymentRefundService,
+    private readonly planService: PlanService,
+    private readonly couponService: CouponService,
+    private readonly vipService: VipService,
+  ) {}
+
+  /**
+   * 获取套餐列表
+   * 只返回已启用且在上架时间内的套餐
+   */
+  @Get('plans')
+  @Public()
+  @ApiOperation({ summary: '获取套餐列表' })
+  @ApiQuery({ name: 'type', enum: PlanType, required: false })
+  listPlans(@Query('type') type?: PlanType) {
+    return this.planService.listAvailable(type);
+  }
+
+  /**
+   * 试算优惠码
+   * 返回优惠后的实付金额，下单时传入相同的优惠码即可
+   */
+  @Post('coupon/validate')
+  @ApiOperation({ summary: '试算优惠码' })
+  validateCoupon(
+    @Body() dto: ValidateCouponDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.paymentService.previewCoupon(dto, req.user);
+  }
+
+  /**
+   * 查询当前用户的会员状态
+   */
+  @Get('vip')
+  @ApiOperation({ summary: '查询会员状态' })
+  getVipStatus(@Req() req: AuthenticatedRequest) {
+    return this.vipService.getStatus((req.user as { userId: string }).userId);
+  }
 
   /**
    * 创建支付订单
@@ -30,7 +97,6 @@ export class PaymentController {
    * @returns 支付订单结果
    */
   @Post('order')
-  @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: '创建支付订单' })
   initiatePayment(
     @Body() dto: InitiatePaymentDto,
@@ -41,33 +107,60 @@ export class PaymentController {
 
   /**
    * 主动查询支付结果
-   * 3 ～ 5 秒轮询调用，根据订单号查看支付宝支付结果
+   * 3 ～ 5 秒轮询调用，根据订单号查看支付宝 / 微信支付结果
    */
   @Post('order/status')
-  @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: '查询支付状态' })
-  queryAlipayPaymentStatus(
+  queryPaymentStatus(
     @Body() dto: QueryPaymentStatusDto,
     @Req() req: AuthenticatedRequest,
   ) {
-    // 支付宝的支付查询
-    if (dto.channel === PaymentChannel.ALIPAY) {
-      return this.paymentService.queryAlipayPaymentStatus(
-        dto.orderId,
-        req.user as { userId: string },
-      );
+    return this.paymentService.queryPaymentStatus(
+      dto.orderId,
+      dto.channel,
+      req.user as { userId: string },
+    );
+  }
+
+  /**
+   * 支付宝异步通知
+   * 支付宝以表单格式 POST 通知，处理完成需返回纯文本 success，否则会按策略重试
+   */
+  @Post('alipay/notify')
+  @Public()
+  @ApiOperation({ summary: '支付宝异步通知（供支付宝回调）' })
+  async handleAlipayNotify(
+    @Body() params: Record<string, string>,
+    @Res() res: Response,
+  ) {
+    const handled = await this.paymentService.handleAlipayNotification(params);
+    res.type('text/plain').send(handled ? 'success' : 'failure');
+  }
+
+  /**
+   * 微信支付回调通知
+   * 验签需要原始请求体；处理完成返回 204，失败返回 5XX 和错误信息，微信支付会按策略重试
+   */
+  @Post('wechat/notify')
+  @Public()
+  @ApiOperation({ summary: '微信支付回调通知（供微信支付回调）' })
+  async handleWechatNotify(
+    @Req() req: RawBodyRequest<ExpressRequest>,
+    @Res() res: Response,
+  ) {
+    const handled = await this.paymentService.handleWechatNotification(
+      req.headers as WechatPayNotifyHeaders,
+      req.rawBody?.toString('utf8') || '',
+    );
+
+    if (handled) {
+      res.status(204).send();
+    } else {
+      res.status(500).json({ code: 'FAIL', message: '失败' });
     }
-    // // 微信的支付查询
-    // else if (dto.channel === PaymentChannel.WECHAT) {
-    //   return this.paymentService.queryWechatPaymentStatus(
-    //     dto.orderId,
-    //     req.user as { userId: string },
-    //   );
-    // }
   }
 
   @Post('mock-success')
-  @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: '模拟支付成功' })
   mockPaymentSuccess(
     @Body() body: { orderId: string },
@@ -78,4 +171,224 @@ export class PaymentController {
       req.user as { userId: string },
     );
   }
+
+  /**
+   * 申请退款
+   * 提交后由管理员审核，审核通过后扣回对应权益并原路退款
+   */
+  @Post('refund')
+  @ApiOperation({
+    summary: '申请退款',
+    description:
+      '不填金额时退还剩余全部金额；部分退款按比例扣回权益，权益已被使用时无法退款',
+  })
+  requestRefund(
+    @Body() dto: CreateRefundDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.paymentRefundService.requestRefund(
+      dto,
+      req.user as { userId: string },
+    );
+  }
+
+  /**
+   * 获取当前用户的退款记录
+   */
+  @Get('refunds')
+  @ApiOperation({ summary: '获取退款记录' })
+  @ApiQuery({ name: 'orderId', required: false })
+  listRefunds(
+    @Req() req: AuthenticatedRequest,
+    @Query('orderId') orderId?: string,
+  ) {
+    return this.paymentRefundService.listUserRefunds(
+      (req.user as { userId: string }).userId,
+      orderId,
+    );
+  }
+
+  /**
+   * 查询退款状态
+   * 退款中的记录会向支付渠道查询最新结果
+   */
+  @Get('refund/:refundId')
+  @ApiOperation({ summary: '查询退款状态' })
+  getRefund(
+    @Param('refundId') refundId: string,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.paymentRefundService.getRefund(
+      refundId,
+      req.user as { userId: string },
+    );
+  }
+
+  /**
+   * 获取退款申请列表（管理员）
+   */
+  @Get('admin/refunds')
+  @RequirePermissions(Permission.PAYMENT_REFUND)
+  @ApiOperation({ summary: '获取退款申请列表（管理员）' })
+  @ApiQuery({ name: 'status', enum: PaymentRefundStatus, required: false })
+  @ApiQuery({ name: 'skip', required: false })
+  @ApiQuery({ name: 'limit', required: false })
+  listAllRefunds(
+    @Query('status') status?: PaymentRefundStatus,
+    @Query('skip') skip?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.paymentRefundService.listRefunds({
+      status,
+      skip: Number(skip) || 0,
+      limit: Math.min(Number(limit) || 20, 100),
+    });
+  }
+
+  /**
+   * 查询退款状态（管理员）
+   */
+  @Get('admin/refunds/:refundId')
+  @RequirePermissions(Permission.PAYMENT_REFUND)
+  @ApiOperation({ summary: '查询退款状态（管理员）' })
+  getRefundForAdmin(@Param('refundId') refundId: string) {
+    return this.paymentRefundService.getRefund(refundId);
+  }
+
+  /**
+   * 审核通过并执行退款（管理员）
+   */
+  @Post('admin/refunds/:refundId/approve')
+  @RequirePermissions(Permission.PAYMENT_REFUND)
+  @ApiOperation({
+    summary: '审核通过并执行退款（管理员）',
+    description:
+      '先原子扣回权益（权益已被使用时驳回），再调用支付渠道原路退款；渠道退款失败时归还权益',
+  })
+  approveRefund(
+    @Param('refundId') refundId: string,
+    @Body() dto: ReviewRefundDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.paymentRefundService.approveRefund(
+      refundId,
+      req.user as { userId: string },
+      dto,
+    );
+  }
+
+  /**
+   * 驳回退款申请（管理员）
+   */
+  @Post('admin/refunds/:refundId/reject')
+  @RequirePermissions(Permission.PAYMENT_REFUND)
+  @ApiOperation({ summary: '驳回退款申请（管理员）' })
+  rejectRefund(
+    @Param('refundId') refundId: string,
+    @Body() dto: ReviewRefundDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.paymentRefundService.rejectRefund(
+      refundId,
+      req.user as { userId: string },
+      dto,
+    );
+  }
+
+  /**
+   * 获取全部套餐（管理员）
+   */
+  @Get('admin/plans')
+  @RequirePermissions(Permission.PAYMENT_PLAN)
+  @ApiOperation({ summary: '获取全部套餐（管理员）' })
+  listAllPlans() {
+    return this.planService.listAll();
+  }
+
+  /**
+   * 新增套餐（管理员）
+   */
+  @Post('admin/plans')
+  @RequirePermissions(Permission.PAYMENT_PLAN)
+  @ApiOperation({ summary: '新增套餐（管理员）' })
+  createPlan(@Body() dto: CreatePlanDto) {
+    return this.planService.create(dto);
+  }
+
+  /**
+   * 修改套餐（管理员）
+   */
+  @Patch('admin/plans/:planId')
+  @RequirePermissions(Permission.PAYMENT_PLAN)
+  @ApiOperation({
+    summary: '修改套餐（管理员）',
+    description:
+      '下架套餐请将 isActive 设置为 false；已创建的订单按下单时的套餐快照校验金额和发放权益，不受影响',
+  })
+  updatePlan(@Param('planId') planId: string, @Body() dto: UpdatePlanDto) {
+    return this.planService.update(planId, dto);
+  }
+
+  /**
+   * 删除套餐（管理员）
+   */
+  @Delete('admin/plans/:planId')
+  @RequirePermissions(Permission.PAYMENT_PLAN)
+  @ApiOperation({ summary: '删除套餐（管理员）' })
+  removePlan(@Param('planId') planId: string) {
+    return this.planService.remove(planId);
+  }
+
+  /**
+   * 获取全部优惠码（管理员）
+   */
+  @Get('admin/coupons')
+  @RequirePermissions(Permission.PAYMENT_COUPON)
+  @ApiOperation({ summary: '获取全部优惠码（管理员）' })
+  listCoupons() {
+    return this.couponService.listAll();
+  }
+
+  /**
+   * 新增优惠码（管理员）
+   */
+  @Post('admin/coupons')
+  @RequirePermissions(Permission.PAYMENT_COUPON)
+  @ApiOperation({ summary: '新增优惠码（管理员）' })
+  createCoupon(@Body() dto: CreateCouponDto) {
+    return this.couponService.create(dto);
+  }
+
+  /**
+   * 修改优惠码（管理员）
+   */
+  @Patch('admin/coupons/:code')
+  @RequirePermissions(Permission.PAYMENT_COUPON)
+  @ApiOperation({
+    summary: '修改优惠码（管理员）',
+    description:
+      '停用优惠码请将 isActive 设置为 false；已创建的订单按下单时的优惠金额支付，不受影响',
+  })
+  updateCoupon(@Param('code') code: string, @Body() dto: UpdateCouponDto) {
+    return this.couponService.update(code, dto);
+  }
+
+  /**
+   * 获取优惠码核销记录（管理员）
+   */
+  @Get('admin/coupons/:code/redemptions')
+  @RequirePermissions(Permission.PAYMENT_COUPON)
+  @ApiOperation({ summary: '获取优惠码核销记录（管理员）' })
+  @ApiQuery({ name: 'skip', required: false })
+  @ApiQuery({ name: 'limit', required: false })
+  listCouponRedemptions(
+    @Param('code') code: string,
+    @Query('skip') skip?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.couponService.listRedemptions(code, {
+      skip: Number(skip) || 0,
+      limit: Math.min(Number(limit) || 20, 100),
+    });
+  }
 }
@@ -3,10 +3,41 @@ import { ConfigModule } from '@nestjs/config';
 import { MongooseModule } from '@nestjs/mongoose';
 import { PaymentController } from './payment.controller';
 import { PaymentService } from './payment.service';
-// import { AlipayPaymentService } from './providers/alipay-payment.service';
+import { PaymentRefundService } from './payment-refund.service';
+import { PaymentOrderSweeperService } from './payment-order-sweeper.service';
+import { PaymentRefundResolverService } from './payment-refund-resolver.service';
+import { PlanService } from './plan.service';
+import { Plan, PlanSchema } from './plan.schema';
+import { CouponService } from './coupon.service';
+import { Coupon, CouponSchema } from './coupon.schema';
+import {
+  CouponRedemption,
+  CouponRedemptionSchema,
+} from './coupon-redemption.schema';
+import { ReconciliationController } from './reconciliation/reconciliation.controller';
+import { ReconciliationService } from './reconciliation/reconciliation.service';
+import { ReconciliationSchedulerService } from './reconciliation/reconciliation-scheduler.service';
+import { LocalFileBillLoader } from './reconciliation/local-file-bill.loader';
+import { PAYMENT_BILL_LOADER } from './reconciliation/payment-bill.loader';
+import {
+  ReconciliationReport,
+  ReconciliationReportSchema,
+} from './reconciliation/reconciliation-report.schema';
+import {
+  ReconciliationIssue,
+  ReconciliationIssueSchema,
+} from './reconciliation/reconciliation-issue.schema';
+import { VipService } from './vip/vip.service';
+import { VipSchedulerService } from './vip/vip-scheduler.service';
+import { LogVipReminderNotifier } from './vip/log-vip-reminder.notifier';
+import { VIP_REMINDER_NOTIFIER } from './vip/vip-reminder.notifier';
+import { AlipayPaymentService } from './providers/alipay-payment.service';
+import { WechatPaymentService } from './providers/wechat-payment.service';
 import { VirtualPaymentService } from './providers/virtual-payment.service';
 import { PaymentRecord, PaymentRecordSchema } from './payment-record.schema';
+import { PaymentRefund, PaymentRefundSchema } from './payment-refund.schema';
 import { User, UserSchema } from '../user/schemas/user.schema';
+import { LedgerModule } from '../ledger/ledger.module';
 import {
   UserTransaction,
   UserTransactionSchema,
@@ -15,8 +46,15 @@ import {
 @Module({
   imports: [
     ConfigModule,
+    LedgerModule, // 套餐权益、退款扣回和会员补足次数通过账本记账
     MongooseModule.forFeature([
       { name: PaymentRecord.name, schema: PaymentRecordSchema },
+      { name: PaymentRefund.name, schema: PaymentRefundSchema },
+      { name: Plan.name, schema: PlanSchema },
+      { name: Coupon.name, schema: CouponSchema },
+      { name: CouponRedemption.name, schema: CouponRedemptionSchema },
+      { name: ReconciliationReport.name, schema: ReconciliationReportSchema },
+      { name: ReconciliationIssue.name, schema: ReconciliationIssueSchema },
       { name: User.name, schema: UserSchema },
       {
         name: UserTransaction.name,
@@ -24,8 +62,32 @@ import {
       },
     ]),
   ],
-  controllers: [PaymentController],
-  providers: [PaymentService, VirtualPaymentService],
-  exports: [PaymentService],
+  controllers: [PaymentController, ReconciliationController],
+  providers: [
+    PaymentService,
+    PaymentRefundService,
+    PlanService,
+    CouponService,
+    PaymentOrderSweeperService,
+    PaymentRefundResolverService,
+    ReconciliationService,
+    ReconciliationSchedulerService,
+    {
+      // 渠道账单加载器：目前从本地文件读取，接入渠道账单下载接口时在这里替换
+      provide: PAYMENT_BILL_LOADER,
+      useClass: LocalFileBillLoader,
+    },
+    VipService,
+    VipSchedulerService,
+    {
+      // 会员续费提醒：目前只记录日志，接入短信 / 邮件通知时在这里替换
+      provide: VIP_REMINDER_NOTIFIER,
+      useClass: LogVipReminderNotifier,
+    },
+    AlipayPaymentService,
+    WechatPaymentService,
+    VirtualPaymentService,
+  ],
+  exports: [PaymentService, PlanService, VipService],
 })
 export class PaymentModule {}
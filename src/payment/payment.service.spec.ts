@@ -0,0 +1,125 @@
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { mockQuery } from '../../test/mock-query';
+import { CouponService } from './coupon.service';
+import { PaymentRecord, PaymentRecordStatus } from './payment-record.schema';
+import { PaymentService } from './payment.service';
+import { PaymentChannel } from './payment.types';
+import { AlipayPaymentService } from './providers/alipay-payment.service';
+import { VirtualPaymentService } from './providers/virtual-payment.service';
+
+describe('PaymentService', () => {
+  let service: PaymentService;
+  const paymentRecordModel = {
+    find: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+  };
+  const configService = {
+    get: jest.fn(),
+  };
+  const virtualPayment = {
+    closeTrade: jest.fn(),
+    pruneOrders: jest.fn(),
+  };
+  const alipayPayment = {
+    queryTrade: jest.fn(),
+    closeTrade: jest.fn(),
+  };
+  const couponService = {
+    release: jest.fn(),
+  };
+
+  const expiredRecord = {
+    orderId: 'o1',
+    channel: PaymentChannel.ALIPAY,
+    userId: 'u1',
+    status: PaymentRecordStatus.PENDING,
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        PaymentService,
+        {
+          provide: getModelToken(PaymentRecord.name),
+          useValue: paymentRecordModel,
+        },
+        { provide: ConfigService, useValue: configService },
+        { provide: VirtualPaymentService, useValue: virtualPayment },
+        { provide: AlipayPaymentService, useValue: alipayPayment },
+        { provide: CouponService, useValue: couponService },
+      ],
+    })
+      .useMocker(() => ({}))
+      .compile();
+    service = moduleRef.get(PaymentService);
+
+    paymentRecordModel.find.mockReturnValue(mockQuery([expiredRecord]));
+    paymentRecordModel.findOneAndUpdate.mockReturnValue(
+      mockQuery(expiredRecord),
+    );
+  });
+
+  const liveMode = () =>
+    configService.get.mockImplementation((key: string) =>
+      key === 'PAYMENT_MODE' ? 'live' : undefined,
+    );
+
+  describe('sweepExpiredOrders', () => {
+    it('关闭过期未支付的订单', async () => {
+      expect(await service.sweepExpiredOrders()).toBe(1);
+
+      expect(virtualPayment.closeTrade).toHaveBeenCalledWith('o1');
+      expect(paymentRecordModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { orderId: 'o1', status: PaymentRecordStatus.PENDING },
+        {
+          $set: {
+            status: PaymentRecordStatus.CLOSED,
+            closedAt: expect.any(Date) as unknown,
+          },
+        },
+      );
+      expect(virtualPayment.pruneOrders).toHaveBeenCalled();
+    });
+
+    it('关闭使用了优惠码的订单时释放占用的次数', async () => {
+      paymentRecordModel.findOneAndUpdate.mockReturnValue(
+        mockQuery({ ...expiredRecord, coupon: { code: 'SPRING20' } }),
+      );
+
+      await service.sweepExpiredOrders();
+
+      expect(couponService.release).toHaveBeenCalledWith('o1');
+    });
+
+    it('订单已被并发处理时不释放优惠码', async () => {
+      paymentRecordModel.findOneAndUpdate.mockReturnValue(mockQuery(null));
+
+      await service.sweepExpiredOrders();
+
+      expect(couponService.release).not.toHaveBeenCalled();
+    });
+
+    it('真实支付渠道最后一次查询失败时仍然关闭订单', async () => {
+      liveMode();
+      alipayPayment.queryTrade.mockRejectedValue(new Error('交易不存在'));
+
+      await service.sweepExpiredOrders();
+
+      expect(alipayPayment.closeTrade).toHaveBeenCalledWith('o1');
+      expect(paymentRecordModel.findOneAndUpdate).toHaveBeenCalled();
+    });
+
+    it('关闭失败的订单保持待支付，下一轮继续处理', async () => {
+      liveMode();
+      alipayPayment.queryTrade.mockResolvedValue({ paid: false });
+      alipayPayment.closeTrade.mockRejectedValue(new Error('渠道超时'));
+
+      expect(await service.sweepExpiredOrders()).toBe(1);
+
+      expect(paymentRecordModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,10 +1,17 @@
 import { Injectable } from '@nestjs/common';
-import { PaymentOrderPayload, PaymentInitiationResult } from './payment.types';
+import { ConfigService } from '@nestjs/config';
+import {
+  PaymentOrderPayload,
+  PaymentInitiationResult,
+  PaymentProvider,
+  PaymentTradeResult,
+} from './payment.types';
 import { InitiatePaymentDto } from './dto/initiate-payment.dto';
 import {
   BadRequestException,
   ForbiddenException,
   Logger,
+  NotFoundException,
 } from '@nestjs/common';
 import { v4 as uuidv4 } from 'uuid';
 import { PaymentChannel } from './payment.types';
@@ -20,9 +27,23 @@ import {
   UserTransactionType,
 } from '../user/schemas/user-transaction.schema';
 
-// import { AlipayPaymentService } from './providers/alipay-payment.service';
-// import { WechatPaymentService } from './providers/wechat-payment.service';
+import {
+  ALIPAY_PAID_STATUSES,
+  AlipayPaymentService,
+} from './providers/alipay-payment.service';
+import {
+  WechatPaymentService,
+  WechatPayNotifyHeaders,
+} from './providers/wechat-payment.service';
 import { VirtualPaymentService } from './providers/virtual-payment.service';
+import { PlanService } from './plan.service';
+import type { PlanSnapshot } from './plan.service';
+import { PlanPricingMode, PlanType } from './plan.schema';
+import { CouponService } from './coupon.service';
+import { VipService } from './vip/vip.service';
+import { ValidateCouponDto } from './dto/coupon.dto';
+import { LedgerService } from '../ledger/ledger.service';
+import { LedgerReason } from '../ledger/ledger-entry.schema';
 
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
@@ -40,7 +61,7 @@ export type PaymentRecordContext = {
   /** 买家登录账号（支付宝侧返回的脱敏账号，如手机号或邮箱） */
   buyerLogonId: string;
 
-  /** 买家实际支付金额 */
+  /** 买家实际支付金额（渠道优惠后可能低于订单金额，只用于展示） */
   buyerPayAmount: string;
 
   /** 可开票金额 */
@@ -63,7 +84,7 @@ export type PaymentRecordContext = {
   /** 实际到账金额（扣除手续费后的金额） */
   receiptAmount: string;
 
-  /** 订单总金额 */
+  /** 订单总金额（验证金额、发放权益和记录充值流水以此为准） */
   totalAmount: string;
 
   /** 支付宝侧生成的交易号（平台侧唯一） */
@@ -112,20 +133,44 @@ export class PaymentService {
     @InjectModel(UserTransaction.name)
     private readonly userTransactionModel: Model<UserTransactionDocument>,
     private readonly virtualPayment: VirtualPaymentService,
+    private readonly alipayPayment: AlipayPaymentService,
+    private readonly wechatPayment: WechatPaymentService,
+    private readonly planService: PlanService,
+    private readonly couponService: CouponService,
+    private readonly vipService: VipService,
+    private readonly ledgerService: LedgerService,
+    private readonly configService: ConfigService,
   ) {}
 
-  // 进行套餐逻辑验证
-  private readonly planAmountMap = {
-    custom: {
-      type: 'custom',
-      validate: (amount: number) =>
-        Number.isInteger(amount) && amount >= 1 && amount <= 10000,
-    },
-    single: { type: 'single', validate: (amount: number) => amount === 18.8 },
-    pro: { type: 'pro', validate: (amount: number) => amount === 28.8 },
-    max: { type: 'max', validate: (amount: number) => amount === 68.8 },
-    ultra: { type: 'ultra', validate: (amount: number) => amount === 128.8 },
-  };
+  /**
+   * 是否使用真实支付渠道
+   * PAYMENT_MODE=live 时调用支付宝 / 微信支付，默认 virtual 使用虚拟支付（开发和测试环境）
+   */
+  private get isLiveMode(): boolean {
+    return this.configService.get<string>('PAYMENT_MODE') === 'live';
+  }
+
+  /**
+   * 订单有效期（毫秒），超过有效期未支付的订单会被关闭
+   */
+  private get orderTtlMs(): number {
+    const minutes =
+      Number(this.configService.get('PAYMENT_ORDER_TTL_MINUTES')) || 15;
+    return minutes * 60 * 1000;
+  }
+
+  /**
+   * 获取支付渠道当前使用的支付服务（下单、查询和退款共用）
+   */
+  getProvider(channel: PaymentChannel): PaymentProvider {
+    if (!this.isLiveMode) {
+      return this.virtualPayment;
+    }
+    return channel === PaymentChannel.WECHAT
+      ? this.wechatPayment
+      : this.alipayPayment;
+  }
+
   /**
    * 创建支付订单
    * @param dto 支付订单信息
@@ -135,18 +180,18 @@ export class PaymentService {
     dto: InitiatePaymentDto,
     user?: { userId?: string },
   ): Promise<PaymentInitiationResult> {
-    // 进行套餐逻辑验证。
-    // 检查是否存在该套餐
-    const plan = this.planAmountMap[dto.planId];
-
-    if (!plan) {
-      throw new BadRequestException('无效的套餐ID');
-    }
-
-    // 验证金额
-    if (!plan.validate(dto.amount)) {
-      throw new BadRequestException(`${dto.planId} 套餐验证失败`);
-    }
+    // 进行套餐逻辑验证：检查套餐是否可购买，并按套餐定价验证金额
+    const plan = await this.planService.resolvePurchase(dto.planId, dto.amount);
+
+    // 使用优惠码时按优惠后的金额下单（优惠快照保存在订单上，下单时占用次数，支付成功后记录核销）
+    const quote = dto.couponCode
+      ? await this.couponService.quote(
+          dto.couponCode,
+          plan.planId,
+          dto.amount,
+          user?.userId,
+        )
+      : null;
 
     // 创建支付订单 payload
     const payload: PaymentOrderPayload = {
@@ -155,20 +200,22 @@ export class PaymentService {
         dto.channel === PaymentChannel.ALIPAY
           ? uuidv4()
           : uuidv4().replace(/-/g, ''),
-      // 订单金额
-      amount: dto.amount,
+      // 订单金额（优惠后的实付金额）
+      amount: quote ? quote.amount : dto.amount,
       // 套餐ID
       planId: dto.planId,
       // 套餐名称
-      planName: dto.planName,
+      planName: dto.planName || plan.name,
       // 来源
       source: dto.source,
       // 订单描述
       description: dto.description,
-      // 订单货币
-      currency: dto.currency ?? 'CNY',
+      // 订单货币（以套餐定价的货币为准）
+      currency: plan.currency,
       // 订单元数据
       metadata: dto.metadata,
+      // 订单过期时间
+      expiresAt: new Date(Date.now() + this.orderTtlMs),
       // 订单通知URL
       notifyUrl:
         dto.notifyUrl ??
@@ -178,39 +225,78 @@ export class PaymentService {
     };
 
     payload.metadata = this.buildPaymentMetadata(dto, payload, user?.userId);
+    payload.channel = dto.channel;
+
+    // 微信 JSAPI 支付（微信内 / 小程序）需要付款用户的 openid
+    if (dto.channel === PaymentChannel.WECHAT && dto.tradeType === 'jsapi') {
+      const payer = user?.userId
+        ? await this.userModel.findById(user.userId).select('openid').lean()
+        : null;
+      if (!payer?.openid) {
+        throw new BadRequestException('当前账号未绑定微信，无法使用微信内支付');
+      }
+      payload.openid = payer.openid;
+    }
+
+    // 🔒 占用优惠码次数（订单过期关闭或全额退款后释放）
+    if (quote && user?.userId) {
+      await this.couponService.reserve({
+        orderId: payload.orderId,
+        userId: user.userId,
+        planId: payload.planId,
+        amount: payload.amount,
+        coupon: quote.coupon,
+      });
+    }
 
     // 创建支付记录，保存元数据到数据库（解决微信元数据缓存问题）
-    await this.paymentRecordModel.create({
-      orderId: payload.orderId,
-      userId: user?.userId,
-      user: user?.userId ? new Types.ObjectId(user.userId) : undefined,
-      channel: dto.channel,
-      amount: payload.amount,
-      currency: payload.currency,
-      planId: payload.planId,
-      planName: payload.planName,
-      source: payload.source,
-      description: payload.description,
-      status: PaymentRecordStatus.PENDING,
-      metadata: payload.metadata,
-      createdAt: new Date().toISOString(),
-    });
+    try {
+      await this.paymentRecordModel.create({
+        orderId: payload.orderId,
+        userId: user?.userId,
+        user: user?.userId ? new Types.ObjectId(user.userId) : undefined,
+        channel: dto.channel,
+        amount: payload.amount,
+        expectedAmount: payload.amount,
+        coupon: quote?.coupon,
+        currency: payload.currency,
+        planId: payload.planId,
+        planName: payload.planName,
+        planSnapshot: plan,
+        source: payload.source,
+        description: payload.description,
+        status: PaymentRecordStatus.PENDING,
+        metadata: payload.metadata,
+        expiresAt: payload.expiresAt,
+        createdAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (quote) {
+        await this.couponService.release(payload.orderId);
+      }
+      throw error;
+    }
 
     this.logger.log(
       `创建支付订单记录: orderId=${payload.orderId}, channel=${dto.channel}, amount=${payload.amount}, userId=${user?.userId}`,
     );
 
-    // 使用虚拟支付
-    return this.virtualPayment.initiatePayment(payload);
+    // 根据渠道和 PAYMENT_MODE 选择支付服务
+    return this.getProvider(dto.channel).initiatePayment(payload);
   }
 
   /**
-   * 主动查询支付结果（虚拟支付）
+   * 主动查询支付结果（支付宝 / 微信支付 / 虚拟支付）
    * @param orderId 订单ID
+   * @param channel 支付渠道（需与下单时一致）
    * @param user 当前用户信息
-   * @returns 支付结果
+   * @returns 支付结果；expired 为 true 表示订单已过期关闭，前端应停止轮询
    */
-  async queryAlipayPaymentStatus(orderId: string, user: { userId: string }) {
+  async queryPaymentStatus(
+    orderId: string,
+    channel: PaymentChannel,
+    user: { userId: string },
+  ) {
     // 先从数据库获取订单信息（包含元数据）
     const paymentRecord = await this.paymentRecordModel
       .findOne({ orderId })
@@ -225,105 +311,405 @@ export class PaymentService {
       throw new ForbiddenException('无权查询此订单');
     }
 
-    // 如果订单已成功，直接返回
-    if (paymentRecord.status === PaymentRecordStatus.SUCCESS) {
+    if (paymentRecord.channel !== channel) {
+      throw new BadRequestException('支付渠道与订单不一致');
+    }
+
+    // 如果订单已成功（包括之后发生退款的订单），直接返回
+    if (this.isPaidStatus(paymentRecord.status)) {
       this.logger.debug(`订单 ${orderId} 已支付成功，直接返回`);
-      return { orderId, success: true };
+      return { orderId, success: true, expired: false };
+    }
+
+    // 订单已过期：清理任务还没处理时在这里立即处理
+    if (
+      paymentRecord.status === PaymentRecordStatus.PENDING &&
+      this.isExpired(paymentRecord)
+    ) {
+      await this.expireOrder(paymentRecord);
+      const latest = await this.paymentRecordModel
+        .findOne({ orderId })
+        .select('status')
+        .lean();
+      const success = !!latest && this.isPaidStatus(latest.status);
+      return { orderId, success, expired: !success };
     }
 
-    // 调用虚拟支付查询
-    const response = await this.virtualPayment.queryTrade(orderId);
+    if (paymentRecord.status === PaymentRecordStatus.CLOSED) {
+      return { orderId, success: false, expired: true };
+    }
 
-    // 判断支付是否成功
-    const success = response.tradeStatus === 'TRADE_SUCCESS';
+    // 调用对应渠道查询
+    const trade = await this.getProvider(channel).queryTrade(orderId);
     this.logger.log(
-      `虚拟支付订单查询结果: orderId=${orderId}, status=${response.tradeStatus}`,
+      `${this.isLiveMode ? channel : '虚拟支付'}订单查询结果: orderId=${orderId}, status=${trade.tradeStatus}`,
     );
 
-    if (success) {
+    if (trade.paid) {
+      // 使用数据库中的元数据（下单时保存，避免依赖渠道透传）
+      await this.finalizePaymentSuccess(
+        this.buildTradeContext(paymentRecord, trade, user.userId),
+      );
+    }
+
+    return {
+      orderId,
+      success: trade.paid,
+      expired: false,
+    };
+  }
+
+  /**
+   * 重新同步订单（对账发现卡单时由管理员触发）
+   * 把停留在 PROCESSING 的订单重置为 PENDING，再向支付渠道查询，已支付则完成订单
+   *
+   * @param orderId 订单ID
+   * @returns 订单是否已支付完成
+   */
+  async resyncOrder(orderId: string): Promise<boolean> {
+    const paymentRecord = await this.paymentRecordModel
+      .findOne({ orderId })
+      .exec();
+
+    if (!paymentRecord) {
+      throw new BadRequestException('订单不存在');
+    }
+
+    if (this.isPaidStatus(paymentRecord.status)) {
+      return true;
+    }
+
+    // 🔒 处理中的订单说明上次发货中断（进程退出等），重置后重新处理
+    if (paymentRecord.status === PaymentRecordStatus.PROCESSING) {
+      await this.paymentRecordModel
+        .findOneAndUpdate(
+          { orderId, status: PaymentRecordStatus.PROCESSING },
+          { $set: { status: PaymentRecordStatus.PENDING } },
+        )
+        .exec();
+      this.logger.warn(`卡单订单已重置为 PENDING: orderId=${orderId}`);
+    }
+
+    const trade = await this.getProvider(paymentRecord.channel).queryTrade(
+      orderId,
+    );
+    if (!trade.paid) {
+      this.logger.log(
+        `重新同步订单: orderId=${orderId}, status=${trade.tradeStatus}，渠道未支付`,
+      );
+      return false;
+    }
+
+    await this.finalizePaymentSuccess(
+      this.buildTradeContext(paymentRecord, trade, paymentRecord.userId),
+    );
+
+    const latest = await this.paymentRecordModel
+      .findOne({ orderId })
+      .select('status')
+      .lean();
+    return !!latest && this.isPaidStatus(latest.status);
+  }
+
+  /**
+   * 补记充值流水（对账发现已完成订单缺少流水时由管理员触发）
+   * 按订单保存的支付通知上下文重新写入，充值流水按订单号幂等
+   *
+   * @param orderId 订单ID
+   */
+  async repairRechargeTransaction(orderId: string) {
+    const paymentRecord = await this.paymentRecordModel
+      .findOne({ orderId })
+      .lean();
+
+    if (!paymentRecord || !this.isPaidStatus(paymentRecord.status)) {
+      throw new BadRequestException('订单不存在或未支付');
+    }
+
+    if (!paymentRecord.notificationPayload) {
+      throw new BadRequestException('订单缺少支付上下文，无法补记流水');
+    }
+
+    await this.ensureRechargeTransaction(
+      paymentRecord.notificationPayload as PaymentRecordContext,
+    );
+  }
+
+  /**
+   * 关闭过期未支付的订单（由 PaymentOrderSweeperService 定时调用）
+   * @param limit 单次最多处理的订单数
+   * @returns 本次处理的订单数
+   */
+  async sweepExpiredOrders(limit = 100): Promise<number> {
+    const now = new Date();
+    const expiredRecords = await this.paymentRecordModel
+      .find({
+        status: PaymentRecordStatus.PENDING,
+        $or: [
+          { expiresAt: { $lte: now } },
+          // 兼容没有过期时间的历史订单
+          {
+            expiresAt: { $exists: false },
+            createdAt: { $lte: new Date(now.getTime() - this.orderTtlMs) },
+          },
+        ],
+      })
+      .sort({ createdAt: 1 })
+      .limit(limit)
+      .exec();
+
+    for (const paymentRecord of expiredRecords) {
+      try {
+        await this.expireOrder(paymentRecord);
+      } catch (error) {
+        // 失败的订单保持 PENDING，下一轮继续处理
+        this.logger.error(
+          `关闭过期订单失败: orderId=${paymentRecord.orderId}, ${(error as Error).message}`,
+        );
+      }
+    }
+
+    // 虚拟支付：超过有效期的订单不会再被查询，清理内存中的订单金额
+    if (!this.isLiveMode) {
+      this.virtualPayment.pruneOrders(
+        new Date(now.getTime() - this.orderTtlMs),
+      );
+    }
+
+    return expiredRecords.length;
+  }
+
+  /**
+   * 处理过期订单
+   * 1. 最后查询一次支付渠道，已支付则正常完成订单（防止关闭已付款的订单）
+   * 2. 未支付则在支付渠道关闭交易，并标记订单为 CLOSED
+   *
+   * 虚拟支付的查询总是返回已支付，因此只有真实支付渠道才做最后一次查询
+   *
+   * @param paymentRecord 过期的支付记录
+   */
+  private async expireOrder(paymentRecord: PaymentRecordDocument) {
+    const { orderId, channel } = paymentRecord;
+    const provider = this.getProvider(channel);
+
+    if (this.isLiveMode) {
+      let trade: PaymentTradeResult | undefined;
+      try {
+        trade = await provider.queryTrade(orderId);
+      } catch (error) {
+        // 查询失败（如用户未扫码时交易不存在）不影响关闭订单
+        this.logger.warn(
+          `过期订单最后一次查询失败: orderId=${orderId}, ${(error as Error).message}`,
+        );
+      }
+
+      if (trade?.paid) {
+        this.logger.log(`过期订单已支付，继续完成订单: orderId=${orderId}`);
+        await this.finalizePaymentSuccess(
+          this.buildTradeContext(paymentRecord, trade, paymentRecord.userId),
+        );
+        return;
+      }
+    }
+
+    await provider.closeTrade(orderId);
+
+    // 🔒 只有 PENDING 状态才能关闭，防止覆盖并发完成的订单
+    const closedRecord = await this.paymentRecordModel
+      .findOneAndUpdate(
+        { orderId, status: PaymentRecordStatus.PENDING },
+        {
+          $set: { status: PaymentRecordStatus.CLOSED, closedAt: new Date() },
+        },
+      )
+      .exec();
+
+    if (closedRecord) {
+      this.logger.log(`⏰ 订单超时未支付，已关闭: orderId=${orderId}`);
+
+      // 释放订单占用的优惠码次数（关闭后又支付成功时重新计入）
+      if (closedRecord.coupon) {
+        await this.couponService.release(orderId);
+      }
+    }
+  }
+
+  /**
+   * 订单是否已超过有效期
+   */
+  private isExpired(paymentRecord: PaymentRecordDocument): boolean {
+    const expiresAt =
+      paymentRecord.expiresAt?.getTime() ??
+      (paymentRecord.createdAt?.getTime() ?? Date.now()) + this.orderTtlMs;
+    return expiresAt <= Date.now();
+  }
+
+  /**
+   * 处理支付宝异步通知
+   * 验签通过后按订单完成支付（重复通知由 finalizePaymentSuccess 的状态机去重）
+   *
+   * @param params 支付宝 POST 过来的通知参数
+   * @returns 是否处理完成；返回 false 时支付宝会按重试策略再次通知
+   */
+  async handleAlipayNotification(
+    params: Record<string, string>,
+  ): Promise<boolean> {
+    const orderId = params.out_trade_no;
+
+    // 未启用支付宝支付时不会有真实订单，直接应答，避免支付宝反复通知
+    if (!this.isLiveMode) {
+      this.logger.warn(`未启用支付宝支付，忽略异步通知: orderId=${orderId}`);
+      return true;
+    }
+
+    if (!this.alipayPayment.verifyNotification(params)) {
+      this.logger.warn(`支付宝异步通知验签失败: orderId=${orderId}`);
+      return false;
+    }
+
+    const paymentRecord = await this.paymentRecordModel
+      .findOne({ orderId })
+      .exec();
+
+    // 订单不存在时重试也无法处理，直接应答，避免支付宝反复通知
+    if (!paymentRecord) {
+      this.logger.error(`支付宝异步通知对应的订单不存在: orderId=${orderId}`);
+      return true;
+    }
+
+    if (!ALIPAY_PAID_STATUSES.includes(params.trade_status)) {
+      this.logger.log(
+        `支付宝异步通知: orderId=${orderId}, status=${params.trade_status}，无需处理`,
+      );
+      return true;
+    }
+
+    const metadata = this.extractAlipayMetadata(params, paymentRecord.metadata);
+
+    try {
       await this.finalizePaymentSuccess({
-        userId: user.userId,
-        buyerLogonId: response.buyerLogonId,
-        buyerPayAmount: response.buyerPayAmount,
-        invoiceAmount: response.invoiceAmount,
-        outTradeNo: response.outTradeNo,
-        passbackParams: '', // Virtual payment doesn't provide this
-        pointAmount: response.pointAmount,
-        receiptAmount: response.receiptAmount,
-        totalAmount: response.totalAmount,
-        tradeNo: response.tradeNo,
-        tradeStatus: response.tradeStatus,
-        buyerOpenId: '', // Virtual payment doesn't provide this
-        traceId: orderId, // Use orderId as traceId for virtual payment
-        metadata: paymentRecord.metadata,
-        channel: paymentRecord.channel,
-        paidAt: new Date(response.sendPayDate),
+        userId: paymentRecord.userId || '',
+        buyerLogonId: params.buyer_logon_id,
+        buyerPayAmount: params.buyer_pay_amount || params.total_amount,
+        invoiceAmount: params.invoice_amount,
+        outTradeNo: orderId,
+        passbackParams: params.passback_params || '',
+        pointAmount: params.point_amount,
+        receiptAmount: params.receipt_amount,
+        totalAmount: params.total_amount,
+        tradeNo: params.trade_no,
+        tradeStatus: params.trade_status,
+        buyerOpenId: params.buyer_open_id || '',
+        traceId: params.notify_id,
+        metadata,
+        channel: PaymentChannel.ALIPAY,
+        paidAt: params.gmt_payment ? new Date(params.gmt_payment) : new Date(),
         currency: paymentRecord.currency || 'CNY',
       });
+    } catch (error) {
+      this.logger.error(
+        `支付宝异步通知处理失败: orderId=${orderId}, ${error.message}`,
+      );
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * 处理微信支付回调通知
+   * 验签并解密后按订单完成支付（重复通知由 finalizePaymentSuccess 的状态机去重）
+   *
+   * @param headers 回调请求头（包含签名信息）
+   * @param rawBody 回调请求的原始报文
+   * @returns 是否处理完成；返回 false 时微信支付会按重试策略再次通知
+   */
+  async handleWechatNotification(
+    headers: WechatPayNotifyHeaders,
+    rawBody: string,
+  ): Promise<boolean> {
+    // 未启用微信支付时不会有真实订单，直接应答，避免微信支付反复通知
+    if (!this.isLiveMode) {
+      this.logger.warn('未启用微信支付，忽略回调通知');
+      return true;
+    }
+
+    let trade: PaymentTradeResult;
+    try {
+      trade = this.wechatPayment.parseNotification(headers, rawBody);
+    } catch (error) {
+      this.logger.warn(`微信支付回调通知校验失败: ${(error as Error).message}`);
+      return false;
+    }
+
+    const paymentRecord = await this.paymentRecordModel
+      .findOne({ orderId: trade.orderId })
+      .exec();
+
+    // 订单不存在时重试也无法处理，直接应答，避免微信支付反复通知
+    if (!paymentRecord) {
+      this.logger.error(
+        `微信支付回调通知对应的订单不存在: orderId=${trade.orderId}`,
+      );
+      return true;
+    }
+
+    if (!trade.paid) {
+      this.logger.log(
+        `微信支付回调通知: orderId=${trade.orderId}, status=${trade.tradeStatus}，无需处理`,
+      );
+      return true;
     }
 
+    try {
+      await this.finalizePaymentSuccess(
+        this.buildTradeContext(paymentRecord, trade, paymentRecord.userId),
+      );
+    } catch (error) {
+      this.logger.error(
+        `微信支付回调通知处理失败: orderId=${trade.orderId}, ${(error as Error).message}`,
+      );
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * 根据渠道交易结果构建支付记录上下文
+   * @param paymentRecord 支付记录（提供元数据和渠道）
+   * @param trade 渠道交易结果
+   * @param userId 用户ID
+   */
+  private buildTradeContext(
+    paymentRecord: PaymentRecordDocument,
+    trade: PaymentTradeResult,
+    userId?: string,
+  ): PaymentRecordContext {
     return {
-      orderId,
-      success,
+      userId: userId || '',
+      buyerLogonId: trade.buyerId || '',
+      buyerPayAmount: trade.payAmount || '0',
+      invoiceAmount: trade.totalAmount || trade.payAmount || '0',
+      outTradeNo: trade.orderId,
+      passbackParams: '',
+      pointAmount: '0',
+      receiptAmount: trade.payAmount || '0',
+      totalAmount: trade.totalAmount || trade.payAmount || '0',
+      tradeNo: trade.tradeNo || '',
+      tradeStatus: trade.tradeStatus,
+      buyerOpenId:
+        paymentRecord.channel === PaymentChannel.WECHAT
+          ? trade.buyerId || ''
+          : '',
+      traceId: trade.tradeNo || trade.orderId,
+      metadata: paymentRecord.metadata,
+      channel: paymentRecord.channel,
+      paidAt: trade.paidAt || new Date(),
+      currency: paymentRecord.currency || 'CNY',
     };
   }
 
-  // /**
-  //  * 主动查询微信支付结果
-  //  * @param orderId 订单ID
-  //  * @param user 当前用户信息
-  //  * @returns 支付结果
-  //  */
-  // async queryWechatPaymentStatus(orderId: string, user: { userId: string }) {
-  //   // 先从数据库获取订单信息（包含元数据）
-  //   const paymentRecord = await this.paymentRecordModel
-  //     .findOne({ orderId })
-  //     .exec();
-
-  //   if (!paymentRecord) {
-  //     throw new BadRequestException('订单不存在');
-  //   }
-
-  //   // 验证订单归属（安全修复：防止用户 A 查询用户 B 的订单）
-  //   if (paymentRecord.userId && paymentRecord.userId !== user.userId) {
-  //     throw new ForbiddenException('无权查询此订单');
-  //   }
-
-  //   // 如果订单已成功，直接返回
-  //   if (paymentRecord.status === PaymentRecordStatus.SUCCESS) {
-  //     this.logger.debug(`订单 ${orderId} 已支付成功，直接返回`);
-  //     return { orderId, success: true };
-  //   }
-
-  //   // 获取微信支付查询结果
-  //   const response = await this.wechatPayment.queryTrade(orderId);
-  //   this.logger.log(
-  //     `微信支付订单查询结果: orderId=${orderId}, state=${response.trade_state}`,
-  //   );
-
-  //   // 判断微信支付，是否支付成功
-  //   const success = response.trade_state === 'SUCCESS';
-  //   if (success) {
-  //     // 使用数据库中的元数据（方案三）
-  //     response.metadata = paymentRecord.metadata;
-
-  //     // 完成支付成功
-  //     await this.finalizePaymentSuccess({
-  //       ...(response as PaymentRecordContext),
-  //       userId: user.userId,
-  //       channel: PaymentChannel.WECHAT,
-  //       paidAt: response.success_time,
-  //       currency: 'CNY',
-  //       outTradeNo: response.out_trade_no,
-  //       buyerPayAmount: (response.amount.payer_total / 100).toString(),
-  //     });
-  //   }
-  //   return {
-  //     orderId,
-  //     success,
-  //   };
-  // }
-
   /**
    * 构建支付订单元数据
    * @param dto 支付订单信息
@@ -425,7 +811,12 @@ export class PaymentService {
       .findOneAndUpdate(
         {
           orderId: context.outTradeNo,
-          status: { $in: [PaymentRecordStatus.PENDING] }, // 只有 PENDING 状态才能更新
+          // 只有 PENDING 状态才能更新；已关闭的订单收到支付成功（关闭与付款并发）时同样需要发放权益
+          status: {
+            $in: [PaymentRecordStatus.PENDING, PaymentRecordStatus.CLOSED],
+          },
+          // 异常关闭的订单（如金额不匹配）需要人工核对，不再自动发放权益
+          anomalyReason: { $exists: false },
         },
         {
           $set: {
@@ -444,7 +835,7 @@ export class PaymentService {
         .findOne({ orderId: context.outTradeNo })
         .exec();
 
-      if (existingRecord?.status === PaymentRecordStatus.SUCCESS) {
+      if (existingRecord && this.isPaidStatus(existingRecord.status)) {
         this.logger.debug(
           `订单 ${context.outTradeNo} 已处理成功，跳过重复的支付通知`,
         );
@@ -458,6 +849,13 @@ export class PaymentService {
         return;
       }
 
+      if (existingRecord?.anomalyReason) {
+        this.logger.warn(
+          `订单 ${context.outTradeNo} 已异常关闭，跳过支付通知: ${existingRecord.anomalyReason}`,
+        );
+        return;
+      }
+
       this.logger.error(
         `订单 ${context.outTradeNo} 状态异常，无法处理支付成功`,
       );
@@ -465,21 +863,64 @@ export class PaymentService {
     }
 
     try {
-      // 🔒 安全修复：验证支付金额是否匹配套餐
-      this.validatePaymentAmount(context);
+      // 按下单时的套餐快照验证金额和发放权益
+      const plan = await this.resolveOrderPlan(updatedRecord);
+
+      // 🔒 安全修复：验证支付金额是否匹配套餐（使用优惠码的订单按优惠后的应付金额验证）
+      const amountMismatch = this.validatePaymentAmount(
+        context,
+        plan,
+        updatedRecord.expectedAmount,
+      );
+      if (amountMismatch) {
+        await this.closeAnomalousOrder(updatedRecord, amountMismatch);
+        return;
+      }
 
-      // 应用套餐权益
-      await this.applyPlanBenefits(context);
+      // 应用套餐权益（记录发放的权益，退款时按此扣回；使用优惠码时按原价计算）
+      const grantedBenefits = await this.applyPlanBenefits(
+        context,
+        plan,
+        updatedRecord.coupon?.originalAmount ??
+          this.normalizeAmount(context.totalAmount),
+      );
+
+      // 会员订阅套餐：开通或续期会员（按订单号只开通一次，失败重试时返回已开通的区间，不再顺延）
+      if (
+        plan?.type === PlanType.SUBSCRIPTION &&
+        context.userId &&
+        !updatedRecord.vipGrant
+      ) {
+        const vipGrant = await this.vipService.activate(
+          context.userId,
+          plan,
+          updatedRecord.orderId,
+        );
+        await this.paymentRecordModel
+          .findByIdAndUpdate(updatedRecord._id, { $set: { vipGrant } })
+          .exec();
+      }
 
       // 确保充值流水
       await this.ensureRechargeTransaction(context);
 
+      // 记录优惠码核销（下单时已占用次数，这里标记为已核销；按订单号幂等，重试时不会重复计数）
+      await this.couponService.recordRedemption({
+        orderId: updatedRecord.orderId,
+        userId: updatedRecord.userId,
+        planId: updatedRecord.planId,
+        amount: updatedRecord.amount,
+        coupon: updatedRecord.coupon,
+        paidAt: context.paidAt,
+      });
+
       // 🔒 最终更新订单状态为 SUCCESS
       await this.paymentRecordModel
         .findByIdAndUpdate(updatedRecord._id, {
           $set: {
             status: PaymentRecordStatus.SUCCESS,
             paidAt: context.paidAt,
+            grantedBenefits,
           },
         })
         .exec();
@@ -504,52 +945,115 @@ export class PaymentService {
   }
 
   /**
-   * 🔒 安全修复：验证支付金额是否匹配套餐
-   * @param context 支付记录上下文
+   * 异常关闭订单（如支付金额不匹配）
+   * 订单进入终态并记录原因，支付通知正常应答，不再重试；已收款项需要人工核对后退款
    */
-  private validatePaymentAmount(context: PaymentRecordContext) {
-    const planId = context.metadata?.planId;
-    if (!planId) {
-      this.logger.warn(`订单 ${context.outTradeNo} 缺少套餐信息，跳过金额验证`);
-      return;
+  private async closeAnomalousOrder(
+    record: PaymentRecordDocument,
+    anomalyReason: string,
+  ) {
+    await this.paymentRecordModel
+      .findByIdAndUpdate(record._id, {
+        $set: {
+          status: PaymentRecordStatus.CLOSED,
+          closedAt: new Date(),
+          anomalyReason,
+        },
+      })
+      .exec();
+
+    this.logger.error(
+      `❌ 订单 ${record.orderId} 异常关闭，需要人工核对: ${anomalyReason}`,
+    );
+
+    // 释放订单占用的优惠码次数
+    if (record.coupon) {
+      await this.couponService.release(record.orderId);
+    }
+  }
+
+  /**
+   * 订单是否已支付（支付成功后发生退款的订单也算已支付）
+   */
+  isPaidStatus(status: PaymentRecordStatus): boolean {
+    return [
+      PaymentRecordStatus.SUCCESS,
+      PaymentRecordStatus.PARTIALLY_REFUNDED,
+      PaymentRecordStatus.REFUNDED,
+    ].includes(status);
+  }
+
+  /**
+   * 获取订单的套餐快照
+   * 兼容没有保存快照的历史订单：使用当前的套餐配置
+   * @returns 套餐快照；订单没有套餐信息时返回 null
+   */
+  private async resolveOrderPlan(
+    record: Pick<PaymentRecord, 'planId' | 'planSnapshot'>,
+  ): Promise<PlanSnapshot | null> {
+    if (record.planSnapshot) {
+      return record.planSnapshot;
+    }
+
+    if (!record.planId) {
+      return null;
     }
 
-    const plan = this.planAmountMap[planId];
+    const plan = await this.planService.findSnapshot(record.planId);
     if (!plan) {
-      throw new BadRequestException(`无效的套餐ID: ${planId}`);
+      throw new BadRequestException(`无效的套餐ID: ${record.planId}`);
     }
+    return plan;
+  }
 
-    const actualAmount = this.normalizeAmount(context.buyerPayAmount);
-    const expectedAmount = this.normalizeAmount(context.metadata?.amount);
+  /**
+   * 🔒 安全修复：验证支付金额是否匹配套餐
+   * @param context 支付记录上下文
+   * @param plan 下单时的套餐快照
+   * @param expectedAmount 下单时计算的应付金额（没有记录应付金额的历史订单按套餐价格验证）
+   * @returns 金额不匹配的原因；验证通过时返回 null
+   */
+  private validatePaymentAmount(
+    context: PaymentRecordContext,
+    plan: PlanSnapshot | null,
+    expectedAmount?: number,
+  ): string | null {
+    if (!plan) {
+      this.logger.warn(`订单 ${context.outTradeNo} 缺少套餐信息，跳过金额验证`);
+      return null;
+    }
 
-    // 对于 custom 套餐，只需要验证金额范围
-    if (planId === 'custom') {
-      if (!plan.validate(actualAmount)) {
-        throw new BadRequestException(
-          `自定义套餐金额 ${actualAmount} 不在允许范围内 (1-10000)`,
-        );
+    // 验证订单总金额：渠道自己的优惠（如支付宝红包）会让买家实付金额低于订单金额，不能用实付金额验证
+    const actualAmount = this.normalizeAmount(context.totalAmount);
+
+    // 下单时已按套餐价格和优惠码计算应付金额，验证订单金额是否一致（允许 0.01 的浮点误差）
+    if (expectedAmount != null) {
+      if (Math.abs(actualAmount - expectedAmount) > 0.01) {
+        return `支付金额不匹配: 订单金额=${actualAmount}, 应付=${expectedAmount}, 套餐=${plan.planId}`;
       }
-      return;
+      this.logger.debug(
+        `订单 ${context.outTradeNo} 金额验证通过: planId=${plan.planId}, amount=${actualAmount}`,
+      );
+      return null;
     }
 
-    // TODO：测试暂时注释一下代码
-    // 对于固定金额套餐，验证实付金额是否匹配（允许 0.01 的浮点误差）
-    if (Math.abs(actualAmount - expectedAmount) > 0.01) {
-      throw new BadRequestException(
-        `支付金额不匹配: 实付=${actualAmount}, 应付=${expectedAmount}, 套餐=${planId}`,
-      );
+    // 对于自定义金额套餐，只需要验证金额范围
+    if (plan.pricingMode === PlanPricingMode.CUSTOM) {
+      if (!this.planService.isValidAmount(plan, actualAmount)) {
+        return `自定义套餐金额 ${actualAmount} 不在允许范围内 (${plan.minAmount}-${plan.maxAmount})`;
+      }
+      return null;
     }
 
-    // 进一步验证套餐的金额规则
-    if (!plan.validate(expectedAmount)) {
-      throw new BadRequestException(
-        `套餐 ${planId} 的金额 ${expectedAmount} 验证失败`,
-      );
+    // 对于固定金额套餐，验证实付金额是否匹配下单时的价格（允许 0.01 的浮点误差）
+    if (Math.abs(actualAmount - plan.price) > 0.01) {
+      return `支付金额不匹配: 订单金额=${actualAmount}, 应付=${plan.price}, 套餐=${plan.planId}`;
     }
 
     this.logger.debug(
-      `订单 ${context.outTradeNo} 金额验证通过: planId=${planId}, amount=${actualAmount}`,
+      `订单 ${context.outTradeNo} 金额验证通过: planId=${plan.planId}, amount=${actualAmount}`,
     );
+    return null;
   }
 
   /**
@@ -578,14 +1082,17 @@ export class PaymentService {
 
   /**
    * 应用套餐权益
-   * @param record 支付记录
-   * @param paidAmount 支付金额
-   * @returns 应用套餐权益结果
+   * @param context 支付记录上下文
+   * @param plan 下单时的套餐快照
+   * @param amount 计算权益的金额（自定义金额套餐按此发放小麦币）
+   * @returns 发放的权益增量（未发放时返回 undefined）
    */
-  private async applyPlanBenefits(context: PaymentRecordContext) {
-    // 获取套餐ID
-    const planId = context.metadata?.planId;
-    if (!planId) {
+  private async applyPlanBenefits(
+    context: PaymentRecordContext,
+    plan: PlanSnapshot | null,
+    amount: number,
+  ): Promise<Record<string, number> | undefined> {
+    if (!plan) {
       this.logger.warn(`订单 ${context.outTradeNo} 缺少套餐信息，无法更新权益`);
       return;
     }
@@ -596,52 +1103,61 @@ export class PaymentService {
     }
 
     // 计算增量
-    const increments: Record<string, number> = {};
-
-    // 根据套餐ID更新用户权益
-    switch (planId) {
-      case 'custom':
-        // TODO：这里增加的小麦币为实付金额，后续看是否需要根据套餐金额进行调整
-        const effectiveAmount = this.normalizeAmount(context.buyerPayAmount);
-        if (effectiveAmount > 0) {
-          increments.maiCoinBalance = effectiveAmount;
-        }
-        break;
-      case 'single':
-        increments.specialRemainingCount = 1;
-        break;
-      case 'pro':
-        increments.resumeRemainingCount = 1;
-        increments.specialRemainingCount = 1;
-        increments.behaviorRemainingCount = 1;
-        break;
-      case 'max':
-        increments.resumeRemainingCount = 3;
-        increments.specialRemainingCount = 3;
-        increments.behaviorRemainingCount = 3;
-        break;
-      case 'ultra':
-        increments.resumeRemainingCount = 6;
-        increments.specialRemainingCount = 16;
-        increments.behaviorRemainingCount = 8;
-        break;
-      default:
-        this.logger.warn(`未知套餐 ${planId}，跳过权益更新`);
-        return;
-    }
+    const increments = this.planService.calculateBenefits(plan, amount);
 
-    await this.incrementUserBenefits(context.userId, increments);
+    await this.incrementUserBenefits(context.userId, increments, {
+      orderId: context.outTradeNo,
+      planId: plan.planId,
+      planName: plan.name,
+    });
+    return increments;
+  }
+
+  /**
+   * 计算订单对应的权益增量（按下单时的套餐快照）
+   * @param record 支付记录
+   * @param paidAmount 实付金额（自定义金额套餐按实付金额发放小麦币，使用优惠码时按原价）
+   * @returns 权益增量；订单没有套餐信息时返回 null
+   */
+  async calculateOrderBenefits(
+    record: Pick<PaymentRecord, 'planId' | 'planSnapshot' | 'coupon'>,
+    paidAmount: number,
+  ): Promise<Record<string, number> | null> {
+    const plan = await this.resolveOrderPlan(record);
+    return plan
+      ? this.planService.calculateBenefits(
+          plan,
+          record.coupon?.originalAmount ?? paidAmount,
+        )
+      : null;
   }
 
   /**
-   * 增量更新用户权益
+   * 试算优惠码（下单前展示优惠后的价格）
+   * @param dto 优惠码、套餐和原价
+   * @param user 当前用户信息
+   */
+  async previewCoupon(dto: ValidateCouponDto, user?: { userId?: string }) {
+    const plan = await this.planService.resolvePurchase(dto.planId, dto.amount);
+    return this.couponService.quote(
+      dto.code,
+      plan.planId,
+      dto.amount,
+      user?.userId,
+    );
+  }
+
+  /**
+   * 增量更新用户权益（通过账本记账，同一订单只记一次）
    * @param userId 用户ID
    * @param increments 增量
+   * @param order 订单信息
    * @returns 增量更新用户权益结果
    */
   private async incrementUserBenefits(
     userId: string,
     increments: Record<string, number>,
+    order: { orderId: string; planId: string; planName: string },
   ) {
     // 过滤出有效增量
     const entries = Object.entries(increments).filter(
@@ -657,21 +1173,18 @@ export class PaymentService {
       return;
     }
 
-    // 计算增量
-    const inc = entries.reduce(
-      (acc, [key, value]) => {
-        acc[key] = value;
-        return acc;
-      },
-      {} as Record<string, number>,
-    );
-
-    // 增量更新用户权益
-    const updatedUser = await this.userModel
-      .findByIdAndUpdate(userId, { $inc: inc }, { new: false })
-      .exec();
-
-    if (!updatedUser) {
+    // 记账并更新用户权益
+    try {
+      await this.ledgerService.post(userId, Object.fromEntries(entries), {
+        reason: LedgerReason.PURCHASE,
+        referenceId: order.orderId,
+        description: `购买${order.planName}`,
+        metadata: { planId: order.planId },
+      });
+    } catch (error) {
+      if (!(error instanceof NotFoundException)) {
+        throw error;
+      }
       this.logger.warn(`未找到用户 ${userId}，权益更新失败`);
     }
   }
@@ -682,7 +1195,7 @@ export class PaymentService {
    * @returns 确保充值流水结果
    */
   private async ensureRechargeTransaction(context: PaymentRecordContext) {
-    if (!(this.normalizeAmount(context.buyerPayAmount) > 0)) {
+    if (!(this.normalizeAmount(context.totalAmount) > 0)) {
       this.logger.warn(
         `订单 ${context.outTradeNo} 支付金额为0，跳过充值流水记录`,
       );
@@ -703,7 +1216,7 @@ export class PaymentService {
     const update: Partial<UserTransaction> = {
       userIdentifier: preferredIdentifier,
       type: UserTransactionType.RECHARGE,
-      amount: this.normalizeAmount(context.buyerPayAmount),
+      amount: this.normalizeAmount(context.totalAmount),
       currency: context.currency || 'CNY',
       description:
         context.metadata?.description ||
@@ -729,6 +1242,11 @@ export class PaymentService {
   }
 
   async mockPaymentSuccess(orderId: string, user: { userId: string }) {
+    // 正式支付模式下不允许模拟支付，否则用户不付款也能获得套餐权益
+    if (this.isLiveMode) {
+      throw new ForbiddenException('当前不支持模拟支付');
+    }
+
     // 检查用户是否已使用过模拟支付
     const currentUser = await this.userModel.findById(user.userId).exec();
     if (!currentUser) {
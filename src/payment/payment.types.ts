@@ -66,6 +66,24 @@ export interface PaymentOrderPayload {
    * 支付平台完成支付后回调该地址
    */
   notifyUrl?: string;
+
+  /**
+   * 支付渠道
+   * 虚拟支付用于模拟对应渠道的返回结果
+   */
+  channel?: PaymentChannel;
+
+  /**
+   * 付款用户的微信 openid
+   * 提供时使用微信 JSAPI 支付（微信内 / 小程序），否则使用 Native 扫码支付
+   */
+  openid?: string;
+
+  /**
+   * 订单过期时间
+   * 传给支付渠道作为交易的失效时间，过期后用户无法继续支付
+   */
+  expiresAt?: Date;
 }
 
 /**
@@ -108,3 +126,165 @@ export interface PaymentInitiationResult {
    */
   createdAt: string;
 }
+
+/**
+ * 主动查询或异步通知得到的交易结果
+ * 各支付渠道的返回格式不同，统一转换为该结构后再交给 PaymentService 处理
+ */
+export interface PaymentTradeResult {
+  /**
+   * 业务侧订单 ID（商户订单号）
+   */
+  orderId: string;
+
+  /**
+   * 是否已支付成功
+   */
+  paid: boolean;
+
+  /**
+   * 渠道原始交易状态
+   * 如：支付宝 TRADE_SUCCESS、微信 SUCCESS / NOTPAY
+   */
+  tradeStatus: string;
+
+  /**
+   * 支付渠道侧的交易号
+   */
+  tradeNo?: string;
+
+  /**
+   * 用户实付金额（单位：元）
+   */
+  payAmount?: string;
+
+  /**
+   * 订单总金额（单位：元）
+   */
+  totalAmount?: string;
+
+  /**
+   * 付款人标识
+   * 支付宝为脱敏登录账号，微信为 openid
+   */
+  buyerId?: string;
+
+  /**
+   * 支付完成时间
+   */
+  paidAt?: Date;
+
+  /**
+   * 渠道返回的原始数据，便于排查问题
+   */
+  raw: Record<string, any>;
+}
+
+/**
+ * 发起退款时的请求参数结构
+ */
+export interface PaymentRefundPayload {
+  /**
+   * 原支付订单 ID（商户订单号）
+   */
+  orderId: string;
+
+  /**
+   * 退款单号（商户侧唯一，同一退款单号重复提交不会重复退款）
+   */
+  refundId: string;
+
+  /**
+   * 本次退款金额（单位：元）
+   */
+  amount: number;
+
+  /**
+   * 原订单金额（单位：元），微信支付退款需要
+   */
+  totalAmount: number;
+
+  /**
+   * 退款原因
+   * 会展示在用户的退款账单中
+   */
+  reason?: string;
+
+  /**
+   * 货币类型，默认 CNY
+   */
+  currency?: string;
+}
+
+/**
+ * 退款结果
+ * 各支付渠道的返回格式不同，统一转换为该结构后再交给 PaymentRefundService 处理
+ */
+export interface PaymentRefundResult {
+  /**
+   * 退款单号
+   */
+  refundId: string;
+
+  /**
+   * 退款状态
+   * - success：退款成功
+   * - processing：渠道处理中，需要稍后查询
+   * - failed：退款失败（已关闭或异常）
+   */
+  status: 'success' | 'processing' | 'failed';
+
+  /**
+   * 渠道原始退款状态
+   * 如：支付宝 REFUND_SUCCESS、微信 SUCCESS / PROCESSING / ABNORMAL
+   */
+  channelStatus?: string;
+
+  /**
+   * 支付渠道侧的退款单号
+   */
+  channelRefundNo?: string;
+
+  /**
+   * 退款完成时间
+   */
+  refundedAt?: Date;
+
+  /**
+   * 渠道返回的原始数据，便于排查问题
+   */
+  raw: Record<string, any>;
+}
+
+/**
+ * 支付渠道服务
+ * 支付宝、微信支付和虚拟支付都实现该接口，由 PaymentService 按渠道和 PAYMENT_MODE 选择
+ */
+export interface PaymentProvider {
+  /**
+   * 创建支付订单
+   */
+  initiatePayment(
+    payload: PaymentOrderPayload,
+  ): Promise<PaymentInitiationResult>;
+
+  /**
+   * 主动查询交易结果
+   */
+  queryTrade(orderId: string): Promise<PaymentTradeResult>;
+
+  /**
+   * 关闭未支付的交易（订单过期时调用，关闭后用户无法继续支付）
+   */
+  closeTrade(orderId: string): Promise<void>;
+
+  /**
+   * 发起退款（原路退回）
+   */
+  refund(payload: PaymentRefundPayload): Promise<PaymentRefundResult>;
+
+  /**
+   * 查询退款结果
+   */
+  queryRefund(orderId: string, refundId: string): Promise<PaymentRefundResult>;
+}
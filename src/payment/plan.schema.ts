@@ -0,0 +1,121 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type PlanDocument = Plan & Document;
+
+/**
+ * 套餐类型
+ */
+export enum PlanType {
+  PURCHASE = 'purchase', // 购买套餐（通过支付渠道付款）
+  EXCHANGE = 'exchange', // 兑换套餐（使用小麦币兑换）
+  SUBSCRIPTION = 'subscription', // 会员订阅（通过支付渠道付款，开通或续期会员）
+}
+
+/**
+ * 会员订阅周期
+ */
+export enum VipPeriod {
+  MONTH = 'month', // 月度会员
+  YEAR = 'year', // 年度会员
+}
+
+/**
+ * 定价方式
+ */
+export enum PlanPricingMode {
+  FIXED = 'fixed', // 固定价格
+  CUSTOM = 'custom', // 自定义金额（在 minAmount ~ maxAmount 范围内，按金额发放小麦币）
+}
+
+/**
+ * 套餐可发放的权益计数器（对应 User 上的字段）
+ */
+export const PLAN_BENEFIT_FIELDS = [
+  'resumeRemainingCount',
+  'specialRemainingCount',
+  'behaviorRemainingCount',
+  'maiCoinBalance',
+  'aiInterviewRemainingMinutes',
+] as const;
+
+export type PlanBenefitField = (typeof PLAN_BENEFIT_FIELDS)[number];
+
+/**
+ * 会员可以不限次数使用的权益计数器（使用时不扣减次数）
+ */
+export const VIP_UNLIMITED_FIELDS = [
+  'resumeRemainingCount',
+  'specialRemainingCount',
+  'behaviorRemainingCount',
+] as const;
+
+export type VipUnlimitedField = (typeof VIP_UNLIMITED_FIELDS)[number];
+
+/**
+ * 会员权益
+ */
+export interface VipPerks {
+  unlimited?: VipUnlimitedField[]; // 不限次数使用的功能
+  monthlyRefill?: Partial<Record<PlanBenefitField, number>>; // 每月补足的次数（低于该数量时补足）
+}
+
+/**
+ * 套餐 Schema
+ * 价格和权益由管理员在后台维护；下单时保存套餐快照，修改套餐不影响进行中的订单
+ */
+@Schema({ timestamps: true })
+export class Plan {
+  @Prop({ required: true, unique: true })
+  planId: string; // 套餐唯一标识（如 pro）
+
+  @Prop({ enum: PlanType, default: PlanType.PURCHASE, index: true })
+  type: PlanType; // 套餐类型
+
+  @Prop({ required: true })
+  name: string; // 套餐名称
+
+  @Prop()
+  description?: string; // 套餐描述
+
+  @Prop({ enum: PlanPricingMode, default: PlanPricingMode.FIXED })
+  pricingMode: PlanPricingMode; // 定价方式
+
+  @Prop({ default: 0 })
+  price: number; // 价格（固定价格套餐使用；兑换套餐为消耗的小麦币）
+
+  @Prop()
+  minAmount?: number; // 最小金额（自定义金额套餐使用）
+
+  @Prop()
+  maxAmount?: number; // 最大金额（自定义金额套餐使用）
+
+  @Prop({ default: 'CNY' })
+  currency: string; // 货币类型（兑换套餐为 MAI）
+
+  @Prop({ type: Object, default: {} })
+  benefits: Partial<Record<PlanBenefitField, number>>; // 每个权益计数器发放的数量
+
+  @Prop()
+  coinsPerYuan?: number; // 每元发放的小麦币（自定义金额套餐使用）
+
+  @Prop({ enum: VipPeriod })
+  vipPeriod?: VipPeriod; // 会员订阅周期（会员订阅套餐使用）
+
+  @Prop({ type: Object })
+  vipPerks?: VipPerks; // 会员权益（会员订阅套餐使用）
+
+  @Prop()
+  validFrom?: Date; // 上架时间（为空表示不限制）
+
+  @Prop()
+  validUntil?: Date; // 下架时间（为空表示不限制）
+
+  @Prop({ default: true })
+  isActive: boolean; // 是否启用
+
+  @Prop({ default: 0 })
+  sortOrder: number; // 排序（越小越靠前）
+}
+
+export const PlanSchema = SchemaFactory.createForClass(Plan);
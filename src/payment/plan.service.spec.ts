@@ -0,0 +1,117 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { mockQuery } from '../../test/mock-query';
+import { Plan, PlanPricingMode, PlanType } from './plan.schema';
+import { PlanService } from './plan.service';
+
+describe('PlanService', () => {
+  let service: PlanService;
+  const planModel = {
+    findOne: jest.fn(),
+    exists: jest.fn(),
+    create: jest.fn(),
+  };
+
+  const fixedPlan = {
+    planId: 'pro',
+    type: PlanType.PURCHASE,
+    name: '专业版',
+    pricingMode: PlanPricingMode.FIXED,
+    price: 28.8,
+    currency: 'CNY',
+    benefits: { resumeRemainingCount: 1, specialRemainingCount: 1 },
+    isActive: true,
+    sortOrder: 2,
+  };
+  const customPlan = {
+    planId: 'custom',
+    type: PlanType.PURCHASE,
+    name: '自定义充值',
+    pricingMode: PlanPricingMode.CUSTOM,
+    price: 0,
+    minAmount: 1,
+    maxAmount: 10000,
+    currency: 'CNY',
+    benefits: {},
+    coinsPerYuan: 1.5,
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        PlanService,
+        { provide: getModelToken(Plan.name), useValue: planModel },
+      ],
+    }).compile();
+    service = moduleRef.get(PlanService);
+  });
+
+  describe('resolvePurchase', () => {
+    it('返回不含后台字段的套餐快照', async () => {
+      planModel.findOne.mockReturnValue(mockQuery(fixedPlan));
+
+      const snapshot = await service.resolvePurchase('pro', 28.8);
+
+      expect(snapshot).toMatchObject({
+        planId: 'pro',
+        price: 28.8,
+        benefits: { resumeRemainingCount: 1, specialRemainingCount: 1 },
+      });
+      expect(snapshot).not.toHaveProperty('isActive');
+      expect(snapshot).not.toHaveProperty('sortOrder');
+    });
+
+    it('套餐不存在、已下架或金额不符时拒绝下单', async () => {
+      planModel.findOne.mockReturnValueOnce(mockQuery(null));
+      await expect(service.resolvePurchase('pro', 28.8)).rejects.toThrow(
+        '套餐不存在或已下架',
+      );
+
+      planModel.findOne.mockReturnValueOnce(mockQuery(fixedPlan));
+      await expect(service.resolvePurchase('pro', 1)).rejects.toThrow(
+        'pro 套餐验证失败',
+      );
+    });
+  });
+
+  it('自定义金额套餐只接受范围内的整数金额', () => {
+    expect(service.isValidAmount(customPlan, 100)).toBe(true);
+    expect(service.isValidAmount(customPlan, 0)).toBe(false);
+    expect(service.isValidAmount(customPlan, 10.5)).toBe(false);
+    expect(service.isValidAmount(customPlan, 10001)).toBe(false);
+  });
+
+  it('自定义金额套餐按实付金额发放小麦币', () => {
+    expect(service.calculateBenefits(customPlan, 10)).toEqual({
+      maiCoinBalance: 15,
+    });
+    expect(service.calculateBenefits(fixedPlan, 28.8)).toEqual({
+      resumeRemainingCount: 1,
+      specialRemainingCount: 1,
+    });
+  });
+
+  describe('create', () => {
+    it('套餐标识重复时拒绝新增', async () => {
+      planModel.exists.mockResolvedValue({ _id: 'p1' });
+
+      await expect(service.create(fixedPlan)).rejects.toBeInstanceOf(
+        ConflictException,
+      );
+    });
+
+    it('校验定价配置', async () => {
+      planModel.exists.mockResolvedValue(null);
+
+      await expect(
+        service.create({ ...fixedPlan, price: 0 }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      await expect(
+        service.create({ ...customPlan, minAmount: 100, maxAmount: 10 }),
+      ).rejects.toThrow('最小金额不能大于最大金额');
+      expect(planModel.create).not.toHaveBeenCalled();
+    });
+  });
+});
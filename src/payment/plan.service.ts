@@ -0,0 +1,445 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  Plan,
+  PlanBenefitField,
+  PlanDocument,
+  PlanPricingMode,
+  PlanType,
+  VipPeriod,
+  VipPerks,
+} from './plan.schema';
+import { CreatePlanDto, UpdatePlanDto } from './dto/plan.dto';
+
+/**
+ * 套餐快照（下单时保存到支付记录中，后台修改套餐不影响进行中的订单）
+ */
+export interface PlanSnapshot {
+  planId: string;
+  type: PlanType;
+  name: string;
+  pricingMode: PlanPricingMode;
+  price: number;
+  minAmount?: number;
+  maxAmount?: number;
+  currency: string;
+  benefits: Partial<Record<PlanBenefitField, number>>;
+  coinsPerYuan?: number;
+  vipPeriod?: VipPeriod;
+  vipPerks?: VipPerks;
+}
+
+// 内置套餐（首次启动时写入数据库，之后由管理员维护）
+const BUILT_IN_PLANS: PlanSnapshot[] = [
+  {
+    planId: 'custom',
+    type: PlanType.PURCHASE,
+    name: '自定义充值',
+    pricingMode: PlanPricingMode.CUSTOM,
+    price: 0,
+    minAmount: 1,
+    maxAmount: 10000,
+    currency: 'CNY',
+    benefits: {},
+    coinsPerYuan: 1,
+  },
+  {
+    planId: 'single',
+    type: PlanType.PURCHASE,
+    name: '单次面试',
+    pricingMode: PlanPricingMode.FIXED,
+    price: 18.8,
+    currency: 'CNY',
+    benefits: { specialRemainingCount: 1 },
+  },
+  {
+    planId: 'pro',
+    type: PlanType.PURCHASE,
+    name: '专业版',
+    pricingMode: PlanPricingMode.FIXED,
+    price: 28.8,
+    currency: 'CNY',
+    benefits: {
+      resumeRemainingCount: 1,
+      specialRemainingCount: 1,
+      behaviorRemainingCount: 1,
+    },
+  },
+  {
+    planId: 'max',
+    type: PlanType.PURCHASE,
+    name: '旗舰版',
+    pricingMode: PlanPricingMode.FIXED,
+    price: 68.8,
+    currency: 'CNY',
+    benefits: {
+      resumeRemainingCount: 3,
+      specialRemainingCount: 3,
+      behaviorRemainingCount: 3,
+    },
+  },
+  {
+    planId: 'ultra',
+    type: PlanType.PURCHASE,
+    name: '至尊版',
+    pricingMode: PlanPricingMode.FIXED,
+    price: 128.8,
+    currency: 'CNY',
+    benefits: {
+      resumeRemainingCount: 6,
+      specialRemainingCount: 16,
+      behaviorRemainingCount: 8,
+    },
+  },
+  {
+    planId: 'minutes-60',
+    type: PlanType.PURCHASE,
+    name: '模拟面试60分钟',
+    pricingMode: PlanPricingMode.FIXED,
+    price: 19.8,
+    currency: 'CNY',
+    benefits: { aiInterviewRemainingMinutes: 60 },
+  },
+  {
+    planId: 'minutes-300',
+    type: PlanType.PURCHASE,
+    name: '模拟面试300分钟',
+    pricingMode: PlanPricingMode.FIXED,
+    price: 88.8,
+    currency: 'CNY',
+    benefits: { aiInterviewRemainingMinutes: 300 },
+  },
+  {
+    planId: 'exchange-resume',
+    type: PlanType.EXCHANGE,
+    name: '简历押题',
+    pricingMode: PlanPricingMode.FIXED,
+    price: 20,
+    currency: 'MAI',
+    benefits: { resumeRemainingCount: 1 },
+  },
+  {
+    planId: 'exchange-special',
+    type: PlanType.EXCHANGE,
+    name: '专项面试',
+    pricingMode: PlanPricingMode.FIXED,
+    price: 20,
+    currency: 'MAI',
+    benefits: { specialRemainingCount: 1 },
+  },
+  {
+    planId: 'exchange-behavior',
+    type: PlanType.EXCHANGE,
+    name: '行测+HR面试',
+    pricingMode: PlanPricingMode.FIXED,
+    price: 20,
+    currency: 'MAI',
+    benefits: { behaviorRemainingCount: 1 },
+  },
+  {
+    planId: 'vip-month',
+    type: PlanType.SUBSCRIPTION,
+    name: '月度会员',
+    pricingMode: PlanPricingMode.FIXED,
+    price: 39.8,
+    currency: 'CNY',
+    benefits: {},
+    vipPeriod: VipPeriod.MONTH,
+    vipPerks: {
+      unlimited: ['resumeRemainingCount'],
+      monthlyRefill: { specialRemainingCount: 2, behaviorRemainingCount: 2 },
+    },
+  },
+  {
+    planId: 'vip-year',
+    type: PlanType.SUBSCRIPTION,
+    name: '年度会员',
+    pricingMode: PlanPricingMode.FIXED,
+    price: 398,
+    currency: 'CNY',
+    benefits: {},
+    vipPeriod: VipPeriod.YEAR,
+    vipPerks: {
+      unlimited: ['resumeRemainingCount'],
+      monthlyRefill: { specialRemainingCount: 3, behaviorRemainingCount: 3 },
+    },
+  },
+];
+
+// 金额比较允许的浮点误差
+const AMOUNT_EPSILON = 0.001;
+
+/**
+ * 套餐服务
+ *
+ * 套餐保存在数据库中，管理员可以新增、修改和下架；
+ * 下单和兑换时解析出套餐快照，按快照校验金额和发放权益。
+ */
+@Injectable()
+export class PlanService implements OnModuleInit {
+  private readonly logger = new Logger(PlanService.name);
+
+  constructor(
+    @InjectModel(Plan.name)
+    private planModel: Model<PlanDocument>,
+  ) {}
+
+  /**
+   * 写入内置套餐（已存在的不覆盖，保留管理员的修改）
+   */
+  async onModuleInit(): Promise<void> {
+    try {
+      await this.planModel.bulkWrite(
+        BUILT_IN_PLANS.map((plan, index) => ({
+          updateOne: {
+            filter: { planId: plan.planId },
+            update: {
+              $setOnInsert: { ...plan, isActive: true, sortOrder: index },
+            },
+            upsert: true,
+          },
+        })),
+      );
+    } catch (error) {
+      this.logger.warn(`⚠️ 内置套餐初始化失败: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * 获取当前可购买（或可兑换、可订阅）的套餐列表
+   */
+  async listAvailable(type: PlanType = PlanType.PURCHASE) {
+    return this.planModel
+      .find(this.availableFilter({ type }))
+      .select(
+        'planId type name description pricingMode price minAmount maxAmount currency benefits coinsPerYuan vipPeriod vipPerks validFrom validUntil',
+      )
+      .sort({ sortOrder: 1, createdAt: 1 })
+      .lean();
+  }
+
+  /**
+   * 获取全部套餐（管理后台）
+   */
+  async listAll() {
+    return this.planModel.find().sort({ sortOrder: 1, createdAt: 1 }).lean();
+  }
+
+  /**
+   * 新增套餐（管理后台）
+   */
+  async create(dto: CreatePlanDto) {
+    const exists = await this.planModel.exists({ planId: dto.planId });
+    if (exists) {
+      throw new ConflictException('套餐标识已存在');
+    }
+
+    this.assertPricing(dto);
+
+    const plan = await this.planModel.create(dto);
+    this.logger.log(`✅ 新增套餐: planId=${dto.planId}`);
+    return plan.toObject();
+  }
+
+  /**
+   * 修改套餐（管理后台）
+   * 已创建的订单使用下单时的套餐快照，不受影响
+   */
+  async update(planId: string, dto: UpdatePlanDto) {
+    const existing = await this.planModel.findOne({ planId }).lean();
+    if (!existing) {
+      throw new NotFoundException('套餐不存在');
+    }
+
+    this.assertPricing({ ...existing, ...dto });
+
+    const plan = await this.planModel
+      .findOneAndUpdate({ planId }, { $set: dto }, { new: true })
+      .lean();
+
+    this.logger.log(`✅ 修改套餐: planId=${planId}`);
+    return plan;
+  }
+
+  /**
+   * 删除套餐（管理后台）
+   * 已创建的订单使用下单时的套餐快照，删除后仍可正常支付和退款
+   */
+  async remove(planId: string) {
+    const result = await this.planModel.deleteOne({ planId });
+    if (!result.deletedCount) {
+      throw new NotFoundException('套餐不存在');
+    }
+
+    this.logger.log(`✅ 删除套餐: planId=${planId}`);
+  }
+
+  /**
+   * 解析下单使用的套餐（购买套餐或会员订阅），并校验订单金额
+   * @returns 套餐快照
+   */
+  async resolvePurchase(planId: string, amount: number): Promise<PlanSnapshot> {
+    const plan = await this.planModel
+      .findOne(
+        this.availableFilter({
+          planId,
+          type: { $in: [PlanType.PURCHASE, PlanType.SUBSCRIPTION] },
+        }),
+      )
+      .lean();
+
+    if (!plan) {
+      throw new BadRequestException('套餐不存在或已下架');
+    }
+
+    const snapshot = this.toSnapshot(plan);
+    if (!this.isValidAmount(snapshot, amount)) {
+      throw new BadRequestException(`${planId} 套餐验证失败`);
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * 解析兑换使用的套餐
+   * @returns 套餐快照
+   */
+  async resolveExchange(planId: string): Promise<PlanSnapshot> {
+    const plan = await this.planModel
+      .findOne(this.availableFilter({ planId, type: PlanType.EXCHANGE }))
+      .lean();
+
+    if (!plan) {
+      throw new BadRequestException('兑换套餐不存在或已下架');
+    }
+
+    return this.toSnapshot(plan);
+  }
+
+  /**
+   * 按套餐ID获取当前套餐快照（不检查上下架，兼容没有保存快照的历史订单）
+   * @returns 套餐快照；套餐不存在时返回 null
+   */
+  async findSnapshot(planId: string): Promise<PlanSnapshot | null> {
+    const plan = await this.planModel.findOne({ planId }).lean();
+    return plan ? this.toSnapshot(plan) : null;
+  }
+
+  /**
+   * 校验金额是否符合套餐定价
+   * - 固定价格：金额等于套餐价格
+   * - 自定义金额：整数金额，且在最小 / 最大金额范围内
+   */
+  isValidAmount(plan: PlanSnapshot, amount: number): boolean {
+    if (plan.pricingMode === PlanPricingMode.CUSTOM) {
+      return (
+        Number.isInteger(amount) &&
+        amount >= (plan.minAmount ?? 0) &&
+        amount <= (plan.maxAmount ?? Number.MAX_SAFE_INTEGER)
+      );
+    }
+
+    return Math.abs(amount - plan.price) < AMOUNT_EPSILON;
+  }
+
+  /**
+   * 计算套餐发放的权益增量
+   * @param plan 套餐快照
+   * @param paidAmount 实付金额（自定义金额套餐按实付金额发放小麦币）
+   */
+  calculateBenefits(
+    plan: PlanSnapshot,
+    paidAmount: number,
+  ): Record<string, number> {
+    const increments: Record<string, number> = {};
+
+    for (const [key, value] of Object.entries(plan.benefits || {})) {
+      if (value) {
+        increments[key] = value;
+      }
+    }
+
+    if (plan.pricingMode === PlanPricingMode.CUSTOM && paidAmount > 0) {
+      const coins =
+        Math.round(paidAmount * (plan.coinsPerYuan ?? 1) * 100) / 100;
+      increments.maiCoinBalance = (increments.maiCoinBalance || 0) + coins;
+    }
+
+    return increments;
+  }
+
+  /**
+   * 当前可用套餐的查询条件：已启用，且在上架时间窗口内
+   */
+  private availableFilter(filter: Record<string, any>) {
+    const now = new Date();
+    return {
+      ...filter,
+      isActive: true,
+      validFrom: { $not: { $gt: now } },
+      validUntil: { $not: { $lte: now } },
+    };
+  }
+
+  /**
+   * 校验定价配置
+   */
+  private assertPricing(plan: {
+    type?: PlanType;
+    vipPeriod?: VipPeriod;
+    pricingMode?: PlanPricingMode;
+    price?: number;
+    minAmount?: number;
+    maxAmount?: number;
+    validFrom?: Date | string;
+    validUntil?: Date | string;
+  }) {
+    if (plan.pricingMode === PlanPricingMode.CUSTOM) {
+      if (plan.minAmount == null || plan.maxAmount == null) {
+        throw new BadRequestException('自定义金额套餐必须设置最小和最大金额');
+      }
+      if (plan.minAmount > plan.maxAmount) {
+        throw new BadRequestException('最小金额不能大于最大金额');
+      }
+    } else if (!(Number(plan.price) > 0)) {
+      throw new BadRequestException('固定价格套餐的价格必须大于0');
+    }
+
+    if (plan.type === PlanType.SUBSCRIPTION && !plan.vipPeriod) {
+      throw new BadRequestException('会员订阅套餐必须设置订阅周期');
+    }
+
+    if (
+      plan.validFrom &&
+      plan.validUntil &&
+      new Date(plan.validFrom) >= new Date(plan.validUntil)
+    ) {
+      throw new BadRequestException('上架时间必须早于下架时间');
+    }
+  }
+
+  private toSnapshot(plan: PlanSnapshot): PlanSnapshot {
+    return {
+      planId: plan.planId,
+      type: plan.type,
+      name: plan.name,
+      pricingMode: plan.pricingMode,
+      price: plan.price,
+      minAmount: plan.minAmount,
+      maxAmount: plan.maxAmount,
+      currency: plan.currency,
+      benefits: { ...(plan.benefits || {}) },
+      coinsPerYuan: plan.coinsPerYuan,
+      vipPeriod: plan.vipPeriod,
+      vipPerks: plan.vipPerks,
+    };
+  }
+}
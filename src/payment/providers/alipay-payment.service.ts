@@ -1,7 +1,21 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { AlipaySdk } from 'alipay-sdk';
-import { PaymentChannel, PaymentOrderPayload } from '../payment.types';
+import {
+  PaymentChannel,
+  PaymentInitiationResult,
+  PaymentOrderPayload,
+  PaymentProvider,
+  PaymentRefundPayload,
+  PaymentRefundResult,
+  PaymentTradeResult,
+} from '../payment.types';
+
+/** 支付宝中表示已支付的交易状态（TRADE_FINISHED 为不可退款的已完成交易） */
+export const ALIPAY_PAID_STATUSES = ['TRADE_SUCCESS', 'TRADE_FINISHED'];
+
+/** 支付宝接口调用成功的返回码 */
+const ALIPAY_SUCCESS_CODE = '10000';
 
 /**
  * 支付宝支付服务
@@ -10,9 +24,11 @@ import { PaymentChannel, PaymentOrderPayload } from '../payment.types';
  * 2. 校验支付宝异步通知签名
  * 3. 处理支付结果回调
  * 4. 查询订单状态
+ * 5. 关闭过期未支付的订单
+ * 6. 退款及退款查询
  */
 @Injectable()
-export class AlipayPaymentService {
+export class AlipayPaymentService implements PaymentProvider {
   /** NestJS 日志实例，用于记录支付相关日志 */
   private readonly logger = new Logger(AlipayPaymentService.name);
 
@@ -31,11 +47,12 @@ export class AlipayPaymentService {
   /** 支付宝异步通知回调地址 */
   private readonly notifyUrl: string;
 
-  /** 支付宝 SDK 实例，封装了接口调用与签名逻辑 */
-  private readonly alipaySdk: AlipaySdk;
+  /** 支付宝 SDK 实例，封装了接口调用与签名逻辑（首次调用支付宝时创建） */
+  private alipaySdk?: AlipaySdk;
 
   /**
-   * 构造函数：从配置中心读取支付宝相关配置，并初始化 AlipaySdk
+   * 构造函数：从配置中心读取支付宝相关配置
+   * 未配置支付宝（如虚拟支付模式）时应用也能正常启动，SDK 在首次调用支付宝时才初始化
    */
   constructor(private readonly configService: ConfigService) {
     // 支付宝网关地址，未配置时使用正式环境默认地址
@@ -56,14 +73,21 @@ export class AlipayPaymentService {
 
     // 支付宝异步通知回调地址
     this.notifyUrl = this.configService.get<string>('ALIPAY_NOTIFY_URL') || '';
+  }
 
-    // 初始化支付宝 SDK
-    this.alipaySdk = new AlipaySdk({
-      appId: this.appId,
-      privateKey: this.privateKey,
-      alipayPublicKey: this.alipayPublicKey,
-      gateway: this.gateway,
-    });
+  /**
+   * 获取支付宝 SDK（首次调用时初始化，未配置 ALIPAY_APP_ID 等参数时抛出异常）
+   */
+  private get sdk(): AlipaySdk {
+    if (!this.alipaySdk) {
+      this.alipaySdk = new AlipaySdk({
+        appId: this.appId,
+        privateKey: this.privateKey,
+        alipayPublicKey: this.alipayPublicKey,
+        gateway: this.gateway,
+      });
+    }
+    return this.alipaySdk;
   }
 
   /**
@@ -73,7 +97,9 @@ export class AlipayPaymentService {
    * @param payload 支付订单信息（业务侧传入）
    * @returns 统一封装后的支付订单结果
    */
-  async initiatePayment(payload: PaymentOrderPayload): Promise<any> {
+  async initiatePayment(
+    payload: PaymentOrderPayload,
+  ): Promise<PaymentInitiationResult> {
     // 构造支付宝接口所需的 bizContent 参数
     const bizContent: Record<string, any> = {
       // 商户订单号（业务系统生成，需全局唯一）
@@ -91,6 +117,14 @@ export class AlipayPaymentService {
       product_code: 'QR_CODE_OFFLINE',
     };
 
+    // 订单过期时间（相对时间，单位分钟），过期后二维码失效
+    if (payload.expiresAt) {
+      const minutes = Math.ceil(
+        (payload.expiresAt.getTime() - Date.now()) / 60000,
+      );
+      bizContent.timeout_express = `${Math.max(minutes, 1)}m`;
+    }
+
     // 如果存在扩展业务参数，则作为 passback_params 透传给回调
     if (payload.metadata) {
       bizContent.passback_params = encodeURIComponent(
@@ -104,7 +138,7 @@ export class AlipayPaymentService {
        * 官方文档：
        * https://opendocs.alipay.com/open/8ad49e4a_alipay.trade.precreate
        */
-      const response = await this.alipaySdk.exec('alipay.trade.precreate', {
+      const response = await this.sdk.exec('alipay.trade.precreate', {
         bizContent,
         // 优先使用本次订单指定的 notifyUrl，否则使用全局配置
         notifyUrl: payload.notifyUrl || this.notifyUrl,
@@ -134,6 +168,26 @@ export class AlipayPaymentService {
     }
   }
 
+  /**
+   * 校验支付宝异步通知
+   * 验证签名，并确认通知属于当前应用（防止其他应用的通知被误处理）
+   *
+   * @param params 支付宝 POST 过来的通知参数（表单字段）
+   * @returns 是否为合法的通知
+   */
+  verifyNotification(params: Record<string, string>): boolean {
+    try {
+      if (!this.sdk.checkNotifySign(params)) {
+        return false;
+      }
+    } catch (error) {
+      this.logger.error('支付宝异步通知验签异常', error as Error);
+      return false;
+    }
+
+    return params.app_id === this.appId;
+  }
+
   /**
    * 主动查询订单状态
    * 适用于：
@@ -141,16 +195,176 @@ export class AlipayPaymentService {
    * - 异步通知丢失时的兜底校验
    *
    * @param orderId 商户订单号
-   * @returns 支付宝返回的订单状态信息
+   * @returns 统一格式的交易结果
    */
-  async queryTrade(orderId: string): Promise<Record<string, any>> {
+  async queryTrade(orderId: string): Promise<PaymentTradeResult> {
     try {
-      return await this.alipaySdk.exec('alipay.trade.query', {
-        bizContent: { out_trade_no: orderId },
-      });
+      // SDK 会把返回字段转换为驼峰格式
+      const response: Record<string, string> = await this.sdk.exec(
+        'alipay.trade.query',
+        {
+          bizContent: { out_trade_no: orderId },
+        },
+      );
+      const tradeStatus = response.tradeStatus || '';
+
+      return {
+        orderId,
+        paid: ALIPAY_PAID_STATUSES.includes(tradeStatus),
+        tradeStatus,
+        tradeNo: response.tradeNo,
+        payAmount: response.buyerPayAmount,
+        totalAmount: response.totalAmount,
+        buyerId: response.buyerLogonId,
+        paidAt: response.sendPayDate
+          ? new Date(response.sendPayDate)
+          : undefined,
+        raw: response,
+      };
     } catch (error) {
       this.logger.error('调用支付宝订单查询失败', error as Error);
       throw error;
     }
   }
+
+  /**
+   * 关闭未支付的交易（alipay.trade.close）
+   * 当面付的交易在用户扫码后才会创建，交易不存在时视为已关闭
+   *
+   * @param orderId 商户订单号
+   */
+  async closeTrade(orderId: string): Promise<void> {
+    try {
+      const response: Record<string, string> = await this.sdk.exec(
+        'alipay.trade.close',
+        {
+          bizContent: { out_trade_no: orderId },
+        },
+      );
+
+      if (response.subCode === 'ACQ.TRADE_NOT_EXIST') {
+        this.logger.debug(
+          `支付宝交易不存在（用户未扫码），无需关闭: ${orderId}`,
+        );
+        return;
+      }
+
+      this.assertSuccess(response, '关闭订单');
+      this.logger.log(`支付宝订单已关闭: orderId=${orderId}`);
+    } catch (error) {
+      this.logger.error('调用支付宝关闭订单失败', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * 发起退款（alipay.trade.refund）
+   * 同一 out_request_no 重复提交不会重复退款，fund_change=Y 表示本次请求产生了资金变化
+   *
+   * @param payload 退款信息
+   * @returns 统一格式的退款结果
+   */
+  async refund(payload: PaymentRefundPayload): Promise<PaymentRefundResult> {
+    try {
+      const response: Record<string, string> = await this.sdk.exec(
+        'alipay.trade.refund',
+        {
+          bizContent: {
+            out_trade_no: payload.orderId,
+            out_request_no: payload.refundId,
+            refund_amount: payload.amount.toFixed(2),
+            refund_reason: payload.reason,
+          },
+        },
+      );
+
+      this.assertSuccess(response, '退款');
+
+      this.logger.log(
+        `支付宝退款响应: orderId=${payload.orderId}, refundId=${payload.refundId}, fundChange=${response.fundChange}`,
+      );
+
+      // fund_change=N 可能是重复请求，以退款查询结果为准
+      if (response.fundChange !== 'Y') {
+        return this.queryRefund(payload.orderId, payload.refundId);
+      }
+
+      return {
+        refundId: payload.refundId,
+        status: 'success',
+        channelStatus: 'REFUND_SUCCESS',
+        channelRefundNo: response.tradeNo,
+        refundedAt: response.gmtRefundPay
+          ? new Date(response.gmtRefundPay)
+          : new Date(),
+        raw: response,
+      };
+    } catch (error) {
+      this.logger.error('调用支付宝退款失败', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * 查询退款结果（alipay.trade.fastpay.refund.query）
+   * 返回 refund_status=REFUND_SUCCESS 表示退款成功；没有查询到退款（未返回 out_request_no）说明支付宝未受理，按失败处理
+   *
+   * @param orderId 商户订单号
+   * @param refundId 退款单号（out_request_no）
+   * @returns 统一格式的退款结果
+   */
+  async queryRefund(
+    orderId: string,
+    refundId: string,
+  ): Promise<PaymentRefundResult> {
+    try {
+      const response: Record<string, string> = await this.sdk.exec(
+        'alipay.trade.fastpay.refund.query',
+        {
+          bizContent: {
+            out_trade_no: orderId,
+            out_request_no: refundId,
+            query_options: ['gmt_refund_pay'],
+          },
+        },
+      );
+      this.assertSuccess(response, '退款查询');
+
+      if (!response.outRequestNo) {
+        return {
+          refundId,
+          status: 'failed',
+          channelStatus: 'REFUND_NOT_FOUND',
+          raw: response,
+        };
+      }
+
+      const refundStatus = response.refundStatus || '';
+
+      return {
+        refundId,
+        status: refundStatus === 'REFUND_SUCCESS' ? 'success' : 'processing',
+        channelStatus: refundStatus,
+        channelRefundNo: response.tradeNo,
+        refundedAt: response.gmtRefundPay
+          ? new Date(response.gmtRefundPay)
+          : undefined,
+        raw: response,
+      };
+    } catch (error) {
+      this.logger.error('调用支付宝退款查询失败', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * 校验支付宝接口的业务返回码（SDK 只在网络或验签异常时抛错，业务失败需要自行判断）
+   */
+  private assertSuccess(response: Record<string, string>, action: string) {
+    if (response.code !== ALIPAY_SUCCESS_CODE) {
+      throw new Error(
+        `支付宝${action}失败: ${response.subCode || response.code} ${response.subMsg || response.msg || ''}`.trim(),
+      );
+    }
+  }
 }
@@ -1,38 +1,52 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { PaymentOrderPayload, PaymentChannel } from '../payment.types';
+import {
+  PaymentOrderPayload,
+  PaymentChannel,
+  PaymentInitiationResult,
+  PaymentProvider,
+  PaymentRefundPayload,
+  PaymentRefundResult,
+  PaymentTradeResult,
+} from '../payment.types';
 
 /**
  * 虚拟支付服务
  * 模拟支付宝支付流程，用于测试
  */
 @Injectable()
-export class VirtualPaymentService {
+export class VirtualPaymentService implements PaymentProvider {
   private readonly logger = new Logger(VirtualPaymentService.name);
-  
-  // 存储订单金额的内存映射（生产环境应该用数据库）
-  private orderAmountMap: Map<string, number> = new Map();
+
+  // 存储订单金额和创建时间的内存映射（生产环境应该用数据库），由订单过期清理任务定期清理
+  private orderAmountMap: Map<string, { amount: number; createdAt: number }> =
+    new Map();
 
   /**
    * 发起虚拟支付
    * @param payload 支付订单信息
    * @returns 虚拟支付结果（包含二维码URL）
    */
-  async initiatePayment(payload: PaymentOrderPayload) {
+  initiatePayment(
+    payload: PaymentOrderPayload,
+  ): Promise<PaymentInitiationResult> {
     this.logger.log(
       `创建虚拟支付订单: orderId=${payload.orderId}, amount=${payload.amount}`,
     );
 
     // 存储订单金额
-    this.orderAmountMap.set(payload.orderId, payload.amount);
+    this.orderAmountMap.set(payload.orderId, {
+      amount: payload.amount,
+      createdAt: Date.now(),
+    });
 
     // 返回虚拟支付结果
-    return {
-      channel: PaymentChannel.ALIPAY,
+    return Promise.resolve({
+      channel: payload.channel ?? PaymentChannel.ALIPAY,
       orderId: payload.orderId,
       // 虚拟二维码URL（可以是一个测试页面）
       codeUrl: `http://localhost:3000/payment/virtual-qrcode?orderId=${payload.orderId}&amount=${payload.amount}`,
       createdAt: new Date().toISOString(),
-    };
+    });
   }
 
   /**
@@ -40,25 +54,89 @@ export class VirtualPaymentService {
    * @param orderId 订单ID
    * @returns 虚拟支付查询结果（始终返回成功）
    */
-  async queryTrade(orderId: string) {
+  queryTrade(orderId: string): Promise<PaymentTradeResult> {
     this.logger.log(`查询虚拟支付订单: orderId=${orderId}`);
 
     // 获取订单金额
-    const amount = this.orderAmountMap.get(orderId) || 0.01;
+    const amount = this.orderAmountMap.get(orderId)?.amount || 0.01;
     const amountStr = amount.toString();
 
-    // 模拟支付宝返回的数据结构
-    return {
+    // 模拟支付渠道返回的交易结果
+    return Promise.resolve({
+      orderId,
+      paid: true,
       tradeStatus: 'TRADE_SUCCESS',
       tradeNo: `VIRTUAL_${orderId}`,
-      outTradeNo: orderId,
-      buyerLogonId: '虚拟用户',
+      payAmount: amountStr,
       totalAmount: amountStr,
-      receiptAmount: amountStr,
-      buyerPayAmount: amountStr,
-      pointAmount: '0.00',
-      invoiceAmount: amountStr,
-      sendPayDate: new Date().toISOString(),
-    };
+      buyerId: '虚拟用户',
+      paidAt: new Date(),
+      raw: { virtual: true },
+    });
+  }
+
+  /**
+   * 关闭虚拟支付订单
+   * @param orderId 订单ID
+   */
+  closeTrade(orderId: string): Promise<void> {
+    this.logger.log(`关闭虚拟支付订单: orderId=${orderId}`);
+    this.orderAmountMap.delete(orderId);
+    return Promise.resolve();
+  }
+
+  /**
+   * 清理早于指定时间创建的订单金额（这些订单已支付或已过期，不会再被查询）
+   * @param before 截止时间
+   * @returns 清理的订单数
+   */
+  pruneOrders(before: Date): number {
+    let pruned = 0;
+    for (const [orderId, order] of this.orderAmountMap) {
+      if (order.createdAt < before.getTime()) {
+        this.orderAmountMap.delete(orderId);
+        pruned++;
+      }
+    }
+    return pruned;
+  }
+
+  /**
+   * 发起虚拟退款
+   * @param payload 退款信息
+   * @returns 虚拟退款结果（始终立即成功）
+   */
+  refund(payload: PaymentRefundPayload): Promise<PaymentRefundResult> {
+    this.logger.log(
+      `虚拟退款: orderId=${payload.orderId}, refundId=${payload.refundId}, amount=${payload.amount}`,
+    );
+
+    return Promise.resolve({
+      refundId: payload.refundId,
+      status: 'success',
+      channelStatus: 'REFUND_SUCCESS',
+      channelRefundNo: `VIRTUAL_REFUND_${payload.refundId}`,
+      refundedAt: new Date(),
+      raw: { virtual: true },
+    });
+  }
+
+  /**
+   * 查询虚拟退款结果
+   * @param orderId 订单ID
+   * @param refundId 退款单号
+   * @returns 虚拟退款查询结果（始终返回成功）
+   */
+  queryRefund(orderId: string, refundId: string): Promise<PaymentRefundResult> {
+    this.logger.log(`查询虚拟退款: orderId=${orderId}, refundId=${refundId}`);
+
+    return Promise.resolve({
+      refundId,
+      status: 'success',
+      channelStatus: 'REFUND_SUCCESS',
+      channelRefundNo: `VIRTUAL_REFUND_${refundId}`,
+      refundedAt: new Date(),
+      raw: { virtual: true },
+    });
   }
 }
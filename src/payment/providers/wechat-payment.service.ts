@@ -0,0 +1,508 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import {
+  createDecipheriv,
+  createSign,
+  createVerify,
+  randomBytes,
+} from 'crypto';
+import {
+  PaymentChannel,
+  PaymentInitiationResult,
+  PaymentOrderPayload,
+  PaymentProvider,
+  PaymentRefundPayload,
+  PaymentRefundResult,
+  PaymentTradeResult,
+} from '../payment.types';
+
+/**
+ * 微信支付 v3 交易信息（查询接口返回 / 回调通知解密后的内容）
+ * 只列出业务用到的字段
+ */
+export interface WechatPayTransaction {
+  appid: string;
+  mchid: string;
+  out_trade_no: string;
+  transaction_id?: string;
+  trade_type?: string;
+  trade_state: string; // SUCCESS / NOTPAY / CLOSED / REFUND 等
+  trade_state_desc?: string;
+  success_time?: string;
+  payer?: { openid?: string };
+  amount?: {
+    total: number; // 订单金额（分）
+    payer_total?: number; // 用户实付金额（分）
+    currency?: string;
+  };
+  attach?: string;
+}
+
+/**
+ * 微信支付 v3 退款单信息（申请退款 / 查询退款接口返回）
+ * 只列出业务用到的字段
+ */
+export interface WechatPayRefund {
+  refund_id: string;
+  out_refund_no: string;
+  out_trade_no: string;
+  status: string; // SUCCESS / PROCESSING / CLOSED / ABNORMAL
+  success_time?: string;
+  amount?: {
+    refund: number; // 退款金额（分）
+    total: number; // 原订单金额（分）
+    currency?: string;
+  };
+}
+
+/**
+ * 微信支付回调通知的请求头（验签使用）
+ */
+export interface WechatPayNotifyHeaders {
+  'wechatpay-timestamp'?: string;
+  'wechatpay-nonce'?: string;
+  'wechatpay-signature'?: string;
+  'wechatpay-serial'?: string;
+}
+
+/**
+ * 微信支付回调通知的请求体
+ */
+export interface WechatPayNotification {
+  id: string;
+  event_type: string; // 支付成功为 TRANSACTION.SUCCESS
+  resource: {
+    algorithm: string; // AEAD_AES_256_GCM
+    ciphertext: string;
+    nonce: string;
+    associated_data?: string;
+  };
+}
+
+/** 回调通知时间戳允许的最大偏差（秒），超过视为重放 */
+const NOTIFY_MAX_SKEW_SECONDS = 5 * 60;
+
+/**
+ * 微信支付服务（API v3）
+ * 负责：
+ * 1. 创建支付订单（Native 扫码 / JSAPI 微信内支付）
+ * 2. 校验回调通知签名并解密通知内容（AES-256-GCM）
+ * 3. 查询订单状态
+ * 4. 关闭过期未支付的订单
+ * 5. 退款及退款查询
+ */
+@Injectable()
+export class WechatPaymentService implements PaymentProvider {
+  /** NestJS 日志实例，用于记录支付相关日志 */
+  private readonly logger = new Logger(WechatPaymentService.name);
+
+  /** 微信支付 API 地址 */
+  private readonly baseUrl: string;
+
+  /** 公众号 / 小程序 AppId */
+  private readonly appId: string;
+
+  /** 商户号 */
+  private readonly mchId: string;
+
+  /** 商户 API 证书序列号 */
+  private readonly serialNo: string;
+
+  /** 商户 API 私钥，用于请求签名 */
+  private readonly privateKey: string;
+
+  /** APIv3 密钥，用于解密回调通知 */
+  private readonly apiV3Key: string;
+
+  /** 微信支付平台公钥，用于回调通知验签 */
+  private readonly platformPublicKey: string;
+
+  /** 微信支付平台公钥 / 证书序列号（可选，配置后校验回调通知的 Wechatpay-Serial） */
+  private readonly platformSerial: string;
+
+  /** 支付结果回调地址 */
+  private readonly notifyUrl: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.baseUrl =
+      this.configService.get<string>('WECHAT_PAY_BASE_URL') ||
+      'https://api.mch.weixin.qq.com';
+    this.appId = this.configService.get<string>('WECHAT_PAY_APP_ID') || '';
+    this.mchId = this.configService.get<string>('WECHAT_PAY_MCH_ID') || '';
+    this.serialNo =
+      this.configService.get<string>('WECHAT_PAY_SERIAL_NO') || '';
+    this.privateKey =
+      this.configService.get<string>('WECHAT_PAY_PRIVATE_KEY') || '';
+    this.apiV3Key =
+      this.configService.get<string>('WECHAT_PAY_API_V3_KEY') || '';
+    this.platformPublicKey =
+      this.configService.get<string>('WECHAT_PAY_PLATFORM_PUBLIC_KEY') || '';
+    this.platformSerial =
+      this.configService.get<string>('WECHAT_PAY_PLATFORM_SERIAL') || '';
+    this.notifyUrl =
+      this.configService.get<string>('WECHAT_PAY_NOTIFY_URL') || '';
+  }
+
+  /**
+   * 创建微信支付订单
+   * 提供 openid 时使用 JSAPI 下单（返回前端调起支付所需的参数），否则使用 Native 下单（返回二维码链接）
+   *
+   * @param payload 支付订单信息（业务侧传入）
+   * @returns 统一封装后的支付订单结果
+   */
+  async initiatePayment(
+    payload: PaymentOrderPayload,
+  ): Promise<PaymentInitiationResult> {
+    const tradeType = payload.openid ? 'jsapi' : 'native';
+
+    const body = {
+      appid: this.appId,
+      mchid: this.mchId,
+      // 商品描述，微信限制 127 个字符
+      description: ('汪汪职道-' + (payload.planName || '')).slice(0, 127),
+      out_trade_no: payload.orderId,
+      // 交易结束时间（RFC 3339），过期后用户无法继续支付
+      time_expire: payload.expiresAt
+        ? payload.expiresAt.toISOString().replace(/\.\d{3}Z$/, '+00:00')
+        : undefined,
+      notify_url: payload.notifyUrl || this.notifyUrl,
+      // 微信支付金额单位为分
+      amount: {
+        total: Math.round(payload.amount * 100),
+        currency: payload.currency || 'CNY',
+      },
+      ...(payload.openid ? { payer: { openid: payload.openid } } : {}),
+    };
+
+    try {
+      const response = await this.request<{
+        code_url?: string;
+        prepay_id?: string;
+      }>('POST', `/v3/pay/transactions/${tradeType}`, body);
+
+      this.logger.log(
+        `微信支付下单成功: orderId=${payload.orderId}, tradeType=${tradeType}`,
+      );
+
+      return {
+        channel: PaymentChannel.WECHAT,
+        orderId: payload.orderId,
+        codeUrl: response.code_url,
+        payload: response.prepay_id
+          ? this.buildJsapiParams(response.prepay_id)
+          : undefined,
+        createdAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('调用微信支付创建订单失败', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * 主动查询订单状态
+   *
+   * @param orderId 商户订单号
+   * @returns 统一格式的交易结果
+   */
+  async queryTrade(orderId: string): Promise<PaymentTradeResult> {
+    try {
+      const transaction = await this.request<WechatPayTransaction>(
+        'GET',
+        `/v3/pay/transactions/out-trade-no/${encodeURIComponent(orderId)}?mchid=${this.mchId}`,
+      );
+      return this.toTradeResult(transaction);
+    } catch (error) {
+      this.logger.error('调用微信支付订单查询失败', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * 关闭未支付的订单
+   *
+   * @param orderId 商户订单号
+   */
+  async closeTrade(orderId: string): Promise<void> {
+    try {
+      await this.request<void>(
+        'POST',
+        `/v3/pay/transactions/out-trade-no/${encodeURIComponent(orderId)}/close`,
+        { mchid: this.mchId },
+      );
+      this.logger.log(`微信支付订单已关闭: orderId=${orderId}`);
+    } catch (error) {
+      this.logger.error('调用微信支付关闭订单失败', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * 申请退款（原路退回）
+   * 微信支付退款是异步处理的，返回 PROCESSING 时需要稍后查询退款结果
+   *
+   * @param payload 退款信息
+   * @returns 统一格式的退款结果
+   */
+  async refund(payload: PaymentRefundPayload): Promise<PaymentRefundResult> {
+    const body = {
+      out_trade_no: payload.orderId,
+      out_refund_no: payload.refundId,
+      reason: payload.reason?.slice(0, 80),
+      // 微信支付金额单位为分
+      amount: {
+        refund: Math.round(payload.amount * 100),
+        total: Math.round(payload.totalAmount * 100),
+        currency: payload.currency || 'CNY',
+      },
+    };
+
+    try {
+      const refund = await this.request<WechatPayRefund>(
+        'POST',
+        '/v3/refund/domestic/refunds',
+        body,
+      );
+
+      this.logger.log(
+        `微信支付退款申请成功: orderId=${payload.orderId}, refundId=${payload.refundId}, status=${refund.status}`,
+      );
+
+      return this.toRefundResult(refund);
+    } catch (error) {
+      this.logger.error('调用微信支付退款失败', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * 查询退款结果（退款单不存在时按失败处理）
+   *
+   * @param orderId 商户订单号
+   * @param refundId 退款单号（out_refund_no）
+   * @returns 统一格式的退款结果
+   */
+  async queryRefund(
+    orderId: string,
+    refundId: string,
+  ): Promise<PaymentRefundResult> {
+    try {
+      const refund = await this.request<WechatPayRefund>(
+        'GET',
+        `/v3/refund/domestic/refunds/${encodeURIComponent(refundId)}`,
+      );
+      return this.toRefundResult(refund);
+    } catch (error) {
+      // 退款单不存在说明微信支付未受理，按失败处理
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return {
+          refundId,
+          status: 'failed',
+          channelStatus: 'RESOURCE_NOT_EXISTS',
+          raw: (error.response.data as Record<string, any>) ?? {},
+        };
+      }
+
+      this.logger.error(
+        `调用微信支付退款查询失败: orderId=${orderId}`,
+        error as Error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 校验并解析回调通知
+   * 1. 用平台公钥校验请求签名（签名串：时间戳\n随机串\n请求体\n）
+   * 2. 用 APIv3 密钥解密 resource（AES-256-GCM）
+   *
+   * @param headers 回调请求头
+   * @param rawBody 回调请求的原始报文（必须是原始字符串，重新序列化会导致验签失败）
+   * @returns 解密后的交易结果
+   * @throws Error 验签或解密失败
+   */
+  parseNotification(
+    headers: WechatPayNotifyHeaders,
+    rawBody: string,
+  ): PaymentTradeResult {
+    this.verifyNotificationSignature(headers, rawBody);
+
+    const notification = JSON.parse(rawBody) as WechatPayNotification;
+    const transaction = JSON.parse(
+      this.decryptResource(notification.resource),
+    ) as WechatPayTransaction;
+
+    if (transaction.mchid !== this.mchId) {
+      throw new Error(`回调通知的商户号不匹配: ${transaction.mchid}`);
+    }
+
+    return this.toTradeResult(transaction);
+  }
+
+  /**
+   * 校验回调通知签名
+   */
+  private verifyNotificationSignature(
+    headers: WechatPayNotifyHeaders,
+    rawBody: string,
+  ) {
+    const timestamp = headers['wechatpay-timestamp'];
+    const nonce = headers['wechatpay-nonce'];
+    const signature = headers['wechatpay-signature'];
+    const serial = headers['wechatpay-serial'];
+
+    if (!timestamp || !nonce || !signature) {
+      throw new Error('回调通知缺少签名头');
+    }
+
+    if (this.platformSerial && serial !== this.platformSerial) {
+      throw new Error(`回调通知的平台证书序列号不匹配: ${serial}`);
+    }
+
+    // 防重放：拒绝时间戳偏差过大的通知
+    if (
+      Math.abs(Date.now() / 1000 - Number(timestamp)) > NOTIFY_MAX_SKEW_SECONDS
+    ) {
+      throw new Error(`回调通知时间戳已过期: ${timestamp}`);
+    }
+
+    const verified = createVerify('RSA-SHA256')
+      .update(`${timestamp}\n${nonce}\n${rawBody}\n`)
+      .verify(this.platformPublicKey, signature, 'base64');
+
+    if (!verified) {
+      throw new Error('回调通知验签失败');
+    }
+  }
+
+  /**
+   * 解密回调通知的 resource（AEAD_AES_256_GCM，密文末尾 16 字节为认证标签）
+   */
+  private decryptResource(resource: WechatPayNotification['resource']) {
+    if (resource.algorithm !== 'AEAD_AES_256_GCM') {
+      throw new Error(`不支持的回调加密算法: ${resource.algorithm}`);
+    }
+
+    const data = Buffer.from(resource.ciphertext, 'base64');
+    const authTag = data.subarray(data.length - 16);
+    const ciphertext = data.subarray(0, data.length - 16);
+
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      Buffer.from(this.apiV3Key, 'utf8'),
+      Buffer.from(resource.nonce, 'utf8'),
+    );
+    decipher.setAuthTag(authTag);
+    decipher.setAAD(Buffer.from(resource.associated_data || '', 'utf8'));
+
+    return Buffer.concat([
+      decipher.update(ciphertext),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  /**
+   * 转换为统一的交易结果（金额由分转换为元）
+   */
+  private toTradeResult(transaction: WechatPayTransaction): PaymentTradeResult {
+    const toYuan = (fen?: number) =>
+      typeof fen === 'number' ? (fen / 100).toFixed(2) : undefined;
+
+    return {
+      orderId: transaction.out_trade_no,
+      paid: transaction.trade_state === 'SUCCESS',
+      tradeStatus: transaction.trade_state,
+      tradeNo: transaction.transaction_id,
+      payAmount: toYuan(
+        transaction.amount?.payer_total ?? transaction.amount?.total,
+      ),
+      totalAmount: toYuan(transaction.amount?.total),
+      buyerId: transaction.payer?.openid,
+      paidAt: transaction.success_time
+        ? new Date(transaction.success_time)
+        : undefined,
+      raw: transaction,
+    };
+  }
+
+  /**
+   * 转换为统一的退款结果
+   */
+  private toRefundResult(refund: WechatPayRefund): PaymentRefundResult {
+    const statusMap: Record<string, PaymentRefundResult['status']> = {
+      SUCCESS: 'success',
+      PROCESSING: 'processing',
+      CLOSED: 'failed',
+      ABNORMAL: 'failed',
+    };
+
+    return {
+      refundId: refund.out_refund_no,
+      status: statusMap[refund.status] ?? 'processing',
+      channelStatus: refund.status,
+      channelRefundNo: refund.refund_id,
+      refundedAt: refund.success_time
+        ? new Date(refund.success_time)
+        : undefined,
+      raw: refund,
+    };
+  }
+
+  /**
+   * 生成 JSAPI 调起支付所需的参数（前端传给 WeixinJSBridge / wx.requestPayment）
+   */
+  private buildJsapiParams(prepayId: string): Record<string, string> {
+    const timeStamp = Math.floor(Date.now() / 1000).toString();
+    const nonceStr = randomBytes(16).toString('hex');
+    const pkg = `prepay_id=${prepayId}`;
+
+    return {
+      appId: this.appId,
+      timeStamp,
+      nonceStr,
+      package: pkg,
+      signType: 'RSA',
+      paySign: this.sign(`${this.appId}\n${timeStamp}\n${nonceStr}\n${pkg}\n`),
+    };
+  }
+
+  /**
+   * 调用微信支付 API（自动添加 WECHATPAY2-SHA256-RSA2048 签名）
+   */
+  private async request<T>(
+    method: 'GET' | 'POST',
+    path: string,
+    body?: Record<string, any>,
+  ): Promise<T> {
+    const payload = body ? JSON.stringify(body) : '';
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const nonce = randomBytes(16).toString('hex');
+    const signature = this.sign(
+      `${method}\n${path}\n${timestamp}\n${nonce}\n${payload}\n`,
+    );
+
+    const response = await axios.request<T>({
+      method,
+      url: `${this.baseUrl}${path}`,
+      data: payload || undefined,
+      timeout: 10000,
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+        Authorization: `WECHATPAY2-SHA256-RSA2048 mchid="${this.mchId}",nonce_str="${nonce}",signature="${signature}",timestamp="${timestamp}",serial_no="${this.serialNo}"`,
+      },
+    });
+
+    return response.data;
+  }
+
+  /**
+   * 使用商户私钥进行 SHA256withRSA 签名
+   */
+  private sign(message: string): string {
+    return createSign('RSA-SHA256')
+      .update(message)
+      .sign(this.privateKey, 'base64');
+  }
+}
@@ -0,0 +1,91 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { PaymentChannel } from '../payment.types';
+import { PaymentBillEntry, PaymentBillLoader } from './payment-bill.loader';
+
+/** 账单文件的必需列 */
+const REQUIRED_COLUMNS = ['type', 'orderId', 'amount'];
+
+/**
+ * 本地文件账单加载器
+ *
+ * 从 PAYMENT_BILL_DIR 目录读取 `{channel}-{billDate}.csv`，例如 `alipay-2026-01-01.csv`。
+ * 文件为逗号分隔的 CSV，第一行是表头：
+ *
+ *   type,orderId,tradeNo,refundId,amount,tradedAt
+ *   payment,ORDER_1,2026010122001,,28.80,2026-01-01T10:00:00+08:00
+ *   refund,ORDER_1,2026010122001,REFUND_1,28.80,2026-01-01T12:00:00+08:00
+ *
+ * 空行和以 # 开头的行会被忽略。用于测试，以及把从商户平台下载的账单整理后手动对账。
+ */
+@Injectable()
+export class LocalFileBillLoader implements PaymentBillLoader {
+  private readonly logger = new Logger(LocalFileBillLoader.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async load(
+    channel: PaymentChannel,
+    billDate: string,
+  ): Promise<PaymentBillEntry[]> {
+    const dir = resolve(
+      this.configService.get<string>('PAYMENT_BILL_DIR') || 'bills',
+    );
+    const filePath = join(dir, `${channel}-${billDate}.csv`);
+
+    let content: string;
+    try {
+      content = await readFile(filePath, 'utf8');
+    } catch {
+      throw new Error(`账单文件不存在: ${filePath}`);
+    }
+
+    const lines = content
+      .replace(/^\uFEFF/, '') // 去掉 BOM
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith('#'));
+
+    if (!lines.length) {
+      return [];
+    }
+
+    const headers = lines[0].split(',').map((header) => header.trim());
+    const missing = REQUIRED_COLUMNS.filter((col) => !headers.includes(col));
+    if (missing.length) {
+      throw new Error(`账单文件缺少列: ${missing.join(', ')}`);
+    }
+
+    const entries = lines.slice(1).map((line, index) => {
+      const values = line.split(',').map((value) => value.trim());
+      const row = Object.fromEntries(
+        headers.map((header, i) => [header, values[i] ?? '']),
+      );
+
+      const amount = Number(row.amount);
+      if (
+        (row.type !== 'payment' && row.type !== 'refund') ||
+        !row.orderId ||
+        isNaN(amount)
+      ) {
+        throw new Error(`账单文件第 ${index + 2} 行格式错误: ${line}`);
+      }
+
+      return {
+        channel,
+        type: row.type,
+        orderId: row.orderId,
+        tradeNo: row.tradeNo || undefined,
+        refundId: row.refundId || undefined,
+        amount,
+        tradedAt: row.tradedAt ? new Date(row.tradedAt) : undefined,
+        raw: row,
+      } as PaymentBillEntry;
+    });
+
+    this.logger.log(`加载账单 ${filePath}: ${entries.length} 条`);
+    return entries;
+  }
+}
@@ -0,0 +1,48 @@
+import { PaymentChannel } from '../payment.types';
+
+/**
+ * 账单加载器的注入令牌
+ */
+export const PAYMENT_BILL_LOADER = 'PAYMENT_BILL_LOADER';
+
+/**
+ * 渠道账单中的一条交易记录（各渠道的账单格式不同，统一转换为该结构后再对账）
+ */
+export interface PaymentBillEntry {
+  /** 支付渠道 */
+  channel: PaymentChannel;
+
+  /** 交易类型：支付 / 退款 */
+  type: 'payment' | 'refund';
+
+  /** 商户订单号 */
+  orderId: string;
+
+  /** 渠道交易号 */
+  tradeNo?: string;
+
+  /** 商户退款单号（退款记录才有） */
+  refundId?: string;
+
+  /** 金额（元）：支付为订单金额，退款为退款金额 */
+  amount: number;
+
+  /** 交易时间 */
+  tradedAt?: Date;
+
+  /** 账单原始行，便于排查问题 */
+  raw: Record<string, string>;
+}
+
+/**
+ * 渠道账单加载器
+ *
+ * 对账时按渠道和账单日期（yyyy-MM-dd，北京时间）加载当天的全部交易。
+ * 默认实现从本地文件读取（LocalFileBillLoader），接入渠道账单下载接口时提供新的实现即可。
+ */
+export interface PaymentBillLoader {
+  /**
+   * 加载账单，账单不存在时抛出异常
+   */
+  load(channel: PaymentChannel, billDate: string): Promise<PaymentBillEntry[]>;
+}
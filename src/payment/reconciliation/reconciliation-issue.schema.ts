@@ -0,0 +1,95 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, SchemaTypes, Types } from 'mongoose';
+import { PaymentChannel } from '../payment.types';
+
+export type ReconciliationIssueDocument = ReconciliationIssue & Document;
+
+export enum ReconciliationIssueType {
+  // 渠道账单有，系统中没有
+  MISSING_IN_SYSTEM = 'missing_in_system',
+  // 系统中已完成，渠道账单没有
+  MISSING_IN_BILL = 'missing_in_bill',
+  // 渠道账单中重复出现
+  DUPLICATE = 'duplicate',
+  // 金额不一致
+  AMOUNT_MISMATCH = 'amount_mismatch',
+  // 卡单：渠道已完成但系统未完成，或长时间停留在处理中
+  STUCK = 'stuck',
+  // 订单已完成但缺少充值流水
+  MISSING_TRANSACTION = 'missing_transaction',
+}
+
+export enum ReconciliationIssueStatus {
+  // 待处理
+  OPEN = 'open',
+  // 已处理
+  RESOLVED = 'resolved',
+  // 已忽略
+  IGNORED = 'ignored',
+}
+
+@Schema({ timestamps: true })
+export class ReconciliationIssue {
+  @Prop({
+    type: SchemaTypes.ObjectId,
+    ref: 'ReconciliationReport',
+    required: true,
+    index: true,
+  })
+  report: Types.ObjectId; // 所属对账报告
+
+  @Prop({ type: String, required: true, enum: PaymentChannel })
+  channel: PaymentChannel; // 支付渠道
+
+  @Prop({ required: true, index: true })
+  billDate: string; // 账单日期
+
+  @Prop({ required: true, enum: ReconciliationIssueType, index: true })
+  type: ReconciliationIssueType; // 差异类型
+
+  @Prop({ required: true, enum: ['payment', 'refund'] })
+  kind: 'payment' | 'refund'; // 交易类型（支付 / 退款）
+
+  @Prop({ required: true, index: true })
+  orderId: string; // 商户订单号
+
+  @Prop()
+  refundId?: string; // 商户退款单号
+
+  @Prop()
+  tradeNo?: string; // 渠道交易号
+
+  @Prop()
+  systemAmount?: number; // 系统金额（元）
+
+  @Prop()
+  billAmount?: number; // 账单金额（元）
+
+  @Prop()
+  systemStatus?: string; // 系统中的订单 / 退款状态
+
+  @Prop({ required: true })
+  detail: string; // 差异说明
+
+  @Prop({
+    enum: ReconciliationIssueStatus,
+    default: ReconciliationIssueStatus.OPEN,
+    index: true,
+  })
+  status: ReconciliationIssueStatus; // 处理状态
+
+  @Prop()
+  resolvedBy?: string; // 处理人（管理员ID）
+
+  @Prop()
+  resolvedAt?: Date; // 处理时间
+
+  @Prop()
+  resolutionNote?: string; // 处理说明
+
+  @Prop()
+  createdAt?: Date; // 创建时间
+}
+
+export const ReconciliationIssueSchema =
+  SchemaFactory.createForClass(ReconciliationIssue);
@@ -0,0 +1,51 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { PaymentChannel } from '../payment.types';
+
+export type ReconciliationReportDocument = ReconciliationReport & Document;
+
+export enum ReconciliationReportStatus {
+  // 对账完成
+  COMPLETED = 'completed',
+  // 对账失败（如账单加载失败）
+  FAILED = 'failed',
+}
+
+@Schema({ timestamps: true })
+export class ReconciliationReport {
+  @Prop({ type: String, required: true, enum: PaymentChannel })
+  channel: PaymentChannel; // 支付渠道
+
+  @Prop({ required: true, index: true })
+  billDate: string; // 账单日期（yyyy-MM-dd，北京时间）
+
+  @Prop({ enum: ReconciliationReportStatus, required: true })
+  status: ReconciliationReportStatus; // 对账状态
+
+  @Prop({ default: 0 })
+  billEntryCount: number; // 账单交易数
+
+  @Prop({ default: 0 })
+  systemRecordCount: number; // 系统中当天的交易数（支付 + 退款）
+
+  @Prop({ default: 0 })
+  matchedCount: number; // 核对一致的交易数
+
+  @Prop({ default: 0 })
+  issueCount: number; // 差异数
+
+  @Prop({ type: Object })
+  issueSummary?: Record<string, number>; // 按差异类型统计
+
+  @Prop()
+  error?: string; // 失败原因
+
+  @Prop()
+  triggeredBy?: string; // 触发方（scheduler 或管理员ID）
+
+  @Prop()
+  createdAt?: Date; // 创建时间
+}
+
+export const ReconciliationReportSchema =
+  SchemaFactory.createForClass(ReconciliationReport);
@@ -0,0 +1,105 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PaymentChannel } from '../payment.types';
+import { ReconciliationService } from './reconciliation.service';
+
+/** 北京时间相对 UTC 的偏移（毫秒） */
+const BEIJING_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 每日对账任务
+ * 每天 PAYMENT_RECONCILIATION_HOUR 点（北京时间，默认 10 点，渠道账单通常在上午生成）对前一天的账单对账。
+ * 只在 PAYMENT_MODE=live 时启动；PAYMENT_RECONCILIATION_HOUR 设置为负数时不启动。
+ */
+@Injectable()
+export class ReconciliationSchedulerService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(ReconciliationSchedulerService.name);
+
+  /** 定时器 */
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly reconciliationService: ReconciliationService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    if (this.configService.get<string>('PAYMENT_MODE') !== 'live') {
+      return;
+    }
+
+    if (this.hour < 0) {
+      this.logger.warn('⚠️ 每日对账任务未启动');
+      return;
+    }
+
+    this.scheduleNext();
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+  }
+
+  /**
+   * 对前一天（北京时间）的全部渠道账单对账
+   */
+  async runDaily() {
+    const billDate = new Date(Date.now() + BEIJING_OFFSET_MS - DAY_MS)
+      .toISOString()
+      .slice(0, 10);
+
+    for (const channel of Object.values(PaymentChannel)) {
+      try {
+        await this.reconciliationService.reconcile(channel, billDate);
+      } catch (error) {
+        this.logger.error(
+          `每日对账失败: channel=${channel}, billDate=${billDate}, ${(error as Error).message}`,
+        );
+      }
+    }
+  }
+
+  /** 每天执行的时间（北京时间，小时） */
+  private get hour(): number {
+    const hour = Number(
+      this.configService.get('PAYMENT_RECONCILIATION_HOUR') ?? 10,
+    );
+    return isNaN(hour) ? 10 : hour;
+  }
+
+  /**
+   * 计算下一次执行时间并设置定时器
+   */
+  private scheduleNext() {
+    const now = Date.now();
+    // 北京时间今天 0 点对应的 UTC 时间戳
+    const todayStart =
+      Math.floor((now + BEIJING_OFFSET_MS) / DAY_MS) * DAY_MS -
+      BEIJING_OFFSET_MS;
+    let next = todayStart + this.hour * 60 * 60 * 1000;
+    if (next <= now) {
+      next += DAY_MS;
+    }
+
+    this.timer = setTimeout(() => {
+      void this.runDaily().finally(() => this.scheduleNext());
+    }, next - now);
+    // 不阻止进程退出
+    this.timer.unref();
+
+    this.logger.log(
+      `✅ 每日对账任务已启动，下次执行时间 ${new Date(next).toISOString()}`,
+    );
+  }
+}
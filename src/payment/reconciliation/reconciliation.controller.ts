@@ -0,0 +1,133 @@
+import { Body, Controller, Get, Param, Post, Query, Req } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiTags,
+} from '@nestjs/swagger';
+import { RequirePermissions } from '../../auth/roles.decorator';
+import { Permission } from '../../auth/permissions';
+import { PaymentChannel } from '../payment.types';
+import { ReconciliationService } from './reconciliation.service';
+import {
+  ReconciliationIssueStatus,
+  ReconciliationIssueType,
+} from './reconciliation-issue.schema';
+import {
+  ResolveReconciliationIssueDto,
+  RunReconciliationDto,
+} from '../dto/reconciliation.dto';
+
+type AuthenticatedRequest = Request & { user?: { userId?: string } };
+
+@ApiTags('支付对账')
+@ApiBearerAuth()
+@Controller('payment/admin/reconciliation')
+export class ReconciliationController {
+  constructor(private readonly reconciliationService: ReconciliationService) {}
+
+  /**
+   * 手动对账（管理员）
+   * 每日对账任务失败或账单更新后可以重新对账，会替换同一账单未处理的差异
+   */
+  @Post('run')
+  @RequirePermissions(Permission.PAYMENT_RECONCILE)
+  @ApiOperation({ summary: '手动对账（管理员）' })
+  runReconciliation(
+    @Body() dto: RunReconciliationDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.reconciliationService.reconcile(
+      dto.channel,
+      dto.billDate,
+      req.user?.userId,
+    );
+  }
+
+  /**
+   * 获取对账报告列表（管理员）
+   */
+  @Get('reports')
+  @RequirePermissions(Permission.PAYMENT_RECONCILE)
+  @ApiOperation({ summary: '获取对账报告列表（管理员）' })
+  @ApiQuery({ name: 'channel', enum: PaymentChannel, required: false })
+  @ApiQuery({ name: 'skip', required: false })
+  @ApiQuery({ name: 'limit', required: false })
+  listReports(
+    @Query('channel') channel?: PaymentChannel,
+    @Query('skip') skip?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.reconciliationService.listReports({
+      channel,
+      skip: Number(skip) || 0,
+      limit: Math.min(Number(limit) || 20, 100),
+    });
+  }
+
+  /**
+   * 获取对账报告详情（管理员）
+   */
+  @Get('reports/:reportId')
+  @RequirePermissions(Permission.PAYMENT_RECONCILE)
+  @ApiOperation({ summary: '获取对账报告详情（管理员）' })
+  getReport(@Param('reportId') reportId: string) {
+    return this.reconciliationService.getReport(reportId);
+  }
+
+  /**
+   * 获取对账差异列表（管理员）
+   */
+  @Get('issues')
+  @RequirePermissions(Permission.PAYMENT_RECONCILE)
+  @ApiOperation({ summary: '获取对账差异列表（管理员）' })
+  @ApiQuery({
+    name: 'status',
+    enum: ReconciliationIssueStatus,
+    required: false,
+  })
+  @ApiQuery({ name: 'type', enum: ReconciliationIssueType, required: false })
+  @ApiQuery({ name: 'channel', enum: PaymentChannel, required: false })
+  @ApiQuery({ name: 'billDate', required: false })
+  @ApiQuery({ name: 'skip', required: false })
+  @ApiQuery({ name: 'limit', required: false })
+  listIssues(
+    @Query('status') status?: ReconciliationIssueStatus,
+    @Query('type') type?: ReconciliationIssueType,
+    @Query('channel') channel?: PaymentChannel,
+    @Query('billDate') billDate?: string,
+    @Query('skip') skip?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.reconciliationService.listIssues({
+      status,
+      type,
+      channel,
+      billDate,
+      skip: Number(skip) || 0,
+      limit: Math.min(Number(limit) || 20, 100),
+    });
+  }
+
+  /**
+   * 处理对账差异（管理员）
+   */
+  @Post('issues/:issueId/resolve')
+  @RequirePermissions(Permission.PAYMENT_RECONCILE)
+  @ApiOperation({
+    summary: '处理对账差异（管理员）',
+    description:
+      'retry 支持卡单（重新同步渠道结果并发货）和缺少充值流水（补记流水），其他差异核实后标记为已处理或忽略',
+  })
+  resolveIssue(
+    @Param('issueId') issueId: string,
+    @Body() dto: ResolveReconciliationIssueDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.reconciliationService.resolveIssue(
+      issueId,
+      req.user as { userId: string },
+      dto,
+    );
+  }
+}
@@ -0,0 +1,722 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { PaymentService } from '../payment.service';
+import { PaymentRefundService } from '../payment-refund.service';
+import { PaymentChannel } from '../payment.types';
+import {
+  PaymentRecord,
+  PaymentRecordDocument,
+  PaymentRecordStatus,
+} from '../payment-record.schema';
+import {
+  PaymentRefund,
+  PaymentRefundDocument,
+  PaymentRefundStatus,
+} from '../payment-refund.schema';
+import {
+  UserTransaction,
+  UserTransactionDocument,
+  UserTransactionType,
+} from '../../user/schemas/user-transaction.schema';
+import { PAYMENT_BILL_LOADER } from './payment-bill.loader';
+import type {
+  PaymentBillEntry,
+  PaymentBillLoader,
+} from './payment-bill.loader';
+import {
+  ReconciliationReport,
+  ReconciliationReportDocument,
+  ReconciliationReportStatus,
+} from './reconciliation-report.schema';
+import {
+  ReconciliationIssue,
+  ReconciliationIssueDocument,
+  ReconciliationIssueStatus,
+  ReconciliationIssueType,
+} from './reconciliation-issue.schema';
+import { ResolveReconciliationIssueDto } from '../dto/reconciliation.dto';
+
+/** 金额比较允许的误差（元） */
+const AMOUNT_TOLERANCE = 0.01;
+
+/** 订单停留在 PROCESSING 超过该时间（分钟）视为卡单 */
+const STUCK_PROCESSING_MINUTES = 10;
+
+/** 已支付的订单状态（支付成功后发生退款的订单也算） */
+const PAID_STATUSES = [
+  PaymentRecordStatus.SUCCESS,
+  PaymentRecordStatus.PARTIALLY_REFUNDED,
+  PaymentRecordStatus.REFUNDED,
+];
+
+/**
+ * 对账差异（写入数据库前的结构）
+ */
+type IssueDraft = Pick<
+  ReconciliationIssue,
+  | 'type'
+  | 'kind'
+  | 'orderId'
+  | 'refundId'
+  | 'tradeNo'
+  | 'systemAmount'
+  | 'billAmount'
+  | 'systemStatus'
+  | 'detail'
+>;
+
+/**
+ * 单类交易（支付 / 退款）的对账结果
+ */
+interface MatchResult {
+  systemCount: number;
+  matched: number;
+  issues: IssueDraft[];
+}
+
+/**
+ * 支付对账服务
+ * 按天把渠道账单和系统中的订单、退款、充值流水逐笔核对，生成对账报告和差异记录：
+ * 1. 渠道有、系统没有（漏单）
+ * 2. 系统有、渠道没有
+ * 3. 账单重复
+ * 4. 金额不一致
+ * 5. 卡单（渠道已完成但系统未完成，或长时间停留在处理中）
+ * 6. 已完成订单缺少充值流水
+ */
+@Injectable()
+export class ReconciliationService {
+  private readonly logger = new Logger(ReconciliationService.name);
+
+  constructor(
+    @Inject(PAYMENT_BILL_LOADER)
+    private readonly billLoader: PaymentBillLoader,
+    @InjectModel(ReconciliationReport.name)
+    private readonly reportModel: Model<ReconciliationReportDocument>,
+    @InjectModel(ReconciliationIssue.name)
+    private readonly issueModel: Model<ReconciliationIssueDocument>,
+    @InjectModel(PaymentRecord.name)
+    private readonly paymentRecordModel: Model<PaymentRecordDocument>,
+    @InjectModel(PaymentRefund.name)
+    private readonly paymentRefundModel: Model<PaymentRefundDocument>,
+    @InjectModel(UserTransaction.name)
+    private readonly userTransactionModel: Model<UserTransactionDocument>,
+    private readonly paymentService: PaymentService,
+    private readonly paymentRefundService: PaymentRefundService,
+  ) {}
+
+  /**
+   * 对指定渠道和日期的账单进行对账
+   * 重复对账时会替换同一账单之前未处理的差异，已处理 / 已忽略的差异不会再次出现
+   *
+   * @param channel 支付渠道
+   * @param billDate 账单日期（yyyy-MM-dd，北京时间）
+   * @param triggeredBy 触发方（scheduler 或管理员ID）
+   * @returns 对账报告
+   */
+  async reconcile(
+    channel: PaymentChannel,
+    billDate: string,
+    triggeredBy = 'scheduler',
+  ) {
+    let entries: PaymentBillEntry[];
+    try {
+      entries = await this.billLoader.load(channel, billDate);
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(
+        `❌ 加载账单失败: channel=${channel}, billDate=${billDate}, ${message}`,
+      );
+      return this.reportModel.create({
+        channel,
+        billDate,
+        status: ReconciliationReportStatus.FAILED,
+        error: message,
+        triggeredBy,
+      });
+    }
+
+    const { start, end } = this.getBillDateRange(billDate);
+
+    const payments = await this.matchPayments(
+      channel,
+      entries.filter((entry) => entry.type === 'payment'),
+      start,
+      end,
+    );
+    const refunds = await this.matchRefunds(
+      channel,
+      entries.filter((entry) => entry.type === 'refund'),
+      start,
+      end,
+    );
+    const stuckIssues = await this.findStuckOrders(
+      channel,
+      new Set(
+        payments.issues
+          .filter((issue) => issue.type === ReconciliationIssueType.STUCK)
+          .map((issue) => issue.orderId),
+      ),
+    );
+
+    const issues = await this.excludeHandledIssues(channel, billDate, [
+      ...payments.issues,
+      ...refunds.issues,
+      ...stuckIssues,
+    ]);
+
+    // 替换同一账单之前未处理的差异
+    await this.issueModel
+      .deleteMany({
+        channel,
+        billDate,
+        status: ReconciliationIssueStatus.OPEN,
+      })
+      .exec();
+
+    const issueSummary: Record<string, number> = {};
+    for (const issue of issues) {
+      issueSummary[issue.type] = (issueSummary[issue.type] || 0) + 1;
+    }
+
+    const report = await this.reportModel.create({
+      channel,
+      billDate,
+      status: ReconciliationReportStatus.COMPLETED,
+      billEntryCount: entries.length,
+      systemRecordCount: payments.systemCount + refunds.systemCount,
+      matchedCount: payments.matched + refunds.matched,
+      issueCount: issues.length,
+      issueSummary,
+      triggeredBy,
+    });
+
+    if (issues.length) {
+      await this.issueModel.insertMany(
+        issues.map((issue) => ({
+          ...issue,
+          report: report._id,
+          channel,
+          billDate,
+        })),
+      );
+    }
+
+    this.logger.log(
+      `✅ 对账完成: channel=${channel}, billDate=${billDate}, 账单 ${entries.length} 笔, 一致 ${report.matchedCount} 笔, 差异 ${issues.length} 笔`,
+    );
+
+    return report;
+  }
+
+  /**
+   * 获取对账报告列表
+   */
+  async listReports(
+    options: { channel?: PaymentChannel; skip?: number; limit?: number } = {},
+  ) {
+    const filter = options.channel ? { channel: options.channel } : {};
+    const [reports, total] = await Promise.all([
+      this.reportModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip(options.skip || 0)
+        .limit(options.limit || 20)
+        .lean(),
+      this.reportModel.countDocuments(filter),
+    ]);
+
+    return { reports, total };
+  }
+
+  /**
+   * 获取对账报告详情（包含该报告的全部差异）
+   */
+  async getReport(reportId: string) {
+    if (!Types.ObjectId.isValid(reportId)) {
+      throw new NotFoundException('对账报告不存在');
+    }
+
+    const report = await this.reportModel.findById(reportId).lean();
+    if (!report) {
+      throw new NotFoundException('对账报告不存在');
+    }
+
+    const issues = await this.issueModel
+      .find({ report: report._id })
+      .sort({ type: 1, orderId: 1 })
+      .lean();
+
+    return { report, issues };
+  }
+
+  /**
+   * 获取差异列表
+   */
+  async listIssues(
+    options: {
+      status?: ReconciliationIssueStatus;
+      type?: ReconciliationIssueType;
+      channel?: PaymentChannel;
+      billDate?: string;
+      skip?: number;
+      limit?: number;
+    } = {},
+  ) {
+    const filter: Record<string, string> = {};
+    if (options.status) filter.status = options.status;
+    if (options.type) filter.type = options.type;
+    if (options.channel) filter.channel = options.channel;
+    if (options.billDate) filter.billDate = options.billDate;
+
+    const [issues, total] = await Promise.all([
+      this.issueModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip(options.skip || 0)
+        .limit(options.limit || 20)
+        .lean(),
+      this.issueModel.countDocuments(filter),
+    ]);
+
+    return { issues, total };
+  }
+
+  /**
+   * 处理差异
+   * - resolve：人工核实处理后标记为已处理
+   * - ignore：标记为已忽略（重复对账时不会再次出现）
+   * - retry：自动修复（卡单重新同步渠道结果，缺少的充值流水补记），成功后标记为已处理
+   *
+   * @param issueId 差异ID
+   * @param admin 处理人
+   * @param dto 处理方式和说明
+   */
+  async resolveIssue(
+    issueId: string,
+    admin: { userId: string },
+    dto: ResolveReconciliationIssueDto,
+  ) {
+    const issue = Types.ObjectId.isValid(issueId)
+      ? await this.issueModel.findById(issueId).exec()
+      : null;
+
+    if (!issue) {
+      throw new NotFoundException('差异记录不存在');
+    }
+
+    if (issue.status !== ReconciliationIssueStatus.OPEN) {
+      throw new BadRequestException('差异已处理，请勿重复操作');
+    }
+
+    let note = dto.note;
+    if (dto.action === 'retry') {
+      note = note || (await this.retryIssue(issue));
+    }
+
+    const updated = await this.issueModel
+      .findOneAndUpdate(
+        { _id: issue._id, status: ReconciliationIssueStatus.OPEN },
+        {
+          $set: {
+            status:
+              dto.action === 'ignore'
+                ? ReconciliationIssueStatus.IGNORED
+                : ReconciliationIssueStatus.RESOLVED,
+            resolvedBy: admin.userId,
+            resolvedAt: new Date(),
+            resolutionNote: note,
+          },
+        },
+        { new: true },
+      )
+      .exec();
+
+    if (!updated) {
+      throw new BadRequestException('差异已处理，请勿重复操作');
+    }
+
+    this.logger.log(
+      `对账差异已处理: issueId=${issueId}, action=${dto.action}, admin=${admin.userId}`,
+    );
+
+    return updated;
+  }
+
+  /**
+   * 自动修复差异
+   * @returns 处理说明
+   */
+  private async retryIssue(issue: ReconciliationIssueDocument) {
+    if (issue.type === ReconciliationIssueType.STUCK) {
+      if (issue.kind === 'refund' && issue.refundId) {
+        const refund = await this.paymentRefundService.getRefund(
+          issue.refundId,
+        );
+        if (refund?.status !== PaymentRefundStatus.SUCCESS) {
+          throw new BadRequestException(
+            `退款状态仍为 ${refund?.status}，请核实后手动处理`,
+          );
+        }
+        return '已同步渠道退款结果';
+      }
+
+      const paid = await this.paymentService.resyncOrder(issue.orderId);
+      if (!paid) {
+        throw new BadRequestException('渠道查询订单未支付，请核实后手动处理');
+      }
+      return '已重新同步订单并完成发货';
+    }
+
+    if (issue.type === ReconciliationIssueType.MISSING_TRANSACTION) {
+      await this.paymentService.repairRechargeTransaction(issue.orderId);
+      return '已补记充值流水';
+    }
+
+    throw new BadRequestException(
+      '该类型的差异不支持自动修复，请核实后标记为已处理',
+    );
+  }
+
+  /**
+   * 核对支付交易
+   */
+  private async matchPayments(
+    channel: PaymentChannel,
+    entries: PaymentBillEntry[],
+    start: Date,
+    end: Date,
+  ): Promise<MatchResult> {
+    const issues: IssueDraft[] = [];
+    let matched = 0;
+
+    const groups = this.groupBy(entries, (entry) => entry.orderId);
+    const tradeNos = entries
+      .map((entry) => entry.tradeNo)
+      .filter((tradeNo): tradeNo is string => !!tradeNo);
+
+    // 优先按订单号匹配，订单号对不上时按渠道交易号匹配
+    const records = await this.paymentRecordModel
+      .find({
+        channel,
+        $or: [
+          { orderId: { $in: Array.from(groups.keys()) } },
+          { 'notificationPayload.tradeNo': { $in: tradeNos } },
+        ],
+      })
+      .lean();
+    const recordsByOrderId = new Map(records.map((r) => [r.orderId, r]));
+    const recordsByTradeNo = new Map(
+      records
+        .filter((r) => r.notificationPayload?.tradeNo)
+        .map((r) => [r.notificationPayload!.tradeNo as string, r]),
+    );
+
+    const billedOrderIds = new Set<string>();
+    const paidOrderIds = new Set<string>();
+
+    for (const [orderId, group] of groups) {
+      const entry = group[0];
+      const base: IssueDraft = {
+        type: ReconciliationIssueType.MISSING_IN_SYSTEM,
+        kind: 'payment',
+        orderId,
+        tradeNo: entry.tradeNo,
+        billAmount: entry.amount,
+        detail: '',
+      };
+
+      if (group.length > 1) {
+        issues.push({
+          ...base,
+          type: ReconciliationIssueType.DUPLICATE,
+          detail: `渠道账单中该订单出现 ${group.length} 次`,
+        });
+      }
+
+      const record =
+        recordsByOrderId.get(orderId) ??
+        (entry.tradeNo ? recordsByTradeNo.get(entry.tradeNo) : undefined);
+
+      if (!record) {
+        issues.push({ ...base, detail: '渠道已收款，系统中没有对应订单' });
+        continue;
+      }
+
+      billedOrderIds.add(record.orderId);
+      const withRecord: IssueDraft = {
+        ...base,
+        orderId: record.orderId,
+        systemAmount: record.amount,
+        systemStatus: record.status,
+      };
+      let consistent = group.length === 1;
+
+      if (PAID_STATUSES.includes(record.status)) {
+        paidOrderIds.add(record.orderId);
+      } else {
+        issues.push({
+          ...withRecord,
+          type: ReconciliationIssueType.STUCK,
+          detail: `渠道已收款，系统订单状态为 ${record.status}`,
+        });
+        consistent = false;
+      }
+
+      if (Math.abs(entry.amount - record.amount) > AMOUNT_TOLERANCE) {
+        issues.push({
+          ...withRecord,
+          type: ReconciliationIssueType.AMOUNT_MISMATCH,
+          detail: `金额不一致：系统 ${record.amount} 元，账单 ${entry.amount} 元`,
+        });
+        consistent = false;
+      }
+
+      if (consistent) {
+        matched++;
+      }
+    }
+
+    // 系统中当天完成的订单
+    const systemRecords = await this.paymentRecordModel
+      .find({
+        channel,
+        status: { $in: PAID_STATUSES },
+        paidAt: { $gte: start, $lt: end },
+      })
+      .lean();
+
+    for (const record of systemRecords) {
+      paidOrderIds.add(record.orderId);
+      if (!billedOrderIds.has(record.orderId)) {
+        issues.push({
+          type: ReconciliationIssueType.MISSING_IN_BILL,
+          kind: 'payment',
+          orderId: record.orderId,
+          tradeNo: record.notificationPayload?.tradeNo as string | undefined,
+          systemAmount: record.amount,
+          systemStatus: record.status,
+          detail: '系统订单已完成，渠道账单中没有该笔交易',
+        });
+      }
+    }
+
+    // 已完成的订单都应该有充值流水（没有用户的订单不记流水）
+    const recordsToCheck = [...records, ...systemRecords].filter(
+      (r) => paidOrderIds.has(r.orderId) && r.userId,
+    );
+    const transactions = await this.userTransactionModel
+      .find({
+        type: UserTransactionType.RECHARGE,
+        relatedOrderId: { $in: recordsToCheck.map((r) => r.orderId) },
+      })
+      .select('relatedOrderId')
+      .lean();
+    const recordedOrderIds = new Set(
+      transactions.map((transaction) => transaction.relatedOrderId),
+    );
+
+    for (const record of new Map(
+      recordsToCheck.map((r) => [r.orderId, r]),
+    ).values()) {
+      if (!recordedOrderIds.has(record.orderId)) {
+        issues.push({
+          type: ReconciliationIssueType.MISSING_TRANSACTION,
+          kind: 'payment',
+          orderId: record.orderId,
+          systemAmount: record.amount,
+          systemStatus: record.status,
+          detail: '订单已完成，但缺少充值流水',
+        });
+      }
+    }
+
+    return { systemCount: systemRecords.length, matched, issues };
+  }
+
+  /**
+   * 核对退款交易
+   */
+  private async matchRefunds(
+    channel: PaymentChannel,
+    entries: PaymentBillEntry[],
+    start: Date,
+    end: Date,
+  ): Promise<MatchResult> {
+    const issues: IssueDraft[] = [];
+    let matched = 0;
+
+    const groups = this.groupBy(
+      entries,
+      (entry) => entry.refundId || entry.orderId,
+    );
+    const refunds = await this.paymentRefundModel
+      .find({ channel, refundId: { $in: Array.from(groups.keys()) } })
+      .lean();
+    const refundsById = new Map(refunds.map((r) => [r.refundId, r]));
+    const billedRefundIds = new Set<string>();
+
+    for (const [refundId, group] of groups) {
+      const entry = group[0];
+      const base: IssueDraft = {
+        type: ReconciliationIssueType.MISSING_IN_SYSTEM,
+        kind: 'refund',
+        orderId: entry.orderId,
+        refundId: entry.refundId,
+        tradeNo: entry.tradeNo,
+        billAmount: entry.amount,
+        detail: '',
+      };
+
+      if (group.length > 1) {
+        issues.push({
+          ...base,
+          type: ReconciliationIssueType.DUPLICATE,
+          detail: `渠道账单中该退款出现 ${group.length} 次`,
+        });
+      }
+
+      const refund = refundsById.get(refundId);
+      if (!refund) {
+        issues.push({ ...base, detail: '渠道已退款，系统中没有对应退款' });
+        continue;
+      }
+
+      billedRefundIds.add(refund.refundId);
+      const withRefund: IssueDraft = {
+        ...base,
+        systemAmount: refund.amount,
+        systemStatus: refund.status,
+      };
+      let consistent = group.length === 1;
+
+      if (refund.status !== PaymentRefundStatus.SUCCESS) {
+        issues.push({
+          ...withRefund,
+          type: ReconciliationIssueType.STUCK,
+          detail: `渠道已退款，系统退款状态为 ${refund.status}`,
+        });
+        consistent = false;
+      }
+
+      if (Math.abs(entry.amount - refund.amount) > AMOUNT_TOLERANCE) {
+        issues.push({
+          ...withRefund,
+          type: ReconciliationIssueType.AMOUNT_MISMATCH,
+          detail: `退款金额不一致：系统 ${refund.amount} 元，账单 ${entry.amount} 元`,
+        });
+        consistent = false;
+      }
+
+      if (consistent) {
+        matched++;
+      }
+    }
+
+    // 系统中当天成功的退款
+    const systemRefunds = await this.paymentRefundModel
+      .find({
+        channel,
+        status: PaymentRefundStatus.SUCCESS,
+        refundedAt: { $gte: start, $lt: end },
+      })
+      .lean();
+
+    for (const refund of systemRefunds) {
+      if (!billedRefundIds.has(refund.refundId)) {
+        issues.push({
+          type: ReconciliationIssueType.MISSING_IN_BILL,
+          kind: 'refund',
+          orderId: refund.orderId,
+          refundId: refund.refundId,
+          systemAmount: refund.amount,
+          systemStatus: refund.status,
+          detail: '系统退款已成功，渠道账单中没有该笔退款',
+        });
+      }
+    }
+
+    return { systemCount: systemRefunds.length, matched, issues };
+  }
+
+  /**
+   * 查找长时间停留在 PROCESSING 的订单（发货过程中断，例如进程退出）
+   * @param exclude 已经标记为卡单的订单
+   */
+  private async findStuckOrders(
+    channel: PaymentChannel,
+    exclude: Set<string>,
+  ): Promise<IssueDraft[]> {
+    const records = await this.paymentRecordModel
+      .find({
+        channel,
+        status: PaymentRecordStatus.PROCESSING,
+        processingAt: {
+          $lt: new Date(Date.now() - STUCK_PROCESSING_MINUTES * 60 * 1000),
+        },
+      })
+      .lean();
+
+    return records
+      .filter((record) => !exclude.has(record.orderId))
+      .map((record) => ({
+        type: ReconciliationIssueType.STUCK,
+        kind: 'payment',
+        orderId: record.orderId,
+        systemAmount: record.amount,
+        systemStatus: record.status,
+        detail: `订单停留在处理中超过 ${STUCK_PROCESSING_MINUTES} 分钟`,
+      }));
+  }
+
+  /**
+   * 去掉之前已处理 / 已忽略的差异
+   */
+  private async excludeHandledIssues(
+    channel: PaymentChannel,
+    billDate: string,
+    issues: IssueDraft[],
+  ) {
+    const handled = await this.issueModel
+      .find({
+        channel,
+        billDate,
+        status: { $ne: ReconciliationIssueStatus.OPEN },
+      })
+      .select('type kind orderId refundId')
+      .lean();
+    const key = (
+      issue: Pick<IssueDraft, 'type' | 'kind' | 'orderId'> & {
+        refundId?: string;
+      },
+    ) => `${issue.type}:${issue.kind}:${issue.orderId}:${issue.refundId || ''}`;
+    const handledKeys = new Set(handled.map(key));
+
+    return issues.filter((issue) => !handledKeys.has(key(issue)));
+  }
+
+  /**
+   * 账单日期对应的时间范围（北京时间当天 0 点到次日 0 点）
+   */
+  private getBillDateRange(billDate: string) {
+    const start = new Date(`${billDate}T00:00:00+08:00`);
+    const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+    return { start, end };
+  }
+
+  private groupBy<T>(items: T[], keyOf: (item: T) => string) {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+      const key = keyOf(item);
+      groups.set(key, [...(groups.get(key) || []), item]);
+    }
+    return groups;
+  }
+}
@@ -0,0 +1,21 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  VipRenewalReminder,
+  VipReminderNotifier,
+} from './vip-reminder.notifier';
+
+/**
+ * 日志续费提醒通知器
+ * 只把续费提醒写入日志，用于开发和测试环境，以及尚未接入通知渠道时
+ */
+@Injectable()
+export class LogVipReminderNotifier implements VipReminderNotifier {
+  private readonly logger = new Logger(LogVipReminderNotifier.name);
+
+  sendRenewalReminder(reminder: VipRenewalReminder): Promise<void> {
+    this.logger.log(
+      `⏰ 会员续费提醒: userId=${reminder.userId}, username=${reminder.username}, vipPlanId=${reminder.vipPlanId}, vipExpireTime=${reminder.vipExpireTime.toISOString()}`,
+    );
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * 会员续费提醒通知器的注入令牌
+ */
+export const VIP_REMINDER_NOTIFIER = 'VIP_REMINDER_NOTIFIER';
+
+/**
+ * 会员续费提醒
+ */
+export interface VipRenewalReminder {
+  /** 用户ID */
+  userId: string;
+
+  /** 用户名 */
+  username: string;
+
+  /** 邮箱（可能为空） */
+  email?: string;
+
+  /** 手机号（可能为空） */
+  phone?: string;
+
+  /** 会员套餐ID */
+  vipPlanId?: string;
+
+  /** 会员过期时间 */
+  vipExpireTime: Date;
+}
+
+/**
+ * 会员续费提醒通知器
+ *
+ * 默认实现只记录日志（LogVipReminderNotifier），接入短信、邮件或微信订阅消息时提供新的实现即可。
+ */
+export interface VipReminderNotifier {
+  /**
+   * 发送续费提醒，发送失败时抛出异常（下一轮会重新发送）
+   */
+  sendRenewalReminder(reminder: VipRenewalReminder): Promise<void>;
+}
@@ -0,0 +1,75 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { VipService } from './vip.service';
+
+/**
+ * 会员定时任务
+ * 按 VIP_SCHEDULER_INTERVAL_MINUTES 定时降级过期会员、按月补足次数、发送续费提醒（设置为 0 时不启动）
+ */
+@Injectable()
+export class VipSchedulerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(VipSchedulerService.name);
+
+  /** 定时器 */
+  private timer?: NodeJS.Timeout;
+
+  /** 是否正在执行（上一轮没结束时跳过本轮） */
+  private running = false;
+
+  constructor(
+    private readonly vipService: VipService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    const intervalMinutes = Number(
+      this.configService.get('VIP_SCHEDULER_INTERVAL_MINUTES') ?? 60,
+    );
+
+    if (!(intervalMinutes > 0)) {
+      this.logger.warn('⚠️ 会员定时任务未启动');
+      return;
+    }
+
+    this.timer = setInterval(
+      () => void this.run(),
+      intervalMinutes * 60 * 1000,
+    );
+    // 不阻止进程退出
+    this.timer.unref();
+    this.logger.log(`✅ 会员定时任务已启动，间隔 ${intervalMinutes} 分钟`);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * 执行一轮会员任务
+   */
+  async run() {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.vipService.downgradeExpired();
+      await this.vipService.refillDue();
+      await this.vipService.sendRenewalReminders(
+        Number(this.configService.get('VIP_RENEWAL_REMINDER_DAYS') ?? 3),
+      );
+    } catch (error) {
+      this.logger.error(`会员定时任务执行失败: ${(error as Error).message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { mockQuery } from '../../../test/mock-query';
+import { LedgerReason } from '../../ledger/ledger-entry.schema';
+import { LedgerService } from '../../ledger/ledger.service';
+import { User } from '../../user/schemas/user.schema';
+import { PlanPricingMode, PlanType, VipPeriod } from '../plan.schema';
+import { VipService } from './vip.service';
+
+describe('VipService', () => {
+  let service: VipService;
+  const userModel = {
+    findById: jest.fn(),
+    updateOne: jest.fn(),
+  };
+  const ledgerService = {
+    topUp: jest.fn(),
+  };
+
+  const plan = {
+    planId: 'vip-month',
+    type: PlanType.SUBSCRIPTION,
+    name: '月度会员',
+    pricingMode: PlanPricingMode.FIXED,
+    price: 39.8,
+    currency: 'CNY',
+    benefits: {},
+    vipPeriod: VipPeriod.MONTH,
+    vipPerks: {
+      unlimited: ['resumeRemainingCount' as const],
+      monthlyRefill: { specialRemainingCount: 2 },
+    },
+  };
+  const day = 24 * 60 * 60 * 1000;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        VipService,
+        { provide: getModelToken(User.name), useValue: userModel },
+        { provide: LedgerService, useValue: ledgerService },
+      ],
+    })
+      .useMocker(() => ({}))
+      .compile();
+    service = moduleRef.get(VipService);
+  });
+
+  describe('activate', () => {
+    it('新开通会员从现在开始计算并立即补足次数', async () => {
+      userModel.findById.mockReturnValue(mockQuery({ isVip: false }));
+      userModel.updateOne.mockResolvedValue({ modifiedCount: 1 });
+
+      const grant = await service.activate('u1', plan, 'o1');
+
+      expect(grant.orderId).toBe('o1');
+      const duration = grant.expireTime.getTime() - grant.startTime.getTime();
+      expect(duration).toBeGreaterThanOrEqual(28 * day);
+      expect(duration).toBeLessThanOrEqual(31 * day);
+      expect(userModel.updateOne).toHaveBeenCalledWith(
+        {
+          _id: 'u1',
+          vipExpireTime: null,
+          'vipGrants.orderId': { $ne: 'o1' },
+        },
+        expect.objectContaining({ $push: { vipGrants: grant } }),
+      );
+      expect(ledgerService.topUp).toHaveBeenCalledWith(
+        'u1',
+        { specialRemainingCount: 2 },
+        expect.objectContaining({ reason: LedgerReason.VIP_REFILL }),
+      );
+    });
+
+    it('会员未过期时在原过期时间上顺延，不重复补足', async () => {
+      const vipExpireTime = new Date(Date.now() + 10 * day);
+      userModel.findById.mockReturnValue(
+        mockQuery({ isVip: true, vipExpireTime, vipGrants: [] }),
+      );
+      userModel.updateOne.mockResolvedValue({ modifiedCount: 1 });
+
+      const grant = await service.activate('u1', plan, 'o2');
+
+      expect(grant.startTime).toBe(vipExpireTime);
+      expect(grant.expireTime.getTime()).toBeGreaterThan(
+        vipExpireTime.getTime() + 27 * day,
+      );
+      expect(ledgerService.topUp).not.toHaveBeenCalled();
+    });
+
+    it('同一订单重复开通时返回已有的会员区间', async () => {
+      const existing = {
+        orderId: 'o1',
+        startTime: new Date(),
+        expireTime: new Date(Date.now() + 30 * day),
+      };
+      userModel.findById.mockReturnValue(
+        mockQuery({
+          isVip: true,
+          vipExpireTime: existing.expireTime,
+          vipGrants: [existing],
+        }),
+      );
+
+      expect(await service.activate('u1', plan, 'o1')).toBe(existing);
+      expect(userModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('并发续期冲突时基于最新的过期时间重试', async () => {
+      userModel.findById.mockReturnValue(mockQuery({ isVip: false }));
+      userModel.updateOne
+        .mockResolvedValueOnce({ modifiedCount: 0 })
+        .mockResolvedValueOnce({ modifiedCount: 1 });
+
+      await service.activate('u1', plan, 'o1');
+
+      expect(userModel.findById).toHaveBeenCalledTimes(2);
+      expect(userModel.updateOne).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('revoke', () => {
+    const grant = {
+      orderId: 'o1',
+      startTime: new Date(Date.now() - 10 * day),
+      expireTime: new Date(Date.now() + 20 * day),
+    };
+
+    it('部分退款按比例扣除会员时长', async () => {
+      const vipExpireTime = new Date(Date.now() + 20 * day);
+      userModel.findById.mockReturnValue(
+        mockQuery({ isVip: true, vipExpireTime }),
+      );
+      userModel.updateOne.mockResolvedValue({ modifiedCount: 1 });
+
+      const revoked = await service.revoke('u1', grant, 0.5);
+
+      expect(revoked?.getTime()).toBe(vipExpireTime.getTime() - 15 * day);
+      expect(userModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'u1', vipExpireTime },
+        { $set: { vipExpireTime: revoked } },
+      );
+    });
+
+    it('扣除后已过期时立即降级', async () => {
+      const vipExpireTime = new Date(Date.now() + 20 * day);
+      userModel.findById.mockReturnValue(
+        mockQuery({ isVip: true, vipExpireTime }),
+      );
+      userModel.updateOne.mockResolvedValue({ modifiedCount: 1 });
+
+      await service.revoke('u1', grant);
+
+      expect(userModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'u1', vipExpireTime },
+        expect.objectContaining({
+          $set: expect.objectContaining({ isVip: false }) as unknown,
+        }),
+      );
+    });
+
+    it('用户没有会员时不做任何事', async () => {
+      userModel.findById.mockReturnValue(mockQuery({ isVip: false }));
+
+      expect(await service.revoke('u1', grant)).toBeNull();
+      expect(userModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+});
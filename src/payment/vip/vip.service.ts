@@ -0,0 +1,370 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { User, UserDocument } from '../../user/schemas/user.schema';
+import { VipPeriod, VipPerks, VipUnlimitedField } from '../plan.schema';
+import type { PlanSnapshot } from '../plan.service';
+import { LedgerService } from '../../ledger/ledger.service';
+import { LedgerReason } from '../../ledger/ledger-entry.schema';
+import { VIP_REMINDER_NOTIFIER } from './vip-reminder.notifier';
+import type { VipReminderNotifier } from './vip-reminder.notifier';
+
+// 续期时并发更新过期时间的最大重试次数
+const MAX_ACTIVATE_ATTEMPTS = 3;
+
+// 定时任务单次最多处理的用户数
+const BATCH_SIZE = 100;
+
+/**
+ * 订单开通或续期的会员区间（保存到用户和支付记录中，同一订单只开通一次，退款时按此撤销）
+ */
+export interface VipGrant {
+  orderId: string; // 开通会员的订单号
+  startTime: Date; // 本次会员区间的开始时间（续期时为原过期时间）
+  expireTime: Date; // 本次开通后的会员过期时间
+}
+
+/**
+ * 会员服务
+ *
+ * - 会员订阅套餐支付成功后开通或续期会员（在未过期的会员基础上顺延）
+ * - 会员期间按权益配置不限次数使用指定功能，并按月补足次数
+ * - 定时任务降级已过期的会员，并在到期前发送续费提醒
+ */
+@Injectable()
+export class VipService {
+  private readonly logger = new Logger(VipService.name);
+
+  constructor(
+    @InjectModel(User.name)
+    private readonly userModel: Model<UserDocument>,
+    @Inject(VIP_REMINDER_NOTIFIER)
+    private readonly reminderNotifier: VipReminderNotifier,
+    private readonly ledgerService: LedgerService,
+  ) {}
+
+  /**
+   * 开通或续期会员
+   * 会员未过期时在原过期时间上顺延，否则从现在开始计算；新开通时立即补足一次次数
+   * 同一订单只开通一次：已开通过的订单（如支付处理中途失败后重试）直接返回已有的会员区间
+   *
+   * @param userId 用户ID
+   * @param plan 会员订阅套餐快照
+   * @param orderId 开通会员的订单号
+   * @returns 该订单开通的会员区间
+   */
+  async activate(
+    userId: string,
+    plan: PlanSnapshot,
+    orderId: string,
+  ): Promise<VipGrant> {
+    if (!plan.vipPeriod) {
+      throw new Error(`套餐 ${plan.planId} 不是会员订阅套餐`);
+    }
+
+    for (let attempt = 1; attempt <= MAX_ACTIVATE_ATTEMPTS; attempt++) {
+      const user = await this.userModel
+        .findById(userId)
+        .select('isVip vipExpireTime vipGrants')
+        .lean();
+      if (!user) {
+        throw new Error(`用户不存在 userId=${userId}`);
+      }
+
+      const granted = user.vipGrants?.find(
+        (grant) => grant.orderId === orderId,
+      );
+      if (granted) {
+        return granted;
+      }
+
+      const now = new Date();
+      const renewing = this.isActive(user, now);
+      const startTime = renewing ? user.vipExpireTime! : now;
+      const vipExpireTime = this.addPeriod(startTime, plan.vipPeriod);
+
+      const grant: VipGrant = { orderId, startTime, expireTime: vipExpireTime };
+
+      // 以读取到的过期时间作为条件，防止并发续期覆盖彼此的结果（同一订单并发开通时只有一个成功）
+      const result = await this.userModel.updateOne(
+        {
+          _id: userId,
+          vipExpireTime: user.vipExpireTime ?? null,
+          'vipGrants.orderId': { $ne: orderId },
+        },
+        {
+          $set: {
+            isVip: true,
+            vipExpireTime,
+            vipPlanId: plan.planId,
+            vipPerks: plan.vipPerks ?? {},
+            ...(renewing ? {} : { vipRefilledAt: now }),
+          },
+          $push: { vipGrants: grant },
+          $unset: { vipReminderSentAt: '' },
+        },
+      );
+
+      if (result.modifiedCount) {
+        if (!renewing) {
+          await this.refill(userId, plan.vipPerks, now);
+        }
+        this.logger.log(
+          `✅ 会员${renewing ? '续期' : '开通'}成功: userId=${userId}, planId=${plan.planId}, vipExpireTime=${vipExpireTime.toISOString()}`,
+        );
+        return grant;
+      }
+    }
+
+    throw new Error(`会员开通失败（并发更新冲突） userId=${userId}`);
+  }
+
+  /**
+   * 撤销订单开通的会员时长（退款时使用）
+   * 按比例从当前过期时间中扣除该订单开通的时长，扣除后已过期则立即降级
+   *
+   * @param userId 用户ID
+   * @param grant 订单开通的会员区间
+   * @param ratio 撤销比例（部分退款按退款金额比例撤销）
+   * @returns 撤销后的会员过期时间；用户没有会员时返回 null
+   */
+  async revoke(
+    userId: string,
+    grant: VipGrant,
+    ratio = 1,
+  ): Promise<Date | null> {
+    const duration = Math.round(
+      (new Date(grant.expireTime).getTime() -
+        new Date(grant.startTime).getTime()) *
+        Math.min(ratio, 1),
+    );
+
+    for (let attempt = 1; attempt <= MAX_ACTIVATE_ATTEMPTS; attempt++) {
+      const user = await this.userModel
+        .findById(userId)
+        .select('isVip vipExpireTime')
+        .lean();
+      if (!user) {
+        throw new Error(`用户不存在 userId=${userId}`);
+      }
+      if (!user.vipExpireTime) {
+        return null;
+      }
+
+      const now = new Date();
+      const vipExpireTime = new Date(user.vipExpireTime.getTime() - duration);
+      const expired = vipExpireTime <= now;
+
+      const result = await this.userModel.updateOne(
+        { _id: userId, vipExpireTime: user.vipExpireTime },
+        expired
+          ? {
+              $set: { isVip: false, vipExpireTime },
+              $unset: { vipPlanId: '', vipPerks: '', vipReminderSentAt: '' },
+            }
+          : { $set: { vipExpireTime } },
+      );
+
+      if (result.modifiedCount) {
+        this.logger.log(
+          `✅ 会员时长已撤销: userId=${userId}, vipExpireTime=${vipExpireTime.toISOString()}${expired ? '（已降级）' : ''}`,
+        );
+        return vipExpireTime;
+      }
+    }
+
+    throw new Error(`会员撤销失败（并发更新冲突） userId=${userId}`);
+  }
+
+  /**
+   * 会员是否可以不限次数使用该功能
+   * @param userId 用户ID
+   * @param field 功能对应的次数字段
+   */
+  async hasUnlimited(
+    userId: string,
+    field: VipUnlimitedField,
+  ): Promise<boolean> {
+    const user = await this.userModel
+      .findById(userId)
+      .select('isVip vipExpireTime vipPerks')
+      .lean();
+
+    return (
+      !!user &&
+      this.isActive(user) &&
+      !!user.vipPerks?.unlimited?.includes(field)
+    );
+  }
+
+  /**
+   * 获取会员状态
+   */
+  async getStatus(userId: string) {
+    const user = await this.userModel
+      .findById(userId)
+      .select('isVip vipExpireTime vipPlanId vipPerks vipRefilledAt')
+      .lean();
+    const isVip = !!user && this.isActive(user);
+
+    return {
+      isVip,
+      vipExpireTime: user?.vipExpireTime,
+      vipPlanId: isVip ? user?.vipPlanId : undefined,
+      vipPerks: isVip ? user?.vipPerks : undefined,
+      vipRefilledAt: isVip ? user?.vipRefilledAt : undefined,
+    };
+  }
+
+  /**
+   * 降级已过期的会员
+   * @returns 降级的用户数
+   */
+  async downgradeExpired(): Promise<number> {
+    const result = await this.userModel.updateMany(
+      { isVip: true, vipExpireTime: { $lte: new Date() } },
+      { $set: { isVip: false } },
+    );
+
+    if (result.modifiedCount) {
+      this.logger.log(`⏰ 已降级过期会员 ${result.modifiedCount} 个`);
+    }
+    return result.modifiedCount;
+  }
+
+  /**
+   * 为距离上次补足已满一个月的会员补足次数
+   * @returns 补足的用户数
+   */
+  async refillDue(): Promise<number> {
+    const now = new Date();
+    const dueBefore = this.addPeriod(now, VipPeriod.MONTH, -1);
+    const users = await this.userModel
+      .find({
+        isVip: true,
+        vipExpireTime: { $gt: now },
+        $or: [
+          { vipRefilledAt: { $lte: dueBefore } },
+          { vipRefilledAt: { $exists: false } },
+        ],
+      })
+      .select('vipPerks vipRefilledAt')
+      .limit(BATCH_SIZE)
+      .lean();
+
+    let count = 0;
+    for (const user of users) {
+      // 先占用本月的补足（以读取到的补足时间作为条件），防止多实例重复补足
+      const claimed = await this.userModel.updateOne(
+        { _id: user._id, vipRefilledAt: user.vipRefilledAt ?? null },
+        { $set: { vipRefilledAt: now } },
+      );
+      if (!claimed.modifiedCount) {
+        continue;
+      }
+
+      await this.refill(String(user._id), user.vipPerks, now);
+      count++;
+    }
+
+    if (count) {
+      this.logger.log(`✅ 已为 ${count} 个会员按月补足次数`);
+    }
+    return count;
+  }
+
+  /**
+   * 向即将到期的会员发送续费提醒（每期会员只提醒一次）
+   * @param withinDays 距离到期的天数
+   * @returns 发送的提醒数
+   */
+  async sendRenewalReminders(withinDays: number): Promise<number> {
+    const now = new Date();
+    const users = await this.userModel
+      .find({
+        isVip: true,
+        vipExpireTime: {
+          $gt: now,
+          $lte: new Date(now.getTime() + withinDays * 24 * 60 * 60 * 1000),
+        },
+        vipReminderSentAt: { $exists: false },
+      })
+      .select('username email phone vipPlanId vipExpireTime')
+      .limit(BATCH_SIZE)
+      .lean();
+
+    let count = 0;
+    for (const user of users) {
+      const claimed = await this.userModel.updateOne(
+        { _id: user._id, vipReminderSentAt: { $exists: false } },
+        { $set: { vipReminderSentAt: now } },
+      );
+      if (!claimed.modifiedCount) {
+        continue;
+      }
+
+      try {
+        await this.reminderNotifier.sendRenewalReminder({
+          userId: String(user._id),
+          username: user.username,
+          email: user.email,
+          phone: user.phone,
+          vipPlanId: user.vipPlanId,
+          vipExpireTime: user.vipExpireTime!,
+        });
+        count++;
+      } catch (error) {
+        // 发送失败时释放占用，下一轮重新发送
+        await this.userModel.updateOne(
+          { _id: user._id },
+          { $unset: { vipReminderSentAt: '' } },
+        );
+        this.logger.error(
+          `❌ 会员续费提醒发送失败: userId=${String(user._id)}, error=${(error as Error).message}`,
+        );
+      }
+    }
+
+    return count;
+  }
+
+  /**
+   * 按会员权益补足次数（剩余次数低于配置数量时补足到该数量，通过账本记账）
+   * @param refilledAt 本次补足时间（同一用户同一补足时间只记一次账）
+   */
+  private async refill(
+    userId: string,
+    perks: VipPerks | undefined,
+    refilledAt: Date,
+  ) {
+    if (!perks?.monthlyRefill) {
+      return;
+    }
+
+    await this.ledgerService.topUp(userId, perks.monthlyRefill, {
+      reason: LedgerReason.VIP_REFILL,
+      referenceId: `${userId}:${refilledAt.toISOString()}`,
+      description: '会员按月补足次数',
+    });
+  }
+
+  private isActive(
+    user: { isVip?: boolean; vipExpireTime?: Date },
+    now = new Date(),
+  ): boolean {
+    return !!user.isVip && !!user.vipExpireTime && user.vipExpireTime > now;
+  }
+
+  /**
+   * 按订阅周期计算时间（自然月 / 自然年）
+   */
+  private addPeriod(date: Date, period: VipPeriod, times = 1): Date {
+    const result = new Date(date);
+    if (period === VipPeriod.YEAR) {
+      result.setFullYear(result.getFullYear() + times);
+    } else {
+      result.setMonth(result.getMonth() + times);
+    }
+    return result;
+  }
+}
@@ -1,6 +1,5 @@
-import { Controller, Get, Post, Body, Request, UseGuards } from '@nestjs/common';
+import { Controller, Get, Post, Body, Request } from '@nestjs/common';
 import { ResumeService } from './resume.service';
-import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { ResponseUtil } from '../common/utils/response.util';
 import { UploadResumeDto, DeleteResumeDto, UpdateResumeNameDto } from './dto/resume.dto';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
@@ -8,7 +7,6 @@ import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 @ApiTags('简历管理')
 @ApiBearerAuth()
 @Controller('resume')
-@UseGuards(JwtAuthGuard)
 export class ResumeController {
   constructor(private readonly resumeService: ResumeService) {}
 
@@ -1,6 +1,5 @@
-import { Controller, Get, UseGuards } from '@nestjs/common';
+import { Controller, Get } from '@nestjs/common';
 import { StsService } from './sts.service';
-import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { ResponseUtil } from '../common/utils/response.util';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 
@@ -11,7 +10,6 @@ export class StsController {
   constructor(private readonly stsService: StsService) {}
 
   @Get('getStsToken')
-  @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: '获取STS临时凭证' })
   async getStsToken() {
     const token = await this.stsService.getStsToken();
@@ -0,0 +1,205 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { mockQuery } from '../../test/mock-query';
+import { AuthSessionRevokeReason } from '../auth/auth-session.schema';
+import { TokenService } from '../auth/token.service';
+import { AIInterviewResult } from '../interview/schemas/ai-interview-result.schema';
+import { ConsumptionRecord } from '../interview/schemas/consumption-record.schema';
+import { ResumeQuizResult } from '../interview/schemas/interview-quiz-result.schema';
+import { LedgerReason } from '../ledger/ledger-entry.schema';
+import { LedgerService } from '../ledger/ledger.service';
+import { PaymentRecord } from '../payment/payment-record.schema';
+import { PaymentRefund } from '../payment/payment-refund.schema';
+import { Resume } from '../resume/schemas/resume.schema';
+import { AccountMergeService } from './account-merge.service';
+import { UserConsumption } from './schemas/consumption-record.schema';
+import { UserTransaction } from './schemas/user-transaction.schema';
+import { User } from './schemas/user.schema';
+
+describe('AccountMergeService', () => {
+  let service: AccountMergeService;
+  const userModel = {
+    findById: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+  };
+  const recordModel = () => ({
+    countDocuments: jest.fn(),
+    updateMany: jest.fn(),
+  });
+  const recordModels = {
+    [UserConsumption.name]: recordModel(),
+    [ConsumptionRecord.name]: recordModel(),
+    [AIInterviewResult.name]: recordModel(),
+    [ResumeQuizResult.name]: recordModel(),
+    [Resume.name]: recordModel(),
+    [PaymentRecord.name]: recordModel(),
+    [PaymentRefund.name]: recordModel(),
+    [UserTransaction.name]: recordModel(),
+  };
+  const ledgerService = {
+    drain: jest.fn(),
+    post: jest.fn(),
+  };
+  const tokenService = {
+    revokeAll: jest.fn(),
+  };
+
+  const targetId = new Types.ObjectId().toHexString();
+  const sourceId = new Types.ObjectId().toHexString();
+  const inDays = (days: number) =>
+    new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    userModel.findById.mockReturnValue(mockQuery({ _id: targetId }));
+    userModel.findOneAndUpdate.mockReturnValue(mockQuery({ _id: sourceId }));
+    for (const model of Object.values(recordModels)) {
+      model.countDocuments.mockResolvedValue(1);
+    }
+    ledgerService.drain.mockResolvedValue({
+      reason: LedgerReason.ACCOUNT_MERGE_OUT,
+      lines: [
+        { asset: 'maiCoinBalance', amount: -50 },
+        { asset: 'specialRemainingCount', amount: -2 },
+      ],
+    });
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        AccountMergeService,
+        { provide: getModelToken(User.name), useValue: userModel },
+        ...Object.entries(recordModels).map(([name, model]) => ({
+          provide: getModelToken(name),
+          useValue: model,
+        })),
+        { provide: LedgerService, useValue: ledgerService },
+        { provide: TokenService, useValue: tokenService },
+      ],
+    }).compile();
+    service = moduleRef.get(AccountMergeService);
+  });
+
+  it('不能合并同一个账号', async () => {
+    await expect(service.merge(targetId, targetId)).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+  });
+
+  it('被合并账号已合并到其他账号时拒绝合并', async () => {
+    userModel.findOneAndUpdate.mockReturnValue(mockQuery(null));
+
+    await expect(service.merge(targetId, sourceId)).rejects.toBeInstanceOf(
+      ConflictException,
+    );
+    expect(tokenService.revokeAll).not.toHaveBeenCalled();
+    expect(ledgerService.drain).not.toHaveBeenCalled();
+  });
+
+  it('占用被合并账号后吊销其会话，通过账本转入全部余额', async () => {
+    const result = await service.merge(targetId, sourceId);
+
+    expect(userModel.findOneAndUpdate).toHaveBeenCalledWith(
+      {
+        _id: sourceId,
+        $or: [
+          { mergedIntoUserId: { $exists: false } },
+          { mergedIntoUserId: targetId },
+        ],
+      },
+      {
+        $set: {
+          mergedIntoUserId: targetId,
+          mergedAt: expect.any(Date) as unknown,
+        },
+      },
+    );
+    expect(tokenService.revokeAll).toHaveBeenCalledWith(
+      sourceId,
+      AuthSessionRevokeReason.ACCOUNT_MERGED,
+    );
+    expect(ledgerService.drain).toHaveBeenCalledWith(
+      sourceId,
+      expect.objectContaining({
+        reason: LedgerReason.ACCOUNT_MERGE_OUT,
+        referenceId: sourceId,
+      }),
+    );
+    expect(ledgerService.post).toHaveBeenCalledWith(
+      targetId,
+      { maiCoinBalance: 50, specialRemainingCount: 2 },
+      expect.objectContaining({
+        reason: LedgerReason.ACCOUNT_MERGE_IN,
+        referenceId: sourceId,
+      }),
+    );
+    expect(result).toEqual({
+      sourceUserId: sourceId,
+      targetUserId: targetId,
+      movedBalances: { maiCoinBalance: 50, specialRemainingCount: 2 },
+      movedRecords: 8,
+    });
+  });
+
+  it('被合并账号没有余额时不转入', async () => {
+    ledgerService.drain.mockResolvedValue({
+      reason: LedgerReason.PURCHASE,
+      lines: [{ asset: 'maiCoinBalance', amount: 100 }],
+    });
+
+    const result = await service.merge(targetId, sourceId);
+
+    expect(ledgerService.post).not.toHaveBeenCalled();
+    expect(result.movedBalances).toEqual({});
+  });
+
+  it('会员取两个账号中较晚的过期时间', async () => {
+    userModel.findById.mockReturnValue(
+      mockQuery({ _id: targetId, vipExpireTime: inDays(10) }),
+    );
+    userModel.findOneAndUpdate.mockReturnValue(
+      mockQuery({ _id: sourceId, vipExpireTime: inDays(20), vipPlanId: 'p' }),
+    );
+
+    await service.merge(targetId, sourceId);
+
+    expect(userModel.updateOne).toHaveBeenCalledWith(
+      { _id: targetId },
+      {
+        $set: expect.objectContaining({
+          isVip: true,
+          vipPlanId: 'p',
+        }) as unknown,
+      },
+    );
+
+    userModel.updateOne.mockClear();
+    userModel.findOneAndUpdate.mockReturnValue(
+      mockQuery({ _id: sourceId, vipExpireTime: inDays(5) }),
+    );
+    await service.merge(targetId, sourceId);
+
+    expect(userModel.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('历史记录逐个字段改写，未完成的面试会话一并转移', async () => {
+    await service.merge(targetId, sourceId);
+
+    const payments = recordModels[PaymentRecord.name];
+    expect(payments.updateMany.mock.calls).toEqual([
+      [{ userId: sourceId }, { $set: { userId: targetId } }],
+      [{ user: sourceId }, { $set: { user: targetId } }],
+      [{ userIdentifier: sourceId }, { $set: { userIdentifier: targetId } }],
+    ]);
+    expect(
+      recordModels[AIInterviewResult.name].updateMany,
+    ).toHaveBeenCalledWith(
+      { 'sessionState.userId': sourceId },
+      {
+        $set: { 'sessionState.userId': targetId },
+        $inc: { sessionVersion: 1 },
+      },
+    );
+  });
+});
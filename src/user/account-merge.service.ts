@@ -0,0 +1,275 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, QueryFilter, UpdateQuery } from 'mongoose';
+import { User, UserDocument } from './schemas/user.schema';
+import {
+  UserConsumption,
+  UserConsumptionDocument,
+} from './schemas/consumption-record.schema';
+import {
+  ConsumptionRecord,
+  ConsumptionRecordDocument,
+} from '../interview/schemas/consumption-record.schema';
+import {
+  AIInterviewResult,
+  AIInterviewResultDocument,
+} from '../interview/schemas/ai-interview-result.schema';
+import {
+  ResumeQuizResult,
+  ResumeQuizResultDocument,
+} from '../interview/schemas/interview-quiz-result.schema';
+import { Resume, ResumeDocument } from '../resume/schemas/resume.schema';
+import {
+  PaymentRecord,
+  PaymentRecordDocument,
+} from '../payment/payment-record.schema';
+import {
+  PaymentRefund,
+  PaymentRefundDocument,
+} from '../payment/payment-refund.schema';
+import {
+  UserTransaction,
+  UserTransactionDocument,
+} from './schemas/user-transaction.schema';
+import { LedgerService, type LedgerChanges } from '../ledger/ledger.service';
+import { LedgerReason } from '../ledger/ledger-entry.schema';
+import { TokenService } from '../auth/token.service';
+import { AuthSessionRevokeReason } from '../auth/auth-session.schema';
+
+/**
+ * 合并结果
+ */
+export interface AccountMergeResult {
+  sourceUserId: string; // 被合并的账号ID
+  targetUserId: string; // 保留的账号ID
+  movedBalances: LedgerChanges; // 转入的余额
+  movedRecords: number; // 转移的历史记录数
+}
+
+/**
+ * 历史记录中关联用户的字段
+ */
+type UserRefField = 'userId' | 'user' | 'userIdentifier';
+
+/**
+ * 账号合并
+ *
+ * 把被合并账号（source）的余额、会员和历史记录转入保留的账号（target）：
+ * - 以 mergedIntoUserId 占用被合并账号，被合并账号的全部登录会话随即失效，之后不能再登录
+ * - 余额通过账本从被合并账号转出、转入保留的账号（两笔分录的单据号都是被合并账号ID）
+ * - 会员取两个账号中较晚的过期时间
+ * - 面试、押题、简历、消费、订单、退款和交易流水记录改为属于保留的账号
+ *
+ * 每一步都可以重复执行，合并中途失败时重新合并即可继续。
+ */
+@Injectable()
+export class AccountMergeService {
+  private readonly logger = new Logger(AccountMergeService.name);
+
+  constructor(
+    @InjectModel(User.name)
+    private readonly userModel: Model<UserDocument>,
+    @InjectModel(UserConsumption.name)
+    private readonly userConsumptionModel: Model<UserConsumptionDocument>,
+    @InjectModel(ConsumptionRecord.name)
+    private readonly consumptionRecordModel: Model<ConsumptionRecordDocument>,
+    @InjectModel(AIInterviewResult.name)
+    private readonly aiInterviewResultModel: Model<AIInterviewResultDocument>,
+    @InjectModel(ResumeQuizResult.name)
+    private readonly resumeQuizResultModel: Model<ResumeQuizResultDocument>,
+    @InjectModel(Resume.name)
+    private readonly resumeModel: Model<ResumeDocument>,
+    @InjectModel(PaymentRecord.name)
+    private readonly paymentRecordModel: Model<PaymentRecordDocument>,
+    @InjectModel(PaymentRefund.name)
+    private readonly paymentRefundModel: Model<PaymentRefundDocument>,
+    @InjectModel(UserTransaction.name)
+    private readonly userTransactionModel: Model<UserTransactionDocument>,
+    private readonly ledgerService: LedgerService,
+    private readonly tokenService: TokenService,
+  ) {}
+
+  /**
+   * 把 sourceUserId 合并到 targetUserId
+   */
+  async merge(
+    targetUserId: string,
+    sourceUserId: string,
+  ): Promise<AccountMergeResult> {
+    if (targetUserId === sourceUserId) {
+      throw new BadRequestException('不能合并同一个账号');
+    }
+
+    const target = await this.userModel
+      .findById(targetUserId)
+      .select('mergedIntoUserId vipExpireTime')
+      .lean();
+    if (!target || target.mergedIntoUserId) {
+      throw new NotFoundException('用户不存在');
+    }
+
+    // 🔒 占用被合并账号（已合并到同一账号时允许重新执行，继续未完成的步骤）
+    const source = await this.userModel
+      .findOneAndUpdate(
+        {
+          _id: sourceUserId,
+          $or: [
+            { mergedIntoUserId: { $exists: false } },
+            { mergedIntoUserId: targetUserId },
+          ],
+        },
+        { $set: { mergedIntoUserId: targetUserId, mergedAt: new Date() } },
+      )
+      .lean();
+    if (!source) {
+      throw new ConflictException('该账号不存在或已合并到其他账号');
+    }
+
+    await this.tokenService.revokeAll(
+      sourceUserId,
+      AuthSessionRevokeReason.ACCOUNT_MERGED,
+    );
+
+    const movedBalances = await this.moveBalances(sourceUserId, targetUserId);
+
+    // 会员取较晚的过期时间
+    if (
+      source.vipExpireTime &&
+      source.vipExpireTime > new Date() &&
+      source.vipExpireTime > (target.vipExpireTime ?? new Date(0))
+    ) {
+      await this.userModel.updateOne(
+        { _id: targetUserId },
+        {
+          $set: {
+            isVip: true,
+            vipExpireTime: source.vipExpireTime,
+            vipPlanId: source.vipPlanId,
+            vipPerks: source.vipPerks,
+          },
+        },
+      );
+    }
+
+    const movedRecords = await this.moveRecords(sourceUserId, targetUserId);
+
+    this.logger.log(
+      `✅ 账号合并完成: source=${sourceUserId}, target=${targetUserId}, balances=${JSON.stringify(movedBalances)}, records=${movedRecords}`,
+    );
+
+    return { sourceUserId, targetUserId, movedBalances, movedRecords };
+  }
+
+  /**
+   * 通过账本把被合并账号的全部余额转入保留的账号
+   */
+  private async moveBalances(
+    sourceUserId: string,
+    targetUserId: string,
+  ): Promise<LedgerChanges> {
+    const drained = await this.ledgerService.drain(sourceUserId, {
+      reason: LedgerReason.ACCOUNT_MERGE_OUT,
+      referenceId: sourceUserId,
+      description: '合并账号转出',
+      metadata: { targetUserId },
+    });
+
+    // 没有余额时 drain 返回的是其他原因的最新分录
+    if (drained?.reason !== LedgerReason.ACCOUNT_MERGE_OUT) {
+      return {};
+    }
+
+    const changes: LedgerChanges = Object.fromEntries(
+      drained.lines.map((line) => [line.asset, -line.amount]),
+    );
+    await this.ledgerService.post(targetUserId, changes, {
+      reason: LedgerReason.ACCOUNT_MERGE_IN,
+      referenceId: sourceUserId,
+      description: '合并账号转入',
+      metadata: { sourceUserId },
+    });
+
+    return changes;
+  }
+
+  /**
+   * 把被合并账号的历史记录改为属于保留的账号
+   * @returns 转移的记录数
+   */
+  private async moveRecords(
+    sourceUserId: string,
+    targetUserId: string,
+  ): Promise<number> {
+    const moves = [
+      this.reassign(this.userConsumptionModel, ['userId']),
+      this.reassign(this.consumptionRecordModel, ['userId', 'user']),
+      this.reassign(this.aiInterviewResultModel, ['userId', 'user']),
+      this.reassign(this.resumeQuizResultModel, ['userId', 'user']),
+      this.reassign(this.resumeModel, ['userId']),
+      this.reassign(this.paymentRecordModel, [
+        'userId',
+        'user',
+        'userIdentifier',
+      ]),
+      this.reassign(this.paymentRefundModel, ['userId', 'user']),
+      this.reassign(this.userTransactionModel, ['user', 'userIdentifier']),
+    ];
+
+    let movedRecords = 0;
+    for (const move of moves) {
+      movedRecords += await move(sourceUserId, targetUserId);
+    }
+
+    await this.moveInterviewSessions(sourceUserId, targetUserId);
+    return movedRecords;
+  }
+
+  /**
+   * 未完成的模拟面试在会话状态中也保存了用户ID（回答问题时按此校验归属）
+   * 同时递增会话版本号，合并前读取的会话再保存时会冲突，不会写回被合并账号的用户ID
+   */
+  private async moveInterviewSessions(
+    sourceUserId: string,
+    targetUserId: string,
+  ) {
+    await this.aiInterviewResultModel.updateMany(
+      { 'sessionState.userId': sourceUserId },
+      {
+        $set: { 'sessionState.userId': targetUserId },
+        $inc: { sessionVersion: 1 },
+      },
+    );
+  }
+
+  /**
+   * 生成把一个集合中的记录改为属于保留的账号的操作
+   * 逐个字段改写等于被合并账号的值（userIdentifier 也可能是 openid 等其他标识，不能整条覆盖）
+   *
+   * @param model 记录的模型
+   * @param fields 关联用户的字段（ObjectId 引用由 Mongoose 按 Schema 转换）
+   */
+  private reassign<T>(model: Model<T>, fields: (UserRefField & keyof T)[]) {
+    return async (sourceUserId: string, targetUserId: string) => {
+      const filters = fields.map(
+        (field) => ({ [field]: sourceUserId }) as QueryFilter<T>,
+      );
+      const count = await model.countDocuments({
+        $or: filters,
+      } as QueryFilter<T>);
+
+      for (const field of fields) {
+        await model.updateMany(
+          { [field]: sourceUserId } as QueryFilter<T>,
+          { $set: { [field]: targetUserId } } as UpdateQuery<T>,
+        );
+      }
+      return count;
+    };
+  }
+}
@@ -0,0 +1,180 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { mockQuery } from '../../test/mock-query';
+import { AuthSessionRevokeReason } from '../auth/auth-session.schema';
+import { TokenService } from '../auth/token.service';
+import { MAILER } from '../mail/mailer';
+import { AccountVerificationService } from './account-verification.service';
+import {
+  AccountToken,
+  AccountTokenPurpose,
+} from './schemas/account-token.schema';
+import { User } from './schemas/user.schema';
+
+describe('AccountVerificationService', () => {
+  let service: AccountVerificationService;
+  const userModel = {
+    findById: jest.fn(),
+    findOne: jest.fn(),
+    updateOne: jest.fn(),
+  };
+  const accountTokenModel = {
+    updateMany: jest.fn(),
+    create: jest.fn(),
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+  };
+  const mailer = {
+    send: jest.fn(),
+  };
+  const tokenService = {
+    revokeAll: jest.fn(),
+  };
+
+  const user = {
+    _id: new Types.ObjectId(),
+    username: 'alice',
+    email: 'alice@example.com',
+  };
+  const userId = user._id.toString();
+
+  // 未配置 APP_WEB_URL 时邮件中的链接就是令牌本身
+  const sentToken = () =>
+    (mailer.send.mock.calls[0] as [{ text: string }])[0].text.split('\n')[3];
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        AccountVerificationService,
+        JwtService,
+        { provide: getModelToken(User.name), useValue: userModel },
+        {
+          provide: getModelToken(AccountToken.name),
+          useValue: accountTokenModel,
+        },
+        { provide: MAILER, useValue: mailer },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: TokenService, useValue: tokenService },
+      ],
+    }).compile();
+    service = moduleRef.get(AccountVerificationService);
+  });
+
+  describe('邮箱验证', () => {
+    beforeEach(async () => {
+      await service.sendEmailVerification(user);
+    });
+
+    it('发送时作废同一用途尚未使用的旧令牌', () => {
+      expect(accountTokenModel.updateMany).toHaveBeenCalledWith(
+        {
+          userId,
+          purpose: AccountTokenPurpose.EMAIL_VERIFICATION,
+          usedAt: { $exists: false },
+          revokedAt: { $exists: false },
+        },
+        { $set: { revokedAt: expect.any(Date) as unknown } },
+      );
+      expect(accountTokenModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId,
+          purpose: AccountTokenPurpose.EMAIL_VERIFICATION,
+          email: 'alice@example.com',
+        }),
+      );
+    });
+
+    it('验证通过后激活账号', async () => {
+      accountTokenModel.findOneAndUpdate.mockResolvedValue({});
+      userModel.updateOne.mockResolvedValue({ matchedCount: 1 });
+
+      await service.verifyEmail(sentToken());
+
+      expect(userModel.updateOne).toHaveBeenCalledWith(
+        { _id: userId, email: 'alice@example.com' },
+        {
+          $set: {
+            isActive: true,
+            emailVerifiedAt: expect.any(Date) as unknown,
+          },
+        },
+      );
+    });
+
+    it('令牌只能使用一次', async () => {
+      accountTokenModel.findOneAndUpdate.mockResolvedValue(null);
+
+      await expect(service.verifyEmail(sentToken())).rejects.toThrow(
+        '链接已使用或已失效',
+      );
+      expect(userModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('邮箱在发送后被修改时旧链接失效', async () => {
+      accountTokenModel.findOneAndUpdate.mockResolvedValue({});
+      userModel.updateOne.mockResolvedValue({ matchedCount: 0 });
+
+      await expect(service.verifyEmail(sentToken())).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+    });
+
+    it('邮箱验证令牌不能用于重置密码，篡改的令牌无效', async () => {
+      await expect(
+        service.resetPassword(sentToken(), 'newSecret456'),
+      ).rejects.toThrow('链接无效或已过期');
+      await expect(service.verifyEmail(`${sentToken()}x`)).rejects.toThrow(
+        '链接无效或已过期',
+      );
+      expect(accountTokenModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('重置密码', () => {
+    it('邮箱未注册或发送过于频繁时不发送邮件', async () => {
+      userModel.findOne.mockReturnValueOnce(mockQuery(null));
+      await service.requestPasswordReset('nobody@example.com');
+
+      userModel.findOne.mockReturnValueOnce(mockQuery(user));
+      accountTokenModel.findOne.mockReturnValueOnce(
+        mockQuery({ createdAt: new Date(Date.now() - 10 * 1000) }),
+      );
+      await service.requestPasswordReset('alice@example.com');
+
+      expect(mailer.send).not.toHaveBeenCalled();
+    });
+
+    it('重置密码后完成邮箱验证并吊销全部会话', async () => {
+      userModel.findOne.mockReturnValue(mockQuery(user));
+      accountTokenModel.findOne.mockReturnValue(mockQuery(null));
+      await service.requestPasswordReset('alice@example.com');
+
+      const account = {
+        ...user,
+        password: 'old',
+        isActive: false,
+        emailVerifiedAt: undefined as Date | undefined,
+        save: jest.fn(),
+      };
+      accountTokenModel.findOneAndUpdate.mockResolvedValue({});
+      userModel.findById.mockResolvedValue(account);
+
+      await service.resetPassword(sentToken(), 'newSecret456');
+
+      expect(account).toMatchObject({
+        password: 'newSecret456',
+        isActive: true,
+      });
+      expect(account.save).toHaveBeenCalled();
+      expect(tokenService.revokeAll).toHaveBeenCalledWith(
+        userId,
+        AuthSessionRevokeReason.PASSWORD_RESET,
+      );
+    });
+  });
+});
@@ -0,0 +1,334 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { randomUUID } from 'crypto';
+import { User, UserDocument } from './schemas/user.schema';
+import {
+  AccountToken,
+  AccountTokenDocument,
+  AccountTokenPurpose,
+} from './schemas/account-token.schema';
+import { MAILER } from '../mail/mailer';
+import type { Mailer } from '../mail/mailer';
+import { TokenService } from '../auth/token.service';
+import { AuthSessionRevokeReason } from '../auth/auth-session.schema';
+
+/**
+ * 账号令牌载荷
+ */
+interface AccountTokenPayload {
+  sub: string; // 用户ID
+  purpose: AccountTokenPurpose; // 用途
+  email: string; // 发送到的邮箱
+  jti: string; // 令牌ID
+}
+
+type AccountTokenSubject = Pick<UserDocument, '_id' | 'username' | 'email'>;
+
+/**
+ * 邮箱验证和重置密码
+ *
+ * - 令牌是用 ACCOUNT_TOKEN_SECRET 签名的 JWT，带有效期；令牌状态记录在 AccountToken 中，只能使用一次
+ * - 同一用途重新发送时作废旧令牌，并按 ACCOUNT_EMAIL_RESEND_COOLDOWN_SECONDS 限制发送频率
+ * - 邮箱验证通过后激活账号（isActive）；重置密码后吊销全部登录会话
+ */
+@Injectable()
+export class AccountVerificationService {
+  private readonly logger = new Logger(AccountVerificationService.name);
+
+  constructor(
+    @InjectModel(User.name)
+    private readonly userModel: Model<UserDocument>,
+    @InjectModel(AccountToken.name)
+    private readonly accountTokenModel: Model<AccountTokenDocument>,
+    @Inject(MAILER)
+    private readonly mailer: Mailer,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+    private readonly tokenService: TokenService,
+  ) {}
+
+  /**
+   * 发送邮箱验证邮件
+   */
+  async sendEmailVerification(user: AccountTokenSubject) {
+    if (!user.email) {
+      throw new BadRequestException('请先设置邮箱');
+    }
+
+    const ttlHours = Number(
+      this.configService.get('EMAIL_VERIFICATION_TTL_HOURS') ?? 24,
+    );
+    const token = await this.issueToken(
+      user,
+      AccountTokenPurpose.EMAIL_VERIFICATION,
+      ttlHours * 60 * 60,
+    );
+    const link = this.buildLink('/verify-email', token);
+
+    await this.mailer.send({
+      to: user.email,
+      subject: '【面试麦】请验证你的邮箱',
+      text: [
+        `${user.username}，你好：`,
+        '',
+        `请在 ${ttlHours} 小时内点击以下链接完成邮箱验证：`,
+        link,
+        '',
+        '如果这不是你本人的操作，请忽略本邮件。',
+      ].join('\n'),
+    });
+
+    this.logger.log(`📧 已发送邮箱验证邮件: userId=${user._id.toString()}`);
+  }
+
+  /**
+   * 重新发送邮箱验证邮件
+   */
+  async resendEmailVerification(userId: string) {
+    const user = await this.userModel
+      .findById(userId)
+      .select('username email isActive')
+      .lean();
+    if (!user) {
+      throw new NotFoundException('用户不存在');
+    }
+    if (user.isActive) {
+      throw new BadRequestException('邮箱已验证');
+    }
+
+    if (
+      await this.isCoolingDown(userId, AccountTokenPurpose.EMAIL_VERIFICATION)
+    ) {
+      throw new BadRequestException('发送过于频繁，请稍后再试');
+    }
+
+    await this.sendEmailVerification(user);
+  }
+
+  /**
+   * 验证邮箱（激活账号）
+   */
+  async verifyEmail(token: string) {
+    const payload = await this.consumeToken(
+      token,
+      AccountTokenPurpose.EMAIL_VERIFICATION,
+    );
+
+    // 邮箱在发送验证邮件后被修改过时，旧邮箱的验证链接不再有效
+    const result = await this.userModel.updateOne(
+      { _id: payload.sub, email: payload.email },
+      { $set: { isActive: true, emailVerifiedAt: new Date() } },
+    );
+    if (!result.matchedCount) {
+      throw new BadRequestException('链接已失效，请重新发送验证邮件');
+    }
+
+    this.logger.log(`✅ 邮箱验证成功: userId=${payload.sub}`);
+  }
+
+  /**
+   * 申请重置密码
+   * 邮箱未注册或发送过于频繁时同样返回成功，避免通过该接口探测邮箱是否注册
+   */
+  async requestPasswordReset(email: string) {
+    const user = await this.userModel
+      .findOne({ email })
+      .select('username email')
+      .lean();
+    if (!user) {
+      this.logger.warn(`⚠️ 申请重置密码的邮箱未注册: email=${email}`);
+      return;
+    }
+
+    const userId = user._id.toString();
+    if (await this.isCoolingDown(userId, AccountTokenPurpose.PASSWORD_RESET)) {
+      this.logger.warn(`⚠️ 重置密码邮件发送过于频繁: userId=${userId}`);
+      return;
+    }
+
+    const ttlMinutes = Number(
+      this.configService.get('PASSWORD_RESET_TTL_MINUTES') ?? 30,
+    );
+    const token = await this.issueToken(
+      user,
+      AccountTokenPurpose.PASSWORD_RESET,
+      ttlMinutes * 60,
+    );
+    const link = this.buildLink('/reset-password', token);
+
+    await this.mailer.send({
+      to: email,
+      subject: '【面试麦】重置密码',
+      text: [
+        `${user.username}，你好：`,
+        '',
+        `请在 ${ttlMinutes} 分钟内点击以下链接重置密码：`,
+        link,
+        '',
+        '如果这不是你本人的操作，请忽略本邮件，你的密码不会被修改。',
+      ].join('\n'),
+    });
+
+    this.logger.log(`📧 已发送重置密码邮件: userId=${userId}`);
+  }
+
+  /**
+   * 重置密码（重置后吊销全部登录会话）
+   */
+  async resetPassword(token: string, newPassword: string) {
+    const payload = await this.consumeToken(
+      token,
+      AccountTokenPurpose.PASSWORD_RESET,
+    );
+
+    const user = await this.userModel.findById(payload.sub);
+    if (!user) {
+      throw new NotFoundException('用户不存在');
+    }
+
+    // 密码加密会在Schema的pre钩子中自动进行
+    user.password = newPassword;
+    // 能收到重置邮件说明邮箱属于本人，顺便完成邮箱验证
+    if (!user.isActive && user.email === payload.email) {
+      user.isActive = true;
+      user.emailVerifiedAt = new Date();
+    }
+    await user.save();
+
+    await this.tokenService.revokeAll(
+      payload.sub,
+      AuthSessionRevokeReason.PASSWORD_RESET,
+    );
+    this.logger.log(`✅ 密码重置成功: userId=${payload.sub}`);
+  }
+
+  /**
+   * 签发令牌（作废同一用途尚未使用的旧令牌）
+   */
+  private async issueToken(
+    user: AccountTokenSubject,
+    purpose: AccountTokenPurpose,
+    ttlSeconds: number,
+  ): Promise<string> {
+    const userId = user._id.toString();
+    const now = new Date();
+
+    await this.accountTokenModel.updateMany(
+      {
+        userId,
+        purpose,
+        usedAt: { $exists: false },
+        revokedAt: { $exists: false },
+      },
+      { $set: { revokedAt: now } },
+    );
+
+    const tokenId = randomUUID();
+    await this.accountTokenModel.create({
+      tokenId,
+      userId,
+      purpose,
+      email: user.email,
+      expiresAt: new Date(now.getTime() + ttlSeconds * 1000),
+    });
+
+    const payload: AccountTokenPayload = {
+      sub: userId,
+      purpose,
+      email: user.email!,
+      jti: tokenId,
+    };
+    return this.jwtService.sign(payload, {
+      secret: this.getSecret(),
+      expiresIn: ttlSeconds,
+    });
+  }
+
+  /**
+   * 校验并使用令牌（以未使用、未作废为条件标记使用，并发请求时只有一个成功）
+   */
+  private async consumeToken(
+    token: string,
+    purpose: AccountTokenPurpose,
+  ): Promise<AccountTokenPayload> {
+    let payload: AccountTokenPayload;
+    try {
+      payload = this.jwtService.verify<AccountTokenPayload>(token, {
+        secret: this.getSecret(),
+      });
+    } catch {
+      throw new BadRequestException('链接无效或已过期');
+    }
+
+    if (payload.purpose !== purpose) {
+      throw new BadRequestException('链接无效或已过期');
+    }
+
+    const record = await this.accountTokenModel.findOneAndUpdate(
+      {
+        tokenId: payload.jti,
+        purpose,
+        usedAt: { $exists: false },
+        revokedAt: { $exists: false },
+      },
+      { $set: { usedAt: new Date() } },
+    );
+    if (!record) {
+      throw new BadRequestException('链接已使用或已失效');
+    }
+
+    return payload;
+  }
+
+  /**
+   * 距离上次发送是否还在冷却时间内
+   */
+  private async isCoolingDown(
+    userId: string,
+    purpose: AccountTokenPurpose,
+  ): Promise<boolean> {
+    const cooldownSeconds = Number(
+      this.configService.get('ACCOUNT_EMAIL_RESEND_COOLDOWN_SECONDS') ?? 60,
+    );
+    const latest = await this.accountTokenModel
+      .findOne({ userId, purpose })
+      .sort({ createdAt: -1 })
+      .select('createdAt')
+      .lean();
+
+    return (
+      !!latest?.createdAt &&
+      Date.now() - latest.createdAt.getTime() < cooldownSeconds * 1000
+    );
+  }
+
+  /**
+   * 生成邮件中的链接（未配置 APP_WEB_URL 时只返回令牌）
+   */
+  private buildLink(path: string, token: string): string {
+    const baseUrl = this.configService.get<string>('APP_WEB_URL');
+    if (!baseUrl) {
+      return token;
+    }
+    return `${baseUrl.replace(/\/$/, '')}${path}?token=${encodeURIComponent(token)}`;
+  }
+
+  /**
+   * 账号令牌的签名密钥（与访问令牌分开，避免账号令牌被当作访问令牌使用）
+   */
+  private getSecret(): string {
+    return (
+      this.configService.get<string>('ACCOUNT_TOKEN_SECRET') ||
+      `${this.configService.get<string>('JWT_SECRET') || 'mmx-secret'}:account`
+    );
+  }
+}
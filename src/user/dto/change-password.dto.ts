@@ -0,0 +1,20 @@
+import { IsString, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ChangePasswordDto {
+  @ApiProperty({
+    description: '当前密码',
+    example: 'password123',
+  })
+  @IsString()
+  oldPassword: string;
+
+  @ApiProperty({
+    description: '新密码，最少6位字符，建议包含字母和数字',
+    example: 'newPassword456',
+    minLength: 6,
+  })
+  @IsString()
+  @MinLength(6)
+  newPassword: string;
+}
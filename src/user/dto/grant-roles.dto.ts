@@ -0,0 +1,29 @@
+import { ArrayUnique, IsArray, IsEnum, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Permission, Role } from '../../auth/permissions';
+
+export class GrantRolesDto {
+  @ApiProperty({
+    description: '角色（覆盖原有角色）',
+    enum: Role,
+    isArray: true,
+    example: [Role.USER, Role.FINANCE],
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(Role, { each: true })
+  roles: Role[];
+
+  @ApiProperty({
+    description: '角色之外单独授予的权限（覆盖原有权限，不传则不修改）',
+    enum: Permission,
+    isArray: true,
+    required: false,
+    example: [Permission.PAYMENT_REFUND],
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(Permission, { each: true })
+  @IsOptional()
+  permissions?: Permission[];
+}
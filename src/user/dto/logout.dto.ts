@@ -0,0 +1,13 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class LogoutDto {
+  @ApiProperty({
+    description: '是否退出全部设备（默认只退出当前设备）',
+    example: false,
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  allDevices?: boolean;
+}
@@ -0,0 +1,19 @@
+import { IsMobilePhone, IsString, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class PhoneCodeDto {
+  @ApiProperty({
+    description: '手机号（中国大陆）',
+    example: '13800138000',
+  })
+  @IsMobilePhone('zh-CN')
+  phone: string;
+
+  @ApiProperty({
+    description: '短信验证码（6位数字）',
+    example: '123456',
+  })
+  @IsString()
+  @Matches(/^\d{6}$/, { message: '验证码为6位数字' })
+  code: string;
+}
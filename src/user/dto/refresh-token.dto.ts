@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RefreshTokenDto {
+  @ApiProperty({
+    description: '登录或上次刷新时返回的刷新令牌（使用后失效）',
+    example: '3f1c9a52-8a5e-4c77-9d0e-1b2c3d4e5f60.s0m3R4nd0mStr1ng',
+  })
+  @IsString()
+  @IsNotEmpty()
+  refreshToken: string;
+}
@@ -0,0 +1,138 @@
+import { ConflictException, UnauthorizedException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { mockQuery } from '../../test/mock-query';
+import { TokenService } from '../auth/token.service';
+import { OtpPurpose } from '../otp/otp-code.schema';
+import { OtpService } from '../otp/otp.service';
+import { PhoneAuthService } from './phone-auth.service';
+import { User } from './schemas/user.schema';
+
+describe('PhoneAuthService', () => {
+  let service: PhoneAuthService;
+  const userModel = {
+    findOne: jest.fn(),
+    create: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+  };
+  const otpService = {
+    verify: jest.fn(),
+  };
+  const tokenService = {
+    issue: jest.fn(),
+  };
+
+  const phone = '13800138000';
+  const userId = new Types.ObjectId().toHexString();
+  const userDoc = (fields: object = {}) => {
+    const user = { _id: userId, phone, password: 'hashed', ...fields };
+    return { ...user, toObject: () => ({ ...user }) };
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    tokenService.issue.mockResolvedValue({
+      token: 'access',
+      refresh_token: 'refresh',
+    });
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        PhoneAuthService,
+        { provide: getModelToken(User.name), useValue: userModel },
+        { provide: OtpService, useValue: otpService },
+        { provide: TokenService, useValue: tokenService },
+      ],
+    }).compile();
+    service = moduleRef.get(PhoneAuthService);
+  });
+
+  describe('login', () => {
+    it('验证码错误时不查找或注册用户', async () => {
+      otpService.verify.mockRejectedValue(new Error('验证码错误'));
+
+      await expect(service.login(phone, '000000')).rejects.toThrow(
+        '验证码错误',
+      );
+      expect(userModel.findOne).not.toHaveBeenCalled();
+      expect(userModel.create).not.toHaveBeenCalled();
+    });
+
+    it('首次登录自动注册，不返回密码', async () => {
+      userModel.findOne.mockResolvedValue(null);
+      userModel.create.mockResolvedValue(userDoc());
+
+      const result = await service.login(phone, '123456');
+
+      expect(otpService.verify).toHaveBeenCalledWith(
+        phone,
+        OtpPurpose.LOGIN,
+        '123456',
+      );
+      expect(userModel.create).toHaveBeenCalledWith({
+        username: '手机用户8000',
+        phone,
+        phoneVerifiedAt: expect.any(Date) as unknown,
+      });
+      expect(result.isNewUser).toBe(true);
+      expect(result.token).toBe('access');
+      expect(result.user).not.toHaveProperty('password');
+    });
+
+    it('并发注册冲突时使用已创建的用户', async () => {
+      const existing = userDoc();
+      userModel.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(existing);
+      userModel.create.mockRejectedValue({ code: 11000 });
+
+      const result = await service.login(phone, '123456');
+
+      expect(result.isNewUser).toBe(false);
+      expect(tokenService.issue).toHaveBeenCalledWith(existing, {});
+    });
+
+    it('已合并的账号不能登录', async () => {
+      userModel.findOne.mockResolvedValue(
+        userDoc({ mergedIntoUserId: new Types.ObjectId() }),
+      );
+
+      await expect(service.login(phone, '123456')).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+      expect(tokenService.issue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyPhone', () => {
+    it('手机号已绑定其他账号时不消耗验证码', async () => {
+      userModel.findOne.mockReturnValue(
+        mockQuery({ _id: new Types.ObjectId() }),
+      );
+
+      await expect(
+        service.verifyPhone(userId, phone, '123456'),
+      ).rejects.toBeInstanceOf(ConflictException);
+      expect(otpService.verify).not.toHaveBeenCalled();
+    });
+
+    it('并发绑定触发唯一索引冲突时返回 409', async () => {
+      userModel.findOne.mockReturnValue(mockQuery(null));
+      const duplicate = Object.assign(new Error('E11000 duplicate key'), {
+        code: 11000,
+      });
+      userModel.findByIdAndUpdate.mockReturnValue({
+        select: () => ({ lean: () => Promise.reject(duplicate) }),
+      });
+
+      await expect(
+        service.verifyPhone(userId, phone, '123456'),
+      ).rejects.toBeInstanceOf(ConflictException);
+      expect(otpService.verify).toHaveBeenCalledWith(
+        phone,
+        OtpPurpose.VERIFY_PHONE,
+        '123456',
+      );
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { User, UserDocument } from './schemas/user.schema';
+import { OtpService } from '../otp/otp.service';
+import { OtpPurpose } from '../otp/otp-code.schema';
+import { TokenService, type SessionClientInfo } from '../auth/token.service';
+
+/**
+ * 手机号登录和手机号验证
+ *
+ * - 登录：校验短信验证码后按验证过的手机号查找用户，不存在时自动注册，签发与邮箱登录相同的令牌
+ * - 验证：已登录用户校验短信验证码后绑定手机号（一个手机号只能验证一个账号）
+ */
+@Injectable()
+export class PhoneAuthService {
+  private readonly logger = new Logger(PhoneAuthService.name);
+
+  constructor(
+    @InjectModel(User.name)
+    private readonly userModel: Model<UserDocument>,
+    private readonly otpService: OtpService,
+    private readonly tokenService: TokenService,
+  ) {}
+
+  /**
+   * 手机号验证码登录（首次登录自动注册）
+   */
+  async login(phone: string, code: string, client: SessionClientInfo = {}) {
+    await this.otpService.verify(phone, OtpPurpose.LOGIN, code);
+
+    const { user, isNewUser } = await this.findOrRegister(phone);
+    if (user.mergedIntoUserId) {
+      throw new UnauthorizedException(
+        '该账号已合并到其他账号，请使用合并后的账号登录',
+      );
+    }
+
+    const tokens = await this.tokenService.issue(user, client);
+
+    const userInfo = user.toObject<User>();
+    delete userInfo.password; // 不返回密码
+
+    return {
+      ...tokens,
+      user: userInfo,
+      isNewUser,
+    };
+  }
+
+  /**
+   * 验证并绑定手机号
+   */
+  async verifyPhone(userId: string, phone: string, code: string) {
+    const owner = await this.userModel
+      .findOne({ phone, phoneVerifiedAt: { $exists: true } })
+      .select('_id')
+      .lean();
+    if (owner && owner._id.toString() !== userId) {
+      throw new ConflictException('该手机号已绑定其他账号');
+    }
+
+    await this.otpService.verify(phone, OtpPurpose.VERIFY_PHONE, code);
+
+    let user: User | null;
+    try {
+      user = await this.userModel
+        .findByIdAndUpdate(
+          userId,
+          { $set: { phone, phoneVerifiedAt: new Date() } },
+          { new: true },
+        )
+        .select('-password')
+        .lean();
+    } catch (error) {
+      if (this.isDuplicateKeyError(error)) {
+        throw new ConflictException('该手机号已绑定其他账号');
+      }
+      throw error;
+    }
+    if (!user) {
+      throw new NotFoundException('用户不存在');
+    }
+
+    this.logger.log(`✅ 手机号验证成功: userId=${userId}`);
+    return user;
+  }
+
+  /**
+   * 按验证过的手机号查找用户，不存在时注册
+   */
+  private async findOrRegister(phone: string) {
+    const filter = { phone, phoneVerifiedAt: { $exists: true } };
+    const existing = await this.userModel.findOne(filter);
+    if (existing) {
+      return { user: existing, isNewUser: false };
+    }
+
+    try {
+      const user = await this.userModel.create({
+        username: `手机用户${phone.slice(-4)}`,
+        phone,
+        phoneVerifiedAt: new Date(),
+      });
+      this.logger.log(
+        `✅ 手机号用户注册成功: userId=${user._id.toString()}, phone=${phone.slice(0, 3)}****${phone.slice(-4)}`,
+      );
+      return { user, isNewUser: true };
+    } catch (error) {
+      // 同一手机号并发注册，另一个请求已创建用户
+      const user = this.isDuplicateKeyError(error)
+        ? await this.userModel.findOne(filter)
+        : null;
+      if (!user) {
+        throw error;
+      }
+      return { user, isNewUser: false };
+    }
+  }
+
+  private isDuplicateKeyError(error: unknown): boolean {
+    return (error as { code?: number }).code === 11000;
+  }
+}
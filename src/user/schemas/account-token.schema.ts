@@ -0,0 +1,50 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type AccountTokenDocument = AccountToken & Document;
+
+/**
+ * 账号令牌用途
+ */
+export enum AccountTokenPurpose {
+  EMAIL_VERIFICATION = 'email_verification', // 邮箱验证
+  PASSWORD_RESET = 'password_reset', // 重置密码
+}
+
+/**
+ * 账号令牌 Schema（邮箱验证、重置密码链接中的令牌）
+ *
+ * - 令牌本身是签名的 JWT（jti 为 tokenId），这里记录令牌状态，保证只能使用一次
+ * - 签发新令牌时作废同一用途尚未使用的旧令牌
+ * - 过期的记录由 TTL 索引自动清理
+ */
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class AccountToken {
+  @Prop({ required: true, unique: true })
+  tokenId: string; // 令牌ID（JWT 的 jti）
+
+  @Prop({ required: true, index: true })
+  userId: string; // 用户ID
+
+  @Prop({ required: true, enum: AccountTokenPurpose })
+  purpose: AccountTokenPurpose; // 用途
+
+  @Prop({ required: true })
+  email: string; // 发送到的邮箱
+
+  @Prop({ required: true })
+  expiresAt: Date; // 过期时间
+
+  @Prop()
+  usedAt?: Date; // 使用时间
+
+  @Prop()
+  revokedAt?: Date; // 作废时间（签发了新令牌）
+
+  createdAt?: Date;
+}
+
+export const AccountTokenSchema = SchemaFactory.createForClass(AccountToken);
+
+AccountTokenSchema.index({ userId: 1, purpose: 1, createdAt: -1 });
+AccountTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
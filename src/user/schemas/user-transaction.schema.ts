@@ -7,6 +7,7 @@ export type UserTransactionDocument = UserTransaction & Document;
 export enum UserTransactionType {
   RECHARGE = 'recharge',
   EXPENSE = 'expense',
+  REFUND = 'refund',
 }
 
 @Schema({ timestamps: true })
@@ -1,6 +1,8 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import type { VipPerks } from '../../payment/plan.schema';
+import type { VipGrant } from '../../payment/vip/vip.service';
 
 export type UserDocument = User &
   Document & {
@@ -22,18 +24,30 @@ export class User {
   @Prop({ required: false })
   phone: string;
 
+  @Prop()
+  phoneVerifiedAt?: Date; // 手机号验证时间（验证过的手机号可以用于登录）
+
   @Prop()
   avatar?: string;
 
   @Prop({ default: ['user'] })
   roles: string[]; // 角色数组，支持多角色
 
+  @Prop({ type: [String], default: [] })
+  permissions: string[]; // 单独授予的权限（角色之外），如 payment:refund
+
   @Prop({ default: false })
-  isActive: boolean; // 账号是否激活
+  isActive: boolean; // 账号是否激活（邮箱验证通过后激活）
+
+  @Prop()
+  emailVerifiedAt?: Date; // 邮箱验证时间
 
   @Prop()
   password?: string;
 
+  @Prop({ default: 0 })
+  tokenVersion: number; // 令牌版本（递增后已签发的令牌全部失效）
+
   // 用户个人信息
   @Prop()
   realName?: string; // 真实姓名
@@ -54,9 +68,24 @@ export class User {
   @Prop({ default: false })
   isVip: boolean; // 是否为会员
 
-  @Prop()
+  @Prop({ index: true })
   vipExpireTime?: Date; // 会员过期时间
 
+  @Prop()
+  vipPlanId?: string; // 最近一次开通或续期的会员套餐ID
+
+  @Prop({ type: Object })
+  vipPerks?: VipPerks; // 会员权益（开通或续期时按会员套餐保存）
+
+  @Prop()
+  vipRefilledAt?: Date; // 最近一次按月补足次数的时间
+
+  @Prop()
+  vipReminderSentAt?: Date; // 本期会员已发送续费提醒的时间（续期后清空）
+
+  @Prop({ type: [Object], default: undefined })
+  vipGrants?: VipGrant[]; // 各订单开通的会员区间（同一订单只开通一次）
+
   // 配额相关（这很关键）
   @Prop({ default: 0 })
   aiInterviewRemainingCount: number; // AI模拟面试剩余次数
@@ -76,6 +105,9 @@ export class User {
   @Prop({ default: 0 })
   behaviorRemainingCount: number; // 综合面试剩余次数
 
+  @Prop({ default: 0 })
+  ledgerSeq: number; // 余额对应的账本分录序号（余额由账本投影，不要直接修改）
+
   // 模拟支付相关
   @Prop({ default: false })
   hasUsedVirtualPayment: boolean; // 是否已使用过模拟支付
@@ -106,6 +138,13 @@ export class User {
   @Prop()
   wechatBoundTime?: Date; // 微信绑定时间
 
+  // 账号合并
+  @Prop({ index: true, sparse: true })
+  mergedIntoUserId?: string; // 已合并到的账号ID（被合并的账号不能再登录）
+
+  @Prop()
+  mergedAt?: Date; // 合并时间
+
   // 时间戳（自动添加）
   // createdAt: Date;
   // updatedAt: Date;
@@ -113,6 +152,15 @@ export class User {
 
 export const UserSchema = SchemaFactory.createForClass(User);
 
+// 验证过的手机号唯一（未验证的手机号只是资料，允许重复）
+UserSchema.index(
+  { phone: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { phoneVerifiedAt: { $exists: true } },
+  },
+);
+
 // 保存前加密密码
 UserSchema.pre('save', async function () {
   if (!this.isModified('password')) {
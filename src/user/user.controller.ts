@@ -3,26 +3,49 @@ import {
   Post,
   Body,
   Get,
-  UseGuards,
   Request,
   Put,
+  Param,
   Query,
 } from '@nestjs/common';
+import type { Request as ExpressRequest } from 'express';
 import { UserService } from './user.service';
 import { RegisterDto } from './dto/register.dto';
 import { ResponseUtil } from '../common/utils/response.util';
 import { LoginDto } from './dto/login.dto';
-import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { Public } from '../auth/public.decorator';
 import { ApiOperation, ApiTags, ApiBearerAuth } from '@nestjs/swagger';
 import { UpdateUserDto } from './dto/update-user.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { LogoutDto } from './dto/logout.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import {
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  VerifyEmailDto,
+} from './dto/account-token.dto';
+import { AccountVerificationService } from './account-verification.service';
+import { PhoneAuthService } from './phone-auth.service';
+import { PhoneCodeDto } from './dto/phone-login.dto';
+import { GrantRolesDto } from './dto/grant-roles.dto';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/permissions';
+import type { AuthenticatedUser } from '../auth/jwt.strategy';
+
+/**
+ * 已登录的请求（JwtStrategy.validate 返回的当前用户挂在 req.user 上）
+ */
+type AuthenticatedRequest = ExpressRequest & { user: AuthenticatedUser };
 
 @ApiTags('用户管理')
 @ApiBearerAuth()
 @Controller('user')
-@UseGuards(JwtAuthGuard) // 使用认证守卫
 export class UserController {
-  constructor(private readonly userService: UserService) {}
+  constructor(
+    private readonly userService: UserService,
+    private readonly accountVerificationService: AccountVerificationService,
+    private readonly phoneAuthService: PhoneAuthService,
+  ) {}
 
   @Post('register')
   @Public()
@@ -35,15 +58,139 @@ export class UserController {
   @Post('login')
   @Public()
   @ApiOperation({ summary: '用户登录' })
-  async Login(@Body() LoginDto: LoginDto) { 
-    const result = await this.userService.login(LoginDto);
+  async Login(@Body() LoginDto: LoginDto, @Request() req: ExpressRequest) {
+    const result = await this.userService.login(LoginDto, {
+      userAgent: req.headers['user-agent'],
+      ip: req.ip,
+    });
     return ResponseUtil.success(result, '登录成功');
   }
 
+  @Post('phone/login')
+  @Public()
+  @ApiOperation({
+    summary: '手机号验证码登录',
+    description:
+      '先通过 /otp/send 获取登录验证码（purpose=login），首次登录自动注册',
+  })
+  async phoneLogin(
+    @Body() phoneCodeDto: PhoneCodeDto,
+    @Request() req: ExpressRequest,
+  ) {
+    const result = await this.phoneAuthService.login(
+      phoneCodeDto.phone,
+      phoneCodeDto.code,
+      { userAgent: req.headers['user-agent'], ip: req.ip },
+    );
+    return ResponseUtil.success(result, '登录成功');
+  }
+
+  @Post('phone/verify')
+  @ApiOperation({
+    summary: '验证手机号',
+    description:
+      '先通过 /otp/send 获取验证码（purpose=verify_phone），验证后可以用该手机号登录',
+  })
+  async verifyPhone(
+    @Request() req: AuthenticatedRequest,
+    @Body() phoneCodeDto: PhoneCodeDto,
+  ) {
+    const { userId } = req.user;
+    const user = await this.phoneAuthService.verifyPhone(
+      userId,
+      phoneCodeDto.phone,
+      phoneCodeDto.code,
+    );
+    return ResponseUtil.success(user, '手机号验证成功');
+  }
+
+  @Post('refresh')
+  @Public()
+  @ApiOperation({
+    summary: '刷新令牌',
+    description: '用刷新令牌换取新的访问令牌和刷新令牌，旧的刷新令牌随即失效',
+  })
+  async refresh(@Body() refreshTokenDto: RefreshTokenDto) {
+    const result = await this.userService.refreshToken(
+      refreshTokenDto.refreshToken,
+    );
+    return ResponseUtil.success(result, '刷新成功');
+  }
+
+  @Post('logout')
+  @ApiOperation({ summary: '退出登录' })
+  async logout(
+    @Request() req: AuthenticatedRequest,
+    @Body() logoutDto: LogoutDto,
+  ) {
+    const { userId, sessionId } = req.user;
+    await this.userService.logout(userId, sessionId, logoutDto.allDevices);
+    return ResponseUtil.success(null, '已退出登录');
+  }
+
+  @Put('password')
+  @ApiOperation({
+    summary: '修改密码',
+    description: '修改成功后全部设备的登录失效，需要重新登录',
+  })
+  async changePassword(
+    @Request() req: AuthenticatedRequest,
+    @Body() changePasswordDto: ChangePasswordDto,
+  ) {
+    const { userId } = req.user;
+    await this.userService.changePassword(userId, changePasswordDto);
+    return ResponseUtil.success(null, '密码已修改，请重新登录');
+  }
+
+  @Post('email/verify')
+  @Public()
+  @ApiOperation({
+    summary: '验证邮箱',
+    description: '使用验证邮件中的令牌激活账号，令牌只能使用一次',
+  })
+  async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+    await this.accountVerificationService.verifyEmail(verifyEmailDto.token);
+    return ResponseUtil.success(null, '邮箱验证成功');
+  }
+
+  @Post('email/verify/resend')
+  @ApiOperation({ summary: '重新发送邮箱验证邮件' })
+  async resendEmailVerification(@Request() req: AuthenticatedRequest) {
+    const { userId } = req.user;
+    await this.accountVerificationService.resendEmailVerification(userId);
+    return ResponseUtil.success(null, '验证邮件已发送');
+  }
+
+  @Post('password/forgot')
+  @Public()
+  @ApiOperation({
+    summary: '申请重置密码',
+    description: '向邮箱发送重置密码邮件，重复申请时旧的重置链接失效',
+  })
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    await this.accountVerificationService.requestPasswordReset(
+      forgotPasswordDto.email,
+    );
+    return ResponseUtil.success(null, '如果该邮箱已注册，重置密码邮件已发送');
+  }
+
+  @Post('password/reset')
+  @Public()
+  @ApiOperation({
+    summary: '重置密码',
+    description: '使用重置密码邮件中的令牌设置新密码，重置后全部设备的登录失效',
+  })
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+    await this.accountVerificationService.resetPassword(
+      resetPasswordDto.token,
+      resetPasswordDto.newPassword,
+    );
+    return ResponseUtil.success(null, '密码已重置，请重新登录');
+  }
+
   @Get('info')
-  @UseGuards(JwtAuthGuard) // 保护路由，只有认证用户可以访问
   @ApiOperation({ summary: '获取用户信息' })
-  async getUserInfo(@Request() req: any) {
+  async getUserInfo(@Request() req: AuthenticatedRequest) {
     const { userId } = req.user;
     const userInfo = await this.userService.getUserInfo(userId);
     return ResponseUtil.success(userInfo, '获取成功');
@@ -52,7 +199,7 @@ export class UserController {
   @Put('profile')
   @ApiOperation({ summary: '更新用户资料' })
   async updateUserProfile(
-    @Request() req: any,
+    @Request() req: AuthenticatedRequest,
     @Body() updateUserDto: UpdateUserDto,
   ) {
     const { userId } = req.user;
@@ -63,7 +210,7 @@ export class UserController {
   @Post('update')
   @ApiOperation({ summary: '更新用户信息' })
   async updateUser(
-    @Request() req: any,
+    @Request() req: AuthenticatedRequest,
     @Body() updateUserDto: UpdateUserDto,
   ) {
     const { userId } = req.user;
@@ -71,10 +218,28 @@ export class UserController {
     return ResponseUtil.success(user, '更新成功');
   }
 
+  @Put('admin/users/:userId/roles')
+  @RequirePermissions(Permission.USER_GRANT)
+  @ApiOperation({
+    summary: '分配角色和权限（管理员）',
+    description: '只能授予自己拥有的权限，不能修改自己的角色；修改后立即生效',
+  })
+  async grantRoles(
+    @Request() req: AuthenticatedRequest,
+    @Param('userId') userId: string,
+    @Body() grantRolesDto: GrantRolesDto,
+  ) {
+    const user = await this.userService.grantRoles(
+      req.user,
+      userId,
+      grantRolesDto,
+    );
+    return ResponseUtil.success(user, '修改成功');
+  }
+
   @Get('transactions')
-  @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: '获取交易记录' })
-  async getTransactions(@Request() req: any) {
+  async getTransactions(@Request() req: AuthenticatedRequest) {
     const { userId } = req.user;
     const transactions = await this.userService.getUserTransactions(userId);
     return ResponseUtil.success(transactions, '获取成功');
@@ -84,22 +249,21 @@ export class UserController {
    * 获取用户消费记录（包括简历押题、专项面试、综合面试）
    */
   @Get('consumption-records')
-  @UseGuards(JwtAuthGuard)
   @ApiOperation({
     summary: '获取用户消费记录',
-    description:'获取用户所有的功能消费记录，包括简历押题、专项面试、综合面试等',
+    description:
+      '获取用户所有的功能消费记录，包括简历押题、专项面试、综合面试等',
   })
   async getConsumptionRecords(
-    @Request() req: any,
+    @Request() req: AuthenticatedRequest,
     @Query('skip') skip: number = 0,
     @Query('limit') limit: number = 20,
   ) {
     const { userId } = req.user;
-    const result =
-      await this.userService.getUserConsumptionRecords(userId, {
-        skip,
-        limit,
-      });
+    const result = await this.userService.getUserConsumptionRecords(userId, {
+      skip,
+      limit,
+    });
     return ResponseUtil.success(result, '获取成功');
   }
 }
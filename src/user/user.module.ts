@@ -2,6 +2,9 @@ import { Module } from '@nestjs/common';
 import { UserController } from './user.controller';
 import { UserService } from './user.service';
 import { DatabaseModule } from 'src/database/database.module';
+import { AuthModule } from '../auth/auth.module';
+import { MailModule } from '../mail/mail.module';
+import { AccountVerificationService } from './account-verification.service';
 import { MongooseModule } from '@nestjs/mongoose';
 import { User, UserSchema } from './schemas/user.schema';
 import { ConsumptionRecord, ConsumptionRecordSchema } from 'src/interview/schemas/consumption-record.schema';
@@ -13,6 +16,31 @@ import {
   PaymentRecord,
   PaymentRecordSchema,
 } from '../payment/payment-record.schema';
+import {
+  AccountToken,
+  AccountTokenSchema,
+} from './schemas/account-token.schema';
+import {
+  AIInterviewResult,
+  AIInterviewResultSchema,
+} from '../interview/schemas/ai-interview-result.schema';
+import {
+  ResumeQuizResult,
+  ResumeQuizResultSchema,
+} from '../interview/schemas/interview-quiz-result.schema';
+import { Resume, ResumeSchema } from '../resume/schemas/resume.schema';
+import {
+  PaymentRefund,
+  PaymentRefundSchema,
+} from '../payment/payment-refund.schema';
+import {
+  UserTransaction,
+  UserTransactionSchema,
+} from './schemas/user-transaction.schema';
+import { LedgerModule } from '../ledger/ledger.module';
+import { AccountMergeService } from './account-merge.service';
+import { OtpModule } from '../otp/otp.module';
+import { PhoneAuthService } from './phone-auth.service';
 
 @Module({
   imports: [
@@ -21,10 +49,21 @@ import {
       { name: ConsumptionRecord.name, schema: ConsumptionRecordSchema },
       { name: UserConsumption.name, schema: UserConsumptionSchema },
       { name: PaymentRecord.name, schema: PaymentRecordSchema },
+      { name: AccountToken.name, schema: AccountTokenSchema },
+      { name: AIInterviewResult.name, schema: AIInterviewResultSchema },
+      { name: ResumeQuizResult.name, schema: ResumeQuizResultSchema },
+      { name: Resume.name, schema: ResumeSchema },
+      { name: PaymentRefund.name, schema: PaymentRefundSchema },
+      { name: UserTransaction.name, schema: UserTransactionSchema },
     ])
-    , DatabaseModule],
+    , DatabaseModule, AuthModule, MailModule, LedgerModule, OtpModule],
   controllers: [UserController],
-  providers: [UserService],
-  exports: [UserService],
+  providers: [
+    UserService,
+    AccountVerificationService,
+    AccountMergeService,
+    PhoneAuthService,
+  ],
+  exports: [UserService, AccountMergeService],
 })
 export class UserModule {}
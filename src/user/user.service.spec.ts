@@ -0,0 +1,154 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { mockQuery } from '../../test/mock-query';
+import { AuthSessionRevokeReason } from '../auth/auth-session.schema';
+import { Permission, Role } from '../auth/permissions';
+import { TokenService } from '../auth/token.service';
+import { User } from './schemas/user.schema';
+import { UserService } from './user.service';
+
+describe('UserService', () => {
+  let service: UserService;
+  const userModel = {
+    findOne: jest.fn(),
+    findById: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+  };
+  const tokenService = {
+    issue: jest.fn(),
+    revokeAll: jest.fn(),
+  };
+
+  const account = (password?: string) => ({
+    _id: 'u1',
+    email: 'alice@example.com',
+    password,
+    comparePassword: jest.fn((input: string) =>
+      Promise.resolve(input === password),
+    ),
+    save: jest.fn(),
+    toObject: jest.fn(() => ({ _id: 'u1', password })),
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        UserService,
+        { provide: getModelToken(User.name), useValue: userModel },
+        { provide: TokenService, useValue: tokenService },
+      ],
+    })
+      .useMocker(() => ({}))
+      .compile();
+    service = moduleRef.get(UserService);
+  });
+
+  describe('login', () => {
+    const dto = { email: 'alice@example.com', password: 'secret123' };
+
+    it('签发令牌，返回的用户信息不包含密码', async () => {
+      userModel.findOne.mockResolvedValue(account('secret123'));
+      tokenService.issue.mockResolvedValue({ token: 't', refreshToken: 'r' });
+
+      const result = await service.login(dto);
+
+      expect(result).toEqual({
+        token: 't',
+        refreshToken: 'r',
+        user: { _id: 'u1' },
+      });
+    });
+
+    it('密码错误时拒绝登录', async () => {
+      userModel.findOne.mockResolvedValue(account('other'));
+
+      await expect(service.login(dto)).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+      expect(tokenService.issue).not.toHaveBeenCalled();
+    });
+
+    it('没有设置密码的账号不校验密码，直接提示使用其他方式登录', async () => {
+      const user = account();
+      userModel.findOne.mockResolvedValue(user);
+
+      await expect(service.login(dto)).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+      expect(user.comparePassword).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changePassword', () => {
+    const dto = { oldPassword: 'secret123', newPassword: 'newSecret456' };
+
+    it('修改密码后吊销全部会话', async () => {
+      const user = account('secret123');
+      userModel.findById.mockResolvedValue(user);
+
+      await service.changePassword('u1', dto);
+
+      expect(user.password).toBe('newSecret456');
+      expect(user.save).toHaveBeenCalled();
+      expect(tokenService.revokeAll).toHaveBeenCalledWith(
+        'u1',
+        AuthSessionRevokeReason.PASSWORD_CHANGED,
+      );
+    });
+
+    it('没有设置密码的账号需要通过重置密码设置', async () => {
+      const user = account();
+      userModel.findById.mockResolvedValue(user);
+
+      await expect(service.changePassword('u1', dto)).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+      expect(user.comparePassword).not.toHaveBeenCalled();
+      expect(tokenService.revokeAll).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('grantRoles', () => {
+    const admin = {
+      userId: 'admin',
+      permissions: Object.values(Permission) as string[],
+    };
+    const finance = {
+      userId: 'finance',
+      permissions: [Permission.PAYMENT_REFUND, Permission.LEDGER_READ],
+    };
+
+    it('不能修改自己的角色和权限', async () => {
+      await expect(
+        service.grantRoles(admin, 'admin', { roles: [Role.USER] }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('不能授予自己没有的权限', async () => {
+      await expect(
+        service.grantRoles(finance, 'u1', { roles: [Role.OPERATOR] }),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(userModel.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('修改角色，未传权限时保留单独授予的权限', async () => {
+      userModel.findByIdAndUpdate.mockReturnValue(
+        mockQuery({ _id: 'u1', roles: [Role.FINANCE], permissions: [] }),
+      );
+
+      await service.grantRoles(admin, 'u1', { roles: [Role.FINANCE] });
+
+      expect(userModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        'u1',
+        { roles: [Role.FINANCE] },
+        { new: true },
+      );
+    });
+  });
+});
@@ -1,19 +1,32 @@
-import { BadRequestException, Injectable, NotFoundException, UnauthorizedException, UseGuards } from '@nestjs/common';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { User, UserDocument } from './schemas/user.schema';
 import { RegisterDto } from './dto/register.dto';
-import { JwtService } from '@nestjs/jwt';
+import { TokenService, type SessionClientInfo } from '../auth/token.service';
+import { AuthSessionRevokeReason } from '../auth/auth-session.schema';
+import { AccountVerificationService } from './account-verification.service';
 import { LoginDto } from './dto/login.dto';
 import {
   ConsumptionRecord,
   ConsumptionRecordDocument,
+  ConsumptionStatus,
 } from '../interview/schemas/consumption-record.schema';
 import {
   UserConsumption,
   UserConsumptionDocument,
 } from './schemas/consumption-record.schema';
 import { UpdateUserDto } from './dto/update-user.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { GrantRolesDto } from './dto/grant-roles.dto';
+import { resolvePermissions } from '../auth/permissions';
 import {
   PaymentRecord,
   PaymentRecordDocument,
@@ -21,6 +34,8 @@ import {
 
 @Injectable()
 export class UserService {
+  private readonly logger = new Logger(UserService.name);
+
   constructor(
     @InjectModel(User.name)
     private userModel: Model<UserDocument>,
@@ -30,21 +45,20 @@ export class UserService {
     private consumptionModel: Model<UserConsumptionDocument>,
     @InjectModel(PaymentRecord.name)
     private paymentRecordModel: Model<PaymentRecordDocument>,
-    private jwtService: JwtService,
-  ) { }
-  
+    private tokenService: TokenService,
+    private accountVerificationService: AccountVerificationService,
+  ) {}
 
+  async register(registerDto: RegisterDto) {
+    const { username, email, password } = registerDto;
 
-  async register(registerDto: RegisterDto) { 
-    const { username, email, password } = registerDto
-    
     // 检查用户名是否已存在
     const existingUser = await this.userModel.findOne({
       $or: [{ username }, { email }],
-    })
+    });
 
     if (existingUser) {
-      throw new BadRequestException('用户名或邮箱已被注册')
+      throw new BadRequestException('用户名或邮箱已被注册');
     }
 
     // 创建新用户
@@ -53,62 +67,185 @@ export class UserService {
       username,
       email,
       password,
-    })
+    });
 
-    await newUser.save()
+    await newUser.save();
+
+    // 发送邮箱验证邮件（发送失败不影响注册，用户可以重新发送）
+    try {
+      await this.accountVerificationService.sendEmailVerification(newUser);
+    } catch (error) {
+      this.logger.error(
+        `❌ 邮箱验证邮件发送失败: userId=${newUser._id.toString()}, error=${(error as Error).message}`,
+      );
+    }
 
     // 返回用户信息（不包含密码）
-    const result = newUser.toObject()
-    delete result.password
-    return result
+    const result = newUser.toObject();
+    delete result.password;
+    return result;
   }
 
-  async login(loginDto: LoginDto) { 
-    const { email, password } = loginDto
+  async login(loginDto: LoginDto, client: SessionClientInfo = {}) {
+    const { email, password } = loginDto;
 
     // 1. 找用户
-    const user = await this.userModel.findOne({ email })
-    if(!user) {
-      throw new UnauthorizedException('用户不存在')
+    const user = await this.userModel.findOne({ email });
+    if (!user) {
+      throw new UnauthorizedException('用户不存在');
+    }
+    if (user.mergedIntoUserId) {
+      throw new UnauthorizedException(
+        '该账号已合并到其他账号，请使用合并后的账号登录',
+      );
+    }
+
+    // 2. 验证密码（微信、手机号注册的账号没有设置密码）
+    if (!user.password) {
+      throw new BadRequestException(
+        '该账号尚未设置密码，请使用其他方式登录或通过重置密码设置密码',
+      );
     }
-    
-    // 2. 验证密码
-    const isPasswordValid = await user.comparePassword(password)
-    if(!isPasswordValid) {
-      throw new UnauthorizedException('邮箱或者密码不正确')
+    const isPasswordValid = await user.comparePassword(password);
+    if (!isPasswordValid) {
+      throw new UnauthorizedException('邮箱或者密码不正确');
     }
 
-    // 3. 生成token
-    const token = this.jwtService.sign({
-      userId: user._id,
-      username: user.username,
-      email: user.email,
-    })
+    // 3. 创建会话，生成访问令牌和刷新令牌
+    const tokens = await this.tokenService.issue(user, client);
 
     // 4. 返回token和用户信息
-    const userInfo = user.toObject()
-    delete userInfo.password // 不返回密码
+    const userInfo = user.toObject();
+    delete userInfo.password; // 不返回密码
 
     return {
-      token,
+      ...tokens,
       user: userInfo,
+    };
+  }
+
+  /**
+   * 刷新令牌（旧的刷新令牌随即失效）
+   */
+  async refreshToken(refreshToken: string) {
+    return await this.tokenService.refresh(refreshToken);
+  }
+
+  /**
+   * 退出登录
+   * @param sessionId 当前会话ID
+   * @param allDevices 是否退出全部设备
+   */
+  async logout(userId: string, sessionId?: string, allDevices = false) {
+    if (allDevices) {
+      await this.tokenService.revokeAll(
+        userId,
+        AuthSessionRevokeReason.LOGOUT_ALL,
+      );
+      return;
+    }
+
+    if (sessionId) {
+      await this.tokenService.revokeSession(sessionId);
     }
   }
 
+  /**
+   * 修改密码（修改后吊销全部会话，需要重新登录）
+   */
+  async changePassword(userId: string, changePasswordDto: ChangePasswordDto) {
+    const { oldPassword, newPassword } = changePasswordDto;
+
+    const user = await this.userModel.findById(userId);
+    if (!user) {
+      throw new NotFoundException('用户不存在');
+    }
+
+    // 没有设置密码的账号（微信、手机号注册）无法验证当前密码，需要通过重置密码设置
+    if (!user.password) {
+      throw new BadRequestException(
+        '该账号尚未设置密码，请通过重置密码设置密码',
+      );
+    }
+
+    const isPasswordValid = await user.comparePassword(oldPassword);
+    if (!isPasswordValid) {
+      throw new BadRequestException('当前密码不正确');
+    }
+
+    // 密码加密会在Schema的pre钩子中自动进行
+    user.password = newPassword;
+    await user.save();
+
+    await this.tokenService.revokeAll(
+      userId,
+      AuthSessionRevokeReason.PASSWORD_CHANGED,
+    );
+  }
+
+  /**
+   * 分配角色和权限（管理员）
+   * 只能授予自己拥有的权限，不能修改自己的角色；角色在每次请求时从数据库读取，修改后立即生效
+   */
+  async grantRoles(
+    operator: { userId: string; permissions: string[] },
+    userId: string,
+    grantRolesDto: GrantRolesDto,
+  ) {
+    if (operator.userId === userId) {
+      throw new BadRequestException('不能修改自己的角色和权限');
+    }
+
+    const granted = resolvePermissions(
+      grantRolesDto.roles,
+      grantRolesDto.permissions,
+    );
+    const missing = granted.filter(
+      (permission) => !operator.permissions.includes(permission),
+    );
+    if (missing.length) {
+      throw new ForbiddenException(
+        `不能授予自己没有的权限: ${missing.join(', ')}`,
+      );
+    }
+
+    const user = await this.userModel
+      .findByIdAndUpdate(
+        userId,
+        {
+          roles: grantRolesDto.roles,
+          ...(grantRolesDto.permissions
+            ? { permissions: grantRolesDto.permissions }
+            : {}),
+        },
+        { new: true },
+      )
+      .select('-password')
+      .lean();
+    if (!user) {
+      throw new NotFoundException('用户不存在');
+    }
+
+    this.logger.log(
+      `🔒 用户角色已修改: userId=${userId}, roles=${user.roles.join(',')}, permissions=${user.permissions.join(',')}, operator=${operator.userId}`,
+    );
+    return user;
+  }
+
   /**
    * 获取用户信息
    */
-  async getUserInfo(userId: string) { 
-    const user = await this.userModel.findById(userId).lean()
+  async getUserInfo(userId: string) {
+    const user = await this.userModel.findById(userId).lean();
     if (!user) {
-      throw new NotFoundException('用户不存在')
+      throw new NotFoundException('用户不存在');
     }
     // 不返回密码
-    delete user.password
-    return user
+    delete user.password;
+    return user;
   }
 
-    async updateUser(userId: string, updateUserDto: UpdateUserDto) {
+  async updateUser(userId: string, updateUserDto: UpdateUserDto) {
     // 如果更新邮箱，检查邮箱是否已被使用
     if (updateUserDto.email) {
       const existingUser = await this.userModel.findOne({
@@ -121,14 +258,45 @@ export class UserService {
       }
     }
 
-    const user = await this.userModel.findByIdAndUpdate(userId, updateUserDto, {
-      new: true,
-    });
+    // 修改邮箱或手机号后需要重新验证
+    const currentUser = await this.userModel
+      .findById(userId)
+      .select('email phone')
+      .lean();
+    const emailChanged =
+      !!updateUserDto.email && updateUserDto.email !== currentUser?.email;
+    const phoneChanged =
+      updateUserDto.phone !== undefined &&
+      updateUserDto.phone !== currentUser?.phone;
+
+    const $unset: Record<string, 1> = {};
+    if (emailChanged) $unset.emailVerifiedAt = 1;
+    if (phoneChanged) $unset.phoneVerifiedAt = 1;
+
+    const user = await this.userModel.findByIdAndUpdate(
+      userId,
+      {
+        ...updateUserDto,
+        ...(emailChanged ? { isActive: false } : {}),
+        ...(Object.keys($unset).length ? { $unset } : {}),
+      },
+      { new: true },
+    );
 
     if (!user) {
       throw new NotFoundException('用户不存在');
     }
 
+    if (emailChanged) {
+      try {
+        await this.accountVerificationService.sendEmailVerification(user);
+      } catch (error) {
+        this.logger.error(
+          `❌ 邮箱验证邮件发送失败: userId=${userId}, error=${(error as Error).message}`,
+        );
+      }
+    }
+
     delete user.password;
     return user;
   }
@@ -154,7 +322,7 @@ export class UserService {
     return await record.save();
   }
 
-    /**
+  /**
    * 获取用户消费记录
    * @param userId - 用户的唯一标识
    * @param options - 可选的查询参数，包括跳过的记录数和限制的记录数
@@ -175,24 +343,29 @@ export class UserService {
       .skip(skip)
       .limit(limit)
       .lean();
-    
+
     // 统计用户各类型的消费信息，使用MongoDB的聚合管道
     const stats = await this.consumptionRecordModel.aggregate([
       { $match: { userId } }, // 只统计指定用户的记录
       {
-        $group:{
+        $group: {
           _id: '$type', // 按消费类型分组
           count: { $sum: 1 }, // 计算每种类型的消费总次数
           successCount: {
-            $sum: { $cond: [{ $eq: ['$status', 'SUCCESS'] }, 1, 0] },// 计算成功的消费次数
+            $sum: {
+              $cond: [{ $eq: ['$status', ConsumptionStatus.SUCCESS] }, 1, 0],
+            }, // 计算成功的消费次数
           },
           failedCount: {
-              $sum: { $cond: [{ $eq: ['$status', 'FAILED'] }, 1, 0] },// 计算失败的消费次数
+            $sum: {
+              $cond: [{ $eq: ['$status', ConsumptionStatus.FAILED] }, 1, 0],
+            }, // 计算失败的消费次数
           },
-          totalCost: { $sum: '$estimateCost' }, // 计算总消费次数
-        }
-      }
-    ])
+          totalTokens: { $sum: '$totalTokens' }, // 计算总Token数
+          totalCost: { $sum: '$estimatedCost' }, // 计算总成本（元）
+        },
+      },
+    ]);
 
     // 返回消费记录和统计数据
     return {
@@ -212,5 +385,4 @@ export class UserService {
 
     return transactions;
   }
-
 }
@@ -0,0 +1,40 @@
+import { IsNotEmpty, IsOptional, IsString, IsUrl } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class WechatLoginDto {
+  @ApiProperty({
+    description: '小程序 wx.login 获取的登录凭证（5 分钟内有效，只能使用一次）',
+    example: '0a3Xyz000abcDE1Fgh200iJkLm3Xyz0n',
+  })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+
+  @ApiProperty({
+    description: '微信昵称（首次登录时用作用户名）',
+    example: '张三',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  nickname?: string;
+
+  @ApiProperty({
+    description: '微信头像URL',
+    example: 'https://thirdwx.qlogo.cn/mmopen/vi_32/xxx/132',
+    required: false,
+  })
+  @IsUrl()
+  @IsOptional()
+  avatar?: string;
+}
+
+export class WechatCodeDto {
+  @ApiProperty({
+    description: '小程序 wx.login 获取的登录凭证（5 分钟内有效，只能使用一次）',
+    example: '0a3Xyz000abcDE1Fgh200iJkLm3Xyz0n',
+  })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+}
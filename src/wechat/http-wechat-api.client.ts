@@ -0,0 +1,63 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { WechatApiClient, WechatCodeSession } from './wechat-api.client';
+
+/**
+ * code2Session 接口返回
+ */
+interface Code2SessionResponse {
+  openid?: string;
+  unionid?: string;
+  session_key?: string;
+  errcode?: number;
+  errmsg?: string;
+}
+
+/**
+ * 微信接口客户端（调用微信服务器）
+ * 配置：WECHAT_MINI_APP_ID、WECHAT_MINI_APP_SECRET、WECHAT_API_BASE_URL（默认 https://api.weixin.qq.com）
+ */
+@Injectable()
+export class HttpWechatApiClient implements WechatApiClient {
+  private readonly logger = new Logger(HttpWechatApiClient.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async code2Session(code: string): Promise<WechatCodeSession> {
+    const appId = this.configService.get<string>('WECHAT_MINI_APP_ID');
+    const appSecret = this.configService.get<string>('WECHAT_MINI_APP_SECRET');
+    if (!appId || !appSecret) {
+      throw new Error('WECHAT_MINI_APP_ID 或 WECHAT_MINI_APP_SECRET 未配置');
+    }
+
+    const baseUrl =
+      this.configService.get<string>('WECHAT_API_BASE_URL') ||
+      'https://api.weixin.qq.com';
+    const { data } = await axios.get<Code2SessionResponse>(
+      `${baseUrl}/sns/jscode2session`,
+      {
+        params: {
+          appid: appId,
+          secret: appSecret,
+          js_code: code,
+          grant_type: 'authorization_code',
+        },
+        timeout: 10000,
+      },
+    );
+
+    if (data.errcode || !data.openid || !data.session_key) {
+      this.logger.warn(
+        `⚠️ code2Session 失败: errcode=${data.errcode}, errmsg=${data.errmsg}`,
+      );
+      throw new BadRequestException('微信登录凭证无效或已过期，请重新登录');
+    }
+
+    return {
+      openid: data.openid,
+      unionid: data.unionid,
+      sessionKey: data.session_key,
+    };
+  }
+}
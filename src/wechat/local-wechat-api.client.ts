@@ -0,0 +1,33 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { WechatApiClient, WechatCodeSession } from './wechat-api.client';
+
+/**
+ * 本地微信接口客户端
+ *
+ * 不访问微信服务器，按 code 生成固定的 openid，同一个 code 总是对应同一个用户：
+ * - `openid:<openid>` 或 `openid:<openid>:<unionid>`：直接指定 openid（和 unionid）
+ * - 其他 code：openid 为 `o_local_` + code 的哈希
+ *
+ * code 为 `invalid` 时模拟凭证无效。用于开发和测试环境。
+ */
+@Injectable()
+export class LocalWechatApiClient implements WechatApiClient {
+  code2Session(code: string): Promise<WechatCodeSession> {
+    if (!code || code === 'invalid') {
+      return Promise.reject(
+        new BadRequestException('微信登录凭证无效或已过期，请重新登录'),
+      );
+    }
+
+    const [prefix, openid, unionid] = code.split(':');
+    return Promise.resolve({
+      openid:
+        prefix === 'openid' && openid
+          ? openid
+          : `o_local_${createHash('sha256').update(code).digest('hex').slice(0, 20)}`,
+      unionid: prefix === 'openid' ? unionid : undefined,
+      sessionKey: randomBytes(16).toString('base64'),
+    });
+  }
+}
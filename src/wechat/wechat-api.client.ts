@@ -0,0 +1,31 @@
+/**
+ * 微信接口客户端的注入令牌
+ */
+export const WECHAT_API_CLIENT = 'WECHAT_API_CLIENT';
+
+/**
+ * 小程序登录凭证校验结果（code2Session）
+ */
+export interface WechatCodeSession {
+  /** 用户在小程序下的唯一标识 */
+  openid: string;
+
+  /** 用户在开放平台下的唯一标识（小程序绑定到开放平台时才有） */
+  unionid?: string;
+
+  /** 会话密钥（只在服务端使用，不返回给前端） */
+  sessionKey: string;
+}
+
+/**
+ * 微信接口客户端
+ *
+ * 由 WECHAT_API_MODE 选择实现：live 调用微信接口（HttpWechatApiClient），
+ * local 使用本地桩（LocalWechatApiClient），用于开发和测试环境。
+ */
+export interface WechatApiClient {
+  /**
+   * 用 wx.login 获取的 code 换取 openid，code 无效时抛出异常
+   */
+  code2Session(code: string): Promise<WechatCodeSession>;
+}
@@ -1,4 +1,68 @@
-import { Controller } from '@nestjs/common';
+import { Body, Controller, Post, Request } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import type { Request as ExpressRequest } from 'express';
+import { WechatService } from './wechat.service';
+import { WechatCodeDto, WechatLoginDto } from './dto/wechat-login.dto';
+import { Public } from '../auth/public.decorator';
+import { ResponseUtil } from '../common/utils/response.util';
 
+type AuthenticatedRequest = ExpressRequest & { user?: { userId?: string } };
+
+@ApiTags('微信')
+@ApiBearerAuth()
 @Controller('wechat')
-export class WechatController {}
+export class WechatController {
+  constructor(private readonly wechatService: WechatService) {}
+
+  @Post('login')
+  @Public()
+  @ApiOperation({
+    summary: '微信小程序登录',
+    description: '用 wx.login 获取的 code 登录，首次登录自动注册',
+  })
+  async login(
+    @Body() loginDto: WechatLoginDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    const result = await this.wechatService.login(loginDto, {
+      userAgent: req.headers['user-agent'],
+      ip: req.ip,
+    });
+    return ResponseUtil.success(result, '登录成功');
+  }
+
+  @Post('bind')
+  @ApiOperation({
+    summary: '绑定微信',
+    description:
+      '把微信绑定到当前账号，该微信已注册过账号时返回 409，可以改为合并',
+  })
+  async bind(@Request() req: AuthenticatedRequest, @Body() dto: WechatCodeDto) {
+    const userId = (req.user as { userId: string }).userId;
+    const user = await this.wechatService.bind(userId, dto.code);
+    return ResponseUtil.success(user, '绑定成功');
+  }
+
+  @Post('merge')
+  @ApiOperation({
+    summary: '合并微信账号',
+    description:
+      '把该微信注册的账号（余额、会员和历史记录）合并到当前账号，并绑定微信',
+  })
+  async merge(
+    @Request() req: AuthenticatedRequest,
+    @Body() dto: WechatCodeDto,
+  ) {
+    const userId = (req.user as { userId: string }).userId;
+    const result = await this.wechatService.merge(userId, dto.code);
+    return ResponseUtil.success(result, '合并成功');
+  }
+
+  @Post('unbind')
+  @ApiOperation({ summary: '解绑微信' })
+  async unbind(@Request() req: AuthenticatedRequest) {
+    const userId = (req.user as { userId: string }).userId;
+    await this.wechatService.unbind(userId);
+    return ResponseUtil.success(null, '解绑成功');
+  }
+}
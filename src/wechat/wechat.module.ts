@@ -1,9 +1,39 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MongooseModule } from '@nestjs/mongoose';
 import { WechatController } from './wechat.controller';
 import { WechatService } from './wechat.service';
+import { WECHAT_API_CLIENT } from './wechat-api.client';
+import { HttpWechatApiClient } from './http-wechat-api.client';
+import { LocalWechatApiClient } from './local-wechat-api.client';
+import { User, UserSchema } from '../user/schemas/user.schema';
+import { AuthModule } from '../auth/auth.module';
+import { UserModule } from '../user/user.module';
 
 @Module({
+  imports: [
+    MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]),
+    AuthModule,
+    UserModule, // 账号合并
+  ],
   controllers: [WechatController],
-  providers: [WechatService],
+  providers: [
+    WechatService,
+    HttpWechatApiClient,
+    LocalWechatApiClient,
+    {
+      // 微信接口客户端：默认调用微信接口，开发和测试环境可切换为本地桩
+      provide: WECHAT_API_CLIENT,
+      useFactory: (
+        configService: ConfigService,
+        httpClient: HttpWechatApiClient,
+        localClient: LocalWechatApiClient,
+      ) =>
+        configService.get<string>('WECHAT_API_MODE') === 'local'
+          ? localClient
+          : httpClient,
+      inject: [ConfigService, HttpWechatApiClient, LocalWechatApiClient],
+    },
+  ],
 })
 export class WechatModule {}
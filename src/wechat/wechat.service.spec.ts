@@ -0,0 +1,146 @@
+import { ConflictException, UnauthorizedException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { TokenService } from '../auth/token.service';
+import { AccountMergeService } from '../user/account-merge.service';
+import { User } from '../user/schemas/user.schema';
+import { WECHAT_API_CLIENT } from './wechat-api.client';
+import { WechatService } from './wechat.service';
+
+describe('WechatService', () => {
+  let service: WechatService;
+  const userModel = {
+    findOne: jest.fn(),
+    findById: jest.fn(),
+    create: jest.fn(),
+    updateOne: jest.fn(),
+  };
+  const wechatApiClient = {
+    code2Session: jest.fn(),
+  };
+  const tokenService = {
+    issue: jest.fn(),
+  };
+  const accountMergeService = {
+    merge: jest.fn(),
+  };
+
+  const session = { openid: 'openid-1', sessionKey: 'key' };
+  const userDoc = (fields: object = {}) => {
+    const user = { _id: new Types.ObjectId(), ...fields };
+    return {
+      ...user,
+      set: jest.fn(),
+      save: jest.fn(),
+      toObject: () => ({ ...user }),
+    };
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    wechatApiClient.code2Session.mockResolvedValue(session);
+    tokenService.issue.mockResolvedValue({ token: 'access' });
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        WechatService,
+        { provide: getModelToken(User.name), useValue: userModel },
+        { provide: WECHAT_API_CLIENT, useValue: wechatApiClient },
+        { provide: TokenService, useValue: tokenService },
+        { provide: AccountMergeService, useValue: accountMergeService },
+      ],
+    }).compile();
+    service = moduleRef.get(WechatService);
+  });
+
+  describe('login', () => {
+    it('首次登录自动注册', async () => {
+      userModel.findOne.mockResolvedValue(null);
+      userModel.create.mockResolvedValue(userDoc({ openid: 'openid-1' }));
+
+      const result = await service.login({ code: 'c1', nickname: '小明' });
+
+      expect(userModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          username: '小明',
+          openid: 'openid-1',
+          isWechatBound: true,
+        }),
+      );
+      expect(result).toMatchObject({ token: 'access', isNewUser: true });
+    });
+
+    it('同一微信并发首次登录时使用另一个请求创建的用户', async () => {
+      const existing = userDoc({ openid: 'openid-1' });
+      userModel.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(existing);
+      userModel.create.mockRejectedValue(
+        Object.assign(new Error('E11000 duplicate key'), { code: 11000 }),
+      );
+
+      const result = await service.login({ code: 'c1' });
+
+      expect(result.isNewUser).toBe(false);
+      expect(tokenService.issue).toHaveBeenCalledWith(existing, {});
+    });
+
+    it('已合并的账号不能登录', async () => {
+      userModel.findOne.mockResolvedValue(
+        userDoc({ openid: 'openid-1', mergedIntoUserId: new Types.ObjectId() }),
+      );
+
+      await expect(service.login({ code: 'c1' })).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+      expect(tokenService.issue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('merge', () => {
+    const current = userDoc();
+    const userId = current._id.toString();
+
+    beforeEach(() => {
+      userModel.findById.mockResolvedValue(current);
+    });
+
+    it('该微信已绑定设置了密码的账号时拒绝合并', async () => {
+      userModel.findOne.mockResolvedValue(
+        userDoc({ openid: 'openid-1', password: 'hashed' }),
+      );
+
+      await expect(service.merge(userId, 'c1')).rejects.toBeInstanceOf(
+        ConflictException,
+      );
+      expect(accountMergeService.merge).not.toHaveBeenCalled();
+    });
+
+    it('合并纯微信账号后释放其微信身份并绑定到当前账号', async () => {
+      const owner = userDoc({ openid: 'openid-1' });
+      userModel.findOne.mockResolvedValue(owner);
+      accountMergeService.merge.mockResolvedValue({ movedRecords: 3 });
+
+      const result = await service.merge(userId, 'c1');
+
+      expect(accountMergeService.merge).toHaveBeenCalledWith(
+        userId,
+        owner._id.toString(),
+      );
+      expect(userModel.updateOne).toHaveBeenCalledWith(
+        { _id: owner._id },
+        {
+          $set: { isWechatBound: false },
+          $unset: { openid: 1, unionid: 1 },
+        },
+      );
+      expect(current.set).toHaveBeenCalledWith(
+        expect.objectContaining({ openid: 'openid-1', isWechatBound: true }),
+      );
+      expect(userModel.updateOne.mock.invocationCallOrder[0]).toBeLessThan(
+        current.save.mock.invocationCallOrder[0],
+      );
+      expect(result.merge).toEqual({ movedRecords: 3 });
+    });
+  });
+});
@@ -1,4 +1,241 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { User, UserDocument } from '../user/schemas/user.schema';
+import { WECHAT_API_CLIENT } from './wechat-api.client';
+import type { WechatApiClient, WechatCodeSession } from './wechat-api.client';
+import { TokenService, type SessionClientInfo } from '../auth/token.service';
+import { AccountMergeService } from '../user/account-merge.service';
+import { WechatLoginDto } from './dto/wechat-login.dto';
 
+/**
+ * 微信小程序登录和账号绑定
+ *
+ * - 登录：code2Session 换取 openid，按 openid（其次 unionid）查找用户，不存在时自动注册，签发与邮箱登录相同的令牌
+ * - 绑定：把微信绑定到当前账号；该微信已注册过账号时需要先合并
+ * - 合并：该微信注册的账号（没有设置密码的纯微信账号）合并到当前账号，然后把微信绑定到当前账号
+ * - 解绑：只有设置了密码的账号可以解绑，避免解绑后无法登录
+ */
 @Injectable()
-export class WechatService {}
+export class WechatService {
+  private readonly logger = new Logger(WechatService.name);
+
+  constructor(
+    @InjectModel(User.name)
+    private readonly userModel: Model<UserDocument>,
+    @Inject(WECHAT_API_CLIENT)
+    private readonly wechatApiClient: WechatApiClient,
+    private readonly tokenService: TokenService,
+    private readonly accountMergeService: AccountMergeService,
+  ) {}
+
+  /**
+   * 微信登录（首次登录自动注册）
+   */
+  async login(loginDto: WechatLoginDto, client: SessionClientInfo = {}) {
+    const session = await this.wechatApiClient.code2Session(loginDto.code);
+
+    let user = await this.findByWechat(session);
+    let isNewUser = false;
+
+    if (user?.mergedIntoUserId) {
+      throw new UnauthorizedException(
+        '该账号已合并到其他账号，请使用合并后的账号登录',
+      );
+    }
+
+    if (!user) {
+      ({ user, isNewUser } = await this.register(session, loginDto));
+    } else if (
+      user.openid !== session.openid ||
+      (session.unionid && user.unionid !== session.unionid)
+    ) {
+      // 通过 unionid 找到的用户（其他应用注册），补充本小程序的 openid
+      user.set(this.wechatFields(session, loginDto));
+      await user.save();
+    }
+
+    const tokens = await this.tokenService.issue(user, client);
+
+    const userInfo = user.toObject<User>();
+    delete userInfo.password; // 不返回密码
+
+    return {
+      ...tokens,
+      user: userInfo,
+      isNewUser,
+    };
+  }
+
+  /**
+   * 把微信绑定到当前账号
+   */
+  async bind(userId: string, code: string) {
+    const session = await this.wechatApiClient.code2Session(code);
+    const user = await this.getBindableUser(userId, session);
+
+    const owner = await this.findByWechat(session);
+    if (owner && owner._id.toString() !== userId) {
+      throw new ConflictException(
+        '该微信已注册过账号，可以将该微信账号合并到当前账号',
+      );
+    }
+
+    return this.bindTo(user, session);
+  }
+
+  /**
+   * 把该微信注册的账号合并到当前账号，并绑定微信
+   */
+  async merge(userId: string, code: string) {
+    const session = await this.wechatApiClient.code2Session(code);
+    const user = await this.getBindableUser(userId, session);
+
+    const owner = await this.findByWechat(session);
+    if (!owner || owner._id.toString() === userId) {
+      return { merge: null, user: await this.bindTo(user, session) };
+    }
+
+    if (owner.password) {
+      throw new ConflictException(
+        '该微信已绑定其他邮箱账号，请登录该账号解绑微信后再绑定',
+      );
+    }
+
+    const merge = await this.accountMergeService.merge(
+      userId,
+      owner._id.toString(),
+    );
+
+    // 被合并的账号释放微信身份（openid 唯一），再绑定到当前账号
+    await this.userModel.updateOne(
+      { _id: owner._id },
+      {
+        $set: { isWechatBound: false },
+        $unset: { openid: 1, unionid: 1 },
+      },
+    );
+
+    return { merge, user: await this.bindTo(user, session) };
+  }
+
+  /**
+   * 解绑微信
+   */
+  async unbind(userId: string) {
+    const user = await this.userModel.findById(userId);
+    if (!user) {
+      throw new NotFoundException('用户不存在');
+    }
+    if (!user.isWechatBound) {
+      throw new BadRequestException('当前账号未绑定微信');
+    }
+    if (!user.password) {
+      throw new BadRequestException('请先设置邮箱和密码，再解绑微信');
+    }
+
+    await this.userModel.updateOne(
+      { _id: userId },
+      {
+        $set: { isWechatBound: false },
+        $unset: {
+          openid: 1,
+          unionid: 1,
+          wechatNickname: 1,
+          wechatAvatar: 1,
+          wechatBoundTime: 1,
+        },
+      },
+    );
+    this.logger.log(`✅ 微信解绑成功: userId=${userId}`);
+  }
+
+  /**
+   * 注册微信用户
+   */
+  private async register(session: WechatCodeSession, loginDto: WechatLoginDto) {
+    try {
+      const user = await this.userModel.create({
+        username: loginDto.nickname || `微信用户${session.openid.slice(-6)}`,
+        avatar: loginDto.avatar,
+        ...this.wechatFields(session, loginDto),
+      });
+      this.logger.log(
+        `✅ 微信用户注册成功: userId=${user._id.toString()}, openid=${session.openid}`,
+      );
+      return { user, isNewUser: true };
+    } catch (error) {
+      // 同一微信并发首次登录，另一个请求已创建用户
+      const user = this.isDuplicateKeyError(error)
+        ? await this.findByWechat(session)
+        : null;
+      if (!user) {
+        throw error;
+      }
+      return { user, isNewUser: false };
+    }
+  }
+
+  /**
+   * 按 openid（其次 unionid）查找用户
+   */
+  private async findByWechat(session: WechatCodeSession) {
+    const user = await this.userModel.findOne({ openid: session.openid });
+    if (user || !session.unionid) {
+      return user;
+    }
+    return this.userModel.findOne({ unionid: session.unionid });
+  }
+
+  /**
+   * 获取要绑定微信的用户（已绑定其他微信时需要先解绑）
+   */
+  private async getBindableUser(userId: string, session: WechatCodeSession) {
+    const user = await this.userModel.findById(userId);
+    if (!user) {
+      throw new NotFoundException('用户不存在');
+    }
+    if (user.openid && user.openid !== session.openid) {
+      throw new BadRequestException('当前账号已绑定其他微信，请先解绑');
+    }
+    return user;
+  }
+
+  private async bindTo(user: UserDocument, session: WechatCodeSession) {
+    user.set(this.wechatFields(session));
+    await user.save();
+    this.logger.log(
+      `✅ 微信绑定成功: userId=${user._id.toString()}, openid=${session.openid}`,
+    );
+
+    const userInfo = user.toObject<User>();
+    delete userInfo.password; // 不返回密码
+    return userInfo;
+  }
+
+  private isDuplicateKeyError(error: unknown): boolean {
+    return (error as { code?: number }).code === 11000;
+  }
+
+  private wechatFields(
+    session: WechatCodeSession,
+    profile: Partial<WechatLoginDto> = {},
+  ): Partial<User> {
+    return {
+      openid: session.openid,
+      ...(session.unionid ? { unionid: session.unionid } : {}),
+      ...(profile.nickname ? { wechatNickname: profile.nickname } : {}),
+      ...(profile.avatar ? { wechatAvatar: profile.avatar } : {}),
+      isWechatBound: true,
+      wechatBoundTime: new Date(),
+    };
+  }
+}
@@ -0,0 +1,107 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import { User, UserDocument } from './../src/user/schemas/user.schema';
+
+/**
+ * 全局登录守卫、角色和权限端到端测试（需要 MongoDB，MONGODB_URI）
+ */
+
+interface LoginData {
+  token: string;
+  user: { _id: string };
+}
+
+describe('Admin authorization (e2e)', () => {
+  let app: INestApplication<App>;
+  let userModel: Model<UserDocument>;
+  const suffix = Date.now();
+
+  const registerAndLogin = async (name: string) => {
+    const email = `e2e-${name}-${suffix}@example.com`;
+    await request(app.getHttpServer())
+      .post('/user/register')
+      .send({ username: `${name}${suffix}`, email, password: 'e2e-password' })
+      .expect(201);
+    const res = await request(app.getHttpServer())
+      .post('/user/login')
+      .send({ email, password: 'e2e-password' })
+      .expect(201);
+    return (res.body as { data: LoginData }).data;
+  };
+
+  const get = (url: string, token: string) =>
+    request(app.getHttpServer())
+      .get(url)
+      .set('Authorization', `Bearer ${token}`);
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({ whitelist: true, transform: true }),
+    );
+    await app.init();
+    userModel = app.get<Model<UserDocument>>(getModelToken(User.name));
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('requires login unless the route is public', async () => {
+    await request(app.getHttpServer()).get('/').expect(200);
+    await request(app.getHttpServer()).get('/payment/plans').expect(200);
+    await request(app.getHttpServer()).get('/user/info').expect(401);
+    await request(app.getHttpServer())
+      .get('/interview/admin/mock-interview-count')
+      .expect(401);
+  });
+
+  it('applies role changes to existing tokens immediately', async () => {
+    const admin = await registerAndLogin('admin');
+
+    await get('/interview/admin/mock-interview-count', admin.token).expect(403);
+
+    await userModel.updateOne(
+      { _id: admin.user._id },
+      { $set: { roles: ['user', 'admin'] } },
+    );
+    await get('/interview/admin/mock-interview-count', admin.token).expect(200);
+  });
+
+  it('grants fine-grained permissions through user:grant', async () => {
+    const admin = await registerAndLogin('granter');
+    const finance = await registerAndLogin('finance');
+    await userModel.updateOne(
+      { _id: admin.user._id },
+      { $set: { roles: ['user', 'admin'] } },
+    );
+
+    await request(app.getHttpServer())
+      .put(`/user/admin/users/${finance.user._id}/roles`)
+      .set('Authorization', `Bearer ${admin.token}`)
+      .send({ roles: ['user', 'finance'] })
+      .expect(200);
+
+    await get(
+      `/ledger/admin/users/${finance.user._id}/statement`,
+      finance.token,
+    ).expect(200);
+    await get('/payment/admin/plans', finance.token).expect(403);
+
+    // 财务没有 user:grant，不能再分配角色
+    await request(app.getHttpServer())
+      .put(`/user/admin/users/${admin.user._id}/roles`)
+      .set('Authorization', `Bearer ${finance.token}`)
+      .send({ roles: ['user'] })
+      .expect(403);
+  });
+});
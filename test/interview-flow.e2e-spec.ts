@@ -0,0 +1,163 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import { User, UserDocument } from './../src/user/schemas/user.schema';
+import {
+  AIInterviewResult,
+  AIInterviewResultDocument,
+} from './../src/interview/schemas/ai-interview-result.schema';
+
+/**
+ * 面试流程端到端测试
+ *
+ * 使用假模型（AI_FAKE_LLM=true），不需要任何 AI 服务的 API 密钥，只需要 MongoDB（MONGODB_URI）。
+ */
+
+interface StreamEvent {
+  type: string;
+  sessionId?: string;
+  resultId?: string;
+  content?: string;
+  data?: { resultId: string; questions: unknown[] };
+}
+
+// 读取 SSE 响应中的全部事件
+function parseEvents(body: string): StreamEvent[] {
+  return body
+    .split('\n\n')
+    .filter((block) => block.startsWith('data: '))
+    .map((block) => JSON.parse(block.slice('data: '.length)) as StreamEvent);
+}
+
+function collectStream(
+  res: request.Response,
+  callback: (err: Error | null, body: string) => void,
+) {
+  const stream = res as unknown as NodeJS.ReadableStream;
+  let body = '';
+  stream.setEncoding('utf8');
+  stream.on('data', (chunk: string) => (body += chunk));
+  stream.on('end', () => callback(null, body));
+}
+
+describe('Interview flows (e2e)', () => {
+  let app: INestApplication<App>;
+  let token: string;
+  const email = `e2e-${Date.now()}@example.com`;
+  const resumeContent =
+    '张三，3 年后端开发经验，熟悉 TypeScript、NestJS 和 Redis，负责过电商订单系统的设计和性能优化。';
+
+  const postStream = (url: string, body: object) =>
+    request(app.getHttpServer())
+      .post(url)
+      .set('Authorization', `Bearer ${token}`)
+      .send(body)
+      .buffer(true)
+      .parse(collectStream)
+      .then((res) => parseEvents(res.body as string));
+
+  beforeAll(async () => {
+    process.env.AI_FAKE_LLM = 'true';
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({ whitelist: true, transform: true }),
+    );
+    await app.init();
+
+    await request(app.getHttpServer())
+      .post('/user/register')
+      .send({ username: `e2e${Date.now()}`, email, password: 'e2e-password' })
+      .expect(201);
+
+    await app
+      .get<Model<UserDocument>>(getModelToken(User.name))
+      .updateOne(
+        { email },
+        { $set: { resumeRemainingCount: 1, specialRemainingCount: 1 } },
+      );
+
+    const login = await request(app.getHttpServer())
+      .post('/user/login')
+      .send({ email, password: 'e2e-password' })
+      .expect(201);
+    token = (login.body as { data: { token: string } }).data.token;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('generates a resume quiz', async () => {
+    const events = await postStream('/interview/resume/quiz/stream', {
+      positionName: '后端开发工程师',
+      jd: '负责电商后端服务开发，熟悉 Redis 和缓存设计',
+      resumeContent,
+    });
+
+    const result = events.find((event) => event.type === 'yati-complete');
+    expect(result?.data?.questions).toHaveLength(3);
+    expect(events[events.length - 1].type).toBe('complete');
+  });
+
+  it('runs a mock interview and generates the assessment report', async () => {
+    const startEvents = await postStream('/interview/mock/start', {
+      interviewType: 'special',
+      positionName: '后端开发工程师',
+      resumeContent,
+    });
+    const start = startEvents.find((event) => event.type === 'start');
+    expect(start?.sessionId).toBeDefined();
+
+    const answer = (content: string) =>
+      postStream('/interview/mock/answer', {
+        sessionId: start!.sessionId,
+        answer: content,
+      });
+
+    // 自我介绍 → 第一题
+    const first = await answer(
+      '我叫张三，有 3 年后端开发经验，最近负责电商订单系统。',
+    );
+    expect(first.some((event) => event.type === 'question')).toBe(true);
+
+    // 第一题 → 第二题
+    const second = await answer(
+      '我负责订单模块，把下单接口的 P99 从 800ms 优化到了 200ms。',
+    );
+    expect(second.some((event) => event.type === 'question')).toBe(true);
+
+    // 第二题 → 面试结束
+    const last = await answer('先更新数据库再删除缓存，并用延迟双删兜底。');
+    const end = last.find((event) => event.type === 'end');
+    expect(end?.resultId).toBeDefined();
+
+    // 评估报告在后台生成
+    const resultModel = app.get<Model<AIInterviewResultDocument>>(
+      getModelToken(AIInterviewResult.name),
+    );
+    let result: AIInterviewResult | null = null;
+    for (let i = 0; i < 50; i++) {
+      result = await resultModel.findOne({ resultId: end!.resultId }).lean();
+      if (
+        result?.reportStatus === 'completed' ||
+        result?.reportStatus === 'failed'
+      ) {
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+
+    expect(result?.reportStatus).toBe('completed');
+    expect(result?.overallScore).toBe(76);
+    expect(result?.aiModel).toBe('fake-llm');
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * 单元测试用的 Mongoose 查询桩
+ *
+ * 链式调用（sort、select、lean 等）返回查询本身，exec 或 await 时得到给定的结果，
+ * 用于在 Model 的 jest.fn() 中模拟 findOne().lean()、find().sort().exec() 这类调用。
+ */
+export class MockQuery<T> implements PromiseLike<T> {
+  sort = jest.fn(() => this);
+  select = jest.fn(() => this);
+  skip = jest.fn(() => this);
+  limit = jest.fn(() => this);
+  lean = jest.fn(() => this);
+  populate = jest.fn(() => this);
+  exec = jest.fn(() => Promise.resolve(this.result));
+
+  constructor(private readonly result: T) {}
+
+  then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+  ): Promise<TResult1 | TResult2> {
+    return Promise.resolve(this.result).then(onfulfilled, onrejected);
+  }
+}
+
+export function mockQuery<T>(result: T): MockQuery<T> {
+  return new MockQuery(result);
+}
@@ -0,0 +1,233 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { randomUUID } from 'crypto';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AppModule } from './../src/app.module';
+import { User, UserDocument } from './../src/user/schemas/user.schema';
+import {
+  UserTransaction,
+  UserTransactionDocument,
+  UserTransactionType,
+} from './../src/user/schemas/user-transaction.schema';
+import {
+  PaymentRecord,
+  PaymentRecordDocument,
+  PaymentRecordStatus,
+} from './../src/payment/payment-record.schema';
+import { PaymentChannel } from './../src/payment/payment.types';
+import {
+  ReconciliationIssueStatus,
+  ReconciliationIssueType,
+} from './../src/payment/reconciliation/reconciliation-issue.schema';
+
+interface IssueView {
+  _id: string;
+  type: ReconciliationIssueType;
+  orderId: string;
+  status: ReconciliationIssueStatus;
+}
+
+/**
+ * 支付对账端到端测试
+ *
+ * 使用本地文件账单（LocalFileBillLoader），账单写入临时目录，只需要 MongoDB（MONGODB_URI）。
+ */
+describe('Payment reconciliation (e2e)', () => {
+  let app: INestApplication<App>;
+  let token: string;
+  let userId: string;
+  let paymentRecordModel: Model<PaymentRecordDocument>;
+  let userTransactionModel: Model<UserTransactionDocument>;
+  const billDir = mkdtempSync(join(tmpdir(), 'bills-'));
+  const billDate = '2001-01-01';
+  const paidAt = new Date('2001-01-01T10:00:00+08:00');
+  const email = `e2e-recon-${Date.now()}@example.com`;
+  const ids = {
+    matched: randomUUID(),
+    mismatch: randomUUID(),
+    missingInSystem: randomUUID(),
+    missingInBill: randomUUID(),
+    duplicate: randomUUID(),
+    stuck: randomUUID(),
+    missingTransaction: randomUUID(),
+  };
+
+  const createOrder = async (
+    orderId: string,
+    options: { status?: PaymentRecordStatus; transaction?: boolean } = {},
+  ) => {
+    const status = options.status ?? PaymentRecordStatus.SUCCESS;
+    await paymentRecordModel.create({
+      orderId,
+      userId,
+      user: new Types.ObjectId(userId),
+      channel: PaymentChannel.ALIPAY,
+      amount: 28.8,
+      planId: 'pro',
+      planName: '专业版套餐',
+      status,
+      paidAt: status === PaymentRecordStatus.SUCCESS ? paidAt : undefined,
+      notificationPayload: {
+        userId,
+        outTradeNo: orderId,
+        buyerPayAmount: '28.8',
+        tradeNo: `T_${orderId}`,
+        currency: 'CNY',
+        metadata: { planId: 'pro', planName: '专业版套餐' },
+      },
+    });
+    if (options.transaction ?? true) {
+      await userTransactionModel.create({
+        user: new Types.ObjectId(userId),
+        userIdentifier: userId,
+        type: UserTransactionType.RECHARGE,
+        amount: 28.8,
+        relatedOrderId: orderId,
+      });
+    }
+  };
+
+  const runReconciliation = () =>
+    request(app.getHttpServer())
+      .post('/payment/admin/reconciliation/run')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ channel: PaymentChannel.ALIPAY, billDate })
+      .expect(201);
+
+  const listIssues = async () => {
+    const res = await request(app.getHttpServer())
+      .get('/payment/admin/reconciliation/issues')
+      .query({ channel: PaymentChannel.ALIPAY, billDate, limit: 100 })
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+    const { issues } = (res.body as { data: { issues: IssueView[] } }).data;
+    const ours = new Set<string>(Object.values(ids));
+    return issues.filter((issue) => ours.has(issue.orderId));
+  };
+
+  beforeAll(async () => {
+    process.env.PAYMENT_BILL_DIR = billDir;
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({ whitelist: true, transform: true }),
+    );
+    await app.init();
+
+    const userModel = app.get<Model<UserDocument>>(getModelToken(User.name));
+    paymentRecordModel = app.get(getModelToken(PaymentRecord.name));
+    userTransactionModel = app.get(getModelToken(UserTransaction.name));
+
+    await request(app.getHttpServer())
+      .post('/user/register')
+      .send({
+        username: `e2erecon${Date.now()}`,
+        email,
+        password: 'e2e-password',
+      })
+      .expect(201);
+    await userModel.updateOne({ email }, { $set: { roles: ['admin'] } });
+    const user = await userModel.findOne({ email }).lean();
+    userId = String(user!._id);
+
+    const login = await request(app.getHttpServer())
+      .post('/user/login')
+      .send({ email, password: 'e2e-password' })
+      .expect(201);
+    token = (login.body as { data: { token: string } }).data.token;
+
+    await createOrder(ids.matched);
+    await createOrder(ids.mismatch);
+    await createOrder(ids.missingInBill);
+    await createOrder(ids.duplicate);
+    await createOrder(ids.stuck, { status: PaymentRecordStatus.PENDING });
+    await createOrder(ids.missingTransaction, { transaction: false });
+
+    const row = (orderId: string, amount = '28.80') =>
+      `payment,${orderId},T_${orderId},,${amount},2001-01-01T10:00:00+08:00`;
+    writeFileSync(
+      join(billDir, `${PaymentChannel.ALIPAY}-${billDate}.csv`),
+      [
+        'type,orderId,tradeNo,refundId,amount,tradedAt',
+        row(ids.matched),
+        row(ids.mismatch, '68.80'),
+        row(ids.missingInSystem),
+        row(ids.duplicate),
+        row(ids.duplicate),
+        row(ids.stuck),
+        row(ids.missingTransaction),
+      ].join('\n'),
+    );
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('flags every kind of drift between the bill and the system', async () => {
+    await runReconciliation();
+    const issues = await listIssues();
+    const typesOf = (orderId: string) =>
+      issues.filter((i) => i.orderId === orderId).map((i) => i.type);
+
+    expect(typesOf(ids.matched)).toEqual([]);
+    expect(typesOf(ids.mismatch)).toEqual([
+      ReconciliationIssueType.AMOUNT_MISMATCH,
+    ]);
+    expect(typesOf(ids.missingInSystem)).toEqual([
+      ReconciliationIssueType.MISSING_IN_SYSTEM,
+    ]);
+    expect(typesOf(ids.missingInBill)).toEqual([
+      ReconciliationIssueType.MISSING_IN_BILL,
+    ]);
+    expect(typesOf(ids.duplicate)).toEqual([ReconciliationIssueType.DUPLICATE]);
+    expect(typesOf(ids.stuck)).toEqual([ReconciliationIssueType.STUCK]);
+    expect(typesOf(ids.missingTransaction)).toEqual([
+      ReconciliationIssueType.MISSING_TRANSACTION,
+    ]);
+  });
+
+  it('repairs a missing recharge transaction and keeps handled issues closed on re-run', async () => {
+    const issues = await listIssues();
+    const missingTransaction = issues.find(
+      (i) => i.orderId === ids.missingTransaction,
+    )!;
+    const duplicate = issues.find((i) => i.orderId === ids.duplicate)!;
+
+    await request(app.getHttpServer())
+      .post(
+        `/payment/admin/reconciliation/issues/${missingTransaction._id}/resolve`,
+      )
+      .set('Authorization', `Bearer ${token}`)
+      .send({ action: 'retry' })
+      .expect(201);
+    await request(app.getHttpServer())
+      .post(`/payment/admin/reconciliation/issues/${duplicate._id}/resolve`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ action: 'ignore', note: '渠道已确认重复通知' })
+      .expect(201);
+
+    const transaction = await userTransactionModel
+      .findOne({ relatedOrderId: ids.missingTransaction })
+      .lean();
+    expect(transaction?.type).toBe(UserTransactionType.RECHARGE);
+
+    await runReconciliation();
+    const open = (await listIssues()).filter(
+      (i) => i.status === ReconciliationIssueStatus.OPEN,
+    );
+    expect(open.map((i) => i.orderId).sort()).toEqual(
+      [ids.mismatch, ids.missingInSystem, ids.missingInBill, ids.stuck].sort(),
+    );
+  });
+});
@@ -0,0 +1,139 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import { User, UserDocument } from './../src/user/schemas/user.schema';
+
+/**
+ * 微信小程序登录、绑定和合并端到端测试
+ *
+ * 使用本地微信接口桩（WECHAT_API_MODE=local，code 为 `openid:<openid>` 时直接使用该 openid），
+ * 不需要小程序的 AppID 和 AppSecret，只需要 MongoDB（MONGODB_URI）。
+ */
+
+interface LoginData {
+  token: string;
+  isNewUser?: boolean;
+  user: { _id: string; maiCoinBalance?: number };
+}
+
+describe('WeChat login (e2e)', () => {
+  let app: INestApplication<App>;
+  let userModel: Model<UserDocument>;
+  let emailToken: string;
+  const suffix = Date.now();
+  const email = `e2e-wechat-${suffix}@example.com`;
+
+  const wechatLogin = (openid: string) =>
+    request(app.getHttpServer())
+      .post('/wechat/login')
+      .send({ code: `openid:${openid}`, nickname: '微信测试' })
+      .expect(201)
+      .then((res) => (res.body as { data: LoginData }).data);
+
+  const post = (url: string, token: string, body: object = {}) =>
+    request(app.getHttpServer())
+      .post(url)
+      .set('Authorization', `Bearer ${token}`)
+      .send(body);
+
+  beforeAll(async () => {
+    process.env.WECHAT_API_MODE = 'local';
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({ whitelist: true, transform: true }),
+    );
+    await app.init();
+    userModel = app.get<Model<UserDocument>>(getModelToken(User.name));
+
+    await request(app.getHttpServer())
+      .post('/user/register')
+      .send({ username: `e2e${suffix}`, email, password: 'e2e-password' })
+      .expect(201);
+
+    const login = await request(app.getHttpServer())
+      .post('/user/login')
+      .send({ email, password: 'e2e-password' })
+      .expect(201);
+    emailToken = (login.body as { data: LoginData }).data.token;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('registers on first login and finds the same user afterwards', async () => {
+    const openid = `o_e2e_first_${suffix}`;
+
+    const first = await wechatLogin(openid);
+    expect(first.isNewUser).toBe(true);
+
+    const second = await wechatLogin(openid);
+    expect(second.isNewUser).toBe(false);
+    expect(second.user._id).toBe(first.user._id);
+
+    await request(app.getHttpServer())
+      .get('/user/info')
+      .set('Authorization', `Bearer ${second.token}`)
+      .expect(200);
+  });
+
+  it('binds and unbinds a WeChat identity on an email account', async () => {
+    const openid = `o_e2e_bind_${suffix}`;
+
+    await post('/wechat/bind', emailToken, {
+      code: `openid:${openid}`,
+    }).expect(201);
+    expect(await userModel.findOne({ email }).lean()).toMatchObject({
+      openid,
+      isWechatBound: true,
+    });
+
+    await post('/wechat/unbind', emailToken).expect(201);
+    const user = await userModel.findOne({ email }).lean();
+    expect(user?.openid).toBeUndefined();
+    expect(user?.isWechatBound).toBe(false);
+  });
+
+  it('merges a WeChat-only account into the email account', async () => {
+    const openid = `o_e2e_merge_${suffix}`;
+    const wechatAccount = await wechatLogin(openid);
+    await userModel.updateOne(
+      { _id: wechatAccount.user._id },
+      { $set: { maiCoinBalance: 10 } },
+    );
+
+    // 该微信已注册过账号，不能直接绑定
+    await post('/wechat/bind', emailToken, {
+      code: `openid:${openid}`,
+    }).expect(409);
+
+    await post('/wechat/merge', emailToken, {
+      code: `openid:${openid}`,
+    }).expect(201);
+
+    const target = await userModel.findOne({ email }).lean();
+    expect(target?.openid).toBe(openid);
+    expect(target?.maiCoinBalance).toBe(10);
+
+    const source = await userModel.findById(wechatAccount.user._id).lean();
+    expect(source?.mergedIntoUserId).toBe(target?._id.toString());
+    expect(source?.maiCoinBalance).toBe(0);
+
+    // 被合并账号的令牌失效，微信登录进入合并后的账号
+    await request(app.getHttpServer())
+      .get('/user/info')
+      .set('Authorization', `Bearer ${wechatAccount.token}`)
+      .expect(401);
+    const relogin = await wechatLogin(openid);
+    expect(relogin.user._id).toBe(target?._id.toString());
+  });
+});
@@ -0,0 +1,124 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { randomUUID } from 'crypto';
+import { AppModule } from './../src/app.module';
+import { User, UserDocument } from './../src/user/schemas/user.schema';
+import {
+  PaymentRecord,
+  PaymentRecordDocument,
+  PaymentRecordStatus,
+} from './../src/payment/payment-record.schema';
+import { PaymentChannel } from './../src/payment/payment.types';
+import { WechatPayLocalStub } from './wechat-pay.stub';
+import type { WechatPayNotifyHeaders } from './../src/payment/providers/wechat-payment.service';
+
+/**
+ * 微信支付回调通知端到端测试
+ *
+ * 使用本地签名桩（WechatPayLocalStub）生成签名和加密的回调通知，不需要真实商户号，只需要 MongoDB（MONGODB_URI）。
+ */
+describe('WeChat Pay notification (e2e)', () => {
+  let app: INestApplication<App>;
+  let userModel: Model<UserDocument>;
+  let paymentRecordModel: Model<PaymentRecordDocument>;
+  let userId: string;
+  const stub = new WechatPayLocalStub();
+  const email = `e2e-pay-${Date.now()}@example.com`;
+
+  const postNotification = (notification: {
+    headers: WechatPayNotifyHeaders;
+    body: string;
+  }) =>
+    request(app.getHttpServer())
+      .post('/payment/wechat/notify')
+      .set(notification.headers as Record<string, string>)
+      .set('Content-Type', 'application/json')
+      .send(notification.body);
+
+  const createOrder = async () => {
+    const orderId = randomUUID().replace(/-/g, '');
+    await paymentRecordModel.create({
+      orderId,
+      userId,
+      user: new Types.ObjectId(userId),
+      channel: PaymentChannel.WECHAT,
+      amount: 28.8,
+      planId: 'pro',
+      planName: '专业版套餐',
+      status: PaymentRecordStatus.PENDING,
+      metadata: { planId: 'pro', planName: '专业版套餐', amount: 28.8, userId },
+    });
+    return orderId;
+  };
+
+  beforeAll(async () => {
+    Object.assign(process.env, stub.config, { PAYMENT_MODE: 'live' });
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication({ rawBody: true });
+    app.useGlobalPipes(
+      new ValidationPipe({ whitelist: true, transform: true }),
+    );
+    await app.init();
+
+    userModel = app.get(getModelToken(User.name));
+    paymentRecordModel = app.get(getModelToken(PaymentRecord.name));
+
+    await request(app.getHttpServer())
+      .post('/user/register')
+      .send({
+        username: `e2epay${Date.now()}`,
+        email,
+        password: 'e2e-password',
+      })
+      .expect(201);
+    const user = await userModel.findOne({ email }).lean();
+    userId = String(user!._id);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('completes the order once for a signed notification', async () => {
+    const orderId = await createOrder();
+    const before = await userModel.findById(userId).lean();
+    const notification = stub.buildNotification({
+      out_trade_no: orderId,
+      amount: { total: 2880, payer_total: 2880, currency: 'CNY' },
+    });
+
+    await postNotification(notification).expect(204);
+    // 重复通知不会重复发放权益
+    await postNotification(notification).expect(204);
+
+    const record = await paymentRecordModel.findOne({ orderId }).lean();
+    expect(record?.status).toBe(PaymentRecordStatus.SUCCESS);
+
+    const after = await userModel.findById(userId).lean();
+    expect(after!.resumeRemainingCount).toBe(before!.resumeRemainingCount + 1);
+  });
+
+  it('rejects a notification with an invalid signature', async () => {
+    const orderId = await createOrder();
+    const notification = stub.buildNotification({
+      out_trade_no: orderId,
+      amount: { total: 2880, currency: 'CNY' },
+    });
+
+    await postNotification({
+      headers: notification.headers,
+      body: notification.body.replace('TRANSACTION', 'TAMPERED'),
+    }).expect(500);
+
+    const record = await paymentRecordModel.findOne({ orderId }).lean();
+    expect(record?.status).toBe(PaymentRecordStatus.PENDING);
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  createCipheriv,
+  createSign,
+  generateKeyPairSync,
+  randomBytes,
+} from 'crypto';
+import type {
+  WechatPayNotification,
+  WechatPayNotifyHeaders,
+  WechatPayTransaction,
+} from './../src/payment/providers/wechat-payment.service';
+
+/**
+ * 微信支付本地签名桩
+ *
+ * 生成一套本地密钥（商户私钥、平台密钥对、APIv3 密钥），并按微信支付 v3 的规则
+ * 对回调通知签名和加密，用于离线测试回调处理，不需要真实的商户号和平台证书。
+ *
+ * 用法：把 config 中的配置写入环境变量（WechatPaymentService 从 ConfigService 读取），
+ * 再把 buildNotification 生成的请求头和请求体 POST 到 /payment/wechat/notify。
+ */
+export class WechatPayLocalStub {
+  readonly mchId = '1900000001';
+  readonly appId = 'wx_local_stub';
+  readonly platformSerial = 'LOCAL_PLATFORM_SERIAL';
+  readonly apiV3Key = randomBytes(16).toString('hex'); // 32 个字符
+  private readonly merchantKeys = WechatPayLocalStub.generateKeys();
+  private readonly platformKeys = WechatPayLocalStub.generateKeys();
+
+  /**
+   * WechatPaymentService 需要的配置
+   */
+  get config(): Record<string, string> {
+    return {
+      WECHAT_PAY_APP_ID: this.appId,
+      WECHAT_PAY_MCH_ID: this.mchId,
+      WECHAT_PAY_SERIAL_NO: 'LOCAL_MERCHANT_SERIAL',
+      WECHAT_PAY_PRIVATE_KEY: this.merchantKeys.privateKey,
+      WECHAT_PAY_API_V3_KEY: this.apiV3Key,
+      WECHAT_PAY_PLATFORM_PUBLIC_KEY: this.platformKeys.publicKey,
+      WECHAT_PAY_PLATFORM_SERIAL: this.platformSerial,
+    };
+  }
+
+  /**
+   * 生成支付成功的回调通知
+   *
+   * @param transaction 交易信息（至少包含 out_trade_no 和 amount）
+   * @returns 回调请求头和原始请求体
+   */
+  buildNotification(
+    transaction: Pick<WechatPayTransaction, 'out_trade_no' | 'amount'> &
+      Partial<WechatPayTransaction>,
+  ): { headers: WechatPayNotifyHeaders; body: string } {
+    const plaintext = JSON.stringify({
+      appid: this.appId,
+      mchid: this.mchId,
+      transaction_id: `4200000000${Date.now()}`,
+      trade_type: 'NATIVE',
+      trade_state: 'SUCCESS',
+      trade_state_desc: '支付成功',
+      success_time: new Date().toISOString(),
+      payer: { openid: 'o_local_stub_openid' },
+      ...transaction,
+    });
+
+    const nonce = randomBytes(6).toString('hex'); // 12 个字符
+    const associatedData = 'transaction';
+    const cipher = createCipheriv(
+      'aes-256-gcm',
+      Buffer.from(this.apiV3Key, 'utf8'),
+      Buffer.from(nonce, 'utf8'),
+    );
+    cipher.setAAD(Buffer.from(associatedData, 'utf8'));
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext, 'utf8'),
+      cipher.final(),
+      cipher.getAuthTag(),
+    ]).toString('base64');
+
+    const notification: WechatPayNotification = {
+      id: randomBytes(16).toString('hex'),
+      event_type: 'TRANSACTION.SUCCESS',
+      resource: {
+        algorithm: 'AEAD_AES_256_GCM',
+        ciphertext,
+        nonce,
+        associated_data: associatedData,
+      },
+    };
+    const body = JSON.stringify(notification);
+
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headerNonce = randomBytes(16).toString('hex');
+    const signature = createSign('RSA-SHA256')
+      .update(`${timestamp}\n${headerNonce}\n${body}\n`)
+      .sign(this.platformKeys.privateKey, 'base64');
+
+    return {
+      headers: {
+        'wechatpay-timestamp': timestamp,
+        'wechatpay-nonce': headerNonce,
+        'wechatpay-signature': signature,
+        'wechatpay-serial': this.platformSerial,
+      },
+      body,
+    };
+  }
+
+  private static generateKeys() {
+    return generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    });
+  }
+}